@@ -3,7 +3,7 @@ import { render, screen, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { PracticeTestPage } from '../pages/PracticeTestPage';
-import { papersAPI, testsAPI } from '../services/api';
+import { papersAPI, taxonomyAPI, testsAPI } from '../services/api';
 
 // Mock the API services
 jest.mock('../services/api', () => ({
@@ -14,6 +14,9 @@ jest.mock('../services/api', () => ({
     createTemplate: jest.fn(),
     startTest: jest.fn(),
     getQuestions: jest.fn()
+  },
+  taxonomyAPI: {
+    getTags: jest.fn()
   }
 }));
 
@@ -37,6 +40,7 @@ describe('PracticeTestPage', () => {
   beforeEach(() => {
     // Reset mocks
     jest.clearAllMocks();
+    (taxonomyAPI.getTags as jest.Mock).mockResolvedValue({ data: [], success: true });
   });
 
   it('shows loading state initially', () => {
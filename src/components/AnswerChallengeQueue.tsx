@@ -0,0 +1,378 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { challengesAPI, questionsAPI } from '../services/api';
+import { AnswerKeyChallenge, ChallengeStatus, RegradeJob } from '../types';
+import { RichContent } from './RichContent';
+import { normalizeQuestionType, usesOptions } from '../utils/questionTypes';
+import {
+  CHALLENGE_STATUS_COLORS,
+  CHALLENGE_STATUS_LABELS,
+  normalizeChallenges,
+  normalizeRegradeJob,
+  pollRegradeJob,
+  regradeProgress,
+} from '../utils/answerChallenges';
+
+interface AnswerChallengeQueueProps {
+  open: boolean;
+  onClose: () => void;
+  onResolved: (challenge: AnswerKeyChallenge, decision: 'accepted' | 'rejected') => void;
+}
+
+interface ChallengedQuestion {
+  question_id: number;
+  question_text: string;
+  question_type?: string;
+  correct_option_index?: number;
+  correct_option_indices?: number[];
+  options?: Array<{ option_text: string; option_order?: number }>;
+}
+
+const optionLabel = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Admin queue of answer key challenges: the candidate's reason next to the
+ * question and its key, accepting with a corrected key (which regrades every
+ * affected attempt) or rejecting with a note
+ */
+export const AnswerChallengeQueue: React.FC<AnswerChallengeQueueProps> = ({ open, onClose, onResolved }) => {
+  const [statusFilter, setStatusFilter] = useState<ChallengeStatus>('pending');
+  const [challenges, setChallenges] = useState<AnswerKeyChallenge[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<AnswerKeyChallenge | null>(null);
+  const [question, setQuestion] = useState<ChallengedQuestion | null>(null);
+  const [loadingQuestion, setLoadingQuestion] = useState(false);
+  const [keyIndices, setKeyIndices] = useState<number[]>([]);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [job, setJob] = useState<RegradeJob | null>(null);
+  const pollCancelled = useRef(false);
+
+  const loadChallenges = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await challengesAPI.getChallenges({ status: statusFilter });
+      setChallenges(normalizeChallenges(response.data));
+    } catch (err: any) {
+      console.error('[ChallengeQueue] Error loading challenges:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to load challenges');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(null);
+    loadChallenges();
+  }, [open, loadChallenges]);
+
+  useEffect(() => {
+    pollCancelled.current = !open;
+    return () => {
+      pollCancelled.current = true;
+    };
+  }, [open]);
+
+  const handleSelect = async (challenge: AnswerKeyChallenge) => {
+    setSelected(challenge);
+    setQuestion(null);
+    setNote('');
+    setJob(null);
+    setError(null);
+    setLoadingQuestion(true);
+    try {
+      const response = await questionsAPI.getQuestion(challenge.question_id);
+      const loaded: ChallengedQuestion = response.data;
+      setQuestion(loaded);
+      const type = normalizeQuestionType(loaded.question_type);
+      setKeyIndices(
+        type === 'MultiSelect'
+          ? (loaded.correct_option_indices || []).map(Number)
+          : [challenge.proposed_option_index ?? Number(loaded.correct_option_index)]
+      );
+    } catch (err: any) {
+      console.error(`[ChallengeQueue] Error loading question ${challenge.question_id}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to load the question');
+    } finally {
+      setLoadingQuestion(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!selected || !question) return;
+    const type = normalizeQuestionType(question.question_type);
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await challengesAPI.acceptChallenge(selected.challenge_id, {
+        ...(type === 'MultiSelect'
+          ? { correct_option_indices: [...keyIndices].sort((a, b) => a - b) }
+          : usesOptions(type) ? { correct_option_index: keyIndices[0] } : {}),
+        ...(note.trim() ? { note: note.trim() } : {}),
+      });
+      onResolved(selected, 'accepted');
+      setSelected({ ...selected, status: 'accepted' });
+      const [accepted] = normalizeChallenges([response.data?.challenge ?? response.data]);
+      const started = normalizeRegradeJob(response.data?.regrade_job) ??
+        (accepted?.regrade_job_id ? { job_id: accepted.regrade_job_id, status: 'queued' as const, affected_attempts: 0, processed_attempts: 0 } : null);
+      if (started) {
+        setJob(started);
+        await pollRegradeJob(started.job_id, setJob, { isCancelled: () => pollCancelled.current });
+      }
+      await loadChallenges();
+    } catch (err: any) {
+      console.error(`[ChallengeQueue] Error accepting challenge ${selected.challenge_id}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to accept the challenge');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!selected) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await challengesAPI.rejectChallenge(selected.challenge_id, note.trim());
+      onResolved(selected, 'rejected');
+      setSelected(null);
+      await loadChallenges();
+    } catch (err: any) {
+      console.error(`[ChallengeQueue] Error rejecting challenge ${selected.challenge_id}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to reject the challenge');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const questionType = question ? normalizeQuestionType(question.question_type) : null;
+  const sameQuestionCount = selected
+    ? challenges.filter(challenge => challenge.question_id === selected.question_id && challenge.status === 'pending').length
+    : 0;
+
+  const renderKeyEditor = () => {
+    if (!question || !questionType) return null;
+    const options = [...(question.options || [])].sort((a, b) => (a.option_order ?? 0) - (b.option_order ?? 0));
+    if (!usesOptions(questionType)) {
+      return (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Correct the answer of this question in the question form first; accepting regrades every attempt against the
+          current answer.
+        </Alert>
+      );
+    }
+    if (questionType === 'MultiSelect') {
+      return options.map((option, index) => (
+        <FormControlLabel
+          key={index}
+          sx={{ display: 'flex' }}
+          control={
+            <Checkbox
+              checked={keyIndices.includes(index)}
+              onChange={(e) => setKeyIndices(prev =>
+                e.target.checked ? [...prev, index] : prev.filter(value => value !== index)
+              )}
+            />
+          }
+          label={<span>{optionLabel(index)}. <RichContent content={option.option_text} inline /></span>}
+        />
+      ));
+    }
+    return (
+      <RadioGroup value={keyIndices[0] ?? ''} onChange={(e) => setKeyIndices([Number(e.target.value)])}>
+        {options.map((option, index) => (
+          <FormControlLabel
+            key={index}
+            value={index}
+            control={<Radio />}
+            label={
+              <span>
+                {optionLabel(index)}. <RichContent content={option.option_text} inline />
+                {index === Number(question.correct_option_index) ? ' (current key)' : ''}
+                {index === selected?.proposed_option_index ? ' (proposed)' : ''}
+              </span>
+            }
+          />
+        ))}
+      </RadioGroup>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth aria-labelledby="challenge-queue-title">
+      <DialogTitle id="challenge-queue-title">Answer Key Challenges</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {selected ? (
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              <Typography variant="subtitle1" fontWeight="bold">Question #{selected.question_id}</Typography>
+              <Chip size="small" color={CHALLENGE_STATUS_COLORS[selected.status]} label={CHALLENGE_STATUS_LABELS[selected.status]} />
+              {sameQuestionCount > 1 && (
+                <Chip size="small" variant="outlined" label={`${sameQuestionCount} candidates challenged this question`} />
+              )}
+            </Box>
+            <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+              <Typography variant="caption" color="text.secondary">
+                {selected.candidate_name || 'A candidate'} (attempt #{selected.attempt_id}) wrote:
+              </Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{selected.reason}</Typography>
+            </Paper>
+
+            {loadingQuestion ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : question && (
+              <>
+                <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+                  <RichContent content={question.question_text} />
+                </Paper>
+                {selected.status === 'pending' && (
+                  <>
+                    <Typography variant="subtitle2" gutterBottom>Correct answer</Typography>
+                    {renderKeyEditor()}
+                    <TextField
+                      label="Note to the candidate"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      multiline
+                      minRows={2}
+                      fullWidth
+                      disabled={busy}
+                      sx={{ mt: 2 }}
+                      helperText="Required when rejecting"
+                    />
+                  </>
+                )}
+              </>
+            )}
+
+            {selected.resolution_note && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                Resolution note: {selected.resolution_note}
+              </Typography>
+            )}
+
+            {job && (
+              <Box sx={{ mt: 2 }}>
+                <Divider sx={{ mb: 2 }} />
+                {job.status === 'failed' ? (
+                  <Alert severity="error">Regrade failed: {job.error || 'unknown error'}</Alert>
+                ) : job.status === 'completed' ? (
+                  <Alert severity="success">
+                    Regrade complete: {job.affected_attempts} attempt{job.affected_attempts === 1 ? '' : 's'} rescored.
+                  </Alert>
+                ) : (
+                  <>
+                    <Typography variant="body2" gutterBottom>
+                      Regrading attempts… {job.processed_attempts} of {job.affected_attempts || '?'}
+                    </Typography>
+                    <LinearProgress
+                      variant={job.affected_attempts > 0 ? 'determinate' : 'indeterminate'}
+                      value={regradeProgress(job)}
+                    />
+                  </>
+                )}
+              </Box>
+            )}
+          </Box>
+        ) : (
+          <>
+            <FormControl size="small" sx={{ minWidth: 200, mb: 2 }}>
+              <InputLabel id="challenge-status-label">Status</InputLabel>
+              <Select
+                labelId="challenge-status-label"
+                label="Status"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as ChallengeStatus)}
+              >
+                <MenuItem value="pending">Pending</MenuItem>
+                <MenuItem value="accepted">Accepted</MenuItem>
+                <MenuItem value="rejected">Rejected</MenuItem>
+              </Select>
+            </FormControl>
+            {loading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : challenges.length === 0 ? (
+              <Alert severity="success">No {statusFilter} challenges.</Alert>
+            ) : (
+              challenges.map((challenge, index) => (
+                <Box key={challenge.challenge_id}>
+                  {index > 0 && <Divider sx={{ my: 1 }} />}
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2" fontWeight="bold">
+                        Question #{challenge.question_id}
+                        {challenge.proposed_option_index != null && ` · proposed answer ${optionLabel(challenge.proposed_option_index)}`}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary" noWrap>{challenge.reason}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {challenge.candidate_name || 'Candidate'} · {challenge.created_at ? new Date(challenge.created_at).toLocaleString() : ''}
+                      </Typography>
+                    </Box>
+                    <Button size="small" onClick={() => handleSelect(challenge)}>
+                      {challenge.status === 'pending' ? 'Resolve' : 'View'}
+                    </Button>
+                  </Box>
+                </Box>
+              ))
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ flexWrap: 'wrap', gap: 1 }}>
+        {selected ? (
+          <Button onClick={() => { setSelected(null); setJob(null); }} disabled={busy}>Back to Queue</Button>
+        ) : (
+          <Button onClick={onClose}>Close</Button>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        {busy && <CircularProgress size={20} />}
+        {selected?.status === 'pending' && !job && (
+          <>
+            <Button color="warning" onClick={handleReject} disabled={busy || !note.trim()}>Reject</Button>
+            <Button
+              variant="contained"
+              onClick={handleAccept}
+              disabled={busy || !question || (questionType !== null && usesOptions(questionType) && keyIndices.length === 0)}
+            >
+              Accept &amp; Regrade
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnswerChallengeQueue;
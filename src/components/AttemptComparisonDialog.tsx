@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  AttemptComparison,
+  AttemptOverview,
+  compareAttempts,
+  ComparedAttemptInfo,
+  deltaFromPrevious,
+  loadComparedAttempts,
+} from '../utils/attemptComparison';
+import { BREAKDOWN_DEPTH, formatBreakdownTime } from '../utils/scoreBreakdown';
+import { richContentToPlainText } from '../utils/richContent';
+
+interface AttemptComparisonDialogProps {
+  open: boolean;
+  attempts: ComparedAttemptInfo[];
+  onClose: () => void;
+}
+
+interface Metric {
+  label: string;
+  value: (attempt: AttemptOverview) => number | null;
+  display: (attempt: AttemptOverview) => string;
+  unit: string;
+  better: 'higher' | 'lower' | null;  // Null when a change is neither good nor bad
+}
+
+const METRICS: Metric[] = [
+  { label: 'Score', value: a => a.percentage, display: a => `${a.percentage}%`, unit: '%', better: 'higher' },
+  { label: 'Marks', value: a => a.marksObtained, display: a => `${a.marksObtained} / ${a.maxMarks}`, unit: '', better: 'higher' },
+  { label: 'Attempted', value: a => a.attempted, display: a => `${a.attempted}/${a.total}`, unit: '', better: 'higher' },
+  { label: 'Accuracy', value: a => a.accuracy, display: a => `${a.accuracy}%`, unit: '%', better: 'higher' },
+  {
+    label: 'Time per question',
+    value: a => a.secondsPerQuestion,
+    display: a => formatBreakdownTime(a.secondsPerQuestion),
+    unit: 's',
+    better: null,
+  },
+];
+
+const Delta: React.FC<{ value: number | null; unit: string; better: Metric['better'] }> = ({ value, unit, better }) => {
+  if (value === null) return null;
+  const improved = better === 'higher' ? value > 0 : better === 'lower' ? value < 0 : null;
+  const color = value === 0 || improved === null ? 'text.secondary' : improved ? 'success.main' : 'error.main';
+  return (
+    <Typography component="span" variant="caption" fontWeight="bold" color={color} sx={{ ml: 1 }}>
+      {value > 0 ? '+' : ''}{value}{unit}
+    </Typography>
+  );
+};
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? 'N/A' : date.toLocaleString();
+};
+
+/**
+ * Two or more attempts side by side: score, accuracy, time per question and
+ * section breakdown, with the change from the previous attempt, and the
+ * questions answered wrongly every time
+ */
+export const AttemptComparisonDialog: React.FC<AttemptComparisonDialogProps> = ({ open, attempts, onClose }) => {
+  const [comparison, setComparison] = useState<AttemptComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || attempts.length < 2) return;
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+    setLoading(true);
+    loadComparedAttempts(attempts)
+      .then(loaded => {
+        if (!cancelled) setComparison(compareAttempts(loaded));
+      })
+      .catch((err: any) => {
+        console.error('[AttemptComparison] Error loading attempts:', err);
+        if (!cancelled) setError(err.response?.data?.detail || err.message || 'Failed to load the attempts');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, attempts]);
+
+  const columns = comparison?.attempts || [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Compare Attempts</DialogTitle>
+      <DialogContent dividers>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {comparison && (
+          <>
+            <TableContainer sx={{ mb: 4 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell />
+                    {columns.map(attempt => (
+                      <TableCell key={attempt.attempt_id} align="right">
+                        <Typography variant="subtitle2">{attempt.test_type}</Typography>
+                        <Typography variant="caption" color="text.secondary">{formatDate(attempt.start_time)}</Typography>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {METRICS.map(metric => {
+                    const values = columns.map(metric.value);
+                    return (
+                      <TableRow key={metric.label}>
+                        <TableCell component="th" sx={{ fontWeight: 'bold' }}>{metric.label}</TableCell>
+                        {columns.map((attempt, index) => (
+                          <TableCell key={attempt.attempt_id} align="right">
+                            {metric.display(attempt)}
+                            <Delta value={deltaFromPrevious(values, index)} unit={metric.unit} better={metric.better} />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            {comparison.sections.length > 0 && (
+              <>
+                <Typography variant="h6" gutterBottom>Sections</Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Accuracy and marks per section; changes are in accuracy points from the previous attempt.
+                </Typography>
+                <TableContainer sx={{ mb: 4 }}>
+                  <Table size="small">
+                    <TableBody>
+                      {comparison.sections.map(section => {
+                        const accuracies = section.rows.map(row => (row ? row.accuracy : null));
+                        return (
+                          <TableRow key={section.key}>
+                            <TableCell
+                              component="th"
+                              sx={{ pl: 2 + BREAKDOWN_DEPTH[section.level] * 2, fontWeight: section.level === 'paper' ? 'bold' : undefined }}
+                            >
+                              {section.label}
+                            </TableCell>
+                            {section.rows.map((row, index) => (
+                              <TableCell key={columns[index].attempt_id} align="right">
+                                {row ? `${row.accuracy}% · ${row.marksObtained} / ${row.maxMarks}` : '-'}
+                                <Delta value={deltaFromPrevious(accuracies, index)} unit=" pts" better="higher" />
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+
+            <Typography variant="h6" gutterBottom>Questions you got wrong every time</Typography>
+            {comparison.wrongEveryTime.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No question was answered wrongly in every attempt that included it.
+              </Typography>
+            ) : (
+              <List dense>
+                {comparison.wrongEveryTime.map(mistake => (
+                  <ListItem key={mistake.question_id} divider>
+                    <ListItemText
+                      primary={richContentToPlainText(mistake.question_text)}
+                      secondary={`Wrong in all ${mistake.attempts} attempts`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AttemptComparisonDialog;
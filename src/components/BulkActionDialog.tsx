@@ -0,0 +1,404 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { subsectionsAPI } from '../services/api';
+import {
+  BULK_ACTION_LABELS,
+  BulkAction,
+  BulkActionType,
+  BulkChange,
+  BulkPlan,
+  BulkQuestion,
+  BulkTaskResult,
+  UNDO_WINDOW_MS,
+  applyBulkChange,
+  isContentChange,
+  planBulkAction,
+  runBulkTasks,
+  toDateOnly,
+} from '../utils/bulkQuestionActions';
+
+interface BulkPaper {
+  paper_id: number;
+  paper_name: string;
+  sections?: Array<{ section_id: number; section_name: string }>;
+}
+
+export interface BulkActionOutcome {
+  plan: BulkPlan;
+  succeeded: BulkChange[];
+  failed: BulkTaskResult<BulkChange>[];
+}
+
+interface BulkActionDialogProps {
+  actionType: BulkActionType | null; // The dialog is open while an action is chosen
+  questions: BulkQuestion[];
+  papers: BulkPaper[];
+  onClose: () => void;
+  onCompleted: (outcome: BulkActionOutcome) => void;
+}
+
+type Stage = 'configure' | 'review' | 'running' | 'done';
+
+const DIFFICULTY_LEVELS = ['Easy', 'Medium', 'Hard'];
+const MAX_PREVIEW_ROWS = 200;
+
+const excerpt = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}...` : text);
+
+/**
+ * Configure, dry-run and apply one bulk action to the selected questions,
+ * with progress and per-question failures
+ */
+export const BulkActionDialog: React.FC<BulkActionDialogProps> = ({
+  actionType,
+  questions,
+  papers,
+  onClose,
+  onCompleted,
+}) => {
+  const [stage, setStage] = useState<Stage>('configure');
+  const [paperId, setPaperId] = useState<number | ''>('');
+  const [sectionId, setSectionId] = useState<number | ''>('');
+  const [subsectionId, setSubsectionId] = useState<number | ''>('');
+  const [subsections, setSubsections] = useState<Array<{ subsection_id: number; subsection_name: string }>>([]);
+  const [difficulty, setDifficulty] = useState('Medium');
+  const [validityMode, setValidityMode] = useState<'set' | 'extend'>('set');
+  const [validUntil, setValidUntil] = useState('');
+  const [extendDays, setExtendDays] = useState('30');
+  const [plan, setPlan] = useState<BulkPlan | null>(null);
+  const [results, setResults] = useState<BulkTaskResult<BulkChange>[]>([]);
+
+  const needsConfiguration = actionType === 'move' || actionType === 'difficulty' || actionType === 'setValidUntil';
+
+  // Start over whenever an action is chosen; actions without options go straight to the dry run
+  useEffect(() => {
+    if (!actionType) return;
+    setResults([]);
+    setPlan(null);
+    setValidityMode('set');
+    if (actionType === 'deactivate' || actionType === 'delete') {
+      setPlan(planBulkAction(questions, { type: actionType }));
+      setStage('review');
+    } else {
+      setStage('configure');
+    }
+    // Only a newly chosen action resets the dialog
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [actionType]);
+
+  useEffect(() => {
+    setSubsectionId('');
+    setSubsections([]);
+    if (!sectionId) return;
+
+    let cancelled = false;
+    subsectionsAPI.getSubsections(sectionId)
+      .then(response => {
+        if (!cancelled) setSubsections(Array.isArray(response.data) ? response.data : []);
+      })
+      .catch(err => console.error('[BulkAction] Error loading subsections:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const sections = useMemo(
+    () => papers.find(paper => paper.paper_id === paperId)?.sections || [],
+    [papers, paperId]
+  );
+
+  const configuredAction = (): BulkAction | null => {
+    switch (actionType) {
+      case 'move':
+        return paperId && sectionId
+          ? { type: 'move', paper_id: paperId, section_id: sectionId, subsection_id: subsectionId || null }
+          : null;
+      case 'difficulty':
+        return { type: 'difficulty', level: difficulty };
+      case 'setValidUntil': {
+        if (validityMode === 'extend') {
+          const days = parseInt(extendDays, 10);
+          return days > 0 ? { type: 'extendValidUntil', days } : null;
+        }
+        return validUntil ? { type: 'setValidUntil', date: validUntil } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const handleReview = () => {
+    const action = configuredAction();
+    if (!action) return;
+    setPlan(planBulkAction(questions, action));
+    setStage('review');
+  };
+
+  const handleApply = async (changes: BulkChange[]) => {
+    if (!plan) return;
+    setStage('running');
+    setResults([]);
+
+    const taskResults = await runBulkTasks(
+      changes,
+      change => applyBulkChange(plan.action, change),
+      (_, progress) => setResults([...progress])
+    );
+
+    setStage('done');
+    onCompleted({
+      plan,
+      succeeded: taskResults.filter(result => !result.error).map(result => result.item),
+      failed: taskResults.filter(result => result.error),
+    });
+  };
+
+  const describeChange = (change: BulkChange): string => {
+    const paperName = (id?: number | null) => papers.find(p => p.paper_id === id)?.paper_name || `Paper ${id}`;
+    switch (plan?.action.type) {
+      case 'move':
+        return `${paperName(change.previous.paper_id)} → ${paperName(change.next.paper_id)}`;
+      case 'difficulty':
+        return `${change.previous.default_difficulty_level || 'None'} → ${change.next.default_difficulty_level}`;
+      case 'setValidUntil':
+      case 'extendValidUntil':
+        return `${toDateOnly(change.previous.valid_until) || 'None'} → ${change.next.valid_until}`;
+      case 'deactivate':
+        return 'Deactivated';
+      case 'delete':
+        return 'Deleted permanently';
+      default:
+        return '';
+    }
+  };
+
+  const failed = results.filter(result => result.error);
+  const title = actionType ? `${BULK_ACTION_LABELS[actionType]} ${questions.length} question${questions.length === 1 ? '' : 's'}` : '';
+
+  const renderConfigure = () => (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+      {actionType === 'move' && (
+        <>
+          <FormControl fullWidth>
+            <InputLabel id="bulk-paper-label">Paper</InputLabel>
+            <Select
+              labelId="bulk-paper-label"
+              label="Paper"
+              value={paperId}
+              onChange={(e) => { setPaperId(e.target.value as number); setSectionId(''); }}
+            >
+              {papers.map(paper => (
+                <MenuItem key={paper.paper_id} value={paper.paper_id}>{paper.paper_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth disabled={!paperId}>
+            <InputLabel id="bulk-section-label">Section</InputLabel>
+            <Select
+              labelId="bulk-section-label"
+              label="Section"
+              value={sectionId}
+              onChange={(e) => setSectionId(e.target.value as number)}
+            >
+              {sections.map(section => (
+                <MenuItem key={section.section_id} value={section.section_id}>{section.section_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth disabled={!sectionId}>
+            <InputLabel id="bulk-subsection-label">Subsection</InputLabel>
+            <Select
+              labelId="bulk-subsection-label"
+              label="Subsection"
+              value={subsectionId}
+              onChange={(e) => setSubsectionId(e.target.value as number | '')}
+            >
+              <MenuItem value=""><em>None</em></MenuItem>
+              {subsections.map(subsection => (
+                <MenuItem key={subsection.subsection_id} value={subsection.subsection_id}>{subsection.subsection_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </>
+      )}
+
+      {actionType === 'difficulty' && (
+        <FormControl fullWidth>
+          <InputLabel id="bulk-difficulty-label">Difficulty</InputLabel>
+          <Select
+            labelId="bulk-difficulty-label"
+            label="Difficulty"
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value)}
+          >
+            {DIFFICULTY_LEVELS.map(level => (
+              <MenuItem key={level} value={level}>{level}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {actionType === 'setValidUntil' && (
+        <>
+          <RadioGroup row value={validityMode} onChange={(e) => setValidityMode(e.target.value as 'set' | 'extend')}>
+            <FormControlLabel value="set" control={<Radio />} label="Set a date" />
+            <FormControlLabel value="extend" control={<Radio />} label="Extend by days" />
+          </RadioGroup>
+          {validityMode === 'set' ? (
+            <TextField
+              label="Valid until"
+              type="date"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          ) : (
+            <TextField
+              label="Days to add"
+              type="number"
+              value={extendDays}
+              onChange={(e) => setExtendDays(e.target.value)}
+              inputProps={{ min: 1 }}
+              helperText="Questions valid indefinitely are left unchanged"
+            />
+          )}
+        </>
+      )}
+    </Box>
+  );
+
+  const renderReview = () => plan && (
+    <>
+      <Alert severity={plan.action.type === 'delete' ? 'warning' : 'info'} sx={{ mb: 2 }}>
+        Dry run: {plan.changes.length} question{plan.changes.length === 1 ? '' : 's'} will change
+        {plan.skipped.length > 0 && `, ${plan.skipped.length} will be skipped`}.
+        {plan.action.type === 'delete'
+          ? ' Deleted questions cannot be restored.'
+          : ` You can undo it for ${UNDO_WINDOW_MS / 1000} seconds after it is applied.`}
+        {isContentChange(plan.action) && ' Changed questions go back to draft and need review again.'}
+      </Alert>
+      <TableContainer sx={{ maxHeight: 360 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>ID</TableCell>
+              <TableCell>Question</TableCell>
+              <TableCell>Change</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plan.changes.slice(0, MAX_PREVIEW_ROWS).map(change => (
+              <TableRow key={change.question.question_id}>
+                <TableCell>{change.question.question_id}</TableCell>
+                <TableCell>{excerpt(change.question.question_text)}</TableCell>
+                <TableCell>{describeChange(change)}</TableCell>
+              </TableRow>
+            ))}
+            {plan.skipped.slice(0, MAX_PREVIEW_ROWS).map(({ question, reason }) => (
+              <TableRow key={question.question_id} sx={{ '& td': { color: 'text.disabled' } }}>
+                <TableCell>{question.question_id}</TableCell>
+                <TableCell>{excerpt(question.question_text)}</TableCell>
+                <TableCell>Skipped: {reason}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {plan.changes.length + plan.skipped.length > MAX_PREVIEW_ROWS * 2 && (
+        <Typography variant="caption" color="text.secondary">Only the first rows are shown.</Typography>
+      )}
+    </>
+  );
+
+  const renderProgress = () => plan && (
+    <>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        {stage === 'running'
+          ? `Applying ${results.length} of ${plan.changes.length}...`
+          : `${results.length - failed.length} of ${plan.changes.length} question${plan.changes.length === 1 ? '' : 's'} updated.`}
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={plan.changes.length > 0 ? (results.length / plan.changes.length) * 100 : 100}
+        color={failed.length > 0 ? 'warning' : 'primary'}
+        sx={{ mb: 2, height: 8, borderRadius: 4 }}
+      />
+      {failed.length > 0 && (
+        <Alert severity="error">
+          <Typography variant="body2" fontWeight="bold">{failed.length} failed:</Typography>
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {failed.map(result => (
+              <Typography component="li" variant="body2" key={result.item.question.question_id}>
+                #{result.item.question.question_id}: {result.error}
+              </Typography>
+            ))}
+          </Box>
+        </Alert>
+      )}
+    </>
+  );
+
+  return (
+    <Dialog open={!!actionType} onClose={stage === 'running' ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent dividers>
+        {stage === 'configure' && renderConfigure()}
+        {stage === 'review' && renderReview()}
+        {(stage === 'running' || stage === 'done') && renderProgress()}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={stage === 'running'}>
+          {stage === 'done' ? 'Close' : 'Cancel'}
+        </Button>
+        {stage === 'configure' && (
+          <Button variant="contained" onClick={handleReview} disabled={!configuredAction()}>
+            Preview Changes
+          </Button>
+        )}
+        {stage === 'review' && needsConfiguration && (
+          <Button onClick={() => setStage('configure')}>Back</Button>
+        )}
+        {stage === 'review' && plan && (
+          <Button
+            variant="contained"
+            color={plan.action.type === 'delete' ? 'error' : 'primary'}
+            disabled={plan.changes.length === 0}
+            onClick={() => handleApply(plan.changes)}
+          >
+            {BULK_ACTION_LABELS[plan.action.type]} {plan.changes.length} question{plan.changes.length === 1 ? '' : 's'}
+          </Button>
+        )}
+        {stage === 'done' && failed.length > 0 && (
+          <Button variant="contained" color="warning" onClick={() => handleApply(failed.map(result => result.item))}>
+            Retry Failed
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkActionDialog;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { challengesAPI } from '../services/api';
+import { AnswerKeyChallenge } from '../types';
+import { RichContent } from './RichContent';
+import { richContentToPlainText } from '../utils/richContent';
+import { normalizeQuestionType, usesOptions } from '../utils/questionTypes';
+import { normalizeChallenges, validateChallengeReason } from '../utils/answerChallenges';
+
+export interface ChallengeableQuestion {
+  question_id: number;
+  question_text: string;
+  question_type?: string;
+  options?: Array<{ option_text: string; option_order?: number }>;
+}
+
+interface ChallengeQuestionDialogProps {
+  question: ChallengeableQuestion | null;
+  attemptId: number;
+  onClose: () => void;
+  onSubmitted: (challenge: AnswerKeyChallenge) => void;
+}
+
+/**
+ * Lets a candidate reviewing a completed attempt challenge the answer key of
+ * a question, with a reason and optionally the answer they believe is correct
+ */
+export const ChallengeQuestionDialog: React.FC<ChallengeQuestionDialogProps> = ({
+  question,
+  attemptId,
+  onClose,
+  onSubmitted,
+}) => {
+  const [reason, setReason] = useState('');
+  const [proposed, setProposed] = useState<number | ''>('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [touched, setTouched] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+    setProposed('');
+    setError(null);
+    setTouched(false);
+  }, [question?.question_id]);
+
+  if (!question) return null;
+
+  const type = normalizeQuestionType(question.question_type);
+  // A single proposed answer only makes sense for single-choice questions
+  const canPropose = usesOptions(type) && type !== 'MultiSelect' && (question.options || []).length > 0;
+  const reasonError = validateChallengeReason(reason);
+
+  const handleSubmit = async () => {
+    setTouched(true);
+    if (reasonError) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await challengesAPI.createChallenge({
+        attempt_id: attemptId,
+        question_id: question.question_id,
+        reason: reason.trim(),
+        ...(proposed !== '' ? { proposed_option_index: proposed } : {}),
+      });
+      const [created] = normalizeChallenges([response.data]);
+      onSubmitted(created || {
+        challenge_id: 0,
+        question_id: question.question_id,
+        attempt_id: attemptId,
+        reason: reason.trim(),
+        proposed_option_index: proposed === '' ? null : proposed,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      });
+    } catch (err: any) {
+      console.error(`[Challenge] Error challenging question ${question.question_id}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to submit the challenge');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={submitting ? undefined : onClose} maxWidth="sm" fullWidth aria-labelledby="challenge-question-title">
+      <DialogTitle id="challenge-question-title">Challenge This Question</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+          <RichContent content={question.question_text} />
+        </Paper>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          If you believe the answer key is wrong, tell us why. An administrator reviews every challenge; if it is
+          accepted, the question is regraded for everyone who took it and your score is updated.
+        </Typography>
+        {canPropose && (
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel id="challenge-proposed-label">Correct answer (optional)</InputLabel>
+            <Select
+              labelId="challenge-proposed-label"
+              label="Correct answer (optional)"
+              value={proposed}
+              onChange={(e) => setProposed(e.target.value as number | '')}
+            >
+              <MenuItem value="">Not sure</MenuItem>
+              {(question.options || []).map((option, index) => (
+                <MenuItem key={index} value={option.option_order ?? index}>
+                  {String.fromCharCode(65 + index)}. {richContentToPlainText(option.option_text)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <TextField
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          onBlur={() => setTouched(true)}
+          multiline
+          minRows={3}
+          fullWidth
+          disabled={submitting}
+          error={touched && !!reasonError}
+          helperText={touched && reasonError ? reasonError : 'For example, a reference or working that shows a different answer'}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>Cancel</Button>
+        <Box sx={{ flexGrow: 1 }} />
+        {submitting && <CircularProgress size={20} />}
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>Submit Challenge</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ChallengeQuestionDialog;
@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  Select,
+  Typography,
+} from '@mui/material';
+import { questionsAPI } from '../services/api';
+import { BankQuestion } from '../hooks/useQuestionBank';
+import { compareQuestions, findDuplicateGroups } from '../utils/questionSimilarity';
+import { QuestionComparison } from './QuestionComparison';
+
+interface DuplicateReportDialogProps {
+  open: boolean;
+  questions: BankQuestion[] | null;
+  loading: boolean;
+  error: string | null;
+  onClose: () => void;
+  onDeactivated: (questionIds: number[]) => void;
+}
+
+const SENSITIVITY_OPTIONS = [
+  { value: 0.75, label: 'Near duplicates (75%+)' },
+  { value: 0.85, label: 'Close duplicates (85%+)' },
+  { value: 0.95, label: 'Exact duplicates (95%+)' },
+];
+
+const GROUPS_PER_PAGE = 20;
+
+/**
+ * Bank-wide duplicate report: groups of similar questions with side-by-side
+ * comparisons, and actions to deactivate duplicates or merge a group by
+ * keeping one question and deactivating the rest
+ */
+export const DuplicateReportDialog: React.FC<DuplicateReportDialogProps> = ({
+  open,
+  questions,
+  loading,
+  error,
+  onClose,
+  onDeactivated,
+}) => {
+  const [threshold, setThreshold] = useState(0.85);
+  const [visibleGroups, setVisibleGroups] = useState(GROUPS_PER_PAGE);
+  const [keptByGroup, setKeptByGroup] = useState<Record<string, number>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setVisibleGroups(GROUPS_PER_PAGE);
+      setActionError(null);
+    }
+  }, [open]);
+
+  const groups = useMemo(
+    () => (open && questions ? findDuplicateGroups(questions, threshold) : []),
+    [open, questions, threshold]
+  );
+
+  // Groups are keyed by their question IDs, so choices survive regrouping
+  const groupKey = (group: { questions: BankQuestion[] }) => group.questions.map(q => q.question_id).join('-');
+
+  const deactivate = async (key: string, questionIds: number[]) => {
+    setBusyGroup(key);
+    setActionError(null);
+    const deactivated: number[] = [];
+    const failed: string[] = [];
+
+    for (const questionId of questionIds) {
+      try {
+        await questionsAPI.deactivateQuestion(questionId);
+        deactivated.push(questionId);
+      } catch (err: any) {
+        console.error(`[DuplicateReport] Error deactivating question ${questionId}:`, err);
+        failed.push(`#${questionId}: ${err.response?.data?.detail || err.message || 'failed'}`);
+      }
+    }
+
+    if (failed.length > 0) {
+      setActionError(`Could not deactivate ${failed.join('; ')}`);
+    }
+    if (deactivated.length > 0) {
+      onDeactivated(deactivated);
+    }
+    setBusyGroup(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={busyGroup ? undefined : onClose} maxWidth="lg" fullWidth aria-labelledby="duplicate-report-title">
+      <DialogTitle id="duplicate-report-title">Duplicate Questions</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel id="duplicate-sensitivity-label">Sensitivity</InputLabel>
+            <Select
+              labelId="duplicate-sensitivity-label"
+              label="Sensitivity"
+              value={threshold}
+              onChange={(e) => { setThreshold(Number(e.target.value)); setVisibleGroups(GROUPS_PER_PAGE); }}
+            >
+              {SENSITIVITY_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {questions && (
+            <Typography variant="body2" color="text.secondary">
+              {groups.length} group{groups.length === 1 ? '' : 's'} found among {questions.length} questions
+            </Typography>
+          )}
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {actionError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>{actionError}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : questions && groups.length === 0 ? (
+          <Alert severity="success">No duplicate questions found.</Alert>
+        ) : (
+          groups.slice(0, visibleGroups).map((group, groupIndex) => {
+            const key = groupKey(group);
+            const keptId = keptByGroup[key] ?? group.questions[0].question_id;
+            const kept = group.questions.find(q => q.question_id === keptId) || group.questions[0];
+            const others = group.questions.filter(q => q !== kept);
+
+            return (
+              <Paper key={key} variant="outlined" sx={{ p: 2, mb: 3 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="subtitle1" fontWeight="bold">
+                    Group {groupIndex + 1}: {group.questions.length} questions, up to {Math.round(group.maxScore * 100)}% similar
+                  </Typography>
+                  <Box sx={{ flexGrow: 1 }} />
+                  {busyGroup === key && <CircularProgress size={20} />}
+                  <Button
+                    variant="contained"
+                    size="small"
+                    disabled={!!busyGroup}
+                    onClick={() => deactivate(key, others.map(q => q.question_id))}
+                  >
+                    Keep #{kept.question_id} and deactivate {others.length === 1 ? 'the other' : `${others.length} others`}
+                  </Button>
+                </Box>
+                <Box sx={{ mb: 1 }}>
+                  <Typography variant="body2" color="text.secondary" component="span" sx={{ mr: 1 }}>
+                    Keep:
+                  </Typography>
+                  {group.questions.map(q => (
+                    <FormControlLabel
+                      key={q.question_id}
+                      control={
+                        <Radio
+                          size="small"
+                          checked={q === kept}
+                          onChange={() => setKeptByGroup(prev => ({ ...prev, [key]: q.question_id }))}
+                        />
+                      }
+                      label={`#${q.question_id}`}
+                    />
+                  ))}
+                </Box>
+                {others.map(other => (
+                  <Box key={other.question_id}>
+                    <QuestionComparison
+                      left={kept}
+                      right={other}
+                      leftLabel={`#${kept.question_id} (kept)`}
+                      rightLabel={`#${other.question_id}`}
+                      similarity={compareQuestions(kept, other)}
+                    />
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: -1, mb: 2 }}>
+                      <Button
+                        size="small"
+                        color="warning"
+                        disabled={!!busyGroup}
+                        onClick={() => deactivate(key, [other.question_id])}
+                      >
+                        Deactivate #{other.question_id}
+                      </Button>
+                    </Box>
+                  </Box>
+                ))}
+              </Paper>
+            );
+          })
+        )}
+
+        {groups.length > visibleGroups && (
+          <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+            <Button onClick={() => setVisibleGroups(count => count + GROUPS_PER_PAGE)}>
+              Show more groups ({groups.length - visibleGroups} remaining)
+            </Button>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={!!busyGroup}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DuplicateReportDialog;
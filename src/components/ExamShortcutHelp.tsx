@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { EXAM_SHORTCUTS, ExamShortcutType } from '../utils/examShortcuts';
+
+interface ExamShortcutHelpProps {
+  open: boolean;
+  onClose: () => void;
+  availableActions: ExamShortcutType[];
+}
+
+/**
+ * Cheat-sheet of the keyboard shortcuts supported by the current test interface
+ */
+export const ExamShortcutHelp: React.FC<ExamShortcutHelpProps> = ({ open, onClose, availableActions }) => {
+  const shortcuts = EXAM_SHORTCUTS.filter(shortcut => availableActions.includes(shortcut.action));
+
+  return (
+    <Dialog open={open} onClose={onClose} aria-labelledby="exam-shortcut-help-title">
+      <DialogTitle id="exam-shortcut-help-title">Keyboard Shortcuts</DialogTitle>
+      <DialogContent>
+        <Table size="small">
+          <TableBody>
+            {shortcuts.map(shortcut => (
+              <TableRow key={shortcut.action}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  {shortcut.keys.map((key, index) => (
+                    <React.Fragment key={key}>
+                      {index > 0 && ' / '}
+                      <Box
+                        component="kbd"
+                        sx={{
+                          px: 0.75,
+                          py: 0.25,
+                          border: '1px solid #ccc',
+                          borderRadius: 1,
+                          fontFamily: 'monospace',
+                          fontSize: '13px',
+                          backgroundColor: '#f5f5f5',
+                        }}
+                      >
+                        {key}
+                      </Box>
+                    </React.Fragment>
+                  ))}
+                </TableCell>
+                <TableCell>
+                  {shortcut.description}
+                  {shortcut.note && (
+                    <Typography variant="caption" color="text.secondary" component="div">
+                      {shortcut.note}
+                    </Typography>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} autoFocus>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Alert, Snackbar } from '@mui/material';
+
+interface ExamTimerWarningProps {
+  warningMinutes: number | null;
+  onClose: () => void;
+}
+
+/**
+ * Snackbar announcing that only a few minutes of test time are left
+ */
+export const ExamTimerWarning: React.FC<ExamTimerWarningProps> = ({ warningMinutes, onClose }) => {
+  return (
+    <Snackbar
+      open={warningMinutes !== null}
+      autoHideDuration={10000}
+      onClose={onClose}
+      anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+    >
+      <Alert
+        onClose={onClose}
+        severity={warningMinutes !== null && warningMinutes <= 1 ? 'error' : 'warning'}
+        variant="filled"
+        role="alert"
+        sx={{ width: '100%' }}
+      >
+        {warningMinutes === 1
+          ? 'Only 1 minute remaining! Your test will be submitted automatically when time runs out.'
+          : `${warningMinutes} minutes remaining.`}
+      </Alert>
+    </Snackbar>
+  );
+};
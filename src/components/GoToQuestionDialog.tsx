@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+
+interface GoToQuestionDialogProps {
+  open: boolean;
+  questionCount: number;
+  onClose: () => void;
+  onGoTo: (questionIndex: number) => void;
+}
+
+/**
+ * Small prompt for jumping straight to a question by its number
+ */
+export const GoToQuestionDialog: React.FC<GoToQuestionDialogProps> = ({
+  open,
+  questionCount,
+  onClose,
+  onGoTo
+}) => {
+  const [value, setValue] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setValue('');
+    }
+  }, [open]);
+
+  const questionNumber = parseInt(value);
+  const isValid = !isNaN(questionNumber) && questionNumber >= 1 && questionNumber <= questionCount;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    onGoTo(questionNumber - 1);
+  };
+
+  // Focus moves to the chosen question, so it is not restored to the trigger
+  return (
+    <Dialog open={open} onClose={onClose} aria-labelledby="go-to-question-title" disableRestoreFocus>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle id="go-to-question-title">Go to Question</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label={`Question number (1-${questionCount})`}
+            type="number"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            error={value !== '' && !isValid}
+            helperText={value !== '' && !isValid ? `Enter a number between 1 and ${questionCount}` : ' '}
+            inputProps={{ min: 1, max: questionCount }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!isValid}>
+            Go
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { testsAPI } from '../services/api';
+import { ProctoringEvent } from '../types';
+import { PROCTORING_EVENT_LABELS } from '../utils/proctoring';
+
+interface IntegrityTimelineProps {
+  attemptId: number;
+}
+
+/**
+ * Chronological list of proctoring events recorded during an attempt,
+ * shown to administrators in the result details view
+ */
+export const IntegrityTimeline: React.FC<IntegrityTimelineProps> = ({ attemptId }) => {
+  const [events, setEvents] = useState<ProctoringEvent[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await testsAPI.getProctoringEvents(attemptId);
+        const data = response.data;
+        const list: ProctoringEvent[] = Array.isArray(data) ? data : data?.events || [];
+        if (!cancelled) {
+          setEvents(
+            [...list].sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime())
+          );
+        }
+      } catch (err: any) {
+        console.error(`[Proctoring] Failed to load integrity events for attempt ${attemptId}:`, err);
+        if (!cancelled) {
+          setError(err.response?.data?.detail || 'Failed to load integrity events');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId]);
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6">Integrity Timeline</Typography>
+        {!loading && !error && (
+          <Chip
+            size="small"
+            color={events.length > 0 ? 'error' : 'success'}
+            label={`${events.length} event${events.length === 1 ? '' : 's'}`}
+          />
+        )}
+      </Box>
+
+      {loading ? (
+        <CircularProgress size={24} />
+      ) : error ? (
+        <Alert severity="warning">{error}</Alert>
+      ) : events.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No proctoring events were recorded for this attempt.
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {events.map((event, index) => (
+            <ListItem key={`${event.occurred_at}-${index}`} divider>
+              <ListItemText
+                primary={`${new Date(event.occurred_at).toLocaleTimeString()} - ${PROCTORING_EVENT_LABELS[event.event_type] || event.event_type}`}
+                secondary={`Question ${event.question_index + 1}${event.detail ? ` | ${event.detail}` : ''}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
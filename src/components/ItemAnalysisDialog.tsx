@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { KeyboardArrowDown as ExpandIcon, KeyboardArrowUp as CollapseIcon } from '@mui/icons-material';
+import { questionsAPI } from '../services/api';
+import { BankQuestion } from '../hooks/useQuestionBank';
+import { BulkQuestion, buildUpdatePayload } from '../utils/bulkQuestionActions';
+import { richContentToPlainText } from '../utils/richContent';
+import {
+  ITEM_FLAG_DESCRIPTIONS,
+  ITEM_FLAG_LABELS,
+  ItemResponse,
+  ItemStatistics,
+  MIN_RESPONSES_FOR_ANALYSIS,
+  computeItemAnalysis,
+  normalizeItemResponses,
+} from '../utils/itemAnalysis';
+import { DifficultyLevel } from '../types';
+
+interface AnalysisPaper {
+  paper_id: number;
+  paper_name: string;
+  sections: Array<{ section_id: number; section_name: string }>;
+}
+
+interface ItemAnalysisDialogProps {
+  open: boolean;
+  papers: AnalysisPaper[];
+  initialPaperId?: number | null;
+  questions: BankQuestion[] | null;
+  loading: boolean;
+  error: string | null;
+  onClose: () => void;
+  onRecalibrated: (questionId: number, level: DifficultyLevel) => void;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+/**
+ * Item analysis of the questions of a paper or section from completed
+ * attempts: how hard each question is, how well it separates strong from
+ * weak candidates, how its options are chosen, and which items need attention
+ */
+export const ItemAnalysisDialog: React.FC<ItemAnalysisDialogProps> = ({
+  open,
+  papers,
+  initialPaperId,
+  questions,
+  loading,
+  error,
+  onClose,
+  onRecalibrated,
+}) => {
+  const [paperId, setPaperId] = useState<number | ''>('');
+  const [sectionId, setSectionId] = useState<number | ''>('');
+  const [responses, setResponses] = useState<ItemResponse[] | null>(null);
+  const [loadingResponses, setLoadingResponses] = useState(false);
+  const [responseError, setResponseError] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  // Difficulty levels changed from this dialog, shown until the bank is reloaded
+  const [recalibrated, setRecalibrated] = useState<Record<number, DifficultyLevel>>({});
+
+  useEffect(() => {
+    if (open) {
+      setPaperId(initialPaperId ?? papers[0]?.paper_id ?? '');
+      setSectionId('');
+      setExpandedId(null);
+      setRecalibrated({});
+      setResponseError(null);
+    }
+  }, [open, initialPaperId, papers]);
+
+  useEffect(() => {
+    if (!open || paperId === '') return;
+    let cancelled = false;
+
+    const loadResponses = async () => {
+      setLoadingResponses(true);
+      setResponseError(null);
+      setResponses(null);
+      try {
+        const response = await questionsAPI.getItemResponses({
+          paper_id: paperId,
+          ...(sectionId !== '' ? { section_id: sectionId } : {}),
+        });
+        if (!cancelled) setResponses(normalizeItemResponses(response.data));
+      } catch (err: any) {
+        console.error(`[ItemAnalysis] Error loading responses of paper ${paperId}:`, err);
+        if (!cancelled) setResponseError(err.response?.data?.detail || err.message || 'Failed to load attempt responses');
+      } finally {
+        if (!cancelled) setLoadingResponses(false);
+      }
+    };
+
+    loadResponses();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, paperId, sectionId]);
+
+  const statistics = useMemo((): ItemStatistics[] => {
+    if (!questions || !responses || paperId === '') return [];
+    const scoped = questions
+      .filter(question => question.paper_id === paperId && (sectionId === '' || question.section_id === sectionId))
+      .map(question => ({
+        ...question,
+        default_difficulty_level: recalibrated[question.question_id] ?? question.default_difficulty_level,
+      }));
+    // Flagged items first, then the hardest
+    return computeItemAnalysis(scoped, responses).sort((a, b) =>
+      b.flags.length - a.flags.length || (a.p_value ?? 1) - (b.p_value ?? 1)
+    );
+  }, [questions, responses, paperId, sectionId, recalibrated]);
+
+  const visible = flaggedOnly
+    ? statistics.filter(item => item.flags.length > 0 || item.suggested_difficulty)
+    : statistics;
+  const sections = papers.find(paper => paper.paper_id === paperId)?.sections || [];
+
+  const handleRecalibrate = async (item: ItemStatistics, level: DifficultyLevel) => {
+    const questionId = item.question.question_id;
+    setBusyId(questionId);
+    setResponseError(null);
+    try {
+      const question = questions?.find(q => q.question_id === questionId);
+      await questionsAPI.updateQuestion(
+        questionId,
+        buildUpdatePayload(question as BulkQuestion, { default_difficulty_level: level })
+      );
+      setRecalibrated(prev => ({ ...prev, [questionId]: level }));
+      onRecalibrated(questionId, level);
+    } catch (err: any) {
+      console.error(`[ItemAnalysis] Error recalibrating question ${questionId}:`, err);
+      setResponseError(err.response?.data?.detail || err.message || 'Failed to update the difficulty level');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const busy = loading || loadingResponses;
+
+  return (
+    <Dialog open={open} onClose={busyId ? undefined : onClose} maxWidth="lg" fullWidth aria-labelledby="item-analysis-title">
+      <DialogTitle id="item-analysis-title">Item Analysis</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="item-analysis-paper-label">Paper</InputLabel>
+            <Select
+              labelId="item-analysis-paper-label"
+              label="Paper"
+              value={paperId}
+              onChange={(e) => { setPaperId(e.target.value as number); setSectionId(''); }}
+            >
+              {papers.map(paper => (
+                <MenuItem key={paper.paper_id} value={paper.paper_id}>{paper.paper_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 200 }} disabled={sections.length === 0}>
+            <InputLabel id="item-analysis-section-label">Section</InputLabel>
+            <Select
+              labelId="item-analysis-section-label"
+              label="Section"
+              value={sectionId}
+              onChange={(e) => setSectionId(e.target.value as number | '')}
+            >
+              <MenuItem value="">All sections</MenuItem>
+              {sections.map(section => (
+                <MenuItem key={section.section_id} value={section.section_id}>{section.section_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControlLabel
+            control={<Switch checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />}
+            label="Needs attention only"
+          />
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Based on completed attempts. Difficulty is the share of candidates answering correctly; discrimination is
+          the point-biserial correlation with the rest of the candidate's score. Items with fewer than{' '}
+          {MIN_RESPONSES_FOR_ANALYSIS} responses are not flagged or recalibrated.
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {responseError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setResponseError(null)}>{responseError}</Alert>}
+
+        {busy ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : responses && visible.length === 0 ? (
+          <Alert severity={flaggedOnly ? 'success' : 'info'}>
+            {flaggedOnly ? 'No questions need attention.' : 'No questions found for this selection.'}
+          </Alert>
+        ) : (
+          visible.length > 0 && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell />
+                    <TableCell>Question</TableCell>
+                    <TableCell align="right">Responses</TableCell>
+                    <TableCell align="right">Difficulty</TableCell>
+                    <TableCell align="right">Discrimination</TableCell>
+                    <TableCell align="right">Avg. Time</TableCell>
+                    <TableCell>Level</TableCell>
+                    <TableCell>Flags</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visible.map(item => {
+                    const { question } = item;
+                    const expanded = expandedId === question.question_id;
+                    return (
+                      <React.Fragment key={question.question_id}>
+                        <TableRow hover>
+                          <TableCell padding="checkbox">
+                            <IconButton
+                              size="small"
+                              aria-label={expanded ? 'Hide option analysis' : 'Show option analysis'}
+                              onClick={() => setExpandedId(expanded ? null : question.question_id)}
+                              disabled={item.options.length === 0}
+                            >
+                              {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                            </IconButton>
+                          </TableCell>
+                          <TableCell sx={{ maxWidth: 320 }}>
+                            <Typography variant="body2">
+                              #{question.question_id} {truncate(richContentToPlainText(question.question_text), 90)}
+                            </Typography>
+                          </TableCell>
+                          <TableCell align="right">{item.responses}</TableCell>
+                          <TableCell align="right">{formatPercent(item.p_value)}</TableCell>
+                          <TableCell
+                            align="right"
+                            sx={{ color: item.discrimination !== null && item.discrimination < 0 ? 'error.main' : undefined }}
+                          >
+                            {item.discrimination === null ? '–' : item.discrimination.toFixed(2)}
+                          </TableCell>
+                          <TableCell align="right">
+                            {item.average_time_seconds === null ? '–' : `${Math.round(item.average_time_seconds)}s`}
+                          </TableCell>
+                          <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                            {question.default_difficulty_level || 'Not set'}
+                            {item.suggested_difficulty && (
+                              <Tooltip title={`Answered correctly by ${formatPercent(item.p_value)} of candidates`}>
+                                <span>
+                                  <Button
+                                    size="small"
+                                    sx={{ ml: 1 }}
+                                    disabled={busyId !== null}
+                                    onClick={() => handleRecalibrate(item, item.suggested_difficulty!)}
+                                  >
+                                    {busyId === question.question_id ? <CircularProgress size={16} /> : `Set ${item.suggested_difficulty}`}
+                                  </Button>
+                                </span>
+                              </Tooltip>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                              {!item.reliable && item.responses > 0 && (
+                                <Chip size="small" variant="outlined" label="Few responses" />
+                              )}
+                              {item.flags.map(flag => (
+                                <Tooltip key={flag} title={ITEM_FLAG_DESCRIPTIONS[flag]}>
+                                  <Chip
+                                    size="small"
+                                    color={flag === 'unused_distractor' ? 'warning' : 'error'}
+                                    label={ITEM_FLAG_LABELS[flag]}
+                                  />
+                                </Tooltip>
+                              ))}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell colSpan={8} sx={{ py: 0, borderBottom: expanded ? undefined : 'none' }}>
+                            <Collapse in={expanded} unmountOnExit>
+                              <Box sx={{ py: 1.5, pl: 6 }}>
+                                {item.options.map(option => (
+                                  <Box key={option.index} sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 0.5 }}>
+                                    <Typography
+                                      variant="body2"
+                                      sx={{ width: 280, fontWeight: option.is_key ? 'bold' : undefined }}
+                                    >
+                                      {String.fromCharCode(65 + option.index)}. {truncate(richContentToPlainText(option.option_text), 40)}
+                                      {option.is_key ? ' (key)' : ''}
+                                    </Typography>
+                                    <LinearProgress
+                                      variant="determinate"
+                                      value={option.selection_rate * 100}
+                                      color={option.is_key ? 'success' : 'inherit'}
+                                      sx={{ flexGrow: 1, height: 8, borderRadius: 1 }}
+                                    />
+                                    <Typography variant="body2" sx={{ width: 48, textAlign: 'right' }}>
+                                      {formatPercent(option.selection_rate)}
+                                    </Typography>
+                                  </Box>
+                                ))}
+                                {item.omit_rate !== null && item.omit_rate > 0 && (
+                                  <Typography variant="caption" color="text.secondary">
+                                    Left unanswered by {formatPercent(item.omit_rate)}
+                                  </Typography>
+                                )}
+                              </Box>
+                            </Collapse>
+                          </TableCell>
+                        </TableRow>
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={busyId !== null}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ItemAnalysisDialog;
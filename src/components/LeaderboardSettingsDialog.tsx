@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { testsAPI } from '../services/api';
+import { TestTemplate } from '../types';
+
+interface LeaderboardSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Admin switch per test template for the anonymized leaderboard candidates
+ * see next to their percentile and rank
+ */
+export const LeaderboardSettingsDialog: React.FC<LeaderboardSettingsDialogProps> = ({ open, onClose }) => {
+  const [templates, setTemplates] = useState<TestTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+    setLoading(true);
+    testsAPI.getTemplates()
+      .then(response => {
+        const data = response.data;
+        const templates: TestTemplate[] = Array.isArray(data) ? data : data?.templates || [];
+        // Retry templates belong to a single candidate's practice
+        if (!cancelled) setTemplates(templates.filter(template => !template.is_retry));
+      })
+      .catch((err: any) => {
+        console.error('[LeaderboardSettings] Error loading templates:', err);
+        if (!cancelled) setError(err.response?.data?.detail || err.message || 'Failed to load the test templates');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleToggle = async (template: TestTemplate, enabled: boolean) => {
+    setSavingId(template.template_id);
+    setError(null);
+    try {
+      await testsAPI.setTemplateLeaderboard(template.template_id, enabled);
+      setTemplates(prev => prev.map(t => (t.template_id === template.template_id ? { ...t, leaderboard_enabled: enabled } : t)));
+    } catch (err: any) {
+      console.error('[LeaderboardSettings] Error updating leaderboard:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to update the leaderboard setting');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const shown = templates.filter(t => !query || (t.template_name || '').toLowerCase().includes(query));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Leaderboards</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Candidates always see their percentile, rank and the score distribution. With the leaderboard on, they
+          also see the scores of the top attempts on the template, without names.
+        </Typography>
+        <TextField
+          fullWidth
+          size="small"
+          label="Filter templates"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : shown.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No test templates found.</Typography>
+        ) : (
+          <List dense>
+            {shown.map(template => (
+              <ListItem
+                key={template.template_id}
+                divider
+                secondaryAction={
+                  <Switch
+                    edge="end"
+                    checked={!!template.leaderboard_enabled}
+                    disabled={savingId === template.template_id}
+                    onChange={e => handleToggle(template, e.target.checked)}
+                    inputProps={{ 'aria-label': `Leaderboard for ${template.template_name}` }}
+                  />
+                }
+              >
+                <ListItemText primary={template.template_name} secondary={template.test_type} />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LeaderboardSettingsDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Box } from '@mui/material';
+
+interface LiveAnnouncerProps {
+  message: string;
+}
+
+/**
+ * Visually hidden live region that reads status changes to screen readers
+ */
+export const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ message }) => {
+  return (
+    <Box
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      sx={{
+        position: 'absolute',
+        width: 1,
+        height: 1,
+        p: 0,
+        m: '-1px',
+        overflow: 'hidden',
+        clip: 'rect(0 0 0 0)',
+        whiteSpace: 'nowrap',
+        border: 0,
+      }}
+    >
+      {message}
+    </Box>
+  );
+};
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Upload as UploadIcon } from '@mui/icons-material';
+import { papersAPI } from '../services/api';
+import { ClonePaper } from '../utils/paperCloning';
+import {
+  BundleImportPlan,
+  BundleImportProgress,
+  BundleImportReport,
+  defaultImportPlan,
+  findConflictingPaper,
+  PaperBundle,
+  parsePaperBundle,
+  resolveSection,
+  runBundleImport,
+  sectionChoicesFor,
+  SectionImportResolution,
+  validateImportPlan,
+} from '../utils/paperBundle';
+
+interface PaperBundleImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (report: BundleImportReport) => void;
+}
+
+const RESOLUTION_LABELS: Record<SectionImportResolution, string> = {
+  create: 'Create',
+  merge: 'Merge into existing',
+  rename: 'Create with new name',
+  skip: 'Skip',
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Imports a paper bundle: previews its conflicts with the existing papers and
+ * sections, lets the admin merge, rename or skip them, and reports what was
+ * created
+ */
+export const PaperBundleImportDialog: React.FC<PaperBundleImportDialogProps> = ({ open, onClose, onImported }) => {
+  const [bundle, setBundle] = useState<PaperBundle | null>(null);
+  const [papers, setPapers] = useState<ClonePaper[]>([]);
+  const [conflict, setConflict] = useState<ClonePaper | null>(null);
+  const [plan, setPlan] = useState<BundleImportPlan | null>(null);
+  const [newPaperName, setNewPaperName] = useState('');
+  const [reading, setReading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<BundleImportProgress | null>(null);
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setBundle(null);
+    setPlan(null);
+    setConflict(null);
+    setReport(null);
+    setProgress(null);
+    setError(null);
+  }, [open]);
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    setError(null);
+    try {
+      const parsed = parsePaperBundle(await file.text());
+      const response = await papersAPI.getPapers();
+      const { data } = response;
+      // The papers list is either a plain array or a page with items
+      const papersData: ClonePaper[] = Array.isArray(data)
+        ? data
+        : data && typeof data === 'object' && 'items' in data && Array.isArray(data.items) ? data.items : [];
+      const existing = papersData.map(paper => ({ ...paper, sections: paper.sections || [] }));
+      const initial = defaultImportPlan(parsed, existing);
+      setPapers(existing);
+      setBundle(parsed);
+      setConflict(findConflictingPaper(parsed, existing));
+      setPlan(initial);
+      setNewPaperName(initial.target.type === 'newPaper' ? initial.target.paper_name : parsed.paper.paper_name);
+    } catch (err: any) {
+      console.error('[PaperBundle] Error reading bundle:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to read the bundle');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleTargetChange = (merge: boolean) => {
+    if (!bundle || !plan) return;
+    setPlan(merge && conflict
+      ? { target: { type: 'existingPaper', paper: conflict }, sections: sectionChoicesFor(bundle, conflict) }
+      : { target: { type: 'newPaper', paper_name: newPaperName }, sections: sectionChoicesFor(bundle, null) });
+  };
+
+  const handlePaperNameChange = (name: string) => {
+    setNewPaperName(name);
+    setPlan(prev => (prev && prev.target.type === 'newPaper' ? { ...prev, target: { type: 'newPaper', paper_name: name } } : prev));
+  };
+
+  const handleSectionNameChange = (sectionId: number, name: string) =>
+    setPlan(prev => prev && {
+      ...prev,
+      sections: prev.sections.map(choice => (choice.source.id === sectionId ? { ...choice, section_name: name } : choice)),
+    });
+
+  const handleImport = async () => {
+    if (!bundle || !plan) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await runBundleImport(bundle, plan, setProgress);
+      setReport(result);
+      onImported(result);
+    } catch (err: any) {
+      console.error('[PaperBundle] Error importing bundle:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to import the bundle');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const validationErrors = bundle && plan ? validateImportPlan(plan, papers) : [];
+  const questionCount = (sectionId: number) => bundle?.questions.filter(q => q.section_id === sectionId).length ?? 0;
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="md" fullWidth aria-labelledby="paper-bundle-import-title">
+      <DialogTitle id="paper-bundle-import-title">Import Paper</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {report ? (
+          <Box>
+            <Alert severity={report.errors.length > 0 || report.questionsFailed.length > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+              {report.paper && (
+                <>{report.paper.created ? 'Created' : 'Merged into'} paper <b>{report.paper.paper_name}</b> (ID: {report.paper.paper_id}). </>
+              )}
+              Imported {plural(report.questionsImported, 'question')} as drafts.
+            </Alert>
+            {report.sectionsCreated.length > 0 && (
+              <Typography variant="body2">Sections created: {report.sectionsCreated.join(', ')}</Typography>
+            )}
+            {report.sectionsMerged.length > 0 && (
+              <Typography variant="body2">Sections merged: {report.sectionsMerged.join(', ')}</Typography>
+            )}
+            {report.sectionsSkipped.length > 0 && (
+              <Typography variant="body2">Sections skipped: {report.sectionsSkipped.join(', ')}</Typography>
+            )}
+            <Typography variant="body2">Subsections created: {report.subsectionsCreated}</Typography>
+            {report.questionsSkipped > 0 && (
+              <Typography variant="body2">
+                {plural(report.questionsSkipped, 'question')} already in the merged sections {report.questionsSkipped === 1 ? 'was' : 'were'} skipped
+              </Typography>
+            )}
+            {[...report.errors, ...report.questionsFailed.slice(0, 20).map(f => `Question #${f.id}: ${f.error}`)].map((message, index) => (
+              <Typography key={index} variant="body2" color="error">{message}</Typography>
+            ))}
+          </Box>
+        ) : running ? (
+          <Box sx={{ py: 2 }}>
+            <Typography variant="body2" gutterBottom>{progress?.label || 'Starting…'}</Typography>
+            <LinearProgress
+              variant={progress && progress.total > 0 ? 'determinate' : 'indeterminate'}
+              value={progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+            />
+          </Box>
+        ) : !bundle || !plan ? (
+          <Box sx={{ py: 2, textAlign: 'center' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Choose a paper bundle (.bundle.json) exported from this or another environment.
+            </Typography>
+            <Button variant="outlined" component="label" startIcon={<UploadIcon />} disabled={reading}>
+              {reading ? 'Reading…' : 'Choose Bundle'}
+              <input
+                type="file"
+                hidden
+                accept=".json,application/json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </Button>
+          </Box>
+        ) : (
+          <Box>
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              <b>{bundle.paper.paper_name}</b>: {plural(bundle.paper.sections.length, 'section')},{' '}
+              {plural(bundle.questions.length, 'question')} and {plural(Object.keys(bundle.images).length, 'image')}
+              {bundle.exported_at && `, exported ${new Date(bundle.exported_at).toLocaleString()}`}.
+            </Typography>
+
+            {conflict && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {conflict.paper_name.trim().toLowerCase() === bundle.paper.paper_name.trim().toLowerCase()
+                  ? <>A paper named <b>{conflict.paper_name}</b> already exists (ID: {conflict.paper_id}).</>
+                  : <>The bundle was exported from paper ID {conflict.paper_id}, which exists here as <b>{conflict.paper_name}</b>.</>}
+              </Alert>
+            )}
+
+            <RadioGroup
+              value={plan.target.type}
+              onChange={(e) => handleTargetChange(e.target.value === 'existingPaper')}
+              sx={{ mb: 2 }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <FormControlLabel value="newPaper" control={<Radio />} label="Import as a new paper named" />
+                <TextField
+                  size="small"
+                  value={newPaperName}
+                  onChange={(e) => handlePaperNameChange(e.target.value)}
+                  disabled={plan.target.type !== 'newPaper'}
+                  sx={{ flexGrow: 1 }}
+                />
+              </Box>
+              {conflict && (
+                <FormControlLabel
+                  value="existingPaper"
+                  control={<Radio />}
+                  label={`Merge into the existing paper "${conflict.paper_name}"`}
+                />
+              )}
+            </RadioGroup>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Section</TableCell>
+                  <TableCell align="right">Questions</TableCell>
+                  <TableCell>Import as</TableCell>
+                  <TableCell>Name</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plan.sections.map(choice => {
+                  const options: SectionImportResolution[] = choice.existing ? ['merge', 'rename', 'skip'] : ['create', 'skip'];
+                  return (
+                    <TableRow key={choice.source.id}>
+                      <TableCell>
+                        {choice.source.section_name}
+                        {choice.existing && (
+                          <Typography variant="caption" color="warning.main" display="block">Name already used in this paper</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{questionCount(choice.source.id)}</TableCell>
+                      <TableCell>
+                        <Select
+                          size="small"
+                          value={choice.resolution}
+                          onChange={(e) => setPlan(resolveSection(plan, choice.source.id, e.target.value as SectionImportResolution))}
+                          inputProps={{ 'aria-label': `Import ${choice.source.section_name} as` }}
+                        >
+                          {options.map(option => (
+                            <MenuItem key={option} value={option}>{RESOLUTION_LABELS[option]}</MenuItem>
+                          ))}
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {choice.resolution === 'create' || choice.resolution === 'rename' ? (
+                          <TextField
+                            size="small"
+                            value={choice.section_name}
+                            onChange={(e) => handleSectionNameChange(choice.source.id, e.target.value)}
+                            inputProps={{ 'aria-label': `Name of ${choice.source.section_name}` }}
+                          />
+                        ) : choice.resolution === 'merge' ? (
+                          <Typography variant="body2" color="text.secondary">{choice.existing?.section_name}</Typography>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Questions are imported as drafts. Subsections are matched by name when merging, and questions whose text
+              is already in a merged section are skipped.
+            </Typography>
+
+            {validationErrors.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {validationErrors.map((message, index) => <div key={index}>{message}</div>)}
+              </Alert>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>{report ? 'Close' : 'Cancel'}</Button>
+        {bundle && plan && !report && (
+          <Button variant="contained" onClick={handleImport} disabled={running || validationErrors.length > 0}>
+            Import
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PaperBundleImportDialog;
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ClonePaper,
+  ClonePlan,
+  CloneProgress,
+  CloneReport,
+  CloneSection,
+  runClonePlan,
+  suggestCopyName,
+  validateClonePlan,
+} from '../utils/paperCloning';
+
+export interface CloneRequest {
+  paper: ClonePaper;
+  section?: CloneSection;  // Set to copy one section instead of the whole paper
+}
+
+interface PaperCloneDialogProps {
+  request: CloneRequest | null;
+  papers: ClonePaper[];
+  onClose: () => void;
+  onCloned: (report: CloneReport) => void;
+}
+
+interface SectionRow {
+  source: CloneSection;
+  include: boolean;
+  section_name: string;
+  subsection_names: string[];
+}
+
+const sectionRow = (source: CloneSection, sectionName: string): SectionRow => ({
+  source,
+  include: true,
+  section_name: sectionName,
+  subsection_names: (source.subsections || []).map(subsection => subsection.subsection_name),
+});
+
+/**
+ * Duplicates a paper, or one of its sections into any paper, with a chance to
+ * rename every copied section and subsection and to copy their questions,
+ * then reports what was created
+ */
+export const PaperCloneDialog: React.FC<PaperCloneDialogProps> = ({ request, papers, onClose, onCloned }) => {
+  const [paperName, setPaperName] = useState('');
+  const [totalMarks, setTotalMarks] = useState(0);
+  const [description, setDescription] = useState('');
+  const [targetPaperId, setTargetPaperId] = useState<number | ''>('');
+  const [rows, setRows] = useState<SectionRow[]>([]);
+  const [includeQuestions, setIncludeQuestions] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<CloneProgress | null>(null);
+  const [report, setReport] = useState<CloneReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sectionMode = !!request?.section;
+  const targetPaper = papers.find(paper => paper.paper_id === targetPaperId);
+  const targetSectionNames = useMemo(
+    () => (sectionMode ? (targetPaper?.sections || []).map(section => section.section_name) : []),
+    [sectionMode, targetPaper]
+  );
+
+  useEffect(() => {
+    if (!request) return;
+    setReport(null);
+    setProgress(null);
+    setError(null);
+    setIncludeQuestions(true);
+    if (request.section) {
+      setTargetPaperId(request.paper.paper_id);
+      setRows([sectionRow(
+        request.section,
+        suggestCopyName(request.section.section_name, request.paper.sections.map(section => section.section_name))
+      )]);
+    } else {
+      setPaperName(suggestCopyName(request.paper.paper_name, papers.map(paper => paper.paper_name)));
+      setTotalMarks(request.paper.total_marks);
+      setDescription(request.paper.description || '');
+      setRows(request.paper.sections.map(section => sectionRow(section, section.section_name)));
+    }
+    // Suggestions are only made when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request]);
+
+  if (!request) return null;
+
+  const plan: ClonePlan = {
+    source: request.paper,
+    target: sectionMode
+      ? { type: 'existingPaper', paper_id: Number(targetPaperId) }
+      : { type: 'newPaper', paper_name: paperName, total_marks: totalMarks, description },
+    sections: rows
+      .filter(row => row.include)
+      .map(row => ({ source: row.source, section_name: row.section_name, subsection_names: row.subsection_names })),
+    includeQuestions,
+  };
+  const validationErrors = validateClonePlan(plan, targetSectionNames);
+
+  const updateRow = (index: number, changes: Partial<SectionRow>) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleTargetChange = (paperId: number) => {
+    setTargetPaperId(paperId);
+    const target = papers.find(paper => paper.paper_id === paperId);
+    if (request.section && target) {
+      updateRow(0, {
+        section_name: suggestCopyName(request.section.section_name, target.sections.map(section => section.section_name)),
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await runClonePlan(plan, setProgress);
+      setReport(result);
+      onCloned(result);
+    } catch (err: any) {
+      console.error('[PaperClone] Error copying:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to create the copy');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const title = sectionMode ? `Duplicate Section: ${request.section!.section_name}` : `Duplicate Paper: ${request.paper.paper_name}`;
+
+  return (
+    <Dialog open onClose={running ? undefined : onClose} maxWidth="md" fullWidth aria-labelledby="paper-clone-title">
+      <DialogTitle id="paper-clone-title">{title}</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {report ? (
+          <Box>
+            <Alert severity={report.errors.length > 0 || report.questionsFailed.length > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+              {report.paper && <>Created paper <b>{report.paper.paper_name}</b> (ID: {report.paper.paper_id}). </>}
+              Created {report.sections.length} section{report.sections.length === 1 ? '' : 's'} and{' '}
+              {report.subsections.length} subsection{report.subsections.length === 1 ? '' : 's'}
+              {plan.includeQuestions && `, and copied ${report.questionsCopied} question${report.questionsCopied === 1 ? '' : 's'} as drafts`}.
+            </Alert>
+            {report.sections.map(section => (
+              <Typography key={section.to} variant="body2">
+                Section #{section.from} → {section.section_name} (ID: {section.to})
+              </Typography>
+            ))}
+            {report.errors.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2" color="error">Not created</Typography>
+                {report.errors.map((message, index) => (
+                  <Typography key={index} variant="body2" color="error">{message}</Typography>
+                ))}
+              </Box>
+            )}
+            {report.questionsFailed.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2" color="error">
+                  {report.questionsFailed.length} question{report.questionsFailed.length === 1 ? '' : 's'} could not be copied
+                </Typography>
+                {report.questionsFailed.slice(0, 20).map(failure => (
+                  <Typography key={failure.question_id} variant="body2" color="error">
+                    #{failure.question_id}: {failure.error}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+          </Box>
+        ) : running ? (
+          <Box sx={{ py: 2 }}>
+            <Typography variant="body2" gutterBottom>{progress?.label || 'Starting…'}</Typography>
+            <LinearProgress
+              variant={progress && progress.total > 0 ? 'determinate' : 'indeterminate'}
+              value={progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+            />
+          </Box>
+        ) : (
+          <Box>
+            {sectionMode ? (
+              <FormControl fullWidth sx={{ mb: 2 }}>
+                <InputLabel id="clone-target-paper-label">Copy into paper</InputLabel>
+                <Select
+                  labelId="clone-target-paper-label"
+                  label="Copy into paper"
+                  value={targetPaperId}
+                  onChange={(e) => handleTargetChange(Number(e.target.value))}
+                >
+                  {papers.map(paper => (
+                    <MenuItem key={paper.paper_id} value={paper.paper_id}>{paper.paper_name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ) : (
+              <Grid container spacing={2} sx={{ mb: 2 }}>
+                <Grid item xs={12} md={8}>
+                  <TextField fullWidth label="New paper name" value={paperName} onChange={(e) => setPaperName(e.target.value)} required />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextField
+                    fullWidth
+                    label="Total Marks"
+                    type="number"
+                    value={totalMarks}
+                    onChange={(e) => setTotalMarks(Number(e.target.value))}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <TextField
+                    fullWidth
+                    label="Description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    multiline
+                    rows={2}
+                  />
+                </Grid>
+              </Grid>
+            )}
+
+            <Typography variant="subtitle2" gutterBottom>
+              {sectionMode ? 'Names of the copies' : 'Sections to copy'}
+            </Typography>
+            {rows.length === 0 && (
+              <Typography variant="body2" color="text.secondary">This paper has no sections.</Typography>
+            )}
+            {rows.map((row, index) => (
+              <Paper key={row.source.section_id ?? index} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {!sectionMode && (
+                    <Checkbox
+                      checked={row.include}
+                      onChange={(e) => updateRow(index, { include: e.target.checked })}
+                      inputProps={{ 'aria-label': `Copy section ${row.source.section_name}` }}
+                    />
+                  )}
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label={`Section (from ${row.source.section_name})`}
+                    value={row.section_name}
+                    disabled={!row.include}
+                    onChange={(e) => updateRow(index, { section_name: e.target.value })}
+                  />
+                </Box>
+                {row.include && row.subsection_names.length > 0 && (
+                  <Box sx={{ pl: sectionMode ? 2 : 7, pt: 1, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {row.subsection_names.map((name, subIndex) => (
+                      <TextField
+                        key={subIndex}
+                        size="small"
+                        label={`Subsection (from ${row.source.subsections[subIndex].subsection_name})`}
+                        value={name}
+                        onChange={(e) => updateRow(index, {
+                          subsection_names: row.subsection_names.map((value, i) => (i === subIndex ? e.target.value : value)),
+                        })}
+                        sx={{ minWidth: 240 }}
+                      />
+                    ))}
+                  </Box>
+                )}
+              </Paper>
+            ))}
+
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={<Switch checked={includeQuestions} onChange={(e) => setIncludeQuestions(e.target.checked)} />}
+              label="Copy the questions of these sections"
+            />
+            {includeQuestions && (
+              <Typography variant="body2" color="text.secondary">
+                Active questions are copied as drafts into the matching new section and subsection, and need review
+                before they are served in tests.
+              </Typography>
+            )}
+
+            {validationErrors.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {validationErrors.map((message, index) => <div key={index}>{message}</div>)}
+              </Alert>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>{report ? 'Close' : 'Cancel'}</Button>
+        {!report && (
+          <Button variant="contained" onClick={handleRun} disabled={running || validationErrors.length > 0}>
+            Duplicate
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PaperCloneDialog;
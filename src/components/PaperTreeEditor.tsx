@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { DragIndicator as DragIcon } from '@mui/icons-material';
+import { sectionsAPI, subsectionsAPI } from '../services/api';
+import {
+  applyTreeMove,
+  HierarchyUsage,
+  normalizeUsage,
+  OrderedPaper,
+  planTreeMove,
+  sortHierarchy,
+  TreeDragItem,
+  TreeDropTarget,
+  TreeMove,
+} from '../utils/hierarchyOrdering';
+
+interface PaperTreeEditorProps {
+  papers: OrderedPaper[];
+  onReordered: (papers: OrderedPaper[]) => void;  // The order was saved
+  onMoved: () => void;                            // A node moved to another parent
+}
+
+interface PendingMove {
+  move: TreeMove;
+  usage: HierarchyUsage | null;
+  loading: boolean;
+}
+
+const dropKey = (target: TreeDropTarget) =>
+  target.type === 'section' ? `section-${target.paper_id}-${target.index}` : `subsection-${target.section_id}-${target.index}`;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Drag-and-drop editor of the display order of sections and subsections.
+ * Dropping within the same paper or section reorders it; dropping into
+ * another one moves the node with its questions after a confirmation that
+ * shows how many questions and templates are affected.
+ */
+export const PaperTreeEditor: React.FC<PaperTreeEditorProps> = ({ papers, onReordered, onMoved }) => {
+  const [tree, setTree] = useState<OrderedPaper[]>(() => sortHierarchy(papers));
+  const [dragging, setDragging] = useState<TreeDragItem | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingMove | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTree(sortHierarchy(papers));
+  }, [papers]);
+
+  const saveOrder = async (move: TreeMove) => {
+    if (move.item.type === 'section') {
+      await sectionsAPI.reorderSections(move.toParentId, move.order);
+    } else {
+      await subsectionsAPI.reorderSubsections(move.toParentId, move.order);
+    }
+  };
+
+  const handleReorder = async (move: TreeMove) => {
+    const previous = tree;
+    const updated = applyTreeMove(tree, move);
+    setTree(updated);
+    setError(null);
+    try {
+      await saveOrder(move);
+      onReordered(updated);
+    } catch (err: any) {
+      console.error('[PaperTree] Error saving the order:', err);
+      setTree(previous);
+      setError(err.response?.data?.detail || err.message || 'Failed to save the new order');
+    }
+  };
+
+  const requestMove = async (move: TreeMove) => {
+    setPending({ move, usage: null, loading: true });
+    try {
+      const response = move.item.type === 'section'
+        ? await sectionsAPI.getSectionUsage(move.item.section_id)
+        : await subsectionsAPI.getSubsectionUsage(move.item.subsection_id);
+      setPending(prev => (prev?.move === move ? { ...prev, usage: normalizeUsage(response.data), loading: false } : prev));
+    } catch (err) {
+      console.error('[PaperTree] Error loading usage:', err);
+      setPending(prev => (prev?.move === move ? { ...prev, loading: false } : prev));
+    }
+  };
+
+  const handleConfirmMove = async () => {
+    if (!pending) return;
+    const { move } = pending;
+    setSaving(true);
+    setError(null);
+    try {
+      if (move.item.type === 'section') {
+        await sectionsAPI.moveSection(move.item.section_id, { paper_id: move.toParentId, display_order: move.index });
+      } else {
+        await subsectionsAPI.moveSubsection(move.item.subsection_id, { section_id: move.toParentId, display_order: move.index });
+      }
+      await saveOrder(move);
+      setTree(prev => applyTreeMove(prev, move));
+      setPending(null);
+      onMoved();
+    } catch (err: any) {
+      console.error('[PaperTree] Error moving:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to move');
+      setPending(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dropProps = (target: TreeDropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging || dragging.type !== target.type) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setHint(dropKey(target));
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!dragging || dragging.type !== target.type) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const move = planTreeMove(tree, dragging, target);
+      setDragging(null);
+      setHint(null);
+      if (!move) return;
+      if (move.parentChanged) {
+        requestMove(move);
+      } else {
+        handleReorder(move);
+      }
+    },
+  });
+
+  const dragProps = (item: TreeDragItem) => ({
+    draggable: !saving,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = 'move';
+      // Firefox only starts a drag that carries data
+      e.dataTransfer.setData('text/plain', item.type === 'section' ? String(item.section_id) : String(item.subsection_id));
+      setDragging(item);
+    },
+    onDragEnd: () => {
+      setDragging(null);
+      setHint(null);
+    },
+  });
+
+  const indicator = (target: TreeDropTarget) => (
+    <Box sx={{ height: 4, borderRadius: 1, bgcolor: hint === dropKey(target) ? 'primary.main' : 'transparent' }} />
+  );
+
+  const rowSx = { display: 'flex', alignItems: 'center', gap: 1, py: 0.5, px: 1, cursor: 'grab' };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Drag sections and subsections to change the order in which they are shown. Dropping one into another paper or
+        section moves it there together with its questions.
+      </Typography>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {tree.map(paper => {
+        const appendSection: TreeDropTarget = { type: 'section', paper_id: paper.paper_id, index: paper.sections.length };
+        return (
+          <Paper key={paper.paper_id} variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+            <Typography variant="subtitle1" {...dropProps(appendSection)}>{paper.paper_name}</Typography>
+            {paper.sections.map((section, sectionIndex) => {
+              const sectionId = Number(section.section_id);
+              const beforeSection: TreeDropTarget = { type: 'section', paper_id: paper.paper_id, index: sectionIndex };
+              const appendSubsection: TreeDropTarget = { type: 'subsection', section_id: sectionId, index: section.subsections.length };
+              return (
+                <Box key={sectionId} {...dropProps(beforeSection)}>
+                  {indicator(beforeSection)}
+                  <Paper
+                    variant="outlined"
+                    sx={{ opacity: dragging?.type === 'section' && dragging.section_id === sectionId ? 0.5 : 1 }}
+                    {...dragProps({ type: 'section', paper_id: paper.paper_id, section_id: sectionId })}
+                  >
+                    <Box sx={rowSx} {...dropProps(appendSubsection)}>
+                      <DragIcon fontSize="small" color="action" />
+                      <Typography>{section.section_name}</Typography>
+                    </Box>
+                    <Box sx={{ pl: 4, pr: 1, pb: 0.5 }}>
+                      {section.subsections.map((subsection, subsectionIndex) => {
+                        const subsectionId = Number(subsection.subsection_id);
+                        const beforeSubsection: TreeDropTarget = { type: 'subsection', section_id: sectionId, index: subsectionIndex };
+                        return (
+                          <Box key={subsectionId} {...dropProps(beforeSubsection)}>
+                            {indicator(beforeSubsection)}
+                            <Box
+                              sx={{
+                                ...rowSx,
+                                border: 1,
+                                borderColor: 'divider',
+                                borderRadius: 1,
+                                opacity: dragging?.type === 'subsection' && dragging.subsection_id === subsectionId ? 0.5 : 1,
+                              }}
+                              {...dragProps({ type: 'subsection', section_id: sectionId, subsection_id: subsectionId })}
+                            >
+                              <DragIcon fontSize="small" color="action" />
+                              <Typography variant="body2">{subsection.subsection_name}</Typography>
+                            </Box>
+                          </Box>
+                        );
+                      })}
+                      <Box {...dropProps(appendSubsection)}>
+                        {indicator(appendSubsection)}
+                        {section.subsections.length === 0 && dragging?.type === 'subsection' && (
+                          <Typography variant="caption" color="text.secondary">Drop here to move into this section</Typography>
+                        )}
+                      </Box>
+                    </Box>
+                  </Paper>
+                </Box>
+              );
+            })}
+            <Box {...dropProps(appendSection)} sx={{ minHeight: 8 }}>
+              {indicator(appendSection)}
+              {paper.sections.length === 0 && dragging?.type === 'section' && (
+                <Typography variant="caption" color="text.secondary">Drop here to move into this paper</Typography>
+              )}
+            </Box>
+          </Paper>
+        );
+      })}
+
+      <Dialog open={!!pending} onClose={saving ? undefined : () => setPending(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Move {pending?.move.item.type === 'section' ? 'Section' : 'Subsection'}</DialogTitle>
+        <DialogContent>
+          {pending && (
+            <DialogContentText component="div">
+              Move <b>{pending.move.name}</b> to <b>{pending.move.toParentName}</b>?
+              {pending.loading ? (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+                  <CircularProgress size={16} /> Counting affected questions and templates…
+                </Box>
+              ) : pending.usage ? (
+                <Box sx={{ mt: 2 }}>
+                  {plural(pending.usage.question_count, 'question')} will move with it
+                  {pending.usage.template_count > 0 &&
+                    `, and ${plural(pending.usage.template_count, 'test template')} that draw from it will follow the new location`}.
+                </Box>
+              ) : (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  The number of affected questions and templates could not be loaded.
+                </Alert>
+              )}
+            </DialogContentText>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)} disabled={saving}>Cancel</Button>
+          <Button variant="contained" onClick={handleConfirmMove} disabled={saving || !!pending?.loading}>
+            {saving ? 'Moving…' : 'Move'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PaperTreeEditor;
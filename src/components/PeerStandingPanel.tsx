@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { PeerScope, PeerStanding } from '../types';
+import { loadPeerStanding, MIN_PEERS_FOR_STANDING, ordinal } from '../utils/peerStanding';
+
+interface PeerStandingPanelProps {
+  attemptId: number;
+  title?: string;
+}
+
+/**
+ * Percentile, rank and score distribution of an attempt among the attempts
+ * on the same template or paper, with the anonymized leaderboard when the
+ * template has it enabled
+ */
+export const PeerStandingPanel: React.FC<PeerStandingPanelProps> = ({ attemptId, title = 'Standing Among Peers' }) => {
+  const theme = useTheme();
+  const [scope, setScope] = useState<PeerScope>('template');
+  const [standing, setStanding] = useState<PeerStanding | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStanding(null);
+    setError(null);
+    setLoading(true);
+    loadPeerStanding(attemptId, scope)
+      .then(loaded => {
+        if (!cancelled) setStanding(loaded);
+      })
+      .catch((err: any) => {
+        console.error('[PeerStanding] Error loading peer standing:', err);
+        if (!cancelled) setError(err.response?.data?.detail || err.message || 'Failed to load the peer standing');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId, scope]);
+
+  const chartData = (standing?.histogram || []).map(bin => ({
+    name: `${bin.from}-${bin.to}%`,
+    Attempts: bin.count,
+    includesAttempt: bin.includes_attempt,
+  }));
+
+  return (
+    <Paper sx={{ p: 3, mb: 4, borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Typography variant="h6" fontWeight="bold">
+          {title}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={scope}
+          onChange={(_, value: PeerScope | null) => value && setScope(value)}
+        >
+          <ToggleButton value="template">Same test</ToggleButton>
+          <ToggleButton value="paper">Same paper</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {loading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={32} />
+        </Box>
+      )}
+      {error && <Alert severity="info">{error}</Alert>}
+
+      {standing && standing.peer_count < MIN_PEERS_FOR_STANDING && (
+        <Typography variant="body2" color="text.secondary">
+          No one else has taken this {scope === 'template' ? 'test' : 'paper'} yet, so there is nothing to compare with.
+        </Typography>
+      )}
+
+      {standing && standing.peer_count >= MIN_PEERS_FOR_STANDING && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="body2" color="text.secondary">Percentile</Typography>
+              <Typography variant="h5" fontWeight="bold">{ordinal(standing.percentile)}</Typography>
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="body2" color="text.secondary">Rank</Typography>
+              <Typography variant="h5" fontWeight="bold">
+                {standing.rank} <Typography component="span" color="text.secondary">of {standing.peer_count}</Typography>
+              </Typography>
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="body2" color="text.secondary">Your score</Typography>
+              <Typography variant="h5" fontWeight="bold">{standing.percentage}%</Typography>
+            </Grid>
+          </Grid>
+
+          <Typography variant="subtitle2" gutterBottom>Score distribution</Typography>
+          <Box sx={{ height: 220, mb: standing.leaderboard ? 3 : 0 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme.palette.divider} />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="Attempts">
+                  {chartData.map(bin => (
+                    <Cell
+                      key={bin.name}
+                      fill={bin.includesAttempt ? theme.palette.primary.main : theme.palette.grey[400]}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </Box>
+
+          {standing.leaderboard && standing.leaderboard.length > 0 && (
+            <>
+              <Typography variant="subtitle2" gutterBottom>Leaderboard</Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Rank</TableCell>
+                      <TableCell>Candidate</TableCell>
+                      <TableCell align="right">Score</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {standing.leaderboard.map((entry, index) => (
+                      <TableRow key={index} selected={entry.is_current_attempt}>
+                        <TableCell>{entry.rank}</TableCell>
+                        <TableCell sx={{ fontWeight: entry.is_current_attempt ? 'bold' : undefined }}>{entry.label}</TableCell>
+                        <TableCell align="right">{entry.percentage}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default PeerStandingPanel;
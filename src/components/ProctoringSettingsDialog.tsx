@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { testsAPI } from '../services/api';
+import { ProctoringConfig } from '../types';
+import { DEFAULT_PROCTORING_CONFIG, fetchProctoringPolicy, validateProctoringConfig } from '../utils/proctoring';
+
+interface ProctoringSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Admin settings for proctoring mock tests. Candidates get these settings
+ * when they start a mock test and cannot change them.
+ */
+export const ProctoringSettingsDialog: React.FC<ProctoringSettingsDialogProps> = ({ open, onClose }) => {
+  const [config, setConfig] = useState<ProctoringConfig>(DEFAULT_PROCTORING_CONFIG);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setError(null);
+    setLoaded(false);
+    setLoading(true);
+    fetchProctoringPolicy()
+      .then(policy => {
+        if (!cancelled) {
+          setConfig(policy);
+          setLoaded(true);
+        }
+      })
+      .catch((err: any) => {
+        console.error('[ProctoringSettings] Error loading the proctoring policy:', err);
+        if (!cancelled) setError(err.response?.data?.detail || err.message || 'Failed to load the proctoring settings');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleSave = async () => {
+    const problem = validateProctoringConfig(config);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await testsAPI.updateProctoringPolicy(config);
+      onClose();
+    } catch (err: any) {
+      console.error('[ProctoringSettings] Error saving the proctoring policy:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to save the proctoring settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setThreshold = (key: 'warningThreshold' | 'autoSubmitThreshold', value: string) =>
+    setConfig(prev => ({ ...prev, [key]: Math.max(0, parseInt(value) || 0) }));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Proctoring</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Applies to every mock test candidates start. Proctoring records tab switches, fullscreen exits,
+          copy/paste from question content and developer-tools shortcuts.
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={config.enabled}
+                  disabled={!loaded}
+                  onChange={e => setConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+                />
+              }
+              label="Enable proctoring mode"
+            />
+            {config.enabled && (
+              <Grid container spacing={2} sx={{ mt: 0 }}>
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={config.requireFullscreen}
+                        onChange={e => setConfig(prev => ({ ...prev, requireFullscreen: e.target.checked }))}
+                      />
+                    }
+                    label="Require fullscreen"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Warn after violations"
+                    type="number"
+                    value={config.warningThreshold}
+                    onChange={e => setThreshold('warningThreshold', e.target.value)}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="0 disables the warning"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    fullWidth
+                    label="Auto-submit after violations"
+                    type="number"
+                    value={config.autoSubmitThreshold}
+                    onChange={e => setThreshold('autoSubmitThreshold', e.target.value)}
+                    inputProps={{ min: 0, step: 1 }}
+                    helperText="0 disables auto-submit"
+                  />
+                </Grid>
+              </Grid>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!loaded || saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProctoringSettingsDialog;
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { Box, Chip, Grid, Paper, Typography } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { richContentToPlainText } from '../utils/richContent';
+import {
+  ComparableQuestion,
+  DiffSegment,
+  SimilarityScore,
+  diffWords,
+  normalizeForComparison,
+} from '../utils/questionSimilarity';
+
+interface QuestionComparisonProps {
+  left: ComparableQuestion;
+  right: ComparableQuestion;
+  leftLabel: string;
+  rightLabel: string;
+  similarity?: SimilarityScore;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+    {segments.map((segment, index) => (
+      <Box
+        key={index}
+        component="span"
+        sx={segment.type === 'same' ? undefined : {
+          bgcolor: theme => alpha(segment.type === 'added' ? theme.palette.success.main : theme.palette.error.main, 0.2),
+          textDecoration: segment.type === 'removed' ? 'line-through' : 'none',
+          borderRadius: 0.5,
+        }}
+      >
+        {index > 0 ? ' ' : ''}{segment.text}
+      </Box>
+    ))}
+  </Typography>
+);
+
+const OptionList: React.FC<{ question: ComparableQuestion; otherOptions: Set<string> }> = ({ question, otherOptions }) => {
+  if (!question.options || question.options.length === 0) return null;
+  return (
+    <Box component="ol" sx={{ m: 0, mt: 1, pl: 3, listStyleType: 'upper-alpha' }}>
+      {question.options.map((option, index) => {
+        const shared = otherOptions.has(normalizeForComparison(option.option_text));
+        return (
+          <Typography
+            component="li"
+            variant="body2"
+            key={index}
+            sx={shared ? undefined : { bgcolor: theme => alpha(theme.palette.warning.main, 0.2), borderRadius: 0.5 }}
+          >
+            {richContentToPlainText(option.option_text)}
+          </Typography>
+        );
+      })}
+    </Box>
+  );
+};
+
+/**
+ * Two questions side by side with word-level differences highlighted; options
+ * found in only one of the questions are highlighted whatever their order
+ */
+export const QuestionComparison: React.FC<QuestionComparisonProps> = ({
+  left,
+  right,
+  leftLabel,
+  rightLabel,
+  similarity,
+}) => {
+  const diff = useMemo(
+    () => diffWords(richContentToPlainText(left.question_text), richContentToPlainText(right.question_text)),
+    [left.question_text, right.question_text]
+  );
+  const optionSet = (question: ComparableQuestion) =>
+    new Set((question.options || []).map(option => normalizeForComparison(option.option_text)));
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      {similarity && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+          <Chip size="small" color={similarity.score >= 0.9 ? 'error' : 'warning'} label={`${percent(similarity.score)} similar`} />
+          <Chip size="small" variant="outlined" label={`Text ${percent(similarity.textScore)}`} />
+          {similarity.optionScore !== null && (
+            <Chip size="small" variant="outlined" label={`Options ${percent(similarity.optionScore)}`} />
+          )}
+        </Box>
+      )}
+      <Grid container spacing={2}>
+        {[
+          { label: leftLabel, question: left, segments: diff.left, other: right },
+          { label: rightLabel, question: right, segments: diff.right, other: left },
+        ].map(side => (
+          <Grid item xs={12} sm={6} key={side.label}>
+            <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+              {side.label}
+            </Typography>
+            <DiffText segments={side.segments} />
+            <OptionList question={side.question} otherOptions={optionSet(side.other)} />
+          </Grid>
+        ))}
+      </Grid>
+    </Paper>
+  );
+};
+
+export default QuestionComparison;
@@ -0,0 +1,575 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { papersAPI, questionsAPI, sectionsAPI, subsectionsAPI } from '../services/api';
+import { BankQuestion } from '../hooks/useQuestionBank';
+import { ComparableQuestion, SimilarMatch, buildSimilarityIndex } from '../utils/questionSimilarity';
+import { QuestionComparison } from './QuestionComparison';
+import {
+  ColumnMapping,
+  IMPORT_CHUNK_SIZE,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  ImportField,
+  ImportLookup,
+  ImportRow,
+  ImportValueField,
+  ResolvedImportRow,
+  buildImportCsv,
+  buildImportRows,
+  chunkItems,
+  findByIdOrName,
+  missingRequiredFields,
+  readSpreadsheet,
+  suggestColumnMapping,
+  validateImportRows,
+} from '../utils/questionImport';
+
+interface QuestionImportWizardProps {
+  file: File | null; // The wizard is open while a file is set
+  bankQuestions: BankQuestion[]; // Checked for duplicates of the imported rows
+  onClose: (hasReviewedRows: boolean) => void; // True when closed from the review step
+  onImported: (importedCount: number) => void;
+}
+
+interface SimilarQuestionWarning {
+  label: string; // "#123" for bank questions, "Row 7" for rows of the file
+  match: SimilarMatch<ComparableQuestion>;
+}
+
+type ChunkStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+interface UploadChunk {
+  rows: ResolvedImportRow[];
+  status: ChunkStatus;
+  error?: string;
+}
+
+const STEPS = ['Map columns', 'Review rows', 'Upload'];
+
+// Columns of the review grid that can be edited in place
+const GRID_FIELDS: Array<{ field: ImportValueField | 'options'; label: string; width: number }> = [
+  { field: 'question_text', label: 'Question', width: 260 },
+  { field: 'question_type', label: 'Type', width: 110 },
+  { field: 'paper', label: 'Paper', width: 140 },
+  { field: 'section', label: 'Section', width: 140 },
+  { field: 'subsection', label: 'Subsection', width: 120 },
+  { field: 'options', label: 'Options (separated by |)', width: 220 },
+  { field: 'correct_option_index', label: 'Correct', width: 80 },
+];
+
+const toComparable = (row: ImportRow): ComparableQuestion => ({
+  question_text: row.values.question_text,
+  options: row.options.map(option_text => ({ option_text })),
+});
+
+const listFrom = (data: any): any[] => (Array.isArray(data) ? data : data?.items ?? []);
+
+const uploadErrorMessage = (err: any): string => {
+  const detail = err?.response?.data?.detail;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) return detail.map((d: any) => d.msg || JSON.stringify(d)).join('; ');
+  return err?.message || 'Upload failed';
+};
+
+/**
+ * Load the papers, and the sections and subsections referenced by the rows,
+ * that row names and IDs are resolved against
+ */
+const loadLookup = async (rows: ImportRow[]): Promise<ImportLookup> => {
+  const papersRes = await papersAPI.getPapers();
+  const papers = listFrom(papersRes.data);
+
+  const referencedPapers = papers.filter(paper =>
+    rows.some(row => row.values.paper && findByIdOrName([paper], row.values.paper, p => p.paper_id, p => p.paper_name))
+  );
+
+  const sections: ImportLookup['sections'] = [];
+  for (const paper of referencedPapers) {
+    const res = await sectionsAPI.getSectionsByPaperId(paper.paper_id);
+    listFrom(res.data).forEach(section => sections.push({ ...section, paper_id: section.paper_id ?? paper.paper_id }));
+  }
+
+  const referencedSections = sections.filter(section =>
+    rows.some(row =>
+      row.values.subsection &&
+      findByIdOrName([section], row.values.section, s => s.section_id, s => s.section_name)
+    )
+  );
+
+  const subsections: ImportLookup['subsections'] = [];
+  for (const section of referencedSections) {
+    const res = await subsectionsAPI.getSubsections(section.section_id);
+    listFrom(res.data).forEach(subsection =>
+      subsections.push({ ...subsection, section_id: subsection.section_id ?? section.section_id })
+    );
+  }
+
+  return { papers, sections, subsections };
+};
+
+/**
+ * Import wizard for question spreadsheets: parses the file locally, maps its
+ * columns, flags invalid rows in an editable grid and uploads the valid rows
+ * in chunks
+ */
+export const QuestionImportWizard: React.FC<QuestionImportWizardProps> = ({
+  file,
+  bankQuestions,
+  onClose,
+  onImported,
+}) => {
+  const [step, setStep] = useState(0);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [lookup, setLookup] = useState<ImportLookup | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyInvalid, setOnlyInvalid] = useState(false);
+  const [gridPage, setGridPage] = useState(0);
+  const [gridPageSize, setGridPageSize] = useState(25);
+  const [chunks, setChunks] = useState<UploadChunk[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [comparing, setComparing] = useState<{ row: ImportRow; warning: SimilarQuestionWarning } | null>(null);
+
+  // Parse the file whenever a new one is opened
+  useEffect(() => {
+    if (!file) return;
+
+    setStep(0);
+    setRows([]);
+    setLookup(null);
+    setChunks([]);
+    setError(null);
+    setOnlyInvalid(false);
+    setGridPage(0);
+
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        const [headerRow = [], ...rest] = await readSpreadsheet(file);
+        if (cancelled) return;
+        if (rest.every(cells => cells.every(cell => !cell))) {
+          setError('The file has no question rows. Please download the sample template and fill it out.');
+        }
+        setHeaders(headerRow);
+        setDataRows(rest);
+        setMapping(suggestColumnMapping(headerRow));
+      } catch (err) {
+        console.error('[QuestionImport] Error reading file:', err);
+        if (!cancelled) {
+          setError('The file could not be read. Make sure it is a valid CSV or Excel (.xlsx) file.');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const existingQuestionTexts = useMemo(() => bankQuestions.map(q => q.question_text), [bankQuestions]);
+  const bankIndex = useMemo(() => buildSimilarityIndex<ComparableQuestion>(bankQuestions), [bankQuestions]);
+
+  const results = useMemo(
+    () => (lookup ? validateImportRows(rows, lookup, existingQuestionTexts) : []),
+    [rows, lookup, existingQuestionTexts]
+  );
+
+  // Near-duplicates only warn: rewording may be deliberate. Rows are compared
+  // with the bank and with the rows above them.
+  const similarWarnings = useMemo(() => {
+    const warnings = new Map<number, SimilarQuestionWarning[]>();
+    if (!lookup) return warnings;
+
+    const comparableRows = rows.map(toComparable);
+    const rowIndex = buildSimilarityIndex(comparableRows);
+    rows.forEach((row, index) => {
+      if (!results[index] || results[index].errors.length > 0) return;
+
+      const rowWarnings: SimilarQuestionWarning[] = bankIndex.findSimilar(comparableRows[index], { limit: 2 })
+        .map(match => ({ label: `#${match.question.question_id}`, match }));
+      const earlierRow = rowIndex.findSimilar(comparableRows[index], { limit: rows.length })
+        .find(match => comparableRows.indexOf(match.question) < index);
+      if (earlierRow) {
+        rowWarnings.push({ label: `Row ${rows[comparableRows.indexOf(earlierRow.question)].rowNumber}`, match: earlierRow });
+      }
+      if (rowWarnings.length > 0) {
+        warnings.set(row.rowNumber, rowWarnings);
+      }
+    });
+    return warnings;
+  }, [rows, results, lookup, bankIndex]);
+  const validRows = results.filter(result => result.resolved).map(result => result.resolved!);
+  const invalidCount = results.length - validRows.length;
+
+  const gridRows = useMemo(
+    () => rows
+      .map((row, index) => ({ row, result: results[index] }))
+      .filter(({ result }) => !onlyInvalid || (result && result.errors.length > 0)),
+    [rows, results, onlyInvalid]
+  );
+
+  const missingFields = missingRequiredFields(mapping);
+  const doneCount = chunks.filter(chunk => chunk.status === 'done').reduce((sum, chunk) => sum + chunk.rows.length, 0);
+  const failedChunks = chunks.filter(chunk => chunk.status === 'failed').length;
+  const finished = chunks.length > 0 && !uploading;
+
+  const handleMappingChange = (column: number, field: ImportField | '') => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field || null;
+      // Only options can come from several columns
+      return field && field !== 'option' && current === field ? null : current;
+    }));
+  };
+
+  const handleReview = async () => {
+    const importRows = buildImportRows(dataRows, mapping);
+    setRows(importRows);
+    setGridPage(0);
+    setError(null);
+
+    try {
+      setLoading(true);
+      setLookup(await loadLookup(importRows));
+      setStep(1);
+    } catch (err) {
+      console.error('[QuestionImport] Error loading papers and sections:', err);
+      setError('Failed to load papers and sections. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCellChange = (rowNumber: number, field: ImportValueField | 'options', value: string) => {
+    setRows(prev => prev.map(row => {
+      if (row.rowNumber !== rowNumber) return row;
+      if (field === 'options') {
+        return { ...row, options: value === '' ? [] : value.split('|').map(option => option.trim()) };
+      }
+      return { ...row, values: { ...row.values, [field]: value } };
+    }));
+  };
+
+  // Upload chunk by chunk, so one bad chunk does not fail the whole import
+  const runUpload = async (initial: UploadChunk[]) => {
+    setUploading(true);
+    const current = [...initial];
+    let uploaded = 0;
+    const baseName = (file?.name || 'questions').replace(/\.[^.]+$/, '');
+
+    for (let i = 0; i < current.length; i++) {
+      if (current[i].status === 'done') continue;
+
+      current[i] = { ...current[i], status: 'uploading', error: undefined };
+      setChunks([...current]);
+      try {
+        const csv = buildImportCsv(current[i].rows);
+        const chunkFile = new File([csv], `${baseName}-part-${i + 1}.csv`, { type: 'text/csv' });
+        await questionsAPI.uploadQuestions(chunkFile);
+        current[i] = { ...current[i], status: 'done' };
+        uploaded += current[i].rows.length;
+      } catch (err) {
+        console.error(`[QuestionImport] Chunk ${i + 1} failed:`, err);
+        current[i] = { ...current[i], status: 'failed', error: uploadErrorMessage(err) };
+      }
+      setChunks([...current]);
+    }
+
+    setUploading(false);
+    // Chunks uploaded by an earlier run were already reported
+    if (uploaded > 0) {
+      onImported(uploaded);
+    }
+  };
+
+  const handleUpload = () => {
+    const initial = chunkItems(validRows, IMPORT_CHUNK_SIZE).map(chunkRows => ({
+      rows: chunkRows,
+      status: 'pending' as ChunkStatus,
+    }));
+    setStep(2);
+    setChunks(initial);
+    runUpload(initial);
+  };
+
+  const handleRetryFailed = () => {
+    runUpload(chunks.map(chunk => (chunk.status === 'failed' ? { ...chunk, status: 'pending' as ChunkStatus } : chunk)));
+  };
+
+  const chunkLabel = (chunk: UploadChunk) => {
+    const first = chunk.rows[0].row.rowNumber;
+    const last = chunk.rows[chunk.rows.length - 1].row.rowNumber;
+    return `Rows ${first}–${last} (${chunk.rows.length} questions)`;
+  };
+
+  const renderMappingStep = () => (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Choose the question field for each column of <b>{file?.name}</b> ({dataRows.filter(r => r.some(Boolean)).length} rows).
+        Papers, sections and subsections can be given by ID or by name.
+      </Typography>
+      {missingFields.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Map a column to: {missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(', ')}
+        </Alert>
+      )}
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Column</TableCell>
+              <TableCell>First value</TableCell>
+              <TableCell>Field</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {headers.map((header, column) => (
+              <TableRow key={column}>
+                <TableCell>{header || `Column ${column + 1}`}</TableCell>
+                <TableCell sx={{ maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {dataRows.find(cells => cells[column])?.[column] ?? ''}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => handleMappingChange(column, e.target.value as ImportField | '')}
+                    displayEmpty
+                    sx={{ minWidth: 220 }}
+                    inputProps={{ 'aria-label': `Field for ${header || `column ${column + 1}`}` }}
+                  >
+                    <MenuItem value=""><em>Ignore</em></MenuItem>
+                    {IMPORT_FIELDS.map(field => (
+                      <MenuItem key={field} value={field}>{IMPORT_FIELD_LABELS[field]}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </>
+  );
+
+  const renderReviewStep = () => (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Chip color="success" label={`${validRows.length} valid`} />
+        <Chip color={invalidCount > 0 ? 'error' : 'default'} label={`${invalidCount} with errors`} />
+        {similarWarnings.size > 0 && (
+          <Chip color="warning" label={`${similarWarnings.size} possible duplicate${similarWarnings.size === 1 ? '' : 's'}`} />
+        )}
+        <FormControlLabel
+          sx={{ ml: 'auto' }}
+          control={<Switch checked={onlyInvalid} onChange={(e) => { setOnlyInvalid(e.target.checked); setGridPage(0); }} />}
+          label="Only rows with errors"
+        />
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        Fix rows in place; rows that still have errors are skipped when uploading. Possible
+        duplicates are uploaded unless you change or clear them.
+      </Typography>
+      <TableContainer sx={{ maxHeight: 440 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Row</TableCell>
+              {GRID_FIELDS.map(column => (
+                <TableCell key={column.field} sx={{ minWidth: column.width }}>{column.label}</TableCell>
+              ))}
+              <TableCell sx={{ minWidth: 220 }}>Problems</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {gridRows.slice(gridPage * gridPageSize, (gridPage + 1) * gridPageSize).map(({ row, result }) => {
+              const hasErrors = !!result && result.errors.length > 0;
+              return (
+                <TableRow key={row.rowNumber} sx={hasErrors ? { bgcolor: theme => alpha(theme.palette.error.main, 0.06) } : undefined}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  {GRID_FIELDS.map(column => (
+                    <TableCell key={column.field}>
+                      <TextField
+                        variant="standard"
+                        size="small"
+                        fullWidth
+                        multiline={column.field === 'question_text'}
+                        value={column.field === 'options' ? row.options.join(' | ') : row.values[column.field]}
+                        onChange={(e) => handleCellChange(row.rowNumber, column.field, e.target.value)}
+                        inputProps={{ 'aria-label': `${column.label}, row ${row.rowNumber}` }}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    {hasErrors ? (
+                      <Box component="ul" sx={{ m: 0, pl: 2, color: 'error.main' }}>
+                        {result.errors.map(message => (
+                          <Typography component="li" variant="caption" key={message}>{message}</Typography>
+                        ))}
+                      </Box>
+                    ) : similarWarnings.has(row.rowNumber) ? (
+                      <Box component="ul" sx={{ m: 0, pl: 2, color: 'warning.dark' }}>
+                        {similarWarnings.get(row.rowNumber)!.map(warning => (
+                          <Typography component="li" variant="caption" key={warning.label}>
+                            {Math.round(warning.match.similarity.score * 100)}% similar to {warning.label}{' '}
+                            <Button size="small" sx={{ p: 0, minWidth: 0 }} onClick={() => setComparing({ row, warning })}>
+                              Compare
+                            </Button>
+                          </Typography>
+                        ))}
+                      </Box>
+                    ) : (
+                      <Typography variant="caption" color="success.main">Ready</Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={gridRows.length}
+        page={gridPage}
+        rowsPerPage={gridPageSize}
+        rowsPerPageOptions={[25, 50, 100]}
+        onPageChange={(_, newPage) => setGridPage(newPage)}
+        onRowsPerPageChange={(e) => { setGridPageSize(parseInt(e.target.value, 10)); setGridPage(0); }}
+      />
+    </>
+  );
+
+  const renderUploadStep = () => (
+    <>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        {uploading
+          ? `Uploading ${validRows.length} questions in ${chunks.length} part${chunks.length === 1 ? '' : 's'}...`
+          : `Uploaded ${doneCount} of ${validRows.length} questions.`}
+        {invalidCount > 0 && ` ${invalidCount} row${invalidCount === 1 ? ' was' : 's were'} skipped because of errors.`}
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={validRows.length > 0 ? (doneCount / validRows.length) * 100 : 0}
+        color={failedChunks > 0 ? 'warning' : 'primary'}
+        sx={{ mb: 2, height: 8, borderRadius: 4 }}
+      />
+      {chunks.map((chunk, index) => (
+        <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          {chunk.status === 'uploading' && <CircularProgress size={16} />}
+          <Chip
+            size="small"
+            label={{ pending: 'Waiting', uploading: 'Uploading', done: 'Uploaded', failed: 'Failed' }[chunk.status]}
+            color={chunk.status === 'done' ? 'success' : chunk.status === 'failed' ? 'error' : 'default'}
+          />
+          <Typography variant="body2">{chunkLabel(chunk)}</Typography>
+          {chunk.error && (
+            <Typography variant="caption" color="error">{chunk.error}</Typography>
+          )}
+        </Box>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={!!file} onClose={uploading ? undefined : () => onClose(step === 1)} maxWidth="lg" fullWidth aria-labelledby="question-import-title">
+      <DialogTitle id="question-import-title">Import Questions</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : step === 0 ? renderMappingStep() : step === 1 ? renderReviewStep() : renderUploadStep()}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => onClose(step === 1)} disabled={uploading}>
+          {finished ? 'Close' : 'Cancel'}
+        </Button>
+        {step === 1 && (
+          <Button onClick={() => setStep(0)} disabled={loading}>
+            Back
+          </Button>
+        )}
+        {step === 0 && (
+          <Button
+            variant="contained"
+            onClick={handleReview}
+            disabled={loading || headers.length === 0 || missingFields.length > 0}
+          >
+            Next
+          </Button>
+        )}
+        {step === 1 && (
+          <Button variant="contained" onClick={handleUpload} disabled={validRows.length === 0}>
+            Upload {validRows.length} valid question{validRows.length === 1 ? '' : 's'}
+          </Button>
+        )}
+        {step === 2 && finished && failedChunks > 0 && (
+          <Button variant="contained" color="warning" onClick={handleRetryFailed}>
+            Retry failed parts
+          </Button>
+        )}
+      </DialogActions>
+      <Dialog open={!!comparing} onClose={() => setComparing(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Possible Duplicate</DialogTitle>
+        <DialogContent>
+          {comparing && (
+            <QuestionComparison
+              left={toComparable(comparing.row)}
+              right={comparing.warning.match.question}
+              leftLabel={`Row ${comparing.row.rowNumber}`}
+              rightLabel={comparing.warning.label}
+              similarity={comparing.warning.match.similarity}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setComparing(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+};
+
+export default QuestionImportWizard;
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { questionsAPI } from '../services/api';
+import { QuestionReviewComment, QuestionStatus } from '../types';
+import { RichContent } from './RichContent';
+import {
+  QUESTION_STATUS_COLORS,
+  QUESTION_STATUS_LABELS,
+  WorkflowQuestion,
+  WorkflowTransition,
+  availableTransitions,
+  effectiveQuestionStatus,
+  normalizeQuestionStatus,
+  normalizeReviewComments,
+} from '../utils/questionWorkflow';
+
+export interface ReviewableQuestion extends WorkflowQuestion {
+  question_id: number;
+  question_text: string;
+}
+
+interface QuestionReviewDialogProps {
+  question: ReviewableQuestion | null;
+  currentUserId?: number;
+  onClose: () => void;
+  onStatusChanged: (questionId: number, status: QuestionStatus) => void;
+}
+
+const StatusChip: React.FC<{ status: QuestionStatus }> = ({ status }) => (
+  <Chip size="small" color={QUESTION_STATUS_COLORS[status]} label={QUESTION_STATUS_LABELS[status]} />
+);
+
+/**
+ * Review workflow of a question: its status, the reviewer comment thread,
+ * and the status changes the current user can make
+ */
+export const QuestionReviewDialog: React.FC<QuestionReviewDialogProps> = ({
+  question,
+  currentUserId,
+  onClose,
+  onStatusChanged,
+}) => {
+  const [comments, setComments] = useState<QuestionReviewComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  // Status changed from this dialog, shown until the question list is refreshed
+  const [status, setStatus] = useState<string | null>(null);
+
+  const questionId = question?.question_id;
+
+  const loadComments = useCallback(async () => {
+    if (questionId === undefined) return;
+    setLoading(true);
+    try {
+      const response = await questionsAPI.getReviewComments(questionId);
+      setComments(normalizeReviewComments(response.data));
+    } catch (err: any) {
+      console.error(`[QuestionReview] Error loading comments of question ${questionId}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to load review comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    setComments([]);
+    setComment('');
+    setError(null);
+    setStatus(null);
+    loadComments();
+  }, [loadComments]);
+
+  if (!question) return null;
+
+  const workflowQuestion = { ...question, status: status ?? question.status };
+  const currentStatus = effectiveQuestionStatus(workflowQuestion);
+  const autoRetired = currentStatus === 'retired' && normalizeQuestionStatus(workflowQuestion.status) === 'published';
+  const transitions = availableTransitions(workflowQuestion, currentUserId);
+  const ownSubmission = currentStatus === 'in_review' && currentUserId != null && question.submitted_by_id === currentUserId;
+
+  const handleAddComment = async () => {
+    if (!comment.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await questionsAPI.addReviewComment(question.question_id, comment.trim());
+      setComment('');
+      await loadComments();
+    } catch (err: any) {
+      console.error('[QuestionReview] Error adding comment:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to add the comment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTransition = async (transition: WorkflowTransition) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await questionsAPI.changeQuestionStatus(question.question_id, {
+        status: transition.to,
+        ...(comment.trim() ? { comment: comment.trim() } : {}),
+      });
+      setStatus(transition.to);
+      setComment('');
+      onStatusChanged(question.question_id, transition.to);
+      await loadComments();
+    } catch (err: any) {
+      console.error(`[QuestionReview] Error changing status to ${transition.to}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to change the status');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={busy ? undefined : onClose} maxWidth="md" fullWidth aria-labelledby="question-review-title">
+      <DialogTitle id="question-review-title" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        Review Question #{question.question_id}
+        <StatusChip status={currentStatus} />
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {autoRetired && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Retired automatically: its valid until date has passed, so it is no longer served in tests.
+          </Alert>
+        )}
+        {ownSubmission && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            You submitted this question, so another reviewer has to approve it or request changes.
+          </Alert>
+        )}
+
+        <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+          <RichContent content={question.question_text} />
+        </Paper>
+
+        <Typography variant="subtitle2" gutterBottom>Review comments</Typography>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : comments.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>No comments yet.</Typography>
+        ) : (
+          <Box sx={{ mb: 2 }}>
+            {comments.map((entry, index) => (
+              <Box key={entry.comment_id}>
+                {index > 0 && <Divider sx={{ my: 1 }} />}
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Typography variant="body2" fontWeight="bold">{entry.author_name}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {entry.created_at ? new Date(entry.created_at).toLocaleString() : ''}
+                  </Typography>
+                  {entry.status_change && (
+                    <Typography variant="caption" color="text.secondary">
+                      {QUESTION_STATUS_LABELS[entry.status_change.from]} → {QUESTION_STATUS_LABELS[entry.status_change.to]}
+                    </Typography>
+                  )}
+                </Box>
+                {entry.comment && (
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{entry.comment}</Typography>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        <TextField
+          label="Comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          multiline
+          minRows={2}
+          fullWidth
+          disabled={busy}
+          helperText="Added to the thread on its own, or together with a status change"
+        />
+      </DialogContent>
+      <DialogActions sx={{ flexWrap: 'wrap', gap: 1 }}>
+        <Button onClick={onClose} disabled={busy}>Close</Button>
+        <Box sx={{ flexGrow: 1 }} />
+        {busy && <CircularProgress size={20} />}
+        <Button onClick={handleAddComment} disabled={busy || !comment.trim()}>Add Comment</Button>
+        {transitions.map(transition => {
+          const reason = transition.disabledReason
+            || (transition.requiresComment && !comment.trim() ? 'Add a comment explaining what to change' : '');
+          return (
+            <Tooltip key={transition.action} title={reason}>
+              <span>
+                <Button
+                  variant="contained"
+                  color={transition.action === 'request_changes' || transition.action === 'retire' ? 'warning' : 'primary'}
+                  disabled={busy || !!reason}
+                  onClick={() => handleTransition(transition)}
+                >
+                  {transition.label}
+                </Button>
+              </span>
+            </Tooltip>
+          );
+        })}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default QuestionReviewDialog;
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { questionsAPI } from '../services/api';
+import { BulkQuestion } from '../utils/bulkQuestionActions';
+import {
+  QuestionRevision,
+  QuestionSnapshot,
+  RevisionFieldChange,
+  buildRestorePayload,
+  diffRevisions,
+  normalizeRevisions,
+} from '../utils/questionRevisions';
+import { diffWords } from '../utils/questionSimilarity';
+import { DiffText } from './QuestionComparison';
+
+interface QuestionRevisionHistoryProps {
+  question: BulkQuestion | null;
+  onClose: () => void;
+  onRestored: (revision: QuestionRevision) => void;
+}
+
+type CompareWith = 'previous' | 'current';
+
+// Free text fields are shown as a word diff, the others as before and after
+const WORD_DIFF_FIELDS = ['question_text', 'explanation'];
+
+const formatChangedAt = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? 'Unknown time' : date.toLocaleString();
+};
+
+const FieldChange: React.FC<{ change: RevisionFieldChange }> = ({ change }) => {
+  const wordDiff = useMemo(
+    () => (WORD_DIFF_FIELDS.includes(change.field) ? diffWords(change.before, change.after) : null),
+    [change]
+  );
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5, mb: 1.5 }}>
+      <Typography variant="subtitle2" gutterBottom>{change.label}</Typography>
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6}>
+          <Typography variant="caption" color="text.secondary">Before</Typography>
+          {wordDiff ? <DiffText segments={wordDiff.left} /> : (
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', color: 'error.main' }}>
+              {change.before || '(empty)'}
+            </Typography>
+          )}
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <Typography variant="caption" color="text.secondary">After</Typography>
+          {wordDiff ? <DiffText segments={wordDiff.right} /> : (
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', color: 'success.main' }}>
+              {change.after || '(empty)'}
+            </Typography>
+          )}
+        </Grid>
+      </Grid>
+    </Paper>
+  );
+};
+
+/**
+ * Revision history of a question: who changed it and when, the fields that
+ * changed in each revision or since then, and restoring an earlier revision
+ */
+export const QuestionRevisionHistory: React.FC<QuestionRevisionHistoryProps> = ({ question, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>('previous');
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const questionId = question?.question_id;
+
+  const loadRevisions = useCallback(async () => {
+    if (questionId === undefined) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await questionsAPI.getQuestionRevisions(questionId);
+      const loaded = normalizeRevisions(response.data);
+      setRevisions(loaded);
+      setSelectedId(loaded.length > 0 ? loaded[loaded.length - 1].revision_id : null);
+    } catch (err: any) {
+      console.error(`[RevisionHistory] Error loading revisions of question ${questionId}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to load the revision history');
+      setRevisions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    setCompareWith('previous');
+    setConfirmRestore(false);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.revision_id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const latest = revisions.length > 0 ? revisions[revisions.length - 1] : null;
+  const isLatest = !!selected && selected === latest;
+
+  // The current version is the question as listed, which may be newer than the last revision
+  const current: QuestionSnapshot | null = question ? (question as QuestionSnapshot) : latest?.snapshot || null;
+
+  const changes = useMemo(() => {
+    if (!selected) return [];
+    if (compareWith === 'current') {
+      return current ? diffRevisions(selected.snapshot, current) : [];
+    }
+    return diffRevisions(selectedIndex > 0 ? revisions[selectedIndex - 1].snapshot : null, selected.snapshot);
+  }, [selected, selectedIndex, revisions, compareWith, current]);
+
+  const handleRestore = async () => {
+    if (!question || !selected) return;
+    setRestoring(true);
+    setError(null);
+    try {
+      await questionsAPI.updateQuestion(question.question_id, buildRestorePayload(question, selected.snapshot));
+      setConfirmRestore(false);
+      onRestored(selected);
+      await loadRevisions();
+    } catch (err: any) {
+      console.error(`[RevisionHistory] Error restoring revision ${selected.revision_id}:`, err);
+      setError(err.response?.data?.detail || err.message || 'Failed to restore the revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!question} onClose={restoring ? undefined : onClose} maxWidth="lg" fullWidth aria-labelledby="revision-history-title">
+      <DialogTitle id="revision-history-title">
+        Revision History{question ? ` of Question #${question.question_id}` : ''}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : revisions.length === 0 ? (
+          !error && <Alert severity="info">No earlier revisions of this question have been recorded.</Alert>
+        ) : (
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={4}>
+              <List dense disablePadding sx={{ border: 1, borderColor: 'divider', borderRadius: 1, maxHeight: 480, overflow: 'auto' }}>
+                {[...revisions].reverse().map(revision => (
+                  <ListItemButton
+                    key={revision.revision_id}
+                    selected={revision.revision_id === selectedId}
+                    onClick={() => { setSelectedId(revision.revision_id); setConfirmRestore(false); }}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          Revision {revision.revision_number}
+                          {revision === latest && <Chip size="small" label="Latest" color="primary" variant="outlined" />}
+                        </Box>
+                      }
+                      secondary={`${revision.changed_by} · ${formatChangedAt(revision.changed_at)}`}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </Grid>
+            <Grid item xs={12} md={8}>
+              {selected && (
+                <>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+                    <ToggleButtonGroup
+                      size="small"
+                      exclusive
+                      value={compareWith}
+                      onChange={(_, value) => value && setCompareWith(value)}
+                    >
+                      <ToggleButton value="previous">Changes in this revision</ToggleButton>
+                      <ToggleButton value="current">Compare with current</ToggleButton>
+                    </ToggleButtonGroup>
+                    <Box sx={{ flexGrow: 1 }} />
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      disabled={isLatest || restoring}
+                      onClick={() => setConfirmRestore(true)}
+                    >
+                      Restore this revision
+                    </Button>
+                  </Box>
+
+                  {confirmRestore && (
+                    <Alert
+                      severity="warning"
+                      sx={{ mb: 2 }}
+                      action={
+                        <>
+                          <Button color="inherit" size="small" disabled={restoring} onClick={() => setConfirmRestore(false)}>
+                            Cancel
+                          </Button>
+                          <Button color="inherit" size="small" disabled={restoring} onClick={handleRestore}>
+                            {restoring ? <CircularProgress size={16} /> : 'Restore'}
+                          </Button>
+                        </>
+                      }
+                    >
+                      The question will be saved with the content of revision {selected.revision_number}.
+                      This is recorded as a new revision, so it can be undone. The question goes back to
+                      draft and needs review again.
+                    </Alert>
+                  )}
+
+                  {changes.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {compareWith === 'current' ? 'Identical to the current version.' : 'No field changes recorded in this revision.'}
+                    </Typography>
+                  ) : (
+                    changes.map(change => <FieldChange key={change.field} change={change} />)
+                  )}
+                </>
+              )}
+            </Grid>
+          </Grid>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={restoring}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default QuestionRevisionHistory;
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { Autocomplete, Chip, FormControl, Grid, InputLabel, MenuItem, Select, TextField } from '@mui/material';
+import { BloomLevel, LearningObjective, QuestionTag } from '../types';
+import {
+  BLOOM_LEVELS,
+  formatObjective,
+  isBloomLevel,
+  objectivesForPaper,
+  parseTagList,
+} from '../utils/questionTaxonomy';
+
+export interface QuestionTaxonomyValue {
+  tags: string[];
+  bloom_level: BloomLevel | '';
+  objective_ids: number[];
+}
+
+interface QuestionTaxonomyFieldsProps {
+  value: QuestionTaxonomyValue;
+  paperId?: number | null;
+  tagOptions: QuestionTag[];
+  objectives: LearningObjective[];
+  onChange: (changes: Partial<QuestionTaxonomyValue>) => void;
+}
+
+/**
+ * Question form fields classifying a question: free-form tags (existing or
+ * new), its Bloom's level and the learning objectives of its paper it assesses
+ */
+export const QuestionTaxonomyFields: React.FC<QuestionTaxonomyFieldsProps> = ({
+  value,
+  paperId,
+  tagOptions,
+  objectives,
+  onChange,
+}) => {
+  const paperObjectives = useMemo(() => objectivesForPaper(objectives, paperId), [objectives, paperId]);
+  const selectedObjectives = objectives.filter(objective => value.objective_ids.includes(objective.objective_id));
+
+  return (
+    <Grid container spacing={2} sx={{ mb: 2 }}>
+      <Grid item xs={12} md={8}>
+        <Autocomplete
+          multiple
+          freeSolo
+          options={tagOptions.map(tag => tag.name)}
+          value={value.tags}
+          onChange={(_, tags) => onChange({ tags: parseTagList(tags) })}
+          renderTags={(tags, getTagProps) =>
+            tags.map((tag, index) => <Chip size="small" label={tag} {...getTagProps({ index })} key={tag} />)
+          }
+          renderInput={(params) => (
+            <TextField {...params} label="Tags" helperText="Pick existing tags or type a new one and press Enter" />
+          )}
+        />
+      </Grid>
+      <Grid item xs={12} md={4}>
+        <FormControl fullWidth>
+          <InputLabel>Bloom's Level</InputLabel>
+          <Select
+            label="Bloom's Level"
+            value={value.bloom_level}
+            onChange={(e) => onChange({ bloom_level: isBloomLevel(e.target.value) ? e.target.value : '' })}
+          >
+            <MenuItem value="">Not set</MenuItem>
+            {BLOOM_LEVELS.map(entry => (
+              <MenuItem key={entry.level} value={entry.level} title={entry.description}>
+                {entry.level}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+      <Grid item xs={12}>
+        <Autocomplete
+          multiple
+          options={paperObjectives}
+          value={selectedObjectives}
+          getOptionLabel={formatObjective}
+          isOptionEqualToValue={(option, selected) => option.objective_id === selected.objective_id}
+          onChange={(_, selected) => onChange({ objective_ids: selected.map(objective => objective.objective_id) })}
+          noOptionsText="No learning objectives for this paper"
+          renderInput={(params) => <TextField {...params} label="Learning Objectives" />}
+        />
+      </Grid>
+    </Grid>
+  );
+};
+
+export default QuestionTaxonomyFields;
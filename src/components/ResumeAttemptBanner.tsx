@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertTitle, Box, Button, Typography } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import { TestAttempt } from '../types';
+import { fetchOpenAttempts, getRemainingSeconds, getResumePath } from '../utils/attemptResume';
+
+/**
+ * Lists the user's in-progress attempts with a "Resume" action for each
+ */
+export const ResumeAttemptBanner: React.FC = () => {
+  const navigate = useNavigate();
+  const [openAttempts, setOpenAttempts] = useState<TestAttempt[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchOpenAttempts()
+      .then(attempts => {
+        if (!cancelled) setOpenAttempts(attempts);
+      })
+      .catch(error => {
+        console.error('[ResumeAttemptBanner] Failed to check for open attempts:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (openAttempts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert severity="info" sx={{ mb: 3 }}>
+      <AlertTitle>You have {openAttempts.length === 1 ? 'a test' : 'tests'} in progress</AlertTitle>
+      {openAttempts.map(attempt => {
+        const minutesLeft = Math.ceil(getRemainingSeconds(attempt) / 60);
+        return (
+          <Box
+            key={attempt.attempt_id}
+            sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mt: 1 }}
+          >
+            <Typography variant="body2">
+              {attempt.test_type} test started {new Date(attempt.start_time).toLocaleString()} — {minutesLeft} minute{minutesLeft === 1 ? '' : 's'} left
+            </Typography>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={() => navigate(getResumePath(attempt))}
+            >
+              Resume
+            </Button>
+          </Box>
+        );
+      })}
+    </Alert>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, CircularProgress } from '@mui/material';
+import { Replay as ReplayIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { AttemptResultQuestion } from '../types';
+import { getResumePath } from '../utils/attemptResume';
+import { RETRY_LABELS, RetryKind, startRetryPractice } from '../utils/retryPractice';
+
+type RetryQuestion = Pick<AttemptResultQuestion, 'question_id' | 'paper_id'>;
+
+interface RetryPracticeActionsProps {
+  attemptId: number;            // Finished attempt the questions come from
+  incorrect: RetryQuestion[];   // Questions answered wrongly or skipped
+  marked: RetryQuestion[];      // Questions marked for review
+}
+
+/**
+ * Buttons that turn the incorrect or marked-for-review questions of an
+ * attempt into a new practice test and open it in the practice test page
+ */
+export const RetryPracticeActions: React.FC<RetryPracticeActionsProps> = ({ attemptId: sourceAttemptId, incorrect, marked }) => {
+  const navigate = useNavigate();
+  const [starting, setStarting] = useState<RetryKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async (kind: RetryKind) => {
+    setStarting(kind);
+    setError(null);
+    try {
+      const attemptId = await startRetryPractice(sourceAttemptId, kind === 'incorrect' ? incorrect : marked, kind);
+      navigate(getResumePath({ attempt_id: attemptId, test_type: 'Practice' }));
+    } catch (err: any) {
+      console.error('[RetryPractice] Error starting the practice test:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to start the practice test');
+      setStarting(null);
+    }
+  };
+
+  const actions: Array<{ kind: RetryKind; count: number }> = [
+    { kind: 'incorrect', count: incorrect.length },
+    { kind: 'marked', count: marked.length },
+  ];
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        {actions.map(({ kind, count }) => (
+          <Button
+            key={kind}
+            variant="outlined"
+            size="small"
+            startIcon={starting === kind ? <CircularProgress size={16} /> : <ReplayIcon />}
+            disabled={count === 0 || starting !== null}
+            onClick={() => handleRetry(kind)}
+          >
+            {RETRY_LABELS[kind]} ({count})
+          </Button>
+        ))}
+      </Box>
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+    </Box>
+  );
+};
+
+export default RetryPracticeActions;
@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { Box } from '@mui/material';
+import 'katex/dist/katex.min.css';
+import { hasRichFormatting, renderRichContent } from '../utils/richContent';
+
+interface RichContentProps {
+  content?: string | null;
+  inline?: boolean; // Render without block elements, e.g. for option labels
+}
+
+/**
+ * Question text, options and explanations with Markdown, LaTeX math and
+ * images. Plain text is rendered as-is; rich content is sanitized HTML.
+ */
+export const RichContent: React.FC<RichContentProps> = ({ content, inline = false }) => {
+  const source = content ?? '';
+  const html = useMemo(
+    () => (hasRichFormatting(source) ? renderRichContent(source, { inline }) : null),
+    [source, inline]
+  );
+
+  if (html === null) {
+    return <>{source}</>;
+  }
+
+  return (
+    <Box
+      component={inline ? 'span' : 'div'}
+      className="rich-content"
+      dangerouslySetInnerHTML={{ __html: html }}
+      sx={{
+        overflowWrap: 'anywhere',
+        '& p': { m: 0, mb: 1 },
+        '& p:last-child': { mb: 0 },
+        '& img': { maxWidth: '100%', height: 'auto', verticalAlign: 'middle' },
+        '& pre': {
+          p: 1.5,
+          my: 1,
+          borderRadius: 1,
+          overflowX: 'auto',
+          bgcolor: 'action.hover',
+          fontSize: '0.875em',
+        },
+        '& code': { fontFamily: 'monospace' },
+        '& :not(pre) > code': { px: 0.5, borderRadius: 0.5, bgcolor: 'action.hover' },
+        '& table': { borderCollapse: 'collapse', my: 1 },
+        '& th, & td': { border: '1px solid', borderColor: 'divider', px: 1, py: 0.5 },
+        '& .rich-math-block': { overflowX: 'auto', overflowY: 'hidden', my: 1 },
+      }}
+    />
+  );
+};
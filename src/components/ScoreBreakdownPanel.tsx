@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AttemptResult } from '../types';
+import {
+  BREAKDOWN_COLUMNS,
+  BREAKDOWN_DEPTH,
+  breakdownTableCells,
+  computeScoreBreakdown,
+} from '../utils/scoreBreakdown';
+
+interface ScoreBreakdownPanelProps {
+  result: AttemptResult;
+}
+
+/**
+ * Attempted, correct, wrong and skipped questions, accuracy, time and marks
+ * of an attempt per paper, section and subsection, with a bar chart of the
+ * answers per section
+ */
+export const ScoreBreakdownPanel: React.FC<ScoreBreakdownPanelProps> = ({ result }) => {
+  const theme = useTheme();
+  const rows = useMemo(() => computeScoreBreakdown(result), [result]);
+
+  if (rows.length === 0) return null;
+
+  // Chart sections, or papers when the questions carry no section
+  const sectionRows = rows.filter(row => row.level === 'section');
+  const chartData = (sectionRows.length > 0 ? sectionRows : rows.filter(row => row.level === 'paper'))
+    .map(row => ({ name: row.label, Correct: row.correct, Wrong: row.wrong, Skipped: row.skipped }));
+
+  return (
+    <Paper sx={{ p: 3, mb: 4, borderRadius: 2 }}>
+      <Typography variant="h6" fontWeight="bold" gutterBottom>
+        Section-wise Breakdown
+      </Typography>
+
+      <Box sx={{ height: Math.max(200, chartData.length * 48), mb: 3 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 16, right: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={theme.palette.divider} />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="name" width={140} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="Correct" stackId="answers" fill={theme.palette.success.main} />
+            <Bar dataKey="Wrong" stackId="answers" fill={theme.palette.error.main} />
+            <Bar dataKey="Skipped" stackId="answers" fill={theme.palette.grey[400]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </Box>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {BREAKDOWN_COLUMNS.map((column, index) => (
+                <TableCell key={column} align={index === 0 ? 'left' : 'right'}>{column}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                {breakdownTableCells(row).map((cell, index) => (
+                  <TableCell
+                    key={BREAKDOWN_COLUMNS[index]}
+                    align={index === 0 ? 'left' : 'right'}
+                    sx={{
+                      pl: index === 0 ? 2 + BREAKDOWN_DEPTH[row.level] * 2 : undefined,
+                      fontWeight: row.level === 'paper' ? 'bold' : undefined,
+                    }}
+                  >
+                    {cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
+
+export default ScoreBreakdownPanel;
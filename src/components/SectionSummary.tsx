@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+export interface SectionSummaryRow {
+  name: string;
+  total: number;
+  answered: number;
+  markedForReview: number;
+}
+
+interface SectionSummaryProps {
+  sections: SectionSummaryRow[];
+  currentSectionIndex: number;
+  expired: boolean;
+  isLastSection: boolean;
+  onReturn: () => void;
+  onProceed: () => void;
+}
+
+/**
+ * Summary shown between sections of a test with section-wise timing.
+ * Once the candidate proceeds the current section is locked.
+ */
+export const SectionSummary: React.FC<SectionSummaryProps> = ({
+  sections,
+  currentSectionIndex,
+  expired,
+  isLastSection,
+  onReturn,
+  onProceed
+}) => {
+  const current = sections[currentSectionIndex];
+
+  const getSectionStatus = (index: number) => {
+    if (index < currentSectionIndex) return <Chip size="small" label="Locked" />;
+    if (index === currentSectionIndex) return <Chip size="small" color="primary" label="Current" />;
+    return <Chip size="small" variant="outlined" label="Upcoming" />;
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+      <Paper sx={{ p: 4, maxWidth: 760, width: '100%' }} role="region" aria-labelledby="section-summary-title">
+        <Typography id="section-summary-title" variant="h5" gutterBottom tabIndex={-1}>
+          Section Summary: {current?.name}
+        </Typography>
+
+        {expired ? (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            Time for this section is over. The section is now locked and your answers have been saved.
+          </Alert>
+        ) : (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Once you continue, you will not be able to return to this section.
+          </Alert>
+        )}
+
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Section</TableCell>
+              <TableCell align="right">Questions</TableCell>
+              <TableCell align="right">Answered</TableCell>
+              <TableCell align="right">Not Answered</TableCell>
+              <TableCell align="right">Marked for Review</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sections.map((section, index) => (
+              <TableRow key={`${section.name}-${index}`} selected={index === currentSectionIndex}>
+                <TableCell>{section.name}</TableCell>
+                <TableCell align="right">{section.total}</TableCell>
+                <TableCell align="right">{section.answered}</TableCell>
+                <TableCell align="right">{section.total - section.answered}</TableCell>
+                <TableCell align="right">{section.markedForReview}</TableCell>
+                <TableCell>{getSectionStatus(index)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+          {!expired ? (
+            <Button variant="outlined" onClick={onReturn}>
+              Return to Section
+            </Button>
+          ) : <span />}
+          <Button variant="contained" color={isLastSection ? 'success' : 'primary'} onClick={onProceed} autoFocus>
+            {isLastSection ? 'Submit Test' : 'Lock Section & Continue'}
+          </Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import { taxonomyAPI } from '../services/api';
+import { LearningObjective, QuestionTag } from '../types';
+import { getUserFriendlyErrorMessage } from '../utils/errorHandler';
+import {
+  BLOOM_LEVELS,
+  MAX_TAG_LENGTH,
+  normalizeObjectivesResponse,
+  normalizeTag,
+  normalizeTagsResponse,
+  validateObjective,
+} from '../utils/questionTaxonomy';
+
+interface TaxonomyManagerProps {
+  papers: Array<{ paper_id: number; paper_name: string }>;
+}
+
+type ObjectiveForm = Omit<LearningObjective, 'objective_id'> & { objective_id?: number };
+
+const EMPTY_OBJECTIVE: ObjectiveForm = { code: '', name: '', description: '', paper_id: null };
+
+/**
+ * Management of question tags (add, rename, delete) and of the curated
+ * learning objectives identified by syllabus codes
+ */
+export const TaxonomyManager: React.FC<TaxonomyManagerProps> = ({ papers }) => {
+  const [tags, setTags] = useState<QuestionTag[]>([]);
+  const [objectives, setObjectives] = useState<LearningObjective[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newTag, setNewTag] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [renaming, setRenaming] = useState<{ tag: QuestionTag; name: string } | null>(null);
+
+  const [objectiveForm, setObjectiveForm] = useState<ObjectiveForm | null>(null);
+  const [objectiveError, setObjectiveError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [tagsResponse, objectivesResponse] = await Promise.all([
+        taxonomyAPI.getTags(),
+        taxonomyAPI.getObjectives(),
+      ]);
+      setTags(normalizeTagsResponse(tagsResponse.data));
+      setObjectives(normalizeObjectivesResponse(objectivesResponse.data));
+    } catch (err) {
+      setError(getUserFriendlyErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const visibleTags = useMemo(() => {
+    const filter = normalizeTag(tagFilter);
+    return filter ? tags.filter(tag => tag.name.includes(filter)) : tags;
+  }, [tags, tagFilter]);
+
+  const paperName = (paperId?: number | null) =>
+    paperId == null ? 'All papers' : papers.find(p => p.paper_id === paperId)?.paper_name || `Paper ${paperId}`;
+
+  const handleAddTag = async () => {
+    const name = normalizeTag(newTag);
+    if (!name) return;
+    if (tags.some(tag => tag.name === name)) {
+      setError(`Tag "${name}" already exists`);
+      return;
+    }
+    try {
+      await taxonomyAPI.createTag(name);
+      setNewTag('');
+      load();
+    } catch (err) {
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const handleRenameTag = async () => {
+    if (!renaming) return;
+    const name = normalizeTag(renaming.name);
+    if (!name || name === renaming.tag.name) {
+      setRenaming(null);
+      return;
+    }
+    if (tags.some(tag => tag.name === name)) {
+      setError(`Tag "${name}" already exists`);
+      return;
+    }
+    try {
+      await taxonomyAPI.renameTag(renaming.tag.tag_id, name);
+      setRenaming(null);
+      load();
+    } catch (err) {
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const handleDeleteTag = async (tag: QuestionTag) => {
+    const usage = tag.question_count ? ` It is removed from ${tag.question_count} question(s).` : '';
+    if (!window.confirm(`Delete the tag "${tag.name}"?${usage}`)) return;
+    try {
+      await taxonomyAPI.deleteTag(tag.tag_id);
+      load();
+    } catch (err) {
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const handleSaveObjective = async () => {
+    if (!objectiveForm) return;
+    const validationError = validateObjective(objectiveForm, objectives, objectiveForm.objective_id);
+    if (validationError) {
+      setObjectiveError(validationError);
+      return;
+    }
+    const { objective_id, ...data } = objectiveForm;
+    const payload = { ...data, code: data.code.trim(), name: data.name.trim() };
+    try {
+      if (objective_id) {
+        await taxonomyAPI.updateObjective(objective_id, payload);
+      } else {
+        await taxonomyAPI.createObjective(payload);
+      }
+      setObjectiveForm(null);
+      load();
+    } catch (err) {
+      setObjectiveError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  const handleDeleteObjective = async (objective: LearningObjective) => {
+    if (!window.confirm(`Delete the learning objective ${objective.code}? Questions assessing it keep their other objectives.`)) {
+      return;
+    }
+    try {
+      await taxonomyAPI.deleteObjective(objective.objective_id);
+      load();
+    } catch (err) {
+      setError(getUserFriendlyErrorMessage(err));
+    }
+  };
+
+  if (loading && tags.length === 0 && objectives.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle1" gutterBottom>Tags</Typography>
+      <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="New tag"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+          inputProps={{ maxLength: MAX_TAG_LENGTH }}
+        />
+        <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAddTag} disabled={!normalizeTag(newTag)}>
+          Add Tag
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <TextField size="small" label="Filter tags" value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} />
+      </Box>
+      {visibleTags.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {tags.length === 0 ? 'No tags yet. Tags added to questions appear here as well.' : 'No tags match the filter.'}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 3 }}>
+          {visibleTags.map(tag => (
+            <Chip
+              key={tag.tag_id}
+              label={tag.question_count !== undefined ? `${tag.name} (${tag.question_count})` : tag.name}
+              onClick={() => setRenaming({ tag, name: tag.name })}
+              onDelete={() => handleDeleteTag(tag)}
+              title="Click to rename"
+            />
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">Learning Objectives</Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          variant="outlined"
+          startIcon={<AddIcon />}
+          onClick={() => { setObjectiveForm({ ...EMPTY_OBJECTIVE }); setObjectiveError(null); }}
+        >
+          Add Objective
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        Questions are also classified by Bloom's level: {BLOOM_LEVELS.map(entry => entry.level).join(', ')}.
+      </Typography>
+      {objectives.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No learning objectives defined.</Typography>
+      ) : (
+        <TableContainer sx={{ maxHeight: 360 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Syllabus Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Paper</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {objectives.map(objective => (
+                <TableRow key={objective.objective_id}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{objective.code}</TableCell>
+                  <TableCell>{objective.name}</TableCell>
+                  <TableCell>{paperName(objective.paper_id)}</TableCell>
+                  <TableCell>{objective.description || ''}</TableCell>
+                  <TableCell>
+                    <IconButton
+                      size="small"
+                      color="primary"
+                      title="Edit Objective"
+                      onClick={() => { setObjectiveForm({ ...objective }); setObjectiveError(null); }}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" title="Delete Objective" onClick={() => handleDeleteObjective(objective)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!renaming} onClose={() => setRenaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Rename Tag</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Tag name"
+            value={renaming?.name || ''}
+            onChange={(e) => setRenaming(prev => prev && { ...prev, name: e.target.value })}
+            inputProps={{ maxLength: MAX_TAG_LENGTH }}
+            helperText={renaming?.tag.question_count ? `Renamed on ${renaming.tag.question_count} question(s)` : ''}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleRenameTag}>Rename</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!objectiveForm} onClose={() => setObjectiveForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{objectiveForm?.objective_id ? 'Edit Learning Objective' : 'Add Learning Objective'}</DialogTitle>
+        <DialogContent>
+          {objectiveError && <Alert severity="error" sx={{ mb: 2 }}>{objectiveError}</Alert>}
+          {objectiveForm && (
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  required
+                  label="Syllabus Code"
+                  value={objectiveForm.code}
+                  onChange={(e) => setObjectiveForm({ ...objectiveForm, code: e.target.value })}
+                  placeholder="PHY.3.2"
+                />
+              </Grid>
+              <Grid item xs={12} sm={8}>
+                <TextField
+                  fullWidth
+                  required
+                  label="Name"
+                  value={objectiveForm.name}
+                  onChange={(e) => setObjectiveForm({ ...objectiveForm, name: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormControl fullWidth>
+                  <InputLabel>Paper</InputLabel>
+                  <Select
+                    label="Paper"
+                    value={objectiveForm.paper_id ?? ''}
+                    onChange={(e) => setObjectiveForm({
+                      ...objectiveForm,
+                      paper_id: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                  >
+                    <MenuItem value="">All papers</MenuItem>
+                    {papers.map(paper => (
+                      <MenuItem key={paper.paper_id} value={paper.paper_id}>{paper.paper_name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Description"
+                  value={objectiveForm.description || ''}
+                  onChange={(e) => setObjectiveForm({ ...objectiveForm, description: e.target.value })}
+                />
+              </Grid>
+            </Grid>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setObjectiveForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveObjective}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TaxonomyManager;
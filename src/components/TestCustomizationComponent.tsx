@@ -16,11 +16,18 @@ import {
   Divider,
   Card,
   CardContent,
+  FormControlLabel,
+  Switch,
+  IconButton,
   SelectChangeEvent
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
 import { papersAPI } from '../services/api';
+import { MockTestOptions, ScoringScheme, TimedSection } from '../types';
+import { DEFAULT_SCORING_SCHEME, DIFFICULTY_LEVELS } from '../utils/scoring';
 
 interface Paper {
   paper_id: number;
@@ -40,10 +47,12 @@ interface SelectedPaper {
 }
 
 interface TestCustomizationProps {
-  onNext: (selectedPapers: SelectedPaper[], timeLimit: number, difficultyStrategy: string) => void;
+  onNext: (selectedPapers: SelectedPaper[], timeLimit: number, difficultyStrategy: string, options?: MockTestOptions) => void;
   onCancel?: () => void;
 }
 
+const DEFAULT_SECTION_MINUTES = 60; // Default time limit per section
+
 export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
   onNext,
   onCancel
@@ -55,6 +64,15 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
   const [timeLimit, setTimeLimit] = useState<number>(180); // Default 3 hours (180 minutes)
   const [availablePaperSelection, setAvailablePaperSelection] = useState<number | ''>('');
   const [difficultyStrategy, setDifficultyStrategy] = useState<string>('balanced'); // Default strategy
+  const [sectionTimingEnabled, setSectionTimingEnabled] = useState<boolean>(false);
+  const [sectionDurations, setSectionDurations] = useState<{[paperId: number]: number}>({});
+  const [scoringScheme, setScoringScheme] = useState<ScoringScheme>(DEFAULT_SCORING_SCHEME);
+  const [difficultyWeightsEnabled, setDifficultyWeightsEnabled] = useState<boolean>(false);
+  const [sectionWeightsEnabled, setSectionWeightsEnabled] = useState<boolean>(false);
+
+  const getSectionDuration = (paperId: number) => sectionDurations[paperId] ?? DEFAULT_SECTION_MINUTES;
+  const totalSectionMinutes = selectedPapers.reduce((total, paper) => total + getSectionDuration(paper.paper_id), 0);
+  const effectiveTimeLimit = sectionTimingEnabled ? totalSectionMinutes : timeLimit;
 
   // Fetch papers on component mount
   useEffect(() => {
@@ -127,6 +145,62 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
     setSelectedPapers(prev => prev.filter(p => p.paper_id !== paperId));
   };
 
+  // Sections are taken in the order the papers are listed
+  const handleMovePaper = (index: number, direction: -1 | 1) => {
+    setSelectedPapers(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleSectionDurationChange = (paperId: number, value: string) => {
+    const minutes = parseInt(value, 10);
+    setSectionDurations(prev => ({
+      ...prev,
+      [paperId]: isNaN(minutes) || minutes <= 0 ? 1 : Math.min(minutes, 480)
+    }));
+  };
+
+  const parseMarks = (value: string) => {
+    const marks = parseFloat(value);
+    return isNaN(marks) || marks < 0 ? 0 : marks;
+  };
+
+  const handleSchemeChange = (field: 'marks_per_correct' | 'penalty_per_wrong', value: string) => {
+    setScoringScheme(prev => ({ ...prev, [field]: parseMarks(value) }));
+  };
+
+  const handleDifficultyWeightChange = (level: string, value: string) => {
+    setScoringScheme(prev => ({
+      ...prev,
+      difficulty_weights: { ...prev.difficulty_weights, [level]: parseMarks(value) }
+    }));
+  };
+
+  const handleSectionWeightChange = (paperId: number, value: string) => {
+    setScoringScheme(prev => ({
+      ...prev,
+      section_weights: { ...prev.section_weights, [paperId]: parseMarks(value) }
+    }));
+  };
+
+  // Only send the weights that are switched on, for the papers still selected
+  const buildScoringScheme = (): ScoringScheme => {
+    const { difficulty_weights, section_weights, ...base } = scoringScheme;
+    return {
+      ...base,
+      ...(difficultyWeightsEnabled
+        ? { difficulty_weights: Object.fromEntries(DIFFICULTY_LEVELS.map(level => [level, difficulty_weights?.[level] ?? 1])) }
+        : {}),
+      ...(sectionWeightsEnabled
+        ? { section_weights: Object.fromEntries(selectedPapers.map(paper => [paper.paper_id, section_weights?.[paper.paper_id] ?? 1])) }
+        : {})
+    };
+  };
+
   const handleTimeLimitChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(event.target.value, 10);
     if (isNaN(value) || value <= 0) {
@@ -145,14 +219,36 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
       return;
     }
 
-    if (timeLimit <= 0) {
+    if (effectiveTimeLimit <= 0) {
       setError('Please enter a valid time limit greater than 0 minutes.');
       return;
     }
 
+    if (sectionTimingEnabled && effectiveTimeLimit > 480) {
+      setError('The section time limits add up to more than the 8 hour maximum.');
+      return;
+    }
+
     // Clear error and proceed
     setError(null);
-    onNext(selectedPapers, timeLimit, difficultyStrategy);
+    const timedSections: TimedSection[] | undefined = sectionTimingEnabled
+      ? selectedPapers.map((paper, index) => ({
+          paper_id: paper.paper_id,
+          section_name: paper.paper_name,
+          section_order: index + 1,
+          duration_minutes: getSectionDuration(paper.paper_id)
+        }))
+      : undefined;
+
+    if (scoringScheme.marks_per_correct <= 0) {
+      setError('Marks per correct answer must be greater than 0.');
+      return;
+    }
+
+    onNext(selectedPapers, effectiveTimeLimit, difficultyStrategy, {
+      timedSections,
+      scoringScheme: buildScoringScheme()
+    });
   };
 
   // Get available papers for selection (exclude already selected ones)
@@ -252,16 +348,77 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
             fullWidth
             label="Time Limit (minutes)"
             type="number"
-            value={timeLimit}
+            value={effectiveTimeLimit}
             onChange={handleTimeLimitChange}
+            disabled={sectionTimingEnabled}
             inputProps={{
               min: 1,
               max: 480,
               step: 1
             }}
-            helperText="Enter test duration in minutes (minimum 1 minute, maximum 8 hours)"
+            helperText={sectionTimingEnabled
+              ? 'Total of the section time limits below'
+              : 'Enter test duration in minutes (minimum 1 minute, maximum 8 hours)'}
             variant="outlined"
           />
+          <FormControlLabel
+            sx={{ mt: 2 }}
+            control={
+              <Switch
+                checked={sectionTimingEnabled}
+                onChange={(e) => setSectionTimingEnabled(e.target.checked)}
+              />
+            }
+            label="Section-wise timing"
+          />
+          <Typography variant="body2" color="text.secondary">
+            Each paper becomes a section with its own time limit. Sections are taken in order and
+            lock when their time ends or when you move on.
+          </Typography>
+          {sectionTimingEnabled && selectedPapers.length > 0 && (
+            <Card variant="outlined" sx={{ mt: 2 }}>
+              <CardContent>
+                {selectedPapers.map((paper, index) => (
+                  <Grid container spacing={2} alignItems="center" key={paper.paper_id} sx={{ mb: 1 }}>
+                    <Grid item xs={12} sm={6}>
+                      <Typography variant="body1">
+                        Section {index + 1}: {paper.paper_name}
+                      </Typography>
+                    </Grid>
+                    <Grid item xs={8} sm={4}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        label="Minutes"
+                        type="number"
+                        value={getSectionDuration(paper.paper_id)}
+                        onChange={(e) => handleSectionDurationChange(paper.paper_id, e.target.value)}
+                        inputProps={{ min: 1, max: 480, step: 1 }}
+                      />
+                    </Grid>
+                    <Grid item xs={4} sm={2}>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleMovePaper(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${paper.paper_name} up`}
+                      >
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleMovePaper(index, 1)}
+                        disabled={index === selectedPapers.length - 1}
+                        aria-label={`Move ${paper.paper_name} down`}
+                      >
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                    </Grid>
+                  </Grid>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </Box>
 
         {/* Difficulty Strategy Section */}
@@ -294,6 +451,90 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
           </FormControl>
         </Box>
 
+        {/* Scoring Section */}
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
+            Scoring Scheme
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Marks per correct answer"
+                type="number"
+                value={scoringScheme.marks_per_correct}
+                onChange={(e) => handleSchemeChange('marks_per_correct', e.target.value)}
+                inputProps={{ min: 0, step: 0.25 }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Negative marks per wrong answer"
+                type="number"
+                value={scoringScheme.penalty_per_wrong}
+                onChange={(e) => handleSchemeChange('penalty_per_wrong', e.target.value)}
+                inputProps={{ min: 0, step: 0.25 }}
+                helperText="0 disables negative marking. Unattempted questions score 0."
+              />
+            </Grid>
+          </Grid>
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={
+              <Switch
+                checked={difficultyWeightsEnabled}
+                onChange={(e) => setDifficultyWeightsEnabled(e.target.checked)}
+              />
+            }
+            label="Weight marks by difficulty"
+          />
+          {difficultyWeightsEnabled && (
+            <Grid container spacing={2} sx={{ mb: 1 }}>
+              {DIFFICULTY_LEVELS.map(level => (
+                <Grid item xs={4} key={level}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={`${level} x`}
+                    type="number"
+                    value={scoringScheme.difficulty_weights?.[level] ?? 1}
+                    onChange={(e) => handleDifficultyWeightChange(level, e.target.value)}
+                    inputProps={{ min: 0, step: 0.25 }}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          )}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={sectionWeightsEnabled}
+                onChange={(e) => setSectionWeightsEnabled(e.target.checked)}
+                disabled={selectedPapers.length < 2}
+              />
+            }
+            label="Weight marks by section"
+          />
+          {sectionWeightsEnabled && selectedPapers.length > 1 && (
+            <Grid container spacing={2}>
+              {selectedPapers.map(paper => (
+                <Grid item xs={12} sm={6} key={paper.paper_id}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={`${paper.paper_name} x`}
+                    type="number"
+                    value={scoringScheme.section_weights?.[paper.paper_id] ?? 1}
+                    onChange={(e) => handleSectionWeightChange(paper.paper_id, e.target.value)}
+                    inputProps={{ min: 0, step: 0.25 }}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          )}
+        </Box>
+
         {/* Error Display */}
         {error && (
           <Alert severity="error" sx={{ mb: 3 }}>
@@ -316,7 +557,7 @@ export const TestCustomizationComponent: React.FC<TestCustomizationProps> = ({
           <Button
             variant="contained"
             onClick={handleNext}
-            disabled={selectedPapers.length === 0 || timeLimit <= 0}
+            disabled={selectedPapers.length === 0 || effectiveTimeLimit <= 0}
             size="large"
             sx={{ ml: 'auto' }}
           >
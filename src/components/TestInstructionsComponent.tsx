@@ -23,6 +23,8 @@ import WarningIcon from '@mui/icons-material/Warning';
 import InfoIcon from '@mui/icons-material/Info';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import { ProctoringConfig, ScoringScheme, TimedSection } from '../types';
+import { describeScoringScheme } from '../utils/scoring';
 
 interface SelectedPaper {
   paper_id: number;
@@ -32,6 +34,9 @@ interface SelectedPaper {
 interface TestInstructionsProps {
   selectedPapers: SelectedPaper[];
   timeLimit: number; // in minutes
+  proctoring?: ProctoringConfig;
+  timedSections?: TimedSection[];
+  scoringScheme?: ScoringScheme;
   onStartTest: () => void;
   onBack: () => void;
 }
@@ -39,6 +44,9 @@ interface TestInstructionsProps {
 export const TestInstructionsComponent: React.FC<TestInstructionsProps> = ({
   selectedPapers,
   timeLimit,
+  proctoring,
+  timedSections,
+  scoringScheme,
   onStartTest,
   onBack
 }) => {
@@ -208,6 +216,81 @@ export const TestInstructionsComponent: React.FC<TestInstructionsProps> = ({
           </List>
         </Alert>
 
+        {/* Marking Scheme */}
+        {scoringScheme && (
+          <Card variant="outlined" sx={{ mb: 4 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Marking Scheme
+              </Typography>
+              <List dense>
+                {describeScoringScheme(
+                  scoringScheme,
+                  Object.fromEntries(selectedPapers.map(paper => [paper.paper_id, paper.paper_name]))
+                ).map(line => (
+                  <ListItem key={line}>
+                    <ListItemText primary={`• ${line}`} />
+                  </ListItem>
+                ))}
+              </List>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Section Schedule */}
+        {timedSections && timedSections.length > 0 && (
+          <Alert severity="info" sx={{ mb: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              Section-wise Timing
+            </Typography>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              Sections must be completed in the order below. A section locks when its time runs out or when
+              you move on to the next one, and you cannot return to it.
+            </Typography>
+            <List dense>
+              {[...timedSections]
+                .sort((a, b) => a.section_order - b.section_order)
+                .map(section => (
+                  <ListItem key={section.paper_id}>
+                    <ListItemText
+                      primary={`${section.section_order}. ${section.section_name}`}
+                      secondary={formatTime(section.duration_minutes)}
+                    />
+                  </ListItem>
+                ))}
+            </List>
+          </Alert>
+        )}
+
+        {/* Proctoring Rules */}
+        {proctoring?.enabled && (
+          <Alert severity="error" sx={{ mb: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              Proctored Test
+            </Typography>
+            <List dense>
+              {proctoring.requireFullscreen && (
+                <ListItem>
+                  <ListItemText primary="• The test must be taken in fullscreen mode. Exiting fullscreen is recorded." />
+                </ListItem>
+              )}
+              <ListItem>
+                <ListItemText primary="• Switching tabs or windows, copy/paste, right-click and developer tools are recorded with the time and question." />
+              </ListItem>
+              {proctoring.warningThreshold > 0 && (
+                <ListItem>
+                  <ListItemText primary={`• You will be warned after ${proctoring.warningThreshold} recorded violation(s).`} />
+                </ListItem>
+              )}
+              {proctoring.autoSubmitThreshold > 0 && (
+                <ListItem>
+                  <ListItemText primary={`• Your test will be submitted automatically after ${proctoring.autoSubmitThreshold} violation(s).`} />
+                </ListItem>
+              )}
+            </List>
+          </Alert>
+        )}
+
         {/* Pre-Test Checklist */}
         <Card variant="outlined" sx={{ mb: 4 }}>
           <CardContent>
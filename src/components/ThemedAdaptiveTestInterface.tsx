@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import type { JSX } from 'react';
 import {
   Box,
@@ -25,6 +25,13 @@ import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import { testsAPI, axiosInstance } from '../services/api';
 import { ErrorAlert } from './ErrorAlert';
 import { shuffleArray, WithOriginalValues } from '../utils/shuffleUtils';
+import { useExamTimer } from '../hooks/useExamTimer';
+import { ExamTimerWarning } from './ExamTimerWarning';
+import { useExamShortcuts } from '../hooks/useExamShortcuts';
+import { ExamShortcutType } from '../utils/examShortcuts';
+import { ExamShortcutHelp } from './ExamShortcutHelp';
+import { LiveAnnouncer } from './LiveAnnouncer';
+import { RichContent } from './RichContent';
 
 // Reuse styled components from ThemedTestInterface
 const TestContainer = styled(Box)({
@@ -86,7 +93,8 @@ const QuestionTitle = styled(Typography)({
   gap: '12px',
 });
 
-const QuestionText = styled(Typography)({
+// A div, since rich question content can contain block elements
+const QuestionText = styled(Box)({
   fontSize: '16px',
   fontWeight: 400,
   fontFamily: 'Arial, sans-serif',
@@ -250,11 +258,51 @@ interface Question {
   options: QuestionOption[] | string[];
 }
 
+interface DisplayedOption {
+  value: string;
+  label: string;
+}
+
+// Adaptive tests only move forward, so there is no previous/review/go-to
+const KEYBOARD_ACTIONS: ExamShortcutType[] = ['selectOption', 'next', 'clear', 'help'];
+
+// Options as rendered: True/False questions only show their TRUE/FALSE options
+const getDisplayedOptions = (question: Question): DisplayedOption[] => {
+  if (!Array.isArray(question.options)) return [];
+
+  // Check if this is a True/False question by looking for TRUE/FALSE in options
+  const allOptions = question.options as (QuestionOption | string)[];
+  const getText = (opt: QuestionOption | string) => (typeof opt === 'string' ? opt : opt.option_text);
+  const trueFalseOptions = allOptions.filter((opt: QuestionOption | string) => {
+    const text = getText(opt);
+    return text && (text.toLowerCase().includes('true') || text.toLowerCase().includes('false'));
+  });
+
+  const isTrueFalseQuestion = trueFalseOptions.length >= 2;
+
+  if (isTrueFalseQuestion) {
+    // Use the original index in the full options array as the value
+    return trueFalseOptions.map(option => {
+      const optionText = getText(option);
+      return {
+        value: allOptions.findIndex(opt => getText(opt) === optionText).toString(),
+        label: optionText
+      };
+    });
+  }
+
+  return allOptions.map((option, index) => ({
+    value: index.toString(),
+    label: `${String.fromCharCode(65 + index)}. ${getText(option)}`
+  }));
+};
+
 interface ThemedAdaptiveTestInterfaceProps {
   attemptId: number;
   onComplete: () => void;
   adaptiveStrategy: string;
   testDuration?: number;
+  initialTimeLeft?: number; // Seconds remaining when resuming an attempt
   userInfo?: {
     candidateName?: string;
     examName?: string;
@@ -267,6 +315,7 @@ export const ThemedAdaptiveTestInterface = ({
   onComplete,
   adaptiveStrategy,
   testDuration = 60,
+  initialTimeLeft,
   userInfo = {}
 }: ThemedAdaptiveTestInterfaceProps): JSX.Element => {
   // Current question state
@@ -282,27 +331,20 @@ export const ThemedAdaptiveTestInterface = ({
   const [maxQuestions, setMaxQuestions] = useState<number | null>(null);
   const [isTestComplete, setIsTestComplete] = useState<boolean>(false);
   const [showDifficultyIndicator, setShowDifficultyIndicator] = useState<boolean>(true);
-  const [timeLeft, setTimeLeft] = useState<number>(testDuration * 60);
-
-  // Timer effect
-  useEffect(() => {
-    if (timeLeft <= 0) {
-      handleSubmitTest();
-      return;
-    }
+  const [showShortcutHelp, setShowShortcutHelp] = useState<boolean>(false);
+  const [announcement, setAnnouncement] = useState<string>('');
 
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+  // Move focus to the question heading when a question is loaded via keyboard
+  const questionHeadingRef = useRef<HTMLElement>(null);
+  const focusQuestionRef = useRef<boolean>(false);
 
-    return () => clearInterval(timer);
-  }, [timeLeft]);
+  // Server-authoritative timer shared with the standard test interface
+  const { timeLeft, warningMinutes, dismissWarning } = useExamTimer({
+    attemptId,
+    durationMinutes: testDuration,
+    initialTimeLeft,
+    onExpire: () => handleSubmitTest()
+  });
 
   // Monitor test completion state for debugging
   useEffect(() => {
@@ -524,6 +566,46 @@ export const ThemedAdaptiveTestInterface = ({
     setSelectedOption(optionIndex);
   };
 
+  useEffect(() => {
+    if (focusQuestionRef.current && currentQuestion) {
+      focusQuestionRef.current = false;
+      questionHeadingRef.current?.focus();
+      setAnnouncement(`Question ${questionsAnswered + 1} loaded`);
+    }
+  }, [currentQuestion, questionsAnswered]);
+
+  useExamShortcuts({
+    enabled: !!currentQuestion && !isLoading && !showConfirmSubmit && !showShortcutHelp && !isSubmitting,
+    handlers: {
+      selectOption: (optionIndex) => {
+        const displayed = currentQuestion ? getDisplayedOptions(currentQuestion) : [];
+        if (optionIndex >= displayed.length) {
+          setAnnouncement(`This question has only ${displayed.length} options`);
+          return;
+        }
+        handleOptionChange(displayed[optionIndex].value);
+        setAnnouncement(`${displayed[optionIndex].label} selected`);
+      },
+      next: () => {
+        if (selectedOption === null) {
+          setAnnouncement('Select an answer before moving to the next question');
+          return;
+        }
+        if (isTestComplete) {
+          setAnnouncement('All questions answered. Submit the test to finish.');
+          return;
+        }
+        focusQuestionRef.current = true;
+        submitAnswer();
+      },
+      clear: () => {
+        clearAnswer();
+        setAnnouncement('Answer cleared');
+      },
+      help: () => setShowShortcutHelp(true)
+    }
+  });
+
   // Loading state
   if (isLoading && !currentQuestion) {
     return (
@@ -561,7 +643,12 @@ export const ThemedAdaptiveTestInterface = ({
           Subject: {userInfo.subject || 'General'} | 
           Remaining Time: {formatTime(timeLeft)}
         </UserInfoText>
-        {isLoading && <CircularProgress size={20} sx={{ color: '#666' }} />}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button size="small" onClick={() => setShowShortcutHelp(true)} aria-keyshortcuts="Shift+/">
+            Keyboard Shortcuts (?)
+          </Button>
+          {isLoading && <CircularProgress size={20} sx={{ color: '#666' }} />}
+        </Box>
       </TestHeader>
 
       {/* Main Content */}
@@ -569,7 +656,7 @@ export const ThemedAdaptiveTestInterface = ({
         {/* Question Area */}
         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
           <QuestionArea>
-            <QuestionTitle>
+            <QuestionTitle ref={questionHeadingRef} tabIndex={-1} sx={{ outline: 'none' }}>
               Question {questionsAnswered + 1}:
               {showDifficultyIndicator && currentQuestion.difficulty_level && (
                 <DifficultyIndicator 
@@ -581,47 +668,23 @@ export const ThemedAdaptiveTestInterface = ({
             </QuestionTitle>
             
             <QuestionText>
-              {currentQuestion.question_text}
+              <RichContent content={currentQuestion.question_text} />
             </QuestionText>
 
             <OptionsContainer>
-              <RadioGroup value={selectedOption || ''} onChange={(e) => handleOptionChange(e.target.value)}>
-                {Array.isArray(currentQuestion.options) && (() => {
-                  // Check if this is a True/False question by looking for TRUE/FALSE in options
-                  const allOptions = currentQuestion.options as (QuestionOption | string)[];
-                  const trueFalseOptions = allOptions.filter((opt: QuestionOption | string) => {
-                    const text = typeof opt === 'string' ? opt : opt.option_text;
-                    return text && (text.toLowerCase().includes('true') || text.toLowerCase().includes('false'));
-                  });
-                  
-                  const isTrueFalseQuestion = trueFalseOptions.length >= 2;
-                  
-                  // Use only TRUE/FALSE options for True/False questions, all options otherwise
-                  const optionsToDisplay = isTrueFalseQuestion ? trueFalseOptions : allOptions;
-                  
-                  return optionsToDisplay.map((option: QuestionOption | string, index: number) => {
-                    const optionText = typeof option === 'string' ? option : option.option_text;
-                    
-                    // For True/False questions, find the original index in the full options array
-                    let valueToUse = index.toString();
-                    if (isTrueFalseQuestion) {
-                      const originalIndex = allOptions.findIndex((opt: QuestionOption | string) => {
-                        const text = typeof opt === 'string' ? opt : opt.option_text;
-                        return text === optionText;
-                      });
-                      valueToUse = originalIndex.toString();
-                    }
-                    
-                    return (
-                      <OptionItem
-                        key={isTrueFalseQuestion ? valueToUse : index}
-                        value={valueToUse}
-                        control={<Radio sx={{ color: '#666' }} />}
-                        label={isTrueFalseQuestion ? optionText : `${String.fromCharCode(65 + index)}. ${optionText}`}
-                      />
-                    );
-                  });
-                })()}
+              <RadioGroup
+                value={selectedOption || ''}
+                onChange={(e) => handleOptionChange(e.target.value)}
+                aria-label={`Options for question ${questionsAnswered + 1}`}
+              >
+                {getDisplayedOptions(currentQuestion).map((option) => (
+                  <OptionItem
+                    key={option.value}
+                    value={option.value}
+                    control={<Radio sx={{ color: '#666' }} />}
+                    label={<RichContent content={option.label} inline />}
+                  />
+                ))}
               </RadioGroup>
             </OptionsContainer>
           </QuestionArea>
@@ -737,6 +800,17 @@ export const ThemedAdaptiveTestInterface = ({
         </DialogActions>
       </Dialog>
 
+      {/* Keyboard Shortcuts */}
+      <ExamShortcutHelp
+        open={showShortcutHelp}
+        onClose={() => setShowShortcutHelp(false)}
+        availableActions={KEYBOARD_ACTIONS}
+      />
+      <LiveAnnouncer message={announcement} />
+
+      {/* Time Warnings */}
+      <ExamTimerWarning warningMinutes={warningMinutes} onClose={dismissWarning} />
+
       {/* Error Alert */}
       {error && (
         <ErrorAlert 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, ReactElement } from 'react';
+import React, { useState, useEffect, useCallback, useRef, ReactElement } from 'react';
 import {
   Box,
   Paper,
@@ -18,6 +18,9 @@ import {
   Theme,
   Card,
   CardContent,
+  Checkbox,
+  TextField,
+  Alert,
   styled
 } from '@mui/material';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
@@ -25,6 +28,42 @@ import { testsAPI } from '../services/api';
 import { ErrorAlert } from './ErrorAlert';
 import { shuffleArray, shuffleOptionsInQuestions } from '../utils/shuffleUtils';
 import { useSession } from '../contexts/SessionContext';
+import { useAnswerOutbox } from '../hooks/useAnswerOutbox';
+import {
+  loadAttemptProgress,
+  saveAttemptProgress,
+  clearAttemptProgress,
+  mergeSavedAnswers,
+  SavedAnswer
+} from '../utils/attemptResume';
+import { UndeliveredEntry, getPendingEntries } from '../utils/answerOutbox';
+import { useExamTimer } from '../hooks/useExamTimer';
+import { ExamTimerWarning } from './ExamTimerWarning';
+import { useProctoring } from '../hooks/useProctoring';
+import { clearProctoringState } from '../utils/proctoring';
+import { ProctoringConfig, TimedSection } from '../types';
+import { useExamShortcuts } from '../hooks/useExamShortcuts';
+import { ExamShortcutType } from '../utils/examShortcuts';
+import { ExamShortcutHelp } from './ExamShortcutHelp';
+import { GoToQuestionDialog } from './GoToQuestionDialog';
+import { LiveAnnouncer } from './LiveAnnouncer';
+import { SectionSummary, SectionSummaryRow } from './SectionSummary';
+import { RichContent } from './RichContent';
+import {
+  buildAnswerFields,
+  decodeOptionIndices,
+  normalizeQuestionType,
+  parseNumericAnswer,
+  toggleOptionIndex,
+  usesOptions
+} from '../utils/questionTypes';
+import {
+  SectionRange,
+  groupQuestionsBySection,
+  getNextNonEmptySection,
+  getSectionRemainingSeconds,
+  clearTimedSections
+} from '../utils/sectionTiming';
 
 // Styled components for the new CBT theme
 const TestContainer = styled(Box)({
@@ -83,7 +122,8 @@ const QuestionTitle = styled(Typography)({
   marginBottom: '8px',
 });
 
-const QuestionText = styled(Typography)({
+// A div, since rich question content can contain block elements
+const QuestionText = styled(Box)({
   fontSize: '16px',
   fontWeight: 400,
   fontFamily: 'Arial, sans-serif',
@@ -303,6 +343,8 @@ interface QuestionOption {
 interface Question {
   question_id: number;
   question_text: string;
+  question_type?: string;
+  paper_id?: number;
   options: QuestionOption[] | string[];
 }
 
@@ -311,6 +353,10 @@ interface ThemedTestInterfaceProps {
   questions: Question[];
   onComplete: () => void;
   testDuration?: number;
+  initialTimeLeft?: number; // Seconds remaining when resuming an attempt
+  proctoring?: ProctoringConfig;
+  timedSections?: TimedSection[]; // Enables section-wise timing with locked sections
+  savedAnswers?: SavedAnswer[];   // Answers saved on the server, when resuming an attempt
   userInfo?: {
     candidateName?: string;
     examName?: string;
@@ -318,9 +364,30 @@ interface ThemedTestInterfaceProps {
   };
 }
 
+const STATUS_LABELS: Record<'notVisited' | 'notAnswered' | 'answered' | 'markedForReview', string> = {
+  notVisited: 'not visited',
+  notAnswered: 'not answered',
+  answered: 'answered',
+  markedForReview: 'marked for review',
+};
+
+const UNDELIVERED_REASONS: Record<UndeliveredEntry['reason'], string> = {
+  rejected: 'not accepted by the server',
+  not_sent: 'not sent before the test was submitted',
+};
+
+// Typed answers are saved once the candidate pauses typing
+const TEXT_ANSWER_SAVE_DELAY_MS = 1000;
+
+const KEYBOARD_ACTIONS: ExamShortcutType[] = [
+  'selectOption', 'next', 'previous', 'markForReview', 'clear', 'goToQuestion', 'help'
+];
+
 interface AnswerSubmission {
   question_id: number;
-  selected_option_index: number;
+  selected_option_index?: number;
+  selected_option_indices?: number[];
+  answer_text?: string;
   time_taken_seconds: number;
   is_marked_for_review: boolean;
 }
@@ -373,21 +440,56 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
   questions, 
   onComplete, 
   testDuration = 60,
+  initialTimeLeft,
+  proctoring,
+  timedSections,
+  savedAnswers,
   userInfo = {}
 }): ReactElement => {
   // Session management for activity tracking
   const { markActivity } = useSession();
   
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [markedForReview, setMarkedForReview] = useState<Set<number>>(new Set());
-  const [timeLeft, setTimeLeft] = useState<number>(testDuration * 60); // Convert minutes to seconds
+  // Restore progress saved before a reload so the attempt can be resumed
+  const [savedProgress] = useState(() => loadAttemptProgress(attemptId));
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(savedProgress?.currentQuestionIndex ?? 0);
+  const [answers, setAnswers] = useState<Record<string, string>>(savedProgress?.answers ?? {});
+  const [markedForReview, setMarkedForReview] = useState<Set<number>>(new Set(savedProgress?.markedForReview ?? []));
   const [showConfirmSubmit, setShowConfirmSubmit] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [isSavingAnswer, setIsSavingAnswer] = useState<boolean>(false);
   const [displayedQuestions, setDisplayedQuestions] = useState<Question[]>(questions || []);
   const [currentShuffledQuestion, setCurrentShuffledQuestion] = useState<Question | null>(null);
+  const [showPendingSyncConfirm, setShowPendingSyncConfirm] = useState<boolean>(false);
+  // Answers that never reached the server, shown once the test is submitted
+  const [unsavedAtSubmit, setUnsavedAtSubmit] = useState<UndeliveredEntry[] | null>(null);
+  const [showShortcutHelp, setShowShortcutHelp] = useState<boolean>(false);
+  const [showGoToQuestion, setShowGoToQuestion] = useState<boolean>(false);
+  const [announcement, setAnnouncement] = useState<string>('');
+
+  // Section-wise timing: only the current section is accessible, earlier ones are locked
+  const [sectionRanges, setSectionRanges] = useState<SectionRange[]>([]);
+  const [currentSectionIndex, setCurrentSectionIndex] = useState<number>(savedProgress?.currentSectionIndex ?? 0);
+  const [sectionStartedAt, setSectionStartedAt] = useState<number>(savedProgress?.sectionStartedAt ?? Date.now());
+  const [sectionSummary, setSectionSummary] = useState<'review' | 'expired' | null>(null);
+
+  // Move focus to the question heading after keyboard navigation
+  const questionHeadingRef = useRef<HTMLElement>(null);
+  const focusQuestionRef = useRef<boolean>(false);
+
+  // Debounced save of the answer being typed into a numeric or fill-in-the-blank field
+  const pendingTextSaveRef = useRef<{ timer: ReturnType<typeof setTimeout>; save: () => Promise<void> } | null>(null);
+
+  // Persistent outbox so answers survive network failures and reloads
+  const {
+    pendingCount,
+    undelivered,
+    isSyncing,
+    record: recordAnswer,
+    flush: flushAnswers,
+    abandonPending,
+    clear: clearAnswerOutbox,
+  } = useAnswerOutbox(attemptId);
 
   // Effect to handle filtering questions
   useEffect(() => {
@@ -415,20 +517,70 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
         }
       });
 
-      console.log(`Processed ${normalizedQuestions.length} questions for themed test`);
-      setDisplayedQuestions(normalizedQuestions);
+      // Group questions into contiguous blocks when sections are timed separately
+      const { questions: orderedQuestions, ranges } = timedSections && timedSections.length > 0
+        ? groupQuestionsBySection<Question>(normalizedQuestions, timedSections)
+        : { questions: normalizedQuestions, ranges: [] };
+
+      console.log(`Processed ${orderedQuestions.length} questions for themed test`);
+      setDisplayedQuestions(orderedQuestions);
+      setSectionRanges(ranges);
+      // A restored index may be out of range if the question set changed
+      setCurrentQuestionIndex(prev => (prev < orderedQuestions.length ? prev : 0));
+
+      // Resume with the answers saved on the server, keeping changes not yet delivered
+      if (savedAnswers) {
+        const restored = mergeSavedAnswers(
+          { answers: savedProgress?.answers ?? {}, markedForReview: savedProgress?.markedForReview ?? [] },
+          orderedQuestions.map((q: Question) => q.question_id),
+          savedAnswers,
+          getPendingEntries(attemptId).map(entry => entry.payload.question_id)
+        );
+        setAnswers(restored.answers);
+        setMarkedForReview(new Set(restored.markedForReview));
+      }
     } catch (error) {
       console.error('Error processing questions for themed test:', error);
       setDisplayedQuestions([]);
       setError('Failed to process test questions. Please try again.');
     }
-  }, [questions]);
+  }, [questions, timedSections, savedAnswers, savedProgress, attemptId]);
+
+  // Keep the current question inside the current section, skipping empty sections
+  useEffect(() => {
+    if (sectionRanges.length === 0) return;
+
+    const sectionIndex = getNextNonEmptySection(sectionRanges, currentSectionIndex);
+    if (sectionIndex === -1) return;
+    if (sectionIndex !== currentSectionIndex) {
+      setCurrentSectionIndex(sectionIndex);
+      setSectionStartedAt(Date.now());
+    }
+
+    const range = sectionRanges[sectionIndex];
+    setCurrentQuestionIndex(prev => (prev >= range.startIndex && prev < range.endIndex ? prev : range.startIndex));
+    // Only re-run when the section layout changes, not on every section move
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sectionRanges]);
+
+  // Persist progress so a reload or crash can resume where the candidate left off
+  useEffect(() => {
+    saveAttemptProgress({
+      attemptId,
+      answers,
+      markedForReview: Array.from(markedForReview),
+      currentQuestionIndex,
+      ...(sectionRanges.length > 0 ? { currentSectionIndex, sectionStartedAt } : {})
+    });
+  }, [attemptId, answers, markedForReview, currentQuestionIndex, sectionRanges, currentSectionIndex, sectionStartedAt]);
 
   // Effect to shuffle options for current question
   useEffect(() => {
     if (displayedQuestions.length > 0 && currentQuestionIndex < displayedQuestions.length) {
       const currentQuestion = displayedQuestions[currentQuestionIndex];
-      if (currentQuestion && Array.isArray(currentQuestion.options) && currentQuestion.options.length > 0) {
+      // True/False options keep their fixed order
+      if (currentQuestion && Array.isArray(currentQuestion.options) && currentQuestion.options.length > 0 &&
+          normalizeQuestionType(currentQuestion.question_type) !== 'True/False') {
         try {
           // Create a unique key for this question instance
           const questionKey = `${currentQuestion.question_id}-${currentQuestionIndex}`;
@@ -464,25 +616,53 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
     }
   }, [displayedQuestions, currentQuestionIndex]);
 
-  // Timer effect
   useEffect(() => {
-    if (timeLeft <= 0) {
-      handleSubmitTest();
-      return;
+    if (focusQuestionRef.current && currentShuffledQuestion) {
+      focusQuestionRef.current = false;
+      questionHeadingRef.current?.focus();
     }
+  }, [currentShuffledQuestion]);
 
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+  // Server-authoritative timer; time is up: submit even if some answers are still waiting to sync
+  const { timeLeft, warningMinutes, dismissWarning } = useExamTimer({
+    attemptId,
+    durationMinutes: testDuration,
+    initialTimeLeft,
+    onExpire: () => handleSubmitTest(true)
+  });
+
+  // Proctoring mode: integrity events are logged and sent along with the answers
+  const {
+    isActive: isProctored,
+    isFullscreen,
+    violationCount,
+    showWarning: showProctoringWarning,
+    dismissWarning: dismissProctoringWarning,
+    requestFullscreen,
+    flushEvents: flushProctoringEvents
+  } = useProctoring({
+    attemptId,
+    config: proctoring,
+    currentQuestionIndex,
+    onAutoSubmit: () => handleSubmitTest(true)
+  });
+
+  // The overall timer re-renders every second, which also drives the section countdown
+  const currentSection: SectionRange | undefined = sectionRanges[currentSectionIndex];
+  const sectionTimeLeft = currentSection
+    ? Math.min(timeLeft, getSectionRemainingSeconds(sectionStartedAt, currentSection.durationSeconds))
+    : null;
+  const sectionStart = currentSection ? currentSection.startIndex : 0;
+  const sectionEnd = currentSection ? currentSection.endIndex : displayedQuestions.length;
+  const isLastSection = !currentSection || getNextNonEmptySection(sectionRanges, currentSectionIndex + 1) === -1;
 
-    return () => clearInterval(timer);
-  }, [timeLeft]);
+  // Lock the section as soon as its time runs out
+  useEffect(() => {
+    if (sectionTimeLeft === 0 && timeLeft > 0 && sectionSummary !== 'expired') {
+      setSectionSummary('expired');
+      setAnnouncement('Time for this section is over. The section is now locked.');
+    }
+  }, [sectionTimeLeft, timeLeft, sectionSummary]);
 
   // Format time display
   const formatTime = (seconds: number): string => {
@@ -567,63 +747,140 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
     });
   }, []);
 
-  // Handle answer selection
-  const handleAnswerChange = useCallback(async (optionIndex: string) => {
+  // Store the answer of the current question; an empty answer removes it
+  const storeAnswer = useCallback((storedAnswer: string) => {
     if (!currentShuffledQuestion) return;
-    
+
     const questionKey = `${currentShuffledQuestion.question_id}-${currentQuestionIndex}`;
-    const displayIndex = parseInt(optionIndex);
-    
-    // Convert display index to original index for storage
-    const originalIndex = getOriginalIndexFromDisplay(displayIndex, currentShuffledQuestion);
-    
-    // Store the ORIGINAL index, not the display index
-    setAnswers(prev => ({
-      ...prev,
-      [questionKey]: originalIndex.toString()
-    }));
+    setAnswers(prev => {
+      const newAnswers = { ...prev };
+      if (storedAnswer === '') {
+        delete newAnswers[questionKey];
+      } else {
+        newAnswers[questionKey] = storedAnswer;
+      }
+      return newAnswers;
+    });
 
     // Mark user activity
     markActivity();
 
     // Update review state - automatically remove from review when answered
-    updateReviewState(currentQuestionIndex, true, false);
+    if (storedAnswer !== '') {
+      updateReviewState(currentQuestionIndex, true, false);
+    }
+  }, [currentShuffledQuestion, currentQuestionIndex, markActivity, updateReviewState]);
+
+  // Auto-save answer through the outbox; failed saves stay queued and are retried
+  const submitAnswer = useCallback(async (storedAnswer: string) => {
+    if (!currentShuffledQuestion) return;
 
-    // Auto-save answer
     try {
       setIsSavingAnswer(true);
       
       const submission: AnswerSubmission = {
         question_id: currentShuffledQuestion.question_id,
-        selected_option_index: originalIndex, // Already the original index
+        // Option indices are already the original indices
+        ...buildAnswerFields(normalizeQuestionType(currentShuffledQuestion.question_type), storedAnswer),
         time_taken_seconds: Math.round((testDuration * 60 - timeLeft)),
         // Send false for review since we auto-remove answered questions from review
         is_marked_for_review: false
       };
       
-      await testsAPI.submitAnswer(attemptId, submission);
+      await recordAnswer('answer', submission);
+      flushProctoringEvents();
     } catch (error) {
       console.error('Failed to save answer:', error);
     } finally {
       setIsSavingAnswer(false);
     }
-  }, [currentShuffledQuestion, currentQuestionIndex, attemptId, testDuration, timeLeft, markActivity, updateReviewState, getOriginalIndexFromDisplay]);
+  }, [currentShuffledQuestion, testDuration, timeLeft, recordAnswer, flushProctoringEvents]);
+
+  // Handle answer selection; multi-select questions toggle the option instead
+  const handleAnswerChange = useCallback(async (optionIndex: string) => {
+    if (!currentShuffledQuestion) return;
+    
+    const questionKey = `${currentShuffledQuestion.question_id}-${currentQuestionIndex}`;
+    const displayIndex = parseInt(optionIndex);
+    
+    // Convert display index to original index for storage
+    const originalIndex = getOriginalIndexFromDisplay(displayIndex, currentShuffledQuestion);
+    
+    // Store the ORIGINAL index, not the display index
+    const storedAnswer = normalizeQuestionType(currentShuffledQuestion.question_type) === 'MultiSelect'
+      ? toggleOptionIndex(answers[questionKey], originalIndex)
+      : originalIndex.toString();
+
+    storeAnswer(storedAnswer);
+    await submitAnswer(storedAnswer);
+  }, [currentShuffledQuestion, currentQuestionIndex, answers, getOriginalIndexFromDisplay, storeAnswer, submitAnswer]);
+
+  // Save a typed answer still waiting for its debounce right away
+  const saveTypedAnswerNow = useCallback(async () => {
+    const pending = pendingTextSaveRef.current;
+    if (!pending) return;
+    pendingTextSaveRef.current = null;
+    clearTimeout(pending.timer);
+    await pending.save();
+  }, []);
+
+  const discardTypedAnswer = () => {
+    if (pendingTextSaveRef.current) {
+      clearTimeout(pendingTextSaveRef.current.timer);
+      pendingTextSaveRef.current = null;
+    }
+  };
+
+  // Typed answers are queued once typing pauses, and at the latest when the field loses focus
+  const handleTextAnswerChange = (text: string) => {
+    storeAnswer(text);
+    discardTypedAnswer();
+    pendingTextSaveRef.current = {
+      timer: setTimeout(saveTypedAnswerNow, TEXT_ANSWER_SAVE_DELAY_MS),
+      save: () => submitAnswer(text),
+    };
+  };
+
+  const handleTextAnswerBlur = () => {
+    saveTypedAnswerNow();
+  };
+
+  // Leaving a question (or the test) saves what was typed into it
+  useEffect(() => () => {
+    saveTypedAnswerNow();
+  }, [currentQuestionIndex, saveTypedAnswerNow]);
+
+  // Queue a mark-for-review change for the current question
+  const recordReviewChange = useCallback((isMarked: boolean) => {
+    if (!currentShuffledQuestion) return;
+
+    const storedAnswer = answers[`${currentShuffledQuestion.question_id}-${currentQuestionIndex}`];
+    recordAnswer('review', {
+      question_id: currentShuffledQuestion.question_id,
+      ...buildAnswerFields(normalizeQuestionType(currentShuffledQuestion.question_type), storedAnswer),
+      time_taken_seconds: Math.round((testDuration * 60 - timeLeft)),
+      is_marked_for_review: isMarked
+    }).catch(error => {
+      console.error('Failed to record review state:', error);
+    });
+    flushProctoringEvents();
+  }, [currentShuffledQuestion, currentQuestionIndex, answers, testDuration, timeLeft, recordAnswer, flushProctoringEvents]);
 
   // Navigation functions
   const goToNextQuestion = () => {
-    if (currentQuestionIndex < displayedQuestions.length - 1) {
+    if (currentQuestionIndex < sectionEnd - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
     }
   };
 
   const goToPreviousQuestion = () => {
-    if (currentQuestionIndex > 0) {
+    if (currentQuestionIndex > sectionStart) {
       setCurrentQuestionIndex(prev => prev - 1);
     }
   };
 
   const goToQuestion = (index: number) => {
-    if (index >= 0 && index < displayedQuestions.length) {
+    if (index >= sectionStart && index < sectionEnd) {
       setCurrentQuestionIndex(index);
     }
   };
@@ -635,6 +892,7 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
 
   const handleClear = () => {
     if (!currentShuffledQuestion) return;
+    discardTypedAnswer();
     const questionKey = `${currentShuffledQuestion.question_id}-${currentQuestionIndex}`;
     setAnswers(prev => {
       const newAnswers = { ...prev };
@@ -649,26 +907,121 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
       // Keep it marked for review since user explicitly marked it and now cleared the answer
       updateReviewState(currentQuestionIndex, false, true);
     }
+
+    // Queue the clear so the server drops the saved answer too
+    recordAnswer('clear', {
+      question_id: currentShuffledQuestion.question_id,
+      selected_option_index: null,
+      selected_option_indices: null,
+      answer_text: null,
+      time_taken_seconds: Math.round((testDuration * 60 - timeLeft)),
+      is_marked_for_review: wasMarkedForReview
+    }).catch(error => {
+      console.error('Failed to record cleared answer:', error);
+    });
+    flushProctoringEvents();
   };
 
   const handleSaveMarkReview = () => {
     // Explicitly mark for review regardless of answer status
     updateReviewState(currentQuestionIndex, false, true);
+    recordReviewChange(true);
     goToNextQuestion();
   };
 
   const handleMarkReviewNext = () => {
     // Explicitly mark for review regardless of answer status  
     updateReviewState(currentQuestionIndex, false, true);
+    recordReviewChange(true);
     goToNextQuestion();
   };
 
-  const handleSubmitTest = useCallback(async () => {
+  // Keyboard navigation: move focus to the new question and announce it
+  const navigateByKeyboard = (index: number) => {
+    if (index < 0 || index >= displayedQuestions.length) {
+      setAnnouncement(index < 0 ? 'Already at the first question' : 'Already at the last question');
+      return;
+    }
+    if (index < sectionStart || index >= sectionEnd) {
+      setAnnouncement(`Question ${index + 1} is not in the current section`);
+      return;
+    }
+    focusQuestionRef.current = true;
+    setCurrentQuestionIndex(index);
+    setAnnouncement(
+      `Question ${index + 1} of ${displayedQuestions.length}, ${STATUS_LABELS[getQuestionStatus(index)]}`
+    );
+  };
+
+  // Leave the current section: it is locked and the next section's timer starts
+  const handleProceedFromSection = () => {
+    const nextSection = getNextNonEmptySection(sectionRanges, currentSectionIndex + 1);
+    if (nextSection === -1) {
+      if (sectionSummary === 'expired') {
+        handleSubmitTest(true);
+      } else {
+        setSectionSummary(null);
+        setShowConfirmSubmit(true);
+      }
+      return;
+    }
+
+    setSectionSummary(null);
+    setCurrentSectionIndex(nextSection);
+    setSectionStartedAt(Date.now());
+    focusQuestionRef.current = true;
+    setCurrentQuestionIndex(sectionRanges[nextSection].startIndex);
+    setAnnouncement(`Section ${sectionRanges[nextSection].name} started`);
+  };
+
+  const getSectionSummaryRows = (): SectionSummaryRow[] =>
+    sectionRanges.map(range => {
+      let answered = 0;
+      let marked = 0;
+      for (let i = range.startIndex; i < range.endIndex; i++) {
+        const question = displayedQuestions[i];
+        if (question && answers[`${question.question_id}-${i}`]) answered++;
+        if (markedForReview.has(i)) marked++;
+      }
+      return {
+        name: range.name,
+        total: range.endIndex - range.startIndex,
+        answered,
+        markedForReview: marked
+      };
+    });
+
+  // Submit the test; unless forced, wait for the answer outbox to drain first
+  const handleSubmitTest = useCallback(async (force: boolean = false) => {
     try {
       setIsSubmitting(true);
       setError(null);
+
+      await saveTypedAnswerNow();
+      const remaining = await flushAnswers();
+      if (remaining > 0 && !force) {
+        setShowConfirmSubmit(false);
+        setShowPendingSyncConfirm(true);
+        return;
+      }
+
+      if (isProctored) {
+        await flushProctoringEvents();
+      }
       
       await testsAPI.finishTest(attemptId);
+      clearAttemptProgress(attemptId);
+      clearProctoringState(attemptId);
+      clearTimedSections(attemptId);
+
+      // Tell the candidate which answers never reached the server before leaving the test
+      const unsaved = abandonPending();
+      if (unsaved.length > 0) {
+        console.error(`Attempt ${attemptId} was submitted without ${unsaved.length} answer(s):`, unsaved);
+        setUnsavedAtSubmit(unsaved);
+        return;
+      }
+      clearAnswerOutbox();
       onComplete();
     } catch (error: any) {
       setError(error.response?.data?.detail || 'Failed to submit test');
@@ -676,7 +1029,68 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
       setIsSubmitting(false);
       setShowConfirmSubmit(false);
     }
-  }, [attemptId, onComplete]);
+  }, [attemptId, onComplete, saveTypedAnswerNow, flushAnswers, abandonPending, clearAnswerOutbox, isProctored, flushProctoringEvents]);
+
+  const handleUnsavedAcknowledged = () => {
+    setUnsavedAtSubmit(null);
+    clearAnswerOutbox();
+    onComplete();
+  };
+
+  // Question number of an outbox entry as shown to the candidate
+  const questionNumberOf = (entry: UndeliveredEntry): number =>
+    displayedQuestions.findIndex(question => question.question_id === entry.payload.question_id) + 1;
+
+  const rejectedNumbers = undelivered
+    .filter(entry => entry.reason === 'rejected')
+    .map(questionNumberOf)
+    .filter(number => number > 0)
+    .sort((a, b) => a - b);
+
+  const isProctoringBlocked = isProctored && !!proctoring?.requireFullscreen && !isFullscreen;
+  const isDialogOpen = showConfirmSubmit || showPendingSyncConfirm || unsavedAtSubmit !== null || showShortcutHelp ||
+    showGoToQuestion || showProctoringWarning || isProctoringBlocked || sectionSummary !== null;
+
+  useExamShortcuts({
+    enabled: !!currentShuffledQuestion && !isDialogOpen && !isSubmitting,
+    handlers: {
+      selectOption: (optionIndex) => {
+        if (!usesOptions(normalizeQuestionType(currentShuffledQuestion?.question_type))) {
+          setAnnouncement('This question needs a typed answer');
+          return;
+        }
+        const options = currentShuffledQuestion?.options;
+        const optionCount = Array.isArray(options) ? options.length : 0;
+        if (optionIndex >= optionCount) {
+          setAnnouncement(`This question has only ${optionCount} options`);
+          return;
+        }
+        const isToggleOff = !!currentShuffledQuestion &&
+          normalizeQuestionType(currentShuffledQuestion.question_type) === 'MultiSelect' &&
+          decodeOptionIndices(answers[`${currentShuffledQuestion.question_id}-${currentQuestionIndex}`])
+            .includes(getOriginalIndexFromDisplay(optionIndex, currentShuffledQuestion));
+        handleAnswerChange(optionIndex.toString());
+        setAnnouncement(`Option ${String.fromCharCode(65 + optionIndex)} ${isToggleOff ? 'deselected' : 'selected'}`);
+      },
+      next: () => navigateByKeyboard(currentQuestionIndex + 1),
+      previous: () => navigateByKeyboard(currentQuestionIndex - 1),
+      markForReview: () => {
+        updateReviewState(currentQuestionIndex, false, true);
+        recordReviewChange(true);
+        setAnnouncement(`Question ${currentQuestionIndex + 1} marked for review`);
+        if (currentQuestionIndex < sectionEnd - 1) {
+          focusQuestionRef.current = true;
+          setCurrentQuestionIndex(prev => prev + 1);
+        }
+      },
+      clear: () => {
+        handleClear();
+        setAnnouncement('Answer cleared');
+      },
+      goToQuestion: () => setShowGoToQuestion(true),
+      help: () => setShowShortcutHelp(true)
+    }
+  });
 
   if (displayedQuestions.length === 0) {
     return (
@@ -701,10 +1115,16 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
   }
 
   // Get the stored answer (original index) and convert to display index for UI
+  const currentQuestionType = normalizeQuestionType(currentShuffledQuestion.question_type);
   const storedOriginalIndex = answers[`${currentShuffledQuestion.question_id}-${currentQuestionIndex}`];
-  const currentAnswer = storedOriginalIndex 
+  const currentAnswer = storedOriginalIndex && currentQuestionType !== 'MultiSelect' && usesOptions(currentQuestionType)
     ? getDisplayIndexFromOriginal(parseInt(storedOriginalIndex), currentShuffledQuestion).toString()
     : '';
+  const selectedDisplayIndices = currentQuestionType === 'MultiSelect'
+    ? decodeOptionIndices(storedOriginalIndex).map(index => getDisplayIndexFromOriginal(index, currentShuffledQuestion))
+    : [];
+  const isInvalidNumber = currentQuestionType === 'Numeric' && !!storedOriginalIndex &&
+    parseNumericAnswer(storedOriginalIndex) === null;
 
   return (
     <TestContainer>
@@ -715,38 +1135,128 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
           Exam Name: {userInfo.examName || 'Practice Test'} | 
           Subject: {userInfo.subject || 'General'} | 
           Remaining Time: {formatTime(timeLeft)}
+          {currentSection && sectionTimeLeft !== null && (
+            <> | Section: {currentSection.name} ({formatTime(sectionTimeLeft)} left)</>
+          )}
         </UserInfoText>
-        {isSavingAnswer && <CircularProgress size={20} sx={{ color: '#666' }} />}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button size="small" onClick={() => setShowShortcutHelp(true)} aria-keyshortcuts="Shift+/">
+            Keyboard Shortcuts (?)
+          </Button>
+          {isProctored && (
+            <Chip
+              size="small"
+              color={violationCount > 0 ? 'error' : 'default'}
+              label={`Proctored${violationCount > 0 ? ` | ${violationCount} violation${violationCount === 1 ? '' : 's'}` : ''}`}
+            />
+          )}
+          {pendingCount > 0 && (
+            <Chip
+              size="small"
+              color="warning"
+              label={`${pendingCount} answer${pendingCount === 1 ? '' : 's'} pending sync${isSyncing ? '...' : ''}`}
+            />
+          )}
+          {isSavingAnswer && <CircularProgress size={20} sx={{ color: '#666' }} />}
+        </Box>
       </TestHeader>
 
+      {rejectedNumbers.length > 0 && unsavedAtSubmit === null && (
+        <Alert severity="error" sx={{ mx: 2, mt: 1 }}>
+          The server did not accept your answer to question{rejectedNumbers.length === 1 ? '' : 's'} {rejectedNumbers.join(', ')}.
+          Answer {rejectedNumbers.length === 1 ? 'it' : 'them'} again to save your answer.
+        </Alert>
+      )}
+
+      {/* Section Summary replaces the question view between sections */}
+      {sectionSummary !== null && (
+        <SectionSummary
+          sections={getSectionSummaryRows()}
+          currentSectionIndex={currentSectionIndex}
+          expired={sectionSummary === 'expired'}
+          isLastSection={isLastSection}
+          onReturn={() => setSectionSummary(null)}
+          onProceed={handleProceedFromSection}
+        />
+      )}
+
       {/* Main Content */}
+      {sectionSummary === null && (
       <TestMainContent>
         {/* Question Area */}
         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
           <QuestionArea>
-            <QuestionTitle>
+            <QuestionTitle ref={questionHeadingRef} tabIndex={-1} sx={{ outline: 'none' }}>
               Question {currentQuestionIndex + 1}:
             </QuestionTitle>
             
             <QuestionText>
-              {currentShuffledQuestion.question_text}
+              <RichContent content={currentShuffledQuestion.question_text} />
             </QuestionText>
 
             <OptionsContainer>
-              <RadioGroup value={currentAnswer} onChange={(e) => handleAnswerChange(e.target.value)}>
-                {Array.isArray(currentShuffledQuestion.options) && 
-                  currentShuffledQuestion.options.map((option, index) => {
-                    const optionText = typeof option === 'string' ? option : option.option_text;
-                    return (
-                      <OptionItem
-                        key={index}
-                        value={index.toString()}
-                        control={<Radio sx={{ color: '#666' }} />}
-                        label={optionText}
-                      />
-                    );
-                  })}
-              </RadioGroup>
+              {currentQuestionType === 'MultiSelect' ? (
+                <Box
+                  role="group"
+                  aria-label={`Options for question ${currentQuestionIndex + 1}, select all that apply`}
+                  sx={{ display: 'flex', flexDirection: 'column', gap: '8px' }}
+                >
+                  <Typography variant="body2" sx={{ color: '#666666', fontStyle: 'italic' }}>
+                    Select all that apply
+                  </Typography>
+                  {Array.isArray(currentShuffledQuestion.options) &&
+                    currentShuffledQuestion.options.map((option, index) => {
+                      const optionText = typeof option === 'string' ? option : option.option_text;
+                      return (
+                        <OptionItem
+                          key={index}
+                          control={
+                            <Checkbox
+                              checked={selectedDisplayIndices.includes(index)}
+                              onChange={() => handleAnswerChange(index.toString())}
+                              sx={{ color: '#666' }}
+                            />
+                          }
+                          label={<RichContent content={optionText} inline />}
+                        />
+                      );
+                    })}
+                </Box>
+              ) : !usesOptions(currentQuestionType) ? (
+                <TextField
+                  value={storedOriginalIndex ?? ''}
+                  onChange={(e) => handleTextAnswerChange(e.target.value)}
+                  onBlur={handleTextAnswerBlur}
+                  label={currentQuestionType === 'Numeric' ? 'Your answer (number)' : 'Your answer'}
+                  error={isInvalidNumber}
+                  helperText={isInvalidNumber ? 'Enter a number, e.g. 42 or -3.5' : ' '}
+                  inputProps={{
+                    inputMode: currentQuestionType === 'Numeric' ? 'decimal' : 'text',
+                    'aria-label': `Answer for question ${currentQuestionIndex + 1}`
+                  }}
+                  autoComplete="off"
+                  sx={{ maxWidth: 400 }}
+                />
+              ) : (
+                <RadioGroup
+                  value={currentAnswer}
+                  onChange={(e) => handleAnswerChange(e.target.value)}
+                  aria-label={`Options for question ${currentQuestionIndex + 1}`}
+                >
+                  {Array.isArray(currentShuffledQuestion.options) && 
+                    currentShuffledQuestion.options.map((option, index) => {
+                      const optionText = typeof option === 'string' ? option : option.option_text;
+                      return (
+                        <OptionItem
+                          key={index}
+                          value={index.toString()}
+                          control={<Radio sx={{ color: '#666' }} />}
+                          label={<RichContent content={optionText} inline />}
+                        />
+                      );
+                    })}
+                </RadioGroup>
+              )}
             </OptionsContainer>
           </QuestionArea>
 
@@ -755,7 +1265,7 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
             <ActionButton 
               actionType="save" 
               onClick={handleSaveNext}
-              disabled={currentQuestionIndex >= displayedQuestions.length - 1}
+              disabled={currentQuestionIndex >= sectionEnd - 1}
             >
               SAVE & NEXT
             </ActionButton>
@@ -772,9 +1282,15 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
               MARK FOR REVIEW & NEXT
             </ActionButton>
             
-            <ActionButton actionType="submit" onClick={() => setShowConfirmSubmit(true)}>
-              SUBMIT
-            </ActionButton>
+            {isLastSection ? (
+              <ActionButton actionType="submit" onClick={() => setShowConfirmSubmit(true)}>
+                SUBMIT
+              </ActionButton>
+            ) : (
+              <ActionButton actionType="submit" onClick={() => setSectionSummary('review')}>
+                NEXT SECTION
+              </ActionButton>
+            )}
           </ActionButtonsContainer>
         </Box>
 
@@ -783,13 +1299,20 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
           <Typography variant="h6" sx={{ mb: 2, fontFamily: 'Arial, sans-serif', fontSize: '16px', fontWeight: 600 }}>
             Question Navigation
           </Typography>
+          {currentSection && (
+            <Typography variant="body2" sx={{ mb: 1, fontFamily: 'Arial, sans-serif', color: '#666666' }}>
+              Section {currentSectionIndex + 1} of {sectionRanges.length}: {currentSection.name}
+            </Typography>
+          )}
           
           <NavigationGrid>
-            {displayedQuestions.map((_, index) => (
+            {displayedQuestions.map((_, index) => (index < sectionStart || index >= sectionEnd) ? null : (
               <QuestionButton
                 key={index}
                 status={getQuestionStatus(index)}
                 onClick={() => goToQuestion(index)}
+                aria-label={`Question ${index + 1}, ${STATUS_LABELS[getQuestionStatus(index)]}`}
+                aria-current={index === currentQuestionIndex ? 'step' : undefined}
               >
                 {index + 1}
               </QuestionButton>
@@ -821,6 +1344,7 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
           </StatusLegend>
         </NavigationSidebar>
       </TestMainContent>
+      )}
 
       {/* Submit Confirmation Dialog */}
       <Dialog open={showConfirmSubmit} onClose={() => setShowConfirmSubmit(false)}>
@@ -851,7 +1375,7 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
         <DialogActions>
           <Button onClick={() => setShowConfirmSubmit(false)}>Cancel</Button>
           <Button 
-            onClick={handleSubmitTest} 
+            onClick={() => handleSubmitTest()} 
             disabled={isSubmitting}
             sx={{ backgroundColor: 'rgb(41, 191, 69)', color: 'white' }}
           >
@@ -860,6 +1384,108 @@ export const ThemedTestInterface: React.FC<ThemedTestInterfaceProps> = ({
         </DialogActions>
       </Dialog>
 
+      {/* Pending Sync Confirmation Dialog */}
+      <Dialog open={showPendingSyncConfirm} onClose={() => setShowPendingSyncConfirm(false)}>
+        <DialogTitle>Answers Not Yet Saved</DialogTitle>
+        <DialogContent>
+          <Typography>
+            {pendingCount} answer{pendingCount === 1 ? '' : 's'} could not be saved to the server yet. 
+            Please check your connection and retry. If you submit now, these answers may not be counted.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowPendingSyncConfirm(false)}>Cancel</Button>
+          <Button onClick={() => flushAnswers()} disabled={isSyncing}>
+            {isSyncing ? <CircularProgress size={20} /> : 'Retry Sync'}
+          </Button>
+          <Button 
+            onClick={() => {
+              setShowPendingSyncConfirm(false);
+              handleSubmitTest(true);
+            }} 
+            disabled={isSubmitting}
+            sx={{ backgroundColor: '#f44336', color: 'white' }}
+          >
+            Submit Anyway
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Answers Not Saved at Submit Dialog */}
+      <Dialog open={unsavedAtSubmit !== null}>
+        <DialogTitle>Test Submitted Without Some Answers</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            Your test was submitted, but these answers were not saved and will not be counted:
+          </Typography>
+          {(unsavedAtSubmit || []).map(entry => (
+            <Typography key={entry.seq} variant="body2">
+              Question {questionNumberOf(entry) || `#${entry.payload.question_id}`}: {UNDELIVERED_REASONS[entry.reason]}
+              {entry.detail ? ` (${entry.detail})` : ''}
+            </Typography>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleUnsavedAcknowledged} variant="contained">
+            Continue
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Fullscreen Required Dialog */}
+      <Dialog open={isProctoringBlocked && !isSubmitting}>
+        <DialogTitle>Fullscreen Required</DialogTitle>
+        <DialogContent>
+          <Typography>
+            This test is proctored and must be taken in fullscreen mode. Leaving fullscreen, switching tabs
+            or copying question content is recorded as a violation.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={requestFullscreen} variant="contained">
+            Enter Fullscreen
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Proctoring Violation Warning Dialog */}
+      <Dialog open={showProctoringWarning} onClose={dismissProctoringWarning}>
+        <DialogTitle sx={{ color: '#f44336' }}>Integrity Warning</DialogTitle>
+        <DialogContent>
+          <Typography>
+            {violationCount} proctoring violation{violationCount === 1 ? ' has' : 's have'} been recorded during this test.
+          </Typography>
+          {proctoring && proctoring.autoSubmitThreshold > 0 && (
+            <Typography sx={{ mt: 1, color: 'orange' }}>
+              Your test will be submitted automatically after {proctoring.autoSubmitThreshold} violations.
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={dismissProctoringWarning}>I Understand</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Keyboard Shortcut Dialogs */}
+      <ExamShortcutHelp
+        open={showShortcutHelp}
+        onClose={() => setShowShortcutHelp(false)}
+        availableActions={KEYBOARD_ACTIONS}
+      />
+      <GoToQuestionDialog
+        open={showGoToQuestion}
+        questionCount={displayedQuestions.length}
+        onClose={() => setShowGoToQuestion(false)}
+        onGoTo={(index) => {
+          setShowGoToQuestion(false);
+          navigateByKeyboard(index);
+        }}
+      />
+      <LiveAnnouncer message={announcement} />
+
+      {/* Time Warnings */}
+      <ExamTimerWarning warningMinutes={warningMinutes} onClose={dismissWarning} />
+
       {/* Error Alert */}
       {error && (
         <ErrorAlert 
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { testsAPI } from '../services/api';
+import {
+  OutboxAnswerPayload,
+  OutboxEntryKind,
+  UndeliveredEntry,
+  abandonPendingEntries,
+  enqueueAnswer,
+  flushOutbox,
+  getPendingCount,
+  getUndeliveredEntries,
+  clearOutbox,
+} from '../utils/answerOutbox';
+
+interface UseAnswerOutboxOptions {
+  retryIntervalMs?: number;
+}
+
+interface UseAnswerOutboxResult {
+  pendingCount: number;
+  undelivered: UndeliveredEntry[];  // Entries the server refused, or given up on at submit
+  isSyncing: boolean;
+  record: (kind: OutboxEntryKind, payload: OutboxAnswerPayload) => Promise<void>;
+  flush: () => Promise<number>;
+  abandonPending: () => UndeliveredEntry[];
+  clear: () => void;
+}
+
+const DEFAULT_RETRY_INTERVAL_MS = 15000; // 15 seconds
+
+/**
+ * React hook that queues answer changes for an attempt and keeps retrying
+ * delivery in the background until the outbox is empty.
+ */
+export const useAnswerOutbox = (
+  attemptId: number,
+  options: UseAnswerOutboxOptions = {}
+): UseAnswerOutboxResult => {
+  const { retryIntervalMs = DEFAULT_RETRY_INTERVAL_MS } = options;
+
+  const [pendingCount, setPendingCount] = useState<number>(() => getPendingCount(attemptId));
+  const [undelivered, setUndelivered] = useState<UndeliveredEntry[]>(() => getUndeliveredEntries(attemptId));
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const flushInFlightRef = useRef<Promise<number> | null>(null);
+
+  const flush = useCallback(async (): Promise<number> => {
+    // Share an in-flight flush so entries are never sent twice concurrently
+    if (flushInFlightRef.current) {
+      return flushInFlightRef.current;
+    }
+
+    const run = (async () => {
+      setIsSyncing(true);
+      try {
+        const { remaining } = await flushOutbox(attemptId, testsAPI.submitAnswer);
+        return remaining;
+      } finally {
+        setIsSyncing(false);
+        setPendingCount(getPendingCount(attemptId));
+        setUndelivered(getUndeliveredEntries(attemptId));
+        flushInFlightRef.current = null;
+      }
+    })();
+
+    flushInFlightRef.current = run;
+    return run;
+  }, [attemptId]);
+
+  const record = useCallback(async (kind: OutboxEntryKind, payload: OutboxAnswerPayload) => {
+    enqueueAnswer(attemptId, kind, payload);
+    setPendingCount(getPendingCount(attemptId));
+    // A flush already in flight read the outbox before this entry was queued
+    const inFlight = flushInFlightRef.current;
+    if (inFlight) {
+      await inFlight.catch(() => undefined);
+    }
+    await flush();
+  }, [attemptId, flush]);
+
+  const abandonPending = useCallback((): UndeliveredEntry[] => {
+    const entries = abandonPendingEntries(attemptId);
+    setPendingCount(0);
+    setUndelivered(entries);
+    return entries;
+  }, [attemptId]);
+
+  const clear = useCallback(() => {
+    clearOutbox(attemptId);
+    setPendingCount(0);
+    setUndelivered([]);
+  }, [attemptId]);
+
+  // Deliver anything left over from a previous session, then keep retrying
+  useEffect(() => {
+    setPendingCount(getPendingCount(attemptId));
+    setUndelivered(getUndeliveredEntries(attemptId));
+    if (getPendingCount(attemptId) > 0) {
+      flush();
+    }
+
+    const interval = setInterval(() => {
+      if (getPendingCount(attemptId) > 0) {
+        flush();
+      }
+    }, retryIntervalMs);
+
+    const handleOnline = () => {
+      console.log('[AnswerOutbox] Connection restored, syncing pending answers');
+      flush();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [attemptId, flush, retryIntervalMs]);
+
+  return {
+    pendingCount,
+    undelivered,
+    isSyncing,
+    record,
+    flush,
+    abandonPending,
+    clear,
+  };
+};
+
+export default useAnswerOutbox;
@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { ExamShortcutAction, ExamShortcutType, resolveExamShortcut } from '../utils/examShortcuts';
+
+type ExamShortcutHandlers = {
+  selectOption?: (optionIndex: number) => void;
+} & Partial<Record<Exclude<ExamShortcutType, 'selectOption'>, () => void>>;
+
+interface UseExamShortcutsOptions {
+  enabled: boolean;
+  handlers: ExamShortcutHandlers;
+}
+
+/**
+ * React hook wiring the exam keyboard shortcuts to the given handlers.
+ * Only actions with a handler are intercepted, so interfaces without e.g.
+ * a previous-question action leave that key untouched.
+ */
+export const useExamShortcuts = ({ enabled, handlers }: UseExamShortcutsOptions): void => {
+  // Handlers change every render; keep the listener stable
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const dispatch = (action: ExamShortcutAction): boolean => {
+      const current = handlersRef.current;
+      if (action.type === 'selectOption') {
+        if (!current.selectOption) return false;
+        current.selectOption(action.optionIndex);
+        return true;
+      }
+      const handler = current[action.type];
+      if (!handler) return false;
+      handler();
+      return true;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+
+      const action = resolveExamShortcut(event);
+      if (action && dispatch(action)) {
+        event.preventDefault();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled]);
+};
+
+export default useExamShortcuts;
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { testsAPI } from '../services/api';
+import { extractAttemptList } from '../utils/attemptResume';
+import {
+  DEFAULT_WARNING_THRESHOLDS_MINUTES,
+  getAttemptDeadline,
+  getCrossedWarning,
+  getRemainingMs,
+  measureClockOffset,
+  readServerTime,
+} from '../utils/examClock';
+
+interface UseExamTimerOptions {
+  attemptId: number;
+  durationMinutes: number;
+  initialTimeLeft?: number; // Seconds, used until the first server sync
+  onExpire: () => void;
+  resyncIntervalMs?: number;
+  warningThresholdsMinutes?: number[];
+}
+
+interface UseExamTimerResult {
+  timeLeft: number;
+  isSynced: boolean;
+  warningMinutes: number | null;
+  dismissWarning: () => void;
+  resync: () => Promise<void>;
+}
+
+const DEFAULT_RESYNC_INTERVAL_MS = 60000; // 1 minute
+const TICK_INTERVAL_MS = 1000;
+
+// Monotonic clock: unaffected by system clock changes between syncs
+const monotonicNow = (): number =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+
+/**
+ * React hook providing a server-authoritative countdown for a test attempt.
+ * The deadline comes from the attempt's server start time, corrected for
+ * client/server clock skew, and is re-synced periodically and whenever the
+ * tab becomes visible again. onExpire fires exactly once at the deadline.
+ */
+export const useExamTimer = ({
+  attemptId,
+  durationMinutes,
+  initialTimeLeft,
+  onExpire,
+  resyncIntervalMs = DEFAULT_RESYNC_INTERVAL_MS,
+  warningThresholdsMinutes = DEFAULT_WARNING_THRESHOLDS_MINUTES,
+}: UseExamTimerOptions): UseExamTimerResult => {
+  const initialSeconds = initialTimeLeft ?? durationMinutes * 60;
+
+  const [timeLeft, setTimeLeft] = useState<number>(initialSeconds);
+  const [isSynced, setIsSynced] = useState<boolean>(false);
+  const [warningMinutes, setWarningMinutes] = useState<number | null>(null);
+
+  // Deadline expressed on the monotonic clock
+  const deadlineRef = useRef<number>(monotonicNow() + initialSeconds * 1000);
+  const previousSecondsRef = useRef<number>(initialSeconds);
+  const expiredRef = useRef<boolean>(false);
+  const expiryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const onExpireRef = useRef(onExpire);
+  const thresholdsRef = useRef(warningThresholdsMinutes);
+
+  onExpireRef.current = onExpire;
+  thresholdsRef.current = warningThresholdsMinutes;
+
+  const tick = useCallback(() => {
+    const remainingMs = Math.max(0, deadlineRef.current - monotonicNow());
+    const seconds = Math.ceil(remainingMs / 1000);
+
+    const crossed = getCrossedWarning(previousSecondsRef.current, seconds, thresholdsRef.current);
+    if (crossed !== null) {
+      setWarningMinutes(crossed);
+    }
+    previousSecondsRef.current = seconds;
+    setTimeLeft(seconds);
+
+    if (remainingMs <= 0) {
+      if (!expiredRef.current) {
+        expiredRef.current = true;
+        console.log(`[ExamTimer] Attempt ${attemptId} expired, auto-submitting`);
+        onExpireRef.current();
+      }
+      return;
+    }
+
+    // Schedule a tick exactly at the deadline in addition to the interval
+    if (expiryTimeoutRef.current) {
+      clearTimeout(expiryTimeoutRef.current);
+    }
+    expiryTimeoutRef.current = setTimeout(tick, remainingMs);
+  }, [attemptId]);
+
+  const resync = useCallback(async () => {
+    try {
+      const response = await testsAPI.getAttempts();
+      const attempt = extractAttemptList(response.data).find(a => a.attempt_id === attemptId);
+      const deadline = attempt ? getAttemptDeadline(attempt) : null;
+      if (deadline === null) {
+        console.warn(`[ExamTimer] Could not determine deadline for attempt ${attemptId}, keeping local countdown`);
+        return;
+      }
+
+      // Measure the clock offset on its own short round trip
+      let offset = 0;
+      const requestStart = Date.now();
+      try {
+        const timeResponse = await testsAPI.getServerTime();
+        const serverTime = readServerTime(timeResponse);
+        if (serverTime !== null) {
+          offset = measureClockOffset(serverTime, requestStart, Date.now());
+        } else {
+          console.warn('[ExamTimer] Server time response has no server_time, assuming the client clock is right');
+        }
+      } catch (error) {
+        console.warn('[ExamTimer] Could not read the server time, assuming the client clock is right:', error);
+      }
+      const requestEnd = Date.now();
+      const monotonicAtEnd = monotonicNow();
+      const remainingMs = getRemainingMs(deadline, requestEnd, offset);
+
+      deadlineRef.current = monotonicAtEnd + remainingMs;
+      setIsSynced(true);
+      tick();
+    } catch (error) {
+      console.error('[ExamTimer] Failed to sync timer with server:', error);
+    }
+  }, [attemptId, tick]);
+
+  // Reset when a different attempt is shown
+  useEffect(() => {
+    deadlineRef.current = monotonicNow() + initialSeconds * 1000;
+    previousSecondsRef.current = initialSeconds;
+    expiredRef.current = false;
+    setIsSynced(false);
+    setTimeLeft(initialSeconds);
+    // initialSeconds is only meaningful when the attempt changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attemptId]);
+
+  useEffect(() => {
+    resync();
+
+    const tickInterval = setInterval(tick, TICK_INTERVAL_MS);
+    const resyncInterval = setInterval(resync, resyncIntervalMs);
+
+    // Background tabs and sleeping laptops throttle timers: re-sync on return
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        tick();
+        resync();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', resync);
+
+    return () => {
+      clearInterval(tickInterval);
+      clearInterval(resyncInterval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', resync);
+      if (expiryTimeoutRef.current) {
+        clearTimeout(expiryTimeoutRef.current);
+      }
+    };
+  }, [tick, resync, resyncIntervalMs]);
+
+  const dismissWarning = useCallback(() => {
+    setWarningMinutes(null);
+  }, []);
+
+  return {
+    timeLeft,
+    isSynced,
+    warningMinutes,
+    dismissWarning,
+    resync,
+  };
+};
+
+export default useExamTimer;
@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { testsAPI } from '../services/api';
+import { ProctoringConfig, ProctoringEvent, ProctoringEventType } from '../types';
+import {
+  isAnswerFieldTarget,
+  isDevtoolsShortcut,
+  isDuplicateFocusLoss,
+  isFocusLossEvent,
+  loadProctoringState,
+  saveProctoringState,
+} from '../utils/proctoring';
+
+interface UseProctoringOptions {
+  attemptId: number;
+  config?: ProctoringConfig;
+  currentQuestionIndex: number;
+  onAutoSubmit: () => void;
+}
+
+interface UseProctoringResult {
+  isActive: boolean;
+  isFullscreen: boolean;
+  violationCount: number;
+  showWarning: boolean;
+  dismissWarning: () => void;
+  requestFullscreen: () => Promise<void>;
+  flushEvents: () => Promise<void>;
+}
+
+const isDocumentFullscreen = (): boolean =>
+  typeof document !== 'undefined' && !!document.fullscreenElement;
+
+/**
+ * React hook implementing the exam proctoring mode. While enabled it records
+ * tab switches, focus loss, fullscreen exits, clipboard use on question
+ * content, context menus
+ * and developer-tools shortcuts, buffers them per attempt and delivers them
+ * in batches. Crossing the configured thresholds warns the candidate and
+ * finally triggers onAutoSubmit exactly once.
+ */
+export const useProctoring = ({
+  attemptId,
+  config,
+  currentQuestionIndex,
+  onAutoSubmit,
+}: UseProctoringOptions): UseProctoringResult => {
+  const isActive = !!config?.enabled;
+
+  const [violationCount, setViolationCount] = useState<number>(
+    () => (isActive ? loadProctoringState(attemptId).violationCount : 0)
+  );
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(isDocumentFullscreen);
+  const [showWarning, setShowWarning] = useState<boolean>(false);
+
+  const pendingRef = useRef<ProctoringEvent[]>(isActive ? loadProctoringState(attemptId).pending : []);
+  const violationCountRef = useRef<number>(violationCount);
+  const questionIndexRef = useRef<number>(currentQuestionIndex);
+  const lastFocusLossRef = useRef<number | null>(null);
+  const flushInFlightRef = useRef<Promise<void> | null>(null);
+  const autoSubmittedRef = useRef<boolean>(false);
+  const onAutoSubmitRef = useRef(onAutoSubmit);
+  const configRef = useRef(config);
+
+  questionIndexRef.current = currentQuestionIndex;
+  onAutoSubmitRef.current = onAutoSubmit;
+  configRef.current = config;
+
+  const persist = useCallback(() => {
+    saveProctoringState(attemptId, {
+      pending: pendingRef.current,
+      violationCount: violationCountRef.current,
+    });
+  }, [attemptId]);
+
+  const flushEvents = useCallback(async (): Promise<void> => {
+    if (flushInFlightRef.current) {
+      return flushInFlightRef.current;
+    }
+    if (pendingRef.current.length === 0) {
+      return;
+    }
+
+    const run = (async () => {
+      const batch = [...pendingRef.current];
+      try {
+        await testsAPI.submitProctoringEvents(attemptId, batch);
+        // Events recorded while the request was in flight stay buffered
+        pendingRef.current = pendingRef.current.slice(batch.length);
+        persist();
+      } catch (error) {
+        console.error(`[Proctoring] Failed to deliver ${batch.length} events, keeping them buffered:`, error);
+      } finally {
+        flushInFlightRef.current = null;
+      }
+    })();
+
+    flushInFlightRef.current = run;
+    return run;
+  }, [attemptId, persist]);
+
+  const recordEvent = useCallback((eventType: ProctoringEventType, detail?: string) => {
+    const now = Date.now();
+    if (isDuplicateFocusLoss(eventType, lastFocusLossRef.current, now)) {
+      return;
+    }
+    if (isFocusLossEvent(eventType)) {
+      lastFocusLossRef.current = now;
+    }
+
+    pendingRef.current = [
+      ...pendingRef.current,
+      {
+        event_type: eventType,
+        occurred_at: new Date(now).toISOString(),
+        question_index: questionIndexRef.current,
+        ...(detail ? { detail } : {}),
+      },
+    ];
+    violationCountRef.current += 1;
+    persist();
+    setViolationCount(violationCountRef.current);
+    console.warn(`[Proctoring] Recorded ${eventType} on question ${questionIndexRef.current + 1}`);
+
+    const { warningThreshold = 0, autoSubmitThreshold = 0 } = configRef.current || {};
+    if (autoSubmitThreshold > 0 && violationCountRef.current >= autoSubmitThreshold) {
+      if (!autoSubmittedRef.current) {
+        autoSubmittedRef.current = true;
+        console.warn(`[Proctoring] Auto-submit threshold reached for attempt ${attemptId}`);
+        flushEvents().finally(() => onAutoSubmitRef.current());
+      }
+      return;
+    }
+    if (warningThreshold > 0 && violationCountRef.current >= warningThreshold) {
+      setShowWarning(true);
+    }
+  }, [attemptId, persist, flushEvents]);
+
+  // Reload buffered state when a different attempt is shown
+  useEffect(() => {
+    if (!isActive) return;
+
+    const state = loadProctoringState(attemptId);
+    pendingRef.current = state.pending;
+    violationCountRef.current = state.violationCount;
+    autoSubmittedRef.current = false;
+    setViolationCount(state.violationCount);
+
+    // Deliver anything left over from a previous session
+    flushEvents();
+  }, [attemptId, isActive, flushEvents]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        recordEvent('tab_switch');
+      }
+    };
+    const handleBlur = () => recordEvent('window_blur');
+    const handleFullscreenChange = () => {
+      const fullscreen = isDocumentFullscreen();
+      setIsFullscreen(fullscreen);
+      if (!fullscreen && configRef.current?.requireFullscreen) {
+        recordEvent('fullscreen_exit');
+      }
+    };
+    const handleClipboard = (event: ClipboardEvent) => {
+      // Candidates may paste into and edit their own typed answers
+      if (isAnswerFieldTarget(event.target)) return;
+      event.preventDefault();
+      recordEvent(event.type as ProctoringEventType);
+    };
+    const handleContextMenu = (event: MouseEvent) => {
+      event.preventDefault();
+      recordEvent('context_menu');
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isDevtoolsShortcut(event)) {
+        event.preventDefault();
+        recordEvent('devtools_shortcut', event.key);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    document.addEventListener('paste', handleClipboard);
+    document.addEventListener('contextmenu', handleContextMenu);
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+      document.removeEventListener('paste', handleClipboard);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isActive, recordEvent]);
+
+  // Leave fullscreen when the test interface unmounts
+  useEffect(() => {
+    if (!isActive) return;
+    return () => {
+      if (isDocumentFullscreen() && document.exitFullscreen) {
+        document.exitFullscreen().catch(() => undefined);
+      }
+    };
+  }, [isActive]);
+
+  const requestFullscreen = useCallback(async () => {
+    try {
+      await document.documentElement.requestFullscreen();
+      setIsFullscreen(true);
+    } catch (error) {
+      console.error('[Proctoring] Fullscreen request was rejected:', error);
+    }
+  }, []);
+
+  const dismissWarning = useCallback(() => {
+    setShowWarning(false);
+  }, []);
+
+  return {
+    isActive,
+    isFullscreen,
+    violationCount,
+    showWarning,
+    dismissWarning,
+    requestFullscreen,
+    flushEvents,
+  };
+};
+
+export default useProctoring;
@@ -0,0 +1,80 @@
+import { useCallback, useRef, useState } from 'react';
+import { fetchAllQuestions } from '../utils/questionPages';
+
+export interface BankQuestion {
+  question_id: number;
+  question_text: string;
+  question_type?: string;
+  paper_id?: number;
+  section_id?: number;
+  default_difficulty_level?: string;
+  options?: Array<{ option_text: string; option_order?: number }>;
+  [key: string]: any;
+}
+
+interface UseQuestionBankResult {
+  questions: BankQuestion[] | null; // null until loaded
+  loading: boolean;
+  error: string | null;
+  load: (force?: boolean) => Promise<BankQuestion[]>;
+  invalidate: () => void;
+  remove: (questionIds: number[]) => void;
+}
+
+/**
+ * React hook loading the whole question bank page by page, for checks that
+ * need every question (such as duplicate detection). The bank is loaded on
+ * first use and kept until invalidated.
+ */
+export const useQuestionBank = (): UseQuestionBankResult => {
+  const [questions, setQuestions] = useState<BankQuestion[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheRef = useRef<BankQuestion[] | null>(null);
+  const inFlightRef = useRef<Promise<BankQuestion[]> | null>(null);
+
+  const load = useCallback(async (force: boolean = false): Promise<BankQuestion[]> => {
+    if (cacheRef.current && !force) return cacheRef.current;
+    if (inFlightRef.current) return inFlightRef.current;
+
+    const request = (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // Deactivated questions are no longer part of the bank
+        const all = (await fetchAllQuestions<BankQuestion>()).filter(
+          question => question.is_active !== false && question.active !== false
+        );
+        cacheRef.current = all;
+        setQuestions(all);
+        return all;
+      } catch (err: any) {
+        console.error('[QuestionBank] Error loading questions:', err);
+        setError(err.response?.data?.detail || err.message || 'Failed to load the question bank');
+        throw err;
+      } finally {
+        setLoading(false);
+        inFlightRef.current = null;
+      }
+    })();
+
+    inFlightRef.current = request;
+    return request;
+  }, []);
+
+  const invalidate = useCallback(() => {
+    cacheRef.current = null;
+    setQuestions(null);
+  }, []);
+
+  const remove = useCallback((questionIds: number[]) => {
+    if (!cacheRef.current) return;
+    cacheRef.current = cacheRef.current.filter(question => !questionIds.includes(question.question_id));
+    setQuestions(cacheRef.current);
+  }, []);
+
+  return { questions, loading, error, load, invalidate, remove };
+};
+
+export default useQuestionBank;
@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { Assignment, Assessment, History, Refresh } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { clearBrowserCache } from '../utils/cacheManager';
+import { ResumeAttemptBanner } from '../components/ResumeAttemptBanner';
 
 export const HomePage: React.FC = () => {
   const navigate = useNavigate();
@@ -59,6 +60,8 @@ export const HomePage: React.FC = () => {
       <Typography variant="subtitle1" gutterBottom color="textSecondary">
         Practice and prepare for your Coal India Limited Computer Based Test
       </Typography>
+
+      <ResumeAttemptBanner />
       
       {isAdmin && (
         <Button 
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   Typography,
@@ -6,13 +6,16 @@ import {
   CircularProgress,
   Alert,
 } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { testsAPI } from '../services/api';
 import { TestInterface } from '../components/TestInterface';
 import { ThemedTestInterface } from '../components/ThemedTestInterface';
 import { TestCustomizationComponent } from '../components/TestCustomizationComponent';
 import { TestInstructionsComponent } from '../components/TestInstructionsComponent';
-import { CreateTestTemplateRequest, DifficultyStrategy } from '../types';
+import { CreateTestTemplateRequest, DifficultyStrategy, MockTestOptions } from '../types';
+import { fetchAttempt, fetchSavedAnswers, getRemainingSeconds, SavedAnswer } from '../utils/attemptResume';
+import { fetchProctoringPolicy } from '../utils/proctoring';
+import { loadTimedSections, saveTimedSections } from '../utils/sectionTiming';
 
 interface SelectedPaper {
   paper_id: number;
@@ -33,14 +36,79 @@ export const MockTestPage: React.FC = () => {
   const [timeLimit, setTimeLimit] = useState<number>(180); // Default 3 hours
   const [difficultyStrategy, setDifficultyStrategy] = useState<string>('balanced'); // Default strategy
   const [actualQuestionCounts, setActualQuestionCounts] = useState<{[paperId: number]: number}>({});
+  const [initialTimeLeft, setInitialTimeLeft] = useState<number | undefined>(undefined);
+  const [savedAnswers, setSavedAnswers] = useState<SavedAnswer[] | undefined>(undefined);
+  const [mockOptions, setMockOptions] = useState<MockTestOptions>({});
   
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const resumeAttemptId = Number(searchParams.get('resume')) || null;
 
-  const handleCustomizationNext = (papers: SelectedPaper[], timeLimitMinutes: number, strategy: string) => {
-    setSelectedPapers(papers);
-    setTimeLimit(timeLimitMinutes);
-    setDifficultyStrategy(strategy);
-    setPhase('instructions');
+  // Re-enter an in-progress attempt when opened with ?resume=<attemptId>
+  useEffect(() => {
+    if (!resumeAttemptId || attemptId === resumeAttemptId) return;
+
+    const resumeAttempt = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const attempt = await fetchAttempt(resumeAttemptId);
+        if (!attempt || attempt.status !== 'InProgress') {
+          throw new Error('This test is no longer in progress and cannot be resumed.');
+        }
+
+        const remainingSeconds = getRemainingSeconds(attempt);
+        if (remainingSeconds <= 0) {
+          throw new Error('The time for this test has expired.');
+        }
+
+        const questionsResponse = await testsAPI.getQuestions(attempt.attempt_id);
+        setQuestions(questionsResponse.data);
+        // Answers saved on the server; without them the progress saved on this device is used
+        setSavedAnswers(await fetchSavedAnswers(attempt.attempt_id).catch(err => {
+          console.warn('Could not load saved answers for the resumed test:', err);
+          return undefined;
+        }));
+        setTimeLimit(attempt.total_allotted_duration_minutes);
+        setInitialTimeLeft(remainingSeconds);
+        setMockOptions({
+          proctoring: await fetchProctoringPolicy(),
+          timedSections: loadTimedSections(attempt.attempt_id) ?? undefined
+        });
+        setAttemptId(attempt.attempt_id);
+        setPhase('test');
+      } catch (err: any) {
+        setError(err.response?.data?.detail || err.message || 'Failed to resume test');
+        setSearchParams({}, { replace: true });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    resumeAttempt();
+  }, [resumeAttemptId, attemptId, setSearchParams]);
+
+  const handleCustomizationNext = async (
+    papers: SelectedPaper[],
+    timeLimitMinutes: number,
+    strategy: string,
+    options: MockTestOptions = {}
+  ) => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Proctoring is set by admins; a test is never started without the policy
+      const proctoring = await fetchProctoringPolicy();
+      setSelectedPapers(papers);
+      setTimeLimit(timeLimitMinutes);
+      setDifficultyStrategy(strategy);
+      setMockOptions({ ...options, proctoring });
+      setPhase('instructions');
+    } catch (err: any) {
+      setError(err.response?.data?.detail || err.message || 'Failed to load the proctoring settings');
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleCustomizationCancel = () => {
@@ -51,7 +119,20 @@ export const MockTestPage: React.FC = () => {
     setPhase('customization');
   };
 
+  // Per-section order and time limit when section-wise timing is enabled
+  const getSectionTiming = (paperId: number) => {
+    const section = mockOptions.timedSections?.find(s => s.paper_id === paperId);
+    return section ? { section_order: section.section_order, duration_minutes: section.duration_minutes } : {};
+  };
+
   const startTest = async () => {
+    // Browsers only allow fullscreen from a user gesture, so request it on the start click
+    if (mockOptions.proctoring?.enabled && mockOptions.proctoring.requireFullscreen) {
+      document.documentElement.requestFullscreen?.().catch(err => {
+        console.warn('Could not enter fullscreen for proctored test:', err);
+      });
+    }
+
     setLoading(true);
     setError(null);
     try {
@@ -79,6 +160,7 @@ export const MockTestPage: React.FC = () => {
               section_id: null, // All sections
               subsection_id: null, // All subsections
               question_count: questionCount, // Always 100 for mock tests
+              ...getSectionTiming(paper.paper_id),
             };
           } catch (error) {
             console.error(`Failed to get question count for paper ${paper.paper_id}:`, error);
@@ -93,6 +175,7 @@ export const MockTestPage: React.FC = () => {
               section_id: null,
               subsection_id: null,
               question_count: questionCount, // Always 100 for mock tests
+              ...getSectionTiming(paper.paper_id),
             };
           }
         })
@@ -106,6 +189,8 @@ export const MockTestPage: React.FC = () => {
         test_type: 'Mock',
         sections: sections,
         difficulty_strategy: difficultyStrategy as DifficultyStrategy, // Pass difficulty strategy for personalized question selection
+        ...(mockOptions.timedSections ? { enforce_section_order: true } : {}),
+        ...(mockOptions.scoringScheme ? { scoring_scheme: mockOptions.scoringScheme } : {}),
       };
 
       const mockTemplate = await testsAPI.createTemplate(templateRequest);
@@ -115,12 +200,17 @@ export const MockTestPage: React.FC = () => {
         mockTemplate.data.template_id, 
         timeLimit // Pass time limit in minutes
       );
+      if (mockOptions.timedSections) {
+        saveTimedSections(response.data.attempt_id, mockOptions.timedSections);
+      }
       setAttemptId(response.data.attempt_id);
       
       // Get questions for this attempt
       const questionsResponse = await testsAPI.getQuestions(response.data.attempt_id);
       setQuestions(questionsResponse.data);
       
+      // Record the attempt in the URL so a reload resumes it
+      setSearchParams({ resume: String(response.data.attempt_id) }, { replace: true });
       setPhase('test');
     } catch (err: any) {
       setError(err.response?.data?.detail || 'Failed to start test');
@@ -149,6 +239,9 @@ export const MockTestPage: React.FC = () => {
           <TestInstructionsComponent
             selectedPapers={selectedPapers}
             timeLimit={timeLimit}
+            proctoring={mockOptions.proctoring}
+            timedSections={mockOptions.timedSections}
+            scoringScheme={mockOptions.scoringScheme}
             onStartTest={startTest}
             onBack={handleInstructionsBack}
           />
@@ -161,6 +254,10 @@ export const MockTestPage: React.FC = () => {
             questions={questions}
             onComplete={handleTestComplete}
             testDuration={timeLimit}
+            initialTimeLeft={initialTimeLeft}
+            savedAnswers={savedAnswers}
+            proctoring={mockOptions.proctoring}
+            timedSections={mockOptions.timedSections}
             userInfo={{
               candidateName: 'Test User',
               examName: 'Mock Test',
@@ -207,8 +304,16 @@ export const MockTestPage: React.FC = () => {
         </Box>
       )}
 
+      {/* Loading overlay while resuming an attempt */}
+      {loading && resumeAttemptId && phase !== 'test' && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '200px' }}>
+          <CircularProgress />
+          <Typography sx={{ ml: 2 }}>Resuming your test...</Typography>
+        </Box>
+      )}
+
       {/* Error display */}
-      {error && phase === 'instructions' && (
+      {error && phase !== 'test' && (
         <Box sx={{ maxWidth: 600, mx: 'auto', mt: 2, px: 2 }}>
           <Alert severity="error" onClose={() => setError(null)}>
             {error}
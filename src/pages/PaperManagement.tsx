@@ -29,9 +29,18 @@ import {
   Delete as DeleteIcon,
   CheckCircle as ActiveIcon,
   Cancel as InactiveIcon,
+  ContentCopy as DuplicateIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
 } from '@mui/icons-material';
 import { papersAPI, sectionsAPI, subsectionsAPI } from '../services/api';
 import { Loading } from '../components/Loading';
+import { TaxonomyManager } from '../components/TaxonomyManager';
+import { CloneRequest, PaperCloneDialog } from '../components/PaperCloneDialog';
+import { PaperTreeEditor } from '../components/PaperTreeEditor';
+import { PaperBundleImportDialog } from '../components/PaperBundleImportDialog';
+import { sortHierarchy } from '../utils/hierarchyOrdering';
+import { bundleFileName, BundleImportReport, exportPaperBundle } from '../utils/paperBundle';
 import Pagination from '@mui/material/Pagination';
 
 interface Section {
@@ -39,6 +48,7 @@ interface Section {
   section_name: string;
   marks_allocated: number;
   description: string;
+  display_order?: number | null;
   subsections: Subsection[];
 }
 
@@ -46,6 +56,7 @@ interface Subsection {
   subsection_id?: number;
   subsection_name: string;
   description: string;
+  display_order?: number | null;
 }
 
 interface ExamPaper {
@@ -80,6 +91,14 @@ export const PaperManagement: React.FC = () => {
   const [editSection, setEditSection] = useState<Section & {paper_id?: number} | null>(null);
   const [editSubsection, setEditSubsection] = useState<Subsection & {section_id?: number, paper_id?: number} | null>(null);
 
+  const [cloneRequest, setCloneRequest] = useState<CloneRequest | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportingPaperId, setExportingPaperId] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Papers are reloaded once a dialog that changed them is closed; reloading
+  // shows the page loader, which would hide the dialog's report
+  const [reloadOnClose, setReloadOnClose] = useState(false);
+
   const [page, setPage] = useState(1);
   const [pageSize] = useState(20); // You can make this user-configurable if desired
   const [total, setTotal] = useState(0);
@@ -96,10 +115,10 @@ export const PaperManagement: React.FC = () => {
         const responseData = response.data as any;
         
         if (responseData.items && Array.isArray(responseData.items)) {
-          setPapers(responseData.items as ExamPaper[]);
+          setPapers(sortHierarchy(responseData.items as ExamPaper[]));
           setTotal(responseData.total ? Number(responseData.total) : responseData.items.length);
         } else if (Array.isArray(responseData)) {
-          setPapers(responseData as ExamPaper[]);
+          setPapers(sortHierarchy(responseData as ExamPaper[]));
           setTotal(responseData.length);
         } else {
           setPapers([]);
@@ -186,6 +205,52 @@ export const PaperManagement: React.FC = () => {
     }
   };
 
+  const reloadIfChanged = () => {
+    if (reloadOnClose) {
+      setReloadOnClose(false);
+      fetchPapers(page);
+    }
+  };
+
+  const handleCloneClose = () => {
+    setCloneRequest(null);
+    reloadIfChanged();
+  };
+
+  const handleExportPaper = async (paper: ExamPaper) => {
+    setExportingPaperId(paper.paper_id);
+    setError(null);
+    try {
+      const { bundle, warnings } = await exportPaperBundle(paper);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = bundleFileName(paper.paper_name);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+      setNotice(`Exported ${paper.paper_name} with ${bundle.questions.length} questions` +
+        (warnings.length > 0 ? `. ${warnings.join('. ')}` : ''));
+    } catch (err: any) {
+      console.error('Error exporting paper:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to export paper');
+    } finally {
+      setExportingPaperId(null);
+    }
+  };
+
+  const handleImported = (report: BundleImportReport) => {
+    setNotice(`Imported ${report.questionsImported} questions into ${report.paper?.paper_name}`);
+    setReloadOnClose(true);
+  };
+
+  const handleImportClose = () => {
+    setImportOpen(false);
+    reloadIfChanged();
+  };
+
   const resetForm = () => {
     setFormData({
       paper_name: '',
@@ -340,17 +405,22 @@ export const PaperManagement: React.FC = () => {
     <Box>
       <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="h4">Paper & Section Management</Typography>
-        <Button
-          variant="contained"
-          color="primary"
-          startIcon={<AddIcon />}
-          onClick={() => {
-            resetForm();
-            setOpenDialog(true);
-          }}
-        >
-          Add Paper
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<ImportIcon />} onClick={() => setImportOpen(true)}>
+            Import Paper
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<AddIcon />}
+            onClick={() => {
+              resetForm();
+              setOpenDialog(true);
+            }}
+          >
+            Add Paper
+          </Button>
+        </Box>
       </Box>
 
       {error && (
@@ -358,6 +428,33 @@ export const PaperManagement: React.FC = () => {
           {error}
         </Alert>
       )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Accordion sx={{ mb: 3 }} TransitionProps={{ unmountOnExit: true }}>
+        <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+          <Typography variant="h6">Tags & Learning Objectives</Typography>
+        </AccordionSummary>
+        <AccordionDetails>
+          <TaxonomyManager papers={papers} />
+        </AccordionDetails>
+      </Accordion>
+
+      <Accordion sx={{ mb: 3 }} TransitionProps={{ unmountOnExit: true }}>
+        <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+          <Typography variant="h6">Arrange Sections & Subsections</Typography>
+        </AccordionSummary>
+        <AccordionDetails>
+          <PaperTreeEditor
+            papers={papers}
+            onReordered={updated => setPapers(updated as ExamPaper[])}
+            onMoved={() => fetchPapers(page)}
+          />
+        </AccordionDetails>
+      </Accordion>
 
       {papers.length === 0 ? (
         <Alert severity="info">No papers found. Create your first paper to get started.</Alert>
@@ -376,6 +473,21 @@ export const PaperManagement: React.FC = () => {
                 >
                   <EditIcon />
                 </IconButton>
+                <IconButton
+                  color="primary"
+                  onClick={() => setCloneRequest({ paper })}
+                  title="Duplicate Paper"
+                >
+                  <DuplicateIcon />
+                </IconButton>
+                <IconButton
+                  color="primary"
+                  onClick={() => handleExportPaper(paper)}
+                  disabled={exportingPaperId !== null}
+                  title="Export Paper"
+                >
+                  <ExportIcon />
+                </IconButton>
                 <IconButton
                   color={paper.is_active ? 'success' : 'error'}
                   onClick={() => handleTogglePaperStatus(paper.paper_id, paper.is_active)}
@@ -432,6 +544,14 @@ export const PaperManagement: React.FC = () => {
                     >
                       <EditIcon fontSize="small" />
                     </IconButton>
+                    <IconButton
+                      size="small"
+                      color="primary"
+                      onClick={e => { e.stopPropagation(); setCloneRequest({ paper, section }); }}
+                      title="Duplicate Section"
+                    >
+                      <DuplicateIcon fontSize="small" />
+                    </IconButton>
                   </AccordionSummary>
                   <AccordionDetails>
                     <Typography variant="body2" sx={{ mb: 1 }}>
@@ -751,6 +871,19 @@ export const PaperManagement: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <PaperCloneDialog
+        request={cloneRequest}
+        papers={papers}
+        onClose={handleCloneClose}
+        onCloned={() => setReloadOnClose(true)}
+      />
+
+      <PaperBundleImportDialog
+        open={importOpen}
+        onClose={handleImportClose}
+        onImported={handleImported}
+      />
+
       <TableContainer component={MuiPaper}>
         <Table>
           <TableHead>
@@ -785,6 +918,21 @@ export const PaperManagement: React.FC = () => {
                   >
                     <EditIcon />
                   </IconButton>
+                  <IconButton
+                    color="primary"
+                    onClick={() => setCloneRequest({ paper })}
+                    title="Duplicate Paper"
+                  >
+                    <DuplicateIcon />
+                  </IconButton>
+                  <IconButton
+                    color="primary"
+                    onClick={() => handleExportPaper(paper)}
+                    disabled={exportingPaperId !== null}
+                    title="Export Paper"
+                  >
+                    <ExportIcon />
+                  </IconButton>
                   <IconButton
                     color={paper.is_active ? 'success' : 'error'}
                     onClick={() => handleTogglePaperStatus(paper.paper_id, paper.is_active)}
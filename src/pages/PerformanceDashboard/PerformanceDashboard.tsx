@@ -35,6 +35,7 @@ import {
   AIPerformanceInsightsTab, 
   AIQuestionRecommendationsTab 
 } from './components/AIPerformanceTabs';
+import { LatestAttemptStanding } from './components/LatestAttemptStanding';
 
 /**
  * Tab panel component for dashboard sections
@@ -424,6 +425,11 @@ export const PerformanceDashboard: React.FC = () => {
                 </CardContent>
               </Card>
             </Grid>
+
+            {/* Percentile and rank of the latest attempt */}
+            <Grid item xs={12}>
+              <LatestAttemptStanding />
+            </Grid>
           </Grid>
         ) : !isLoading && !isError && (
           <Alert severity="info" sx={{ mt: 2 }}>
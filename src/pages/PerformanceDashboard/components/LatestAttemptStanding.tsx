@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { testsAPI } from '../../../services/api';
+import { PeerStandingPanel } from '../../../components/PeerStandingPanel';
+import { extractAttemptList } from '../../../utils/attemptResume';
+
+/**
+ * Peer standing of the user's most recent completed attempt; renders nothing
+ * until the user has completed a test
+ */
+export const LatestAttemptStanding: React.FC = () => {
+  const [attemptId, setAttemptId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    testsAPI.getAttempts()
+      .then(response => {
+        const latest = extractAttemptList(response.data)
+          .filter(attempt => attempt.status === 'Completed' && typeof attempt.attempt_id === 'number')
+          .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime())[0];
+        if (!cancelled) setAttemptId(latest ? latest.attempt_id : null);
+      })
+      .catch((err: any) => {
+        console.error('[LatestAttemptStanding] Error loading attempts:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (attemptId === null) return null;
+  return <PeerStandingPanel attemptId={attemptId} title="Your Latest Test Among Peers" />;
+};
+
+export default LatestAttemptStanding;
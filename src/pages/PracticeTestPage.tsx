@@ -23,18 +23,23 @@ import {
   Tooltip,
   Divider,
   Chip,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
 import DeleteIcon from '@mui/icons-material/Delete';
 import WarningIcon from '@mui/icons-material/Warning';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import { useNavigate } from 'react-router-dom';
-import { testsAPI, papersAPI } from '../services/api';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { testsAPI, papersAPI, taxonomyAPI } from '../services/api';
 import { TestInterface } from '../components/TestInterface';
 import { ThemedTestInterface } from '../components/ThemedTestInterface';
 import { AdaptiveTestInterface } from '../components/AdaptiveTestInterface';
 import { ThemedAdaptiveTestInterface } from '../components/ThemedAdaptiveTestInterface';
-import { CreateTestTemplateRequest } from '../types';
+import { CreateTestTemplateRequest, QuestionTag } from '../types';
+import { describeTagSelection, normalizeTagsResponse } from '../utils/questionTaxonomy';
+import { fetchAttempt, fetchSavedAnswers, getRemainingSeconds, SavedAnswer } from '../utils/attemptResume';
 
 interface Section {
   section_id: number;
@@ -51,11 +56,22 @@ interface Paper {
 interface SectionSelection {
   paper_id: number;
   paper_name: string;
-  section_id: number;
+  section_id: number | null;  // Null for a tag-based selection across the paper's sections
   section_name: string;
   question_count: number;
+  tags?: string[];
 }
 
+// Questions are picked from one section, or by tag from every section of the paper
+type SelectionMode = 'section' | 'tag';
+
+// Key of an available-question count: by section, or by the tags of a tag-based selection
+const countKey = (paperId: number, sectionId: number | null, tags?: string[]) =>
+  tags && tags.length > 0 ? `${paperId}-tags:${[...tags].sort().join('+')}` : `${paperId}-${sectionId}`;
+
+const selectionKey = (selection: SectionSelection) =>
+  countKey(selection.paper_id, selection.section_id, selection.tags);
+
 export const PracticeTestPage: React.FC = () => {
   const navigate = useNavigate();
   
@@ -74,13 +90,24 @@ export const PracticeTestPage: React.FC = () => {
   const [currentAvailableCount, setCurrentAvailableCount] = useState<number | null>(null);
   const [testDuration, setTestDuration] = useState<number>(60); // Default: 60 minutes
   
+  // Tag-based selection, e.g. all questions tagged "thermodynamics"
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('section');
+  const [tagOptions, setTagOptions] = useState<QuestionTag[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  
   // New states for adaptive testing
   const [isAdaptiveMode, setIsAdaptiveMode] = useState<boolean>(false);
   const [adaptiveStrategy, setAdaptiveStrategy] = useState<string>('progressive');
   const [isAdaptiveTestActive, setIsAdaptiveTestActive] = useState<boolean>(false);
   
+  // Resume support: ?resume=<attemptId> re-enters an in-progress attempt
+  const [searchParams, setSearchParams] = useSearchParams();
+  const resumeAttemptId = Number(searchParams.get('resume')) || null;
+  const [initialTimeLeft, setInitialTimeLeft] = useState<number | undefined>(undefined);
+  const [savedAnswers, setSavedAnswers] = useState<SavedAnswer[] | undefined>(undefined);
+  
   // Fetch available question count for a given paper and section
-  const fetchAvailableQuestionCount = async (paperId: number, sectionId: number): Promise<number> => {
+  const fetchAvailableQuestionCount = async (paperId: number, sectionId: number | null, tags?: string[]): Promise<number> => {
     setLoadingCount(true);
     try {
       // Don't proceed with invalid parameters
@@ -91,7 +118,7 @@ export const PracticeTestPage: React.FC = () => {
         return 0;
       }
 
-      const cacheKey = `${paperId}-${sectionId}`;
+      const cacheKey = countKey(paperId, sectionId, tags);
       
       console.log(`[UI] Fetching available count for paper=${paperId}, section=${sectionId}, cacheKey=${cacheKey}`);
       
@@ -107,7 +134,7 @@ export const PracticeTestPage: React.FC = () => {
       
       // Wrap the API call in a timeout to prevent long waits
       const count = await Promise.race([
-        testsAPI.getAvailableQuestionCount(paperId, sectionId),
+        testsAPI.getAvailableQuestionCount(paperId, sectionId ?? undefined, undefined, tags),
         new Promise<number>((resolve) => {
           // After 5 seconds, return 0 if the API call is too slow
           setTimeout(() => {
@@ -134,7 +161,9 @@ export const PracticeTestPage: React.FC = () => {
         const knownErrors = window.sessionStorage.getItem('section_errors') || '{}';
         const sectionErrors = JSON.parse(knownErrors);
         
-        if (sectionErrors[cacheKey] === 404) {
+        if (tags && tags.length > 0) {
+          setError('No questions of the selected paper carry these tags. Please select other tags.');
+        } else if (sectionErrors[cacheKey] === 404) {
           setError(`This section doesn't exist in the selected paper. Please select another section.`);
         } else if (sectionErrors[cacheKey] === 422) {
           setError(`Unable to load questions for this section (validation error). Please select another section.`);
@@ -201,6 +230,56 @@ export const PracticeTestPage: React.FC = () => {
   useEffect(() => {
     fetchPapersData();
   }, []); // Fetch papers on component mount
+
+  // Tags offered for tag-based selection; without them only sections can be picked
+  useEffect(() => {
+    taxonomyAPI.getTags()
+      .then(response => setTagOptions(normalizeTagsResponse(response.data)))
+      .catch(err => console.warn('[UI] Could not load question tags:', err));
+  }, []);
+
+  // Re-enter an in-progress attempt after a reload or crash
+  useEffect(() => {
+    if (!resumeAttemptId || attemptId === resumeAttemptId) return;
+
+    const resumeAttempt = async () => {
+      try {
+        const attempt = await fetchAttempt(resumeAttemptId);
+        if (!attempt || attempt.status !== 'InProgress') {
+          throw new Error('This test is no longer in progress and cannot be resumed.');
+        }
+
+        const remainingSeconds = getRemainingSeconds(attempt);
+        if (remainingSeconds <= 0) {
+          throw new Error('The time for this test has expired.');
+        }
+
+        setTestDuration(attempt.total_allotted_duration_minutes);
+        setInitialTimeLeft(remainingSeconds);
+
+        if (attempt.is_adaptive) {
+          setIsAdaptiveTestActive(true);
+        } else {
+          const questionsResponse = await testsAPI.getQuestions(attempt.attempt_id);
+          setQuestions(questionsResponse.data);
+          // Answers saved on the server; without them the progress saved on this device is used
+          setSavedAnswers(await fetchSavedAnswers(attempt.attempt_id).catch(err => {
+            console.warn('[UI] Could not load saved answers:', err);
+            return undefined;
+          }));
+        }
+
+        setAttemptId(attempt.attempt_id);
+        setTestStarted(true);
+      } catch (err: any) {
+        console.error('Test resume error:', err);
+        setError(`Failed to resume test: ${err.response?.data?.detail || err.message || 'Unknown error'}`);
+        setSearchParams({}, { replace: true });
+      }
+    };
+
+    resumeAttempt();
+  }, [resumeAttemptId, attemptId, setSearchParams]);
     const startTest = async () => {
     try {
       setLoading(true);
@@ -236,7 +315,7 @@ export const PracticeTestPage: React.FC = () => {
       const invalidSections: string[] = [];
       
       selectedSections.forEach(section => {
-        const cacheKey = `${section.paper_id}-${section.section_id}`;
+        const cacheKey = selectionKey(section);
         const availableCount = availableQuestionCounts[cacheKey] || 0;
         
         if (section.question_count > availableCount) {
@@ -257,7 +336,8 @@ export const PracticeTestPage: React.FC = () => {
         sections: selectedSections.map(section => ({
           paper_id: section.paper_id,
           section_id: section.section_id,
-          question_count: section.question_count
+          question_count: section.question_count,
+          ...(section.tags ? { tags: section.tags } : {})
         }))
       };
 
@@ -280,6 +360,9 @@ export const PracticeTestPage: React.FC = () => {
       const attemptId = testResponse.data.attempt_id;
       setAttemptId(attemptId);
       
+      // Record the attempt in the URL so a reload resumes it
+      setSearchParams({ resume: String(attemptId) }, { replace: true });
+      
       // For adaptive tests, we don't get all questions upfront
       if (isAdaptiveMode) {
         setIsAdaptiveTestActive(true);
@@ -316,6 +399,11 @@ export const PracticeTestPage: React.FC = () => {
 
   // Function to add a section to the selection
   const handleAddSection = async () => {
+    if (selectionMode === 'tag') {
+      await handleAddTagSelection();
+      return;
+    }
+
     if (!selectedPaper || !selectedSection || !questionCount) {
       setError('Please select a paper, section, and specify the number of questions.');
       return;
@@ -386,13 +474,78 @@ export const PracticeTestPage: React.FC = () => {
     setError(null);
   };
 
+  // Function to add the questions of a paper carrying any of the selected tags
+  const handleAddTagSelection = async () => {
+    if (!selectedPaper || selectedTags.length === 0 || !questionCount) {
+      setError('Please select a paper, at least one tag, and specify the number of questions.');
+      return;
+    }
+
+    const numQuestions = parseInt(questionCount, 10);
+    if (isNaN(numQuestions) || numQuestions < 1) {
+      setError('Please enter a valid number of questions (minimum 1).');
+      return;
+    }
+
+    const paperObj = papers.find(p => p.paper_id === selectedPaper);
+    if (!paperObj) {
+      setError('Invalid paper selection.');
+      return;
+    }
+
+    const cacheKey = countKey(selectedPaper, null, selectedTags);
+    if (selectedSections.some(s => selectionKey(s) === cacheKey)) {
+      setError('These tags have already been added to your test.');
+      return;
+    }
+
+    let availableCount = availableQuestionCounts[cacheKey];
+    if (availableCount === undefined) {
+      setLoading(true);
+      try {
+        availableCount = await fetchAvailableQuestionCount(selectedPaper, null, selectedTags);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    if (availableCount === 0) {
+      setError('There are no active questions with these tags in this paper.');
+      return;
+    }
+
+    if (numQuestions > availableCount) {
+      setError(`Only ${availableCount} active questions carry these tags. Please reduce your request.`);
+      setQuestionCount(availableCount.toString());
+      return;
+    }
+
+    setSelectedSections([
+      ...selectedSections,
+      {
+        paper_id: selectedPaper,
+        paper_name: paperObj.paper_name,
+        section_id: null,
+        section_name: describeTagSelection(selectedTags),
+        question_count: numQuestions,
+        tags: selectedTags
+      }
+    ]);
+
+    setError(null);
+  };
+
   // Function to remove a section from the selection
-  const handleRemoveSection = (paperID: number, sectionID: number) => {
-    setSelectedSections(
-      selectedSections.filter(
-        s => !(s.paper_id === paperID && s.section_id === sectionID)
-      )
-    );
+  const handleRemoveSection = (key: string) => {
+    setSelectedSections(selectedSections.filter(s => selectionKey(s) !== key));
+  };
+
+  const handleSelectionModeChange = (mode: SelectionMode | null) => {
+    if (!mode) return;
+    setSelectionMode(mode);
+    setSelectedSection('');
+    setSelectedTags([]);
+    setCurrentAvailableCount(null);
   };
 
   // Helper component to display available question count with proper styling
@@ -467,10 +620,19 @@ export const PracticeTestPage: React.FC = () => {
             <Typography variant="h6" gutterBottom>Test Configuration</Typography>
             
             <Grid container spacing={3}>
-              <Grid item xs={12}>
-                <Typography variant="h6" gutterBottom>
+              <Grid item xs={12} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+                <Typography variant="h6">
                   Add Sections to Your Test
                 </Typography>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={selectionMode}
+                  onChange={(_, mode) => handleSelectionModeChange(mode)}
+                >
+                  <ToggleButton value="section">By Section</ToggleButton>
+                  <ToggleButton value="tag">By Tag</ToggleButton>
+                </ToggleButtonGroup>
               </Grid>
               <Grid item xs={12} md={3}>
                 <FormControl fullWidth>
@@ -478,9 +640,13 @@ export const PracticeTestPage: React.FC = () => {
                   <Select
                     value={selectedPaper}
                     onChange={(e) => {
-                      setSelectedPaper(e.target.value as number);
+                      const paperId = e.target.value as number;
+                      setSelectedPaper(paperId);
                       setSelectedSection('');
                       setCurrentAvailableCount(null);
+                      if (selectionMode === 'tag' && selectedTags.length > 0) {
+                        fetchAvailableQuestionCount(paperId, null, selectedTags);
+                      }
                     }}
                     label="Paper"
                   >
@@ -494,27 +660,50 @@ export const PracticeTestPage: React.FC = () => {
               </Grid>
 
               <Grid item xs={12} md={3}>
-                <FormControl fullWidth>
-                  <InputLabel>Section</InputLabel>
-                  <Select
-                    value={selectedSection}
-                    onChange={(e) => {
-                      const sectionId = e.target.value as number;
-                      setSelectedSection(sectionId);
-                      if (selectedPaper && sectionId) {
-                        fetchAvailableQuestionCount(selectedPaper, sectionId);
+                {selectionMode === 'tag' ? (
+                  <Autocomplete
+                    multiple
+                    options={tagOptions.map(tag => tag.name)}
+                    value={selectedTags}
+                    onChange={(_, tags) => {
+                      setSelectedTags(tags);
+                      setCurrentAvailableCount(null);
+                      if (selectedPaper && tags.length > 0) {
+                        fetchAvailableQuestionCount(selectedPaper, null, tags);
                       }
                     }}
-                    label="Section"
                     disabled={!selectedPaper}
-                  >
-                    {availableSections.map((section) => (
-                      <MenuItem key={section.section_id} value={section.section_id}>
-                        {section.section_name}
-                      </MenuItem>
-                    ))}
-                  </Select>
-                </FormControl>
+                    noOptionsText="No tags defined"
+                    renderTags={(tags, getTagProps) =>
+                      tags.map((tag, index) => <Chip size="small" label={tag} {...getTagProps({ index })} key={tag} />)
+                    }
+                    renderInput={(params) => (
+                      <TextField {...params} label="Tags" helperText="Questions with any of these tags, from every section" />
+                    )}
+                  />
+                ) : (
+                  <FormControl fullWidth>
+                    <InputLabel>Section</InputLabel>
+                    <Select
+                      value={selectedSection}
+                      onChange={(e) => {
+                        const sectionId = e.target.value as number;
+                        setSelectedSection(sectionId);
+                        if (selectedPaper && sectionId) {
+                          fetchAvailableQuestionCount(selectedPaper, sectionId);
+                        }
+                      }}
+                      label="Section"
+                      disabled={!selectedPaper}
+                    >
+                      {availableSections.map((section) => (
+                        <MenuItem key={section.section_id} value={section.section_id}>
+                          {section.section_name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
               </Grid>
 
               <Grid item xs={12} md={3}>
@@ -557,7 +746,8 @@ export const PracticeTestPage: React.FC = () => {
                   variant="outlined"
                   onClick={handleAddSection}
                   fullWidth
-                  disabled={loading || loadingCount || !selectedPaper || !selectedSection || !questionCount || 
+                  disabled={loading || loadingCount || !selectedPaper || !questionCount ||
+                           (selectionMode === 'tag' ? selectedTags.length === 0 : !selectedSection) ||
                            (currentAvailableCount !== null && currentAvailableCount === 0)}
                 >
                   {loading || loadingCount ? (
@@ -565,7 +755,7 @@ export const PracticeTestPage: React.FC = () => {
                       <CircularProgress size={16} sx={{ mr: 1 }} />
                       Working...
                     </Box>
-                  ) : 'Add Section'}
+                  ) : selectionMode === 'tag' ? 'Add Tags' : 'Add Section'}
                 </Button>
               </Grid>
             </Grid>
@@ -724,14 +914,14 @@ export const PracticeTestPage: React.FC = () => {
                   </TableHead>
                   <TableBody>
                     {selectedSections.map((section) => (
-                      <TableRow key={`${section.paper_id}-${section.section_id}`}>
+                      <TableRow key={selectionKey(section)}>
                         <TableCell>{section.paper_name}</TableCell>
                         <TableCell>{section.section_name}</TableCell>
                         <TableCell align="center">
                           {section.question_count}
-                          {availableQuestionCounts[`${section.paper_id}-${section.section_id}`] !== undefined && (
+                          {availableQuestionCounts[selectionKey(section)] !== undefined && (
                             <Typography variant="caption" display="block" color="textSecondary">
-                              (of {availableQuestionCounts[`${section.paper_id}-${section.section_id}`]} available)
+                              (of {availableQuestionCounts[selectionKey(section)]} available)
                             </Typography>
                           )}
                         </TableCell>
@@ -739,7 +929,7 @@ export const PracticeTestPage: React.FC = () => {
                           <Button
                             size="small"
                             color="error"
-                            onClick={() => handleRemoveSection(section.paper_id, section.section_id)}
+                            onClick={() => handleRemoveSection(selectionKey(section))}
                           >
                             Remove
                           </Button>
@@ -763,6 +953,7 @@ export const PracticeTestPage: React.FC = () => {
               }}
               adaptiveStrategy={adaptiveStrategy}
               testDuration={testDuration}
+              initialTimeLeft={initialTimeLeft}
               userInfo={{
                 candidateName: 'Test User',
                 examName: 'Practice Test',
@@ -778,6 +969,8 @@ export const PracticeTestPage: React.FC = () => {
                 navigate('/results');
               }}
               testDuration={testDuration}
+              initialTimeLeft={initialTimeLeft}
+              savedAnswers={savedAnswers}
               userInfo={{
                 candidateName: 'Test User',
                 examName: 'Practice Test',
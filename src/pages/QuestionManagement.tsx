@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { axiosWithRetry } from '../utils/apiRetry';
 import axiosInstance from '../services/api';
 import {
@@ -23,6 +23,8 @@ import {
   MenuItem,
   IconButton,
   Alert,
+  Autocomplete,
+  Chip,
   CircularProgress,
   Checkbox,
   FormControlLabel,
@@ -31,12 +33,70 @@ import {
   AlertColor,
   Tooltip,
 } from '@mui/material';
-import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
-import { questionsAPI, papersAPI } from '../services/api';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  History as HistoryIcon,
+  RateReview as RateReviewIcon,
+} from '@mui/icons-material';
+import { questionsAPI, papersAPI, taxonomyAPI } from '../services/api';
 import { Loading } from '../components/Loading';
+import { RichContent } from '../components/RichContent';
+import { QuestionImportWizard } from '../components/QuestionImportWizard';
+import { QuestionComparison } from '../components/QuestionComparison';
+import { DuplicateReportDialog } from '../components/DuplicateReportDialog';
+import { ItemAnalysisDialog } from '../components/ItemAnalysisDialog';
+import { AnswerChallengeQueue } from '../components/AnswerChallengeQueue';
+import { LeaderboardSettingsDialog } from '../components/LeaderboardSettingsDialog';
+import { ProctoringSettingsDialog } from '../components/ProctoringSettingsDialog';
+import { QuestionRevisionHistory } from '../components/QuestionRevisionHistory';
+import { QuestionRevision } from '../utils/questionRevisions';
+import { QuestionReviewDialog, ReviewableQuestion } from '../components/QuestionReviewDialog';
+import {
+  QUESTION_STATUSES,
+  QUESTION_STATUS_COLORS,
+  QUESTION_STATUS_LABELS,
+  effectiveQuestionStatus,
+  normalizeQuestionStatus,
+} from '../utils/questionWorkflow';
+import { useAuth } from '../contexts/AuthContext';
+import { QuestionTaxonomyFields } from '../components/QuestionTaxonomyFields';
+import {
+  BLOOM_LEVELS,
+  formatObjective,
+  isBloomLevel,
+  normalizeObjectivesResponse,
+  normalizeTagsResponse,
+  parseTagList,
+} from '../utils/questionTaxonomy';
+import { BankQuestion, useQuestionBank } from '../hooks/useQuestionBank';
+import { SimilarMatch, buildSimilarityIndex } from '../utils/questionSimilarity';
+import { BulkActionDialog, BulkActionOutcome } from '../components/BulkActionDialog';
+import {
+  BULK_ACTION_LABELS,
+  BulkActionType,
+  BulkPlan,
+  BulkQuestion,
+  UNDO_WINDOW_MS,
+  applyBulkChange,
+  buildUndoPlan,
+  questionsToCsv,
+  runBulkTasks,
+} from '../utils/bulkQuestionActions';
 import Pagination from '@mui/material/Pagination';
 import InfoIcon from '@mui/icons-material/Info';
 import GetAppIcon from '@mui/icons-material/GetApp';
+import { AnswerKeyChallenge, BloomLevel, LearningObjective, QuestionStatus, QuestionTag, QuestionType } from '../types';
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  buildAnswerKeyPayload,
+  normalizeQuestionType,
+  usesOptions,
+  validateAnswerKey,
+} from '../utils/questionTypes';
 
 interface ExamPaper {
   paper_id: number;
@@ -54,6 +114,7 @@ interface Question {
   section_id: number;
   default_difficulty_level: string;
   valid_until: string; // new field
+  status?: string;
 }
 
 // Search parameters interface
@@ -74,8 +135,19 @@ interface SearchParams {
   modified_after?: string;
   option_count?: string;
   has_explanation?: boolean;
+  tags?: string;          // Comma separated; questions with any of these tags
+  bloom_level?: string;
+  objective_id?: string;
+  status: string;               // Workflow status, empty for all
+  awaiting_my_review: boolean;  // Review queue of the current user
 }
 
+// Editor fields that accept rich content; a number is an option index
+type RichContentField = 'question_text' | 'explanation' | number;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+const MAX_IMAGE_SIZE_MB = 5;
+
 // Add this near the other interfaces
 interface ConfirmDialogProps {
   open: boolean;
@@ -89,7 +161,7 @@ interface ConfirmDialogProps {
 
 export const QuestionManagement: React.FC = () => {
   const [loading, setLoading] = useState(true);
-  const [uploading, setUploading] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   
   // Snackbar state
@@ -98,6 +170,30 @@ export const QuestionManagement: React.FC = () => {
   const [snackbarSeverity, setSnackbarSeverity] = useState<AlertColor>('info');
   const [questions, setQuestions] = useState<Question[]>([]);
   const [papers, setPapers] = useState<ExamPaper[]>([]);
+  // Every question, loaded on demand for duplicate detection
+  const questionBank = useQuestionBank();
+  const [duplicateMatches, setDuplicateMatches] = useState<SimilarMatch<BankQuestion>[] | null>(null);
+  const [duplicateReportOpen, setDuplicateReportOpen] = useState(false);
+  const [itemAnalysisOpen, setItemAnalysisOpen] = useState(false);
+  const [challengeQueueOpen, setChallengeQueueOpen] = useState(false);
+  const [leaderboardsOpen, setLeaderboardsOpen] = useState(false);
+  const [proctoringOpen, setProctoringOpen] = useState(false);
+  // Review workflow
+  const { user } = useAuth();
+  const [reviewQuestion, setReviewQuestion] = useState<ReviewableQuestion | null>(null);
+  const [reviewQueueCount, setReviewQueueCount] = useState<number | null>(null);
+  // Tags and learning objectives offered in the form and the search filters
+  const [taxonomy, setTaxonomy] = useState<{ tags: QuestionTag[]; objectives: LearningObjective[] }>({
+    tags: [],
+    objectives: [],
+  });
+  // Question whose revision history is open
+  const [historyQuestion, setHistoryQuestion] = useState<BulkQuestion | null>(null);
+
+  // Bulk actions: selected questions are kept across result pages
+  const [selectedQuestions, setSelectedQuestions] = useState<Record<number, BulkQuestion>>({});
+  const [bulkActionType, setBulkActionType] = useState<BulkActionType | null>(null);
+  const [undoPlan, setUndoPlan] = useState<BulkPlan | null>(null);
   
   // Confirmation dialog state
   const [confirmDialogProps, setConfirmDialogProps] = useState<ConfirmDialogProps>({
@@ -113,7 +209,7 @@ export const QuestionManagement: React.FC = () => {
   const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(null);
   const [formData, setFormData] = useState({
     question_text: '',
-    question_type: 'MCQ',
+    question_type: 'MCQ' as QuestionType,
     paper_id: 0,
     section_id: 0,
     subsection_id: null as number | null,
@@ -125,10 +221,22 @@ export const QuestionManagement: React.FC = () => {
       { option_text: '', option_order: 3 },
     ],
     correct_option_index: 0,
+    correct_option_indices: [] as number[], // Multi-select questions
+    numeric_answer: '',                     // Kept as text while editing
+    numeric_tolerance: '',
+    accepted_answers: [] as string[],       // Fill-in-the-blank questions
+    case_sensitive: false,
     explanation: '',
     valid_until: '', // Initialize valid_until
+    tags: [] as string[],
+    bloom_level: '' as BloomLevel | '',
+    objective_ids: [] as number[],
   });
   const [subsections, setSubsections] = useState<any[]>([]);
+  const [imageUploading, setImageUploading] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  // Where an uploaded image is inserted: the last rich field edited and its caret position
+  const lastRichFieldRef = useRef<{ field: RichContentField; caret: number }>({ field: 'question_text', caret: -1 });
   const [page, setPage] = useState(1);
   const [pageSize] = useState(20); // You can make this user-configurable if desired
   const [total, setTotal] = useState(0);  // --- Search State ---
@@ -151,6 +259,11 @@ export const QuestionManagement: React.FC = () => {
     modified_after: '',
     option_count: '',
     has_explanation: false,
+    tags: '',
+    bloom_level: '',
+    objective_id: '',
+    status: '',
+    awaiting_my_review: false,
   });
   const [currentPage, setCurrentPage] = useState(1);
   const [questionsPerPage] = useState(20);
@@ -175,6 +288,44 @@ export const QuestionManagement: React.FC = () => {
   useEffect(() => {
     fetchQuestions();
   }, [debouncedSearchParams, currentPage, questionsPerPage]);
+
+  // --- Review queue size, shown on the "Awaiting my review" filter ---
+  const fetchReviewQueueCount = useCallback(async () => {
+    if (!user) return;
+    try {
+      const response = await axiosInstance.get('/questions/admin/search', {
+        params: { status: 'in_review', awaiting_review_by: user.user_id, limit: 1, offset: 0 },
+      });
+      const data = response.data;
+      setReviewQueueCount(data.total ?? (Array.isArray(data) ? data.length : 0));
+    } catch (err) {
+      console.warn('Failed to load the review queue size:', err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchReviewQueueCount();
+  }, [fetchReviewQueueCount]);
+
+  // --- Taxonomy options; the page works without them ---
+  const fetchTaxonomy = useCallback(async () => {
+    try {
+      const [tagsResponse, objectivesResponse] = await Promise.all([
+        taxonomyAPI.getTags(),
+        taxonomyAPI.getObjectives(),
+      ]);
+      setTaxonomy({
+        tags: normalizeTagsResponse(tagsResponse.data),
+        objectives: normalizeObjectivesResponse(objectivesResponse.data),
+      });
+    } catch (err) {
+      console.warn('Failed to load tags and learning objectives:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTaxonomy();
+  }, [fetchTaxonomy]);
     // --- Fetch Questions (Admin Search) ---
   const fetchQuestions = useCallback(async () => {
     setSearchLoading(true);
@@ -189,6 +340,12 @@ export const QuestionManagement: React.FC = () => {
         // Add additional search parameters for the backend API
       if (debouncedSearchParams.exact_match && debouncedSearchParams.query) {
         params.exact_match = true;
+      }
+      // The review queue: questions in review that the current user may decide on
+      delete params.awaiting_my_review;
+      if (debouncedSearchParams.awaiting_my_review && user) {
+        params.status = 'in_review';
+        params.awaiting_review_by = user.user_id;
       }
         // Format date parameters correctly for API
       // Convert date strings to ISO format for API with proper time set
@@ -241,7 +398,7 @@ export const QuestionManagement: React.FC = () => {
       setSearchLoading(false);
       // Make sure the main loading state is also set to false
       setLoading(false);
-    }  }, [debouncedSearchParams, currentPage, questionsPerPage]);
+    }  }, [debouncedSearchParams, currentPage, questionsPerPage, user]);
 
   // Removed redundant effect that was causing infinite API calls
   const fetchData = async (pageNum = 1) => {
@@ -316,7 +473,7 @@ export const QuestionManagement: React.FC = () => {
     }
   }, [formData.section_id]);
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (ignoreDuplicates: boolean = false) => {
     try {
       // Validate required fields
       if (!formData.question_text || formData.question_text.trim() === '') {
@@ -334,247 +491,360 @@ export const QuestionManagement: React.FC = () => {
         return;
       }
       
-      // Validate options
-      const emptyOptions = formData.options.filter(opt => !opt.option_text || opt.option_text.trim() === '');
-      if (emptyOptions.length > 0) {
-        setError('All options must have text');
+      // Validate options or the answer key of non-choice questions
+      const answerKeyError = validateAnswerKey(formData);
+      if (answerKeyError) {
+        setError(answerKeyError);
         return;
       }
       
-      console.log('Submitting question data:', JSON.stringify(formData));
+      // Only send the answer key fields that apply to the question type
+      const questionData = {
+        question_text: formData.question_text,
+        question_type: formData.question_type,
+        paper_id: formData.paper_id,
+        section_id: formData.section_id,
+        subsection_id: formData.subsection_id,
+        default_difficulty_level: formData.default_difficulty_level,
+        explanation: formData.explanation,
+        valid_until: formData.valid_until,
+        ...buildAnswerKeyPayload(formData),
+        tags: formData.tags,
+        bloom_level: formData.bloom_level || null,
+        objective_ids: formData.objective_ids,
+        // Edits go through review again before candidates see them
+        status: 'draft' as const,
+      };
+
+      // Warn before saving a question that duplicates one in the bank
+      if (!ignoreDuplicates) {
+        try {
+          const bank = await questionBank.load();
+          const matches = buildSimilarityIndex(bank).findSimilar(
+            { question_text: questionData.question_text, options: questionData.options },
+            { excludeId: selectedQuestion?.question_id, limit: 3 }
+          );
+          if (matches.length > 0) {
+            setDuplicateMatches(matches);
+            return;
+          }
+        } catch (bankErr) {
+          // The check is advisory, so saving goes ahead without it
+          console.warn('Duplicate check skipped:', bankErr);
+        }
+      }
+      
+      console.log('Submitting question data:', JSON.stringify(questionData));
       
       if (selectedQuestion) {
         // Update existing question
-        await questionsAPI.updateQuestion(selectedQuestion.question_id, formData);
+        await questionsAPI.updateQuestion(selectedQuestion.question_id, questionData);
       } else {
         // Create new question
-        await questionsAPI.createQuestion(formData);
+        await questionsAPI.createQuestion(questionData);
       }
+      questionBank.invalidate();
       setOpenDialog(false);
       fetchData();
+      // New tags become options of the form and the filters
+      if (questionData.tags.some(tag => !taxonomy.tags.some(option => option.name === tag))) {
+        fetchTaxonomy();
+      }
       setError(null); // Clear any errors on success
     } catch (err: any) {
       console.error('Error saving question:', err);
       setError(err.response?.data?.detail || 'Failed to save question');
     }
-  };  // Function to validate paper IDs in the CSV content against available papers in the system
-  const validatePaperIds = async (fileContent: string): Promise<{valid: boolean, missingPaperIds?: number[]}> => {
-    try {
-      // Get list of paper IDs from the CSV
-      const lines = fileContent.split('\n');
-      if (lines.length < 2) {
-        return { valid: false };
+  };
+
+  // Switching type resets the options: true/false has fixed options, numeric and fill-in-the-blank have none
+  const handleQuestionTypeChange = (questionType: QuestionType) => {
+    setFormData(prev => {
+      let options = prev.options;
+      if (questionType === 'True/False') {
+        options = TRUE_FALSE_OPTIONS.map(option => ({ ...option }));
+      } else if (usesOptions(questionType) && (prev.question_type === 'True/False' || options.length < 2)) {
+        options = [0, 1, 2, 3].map(order => ({ option_text: '', option_order: order }));
       }
-      
-      // Extract paper_id index from header
-      const headers = lines[0].split(',');
-      const paperIdIdx = headers.findIndex(h => h.trim().toLowerCase() === 'paper_id');
-      if (paperIdIdx === -1) {
-        return { valid: false }; // No paper_id column found
+      return {
+        ...prev,
+        question_type: questionType,
+        options,
+        correct_option_index: prev.correct_option_index < options.length ? prev.correct_option_index : 0,
+        correct_option_indices: prev.correct_option_indices.filter(index => index < options.length),
+      };
+    });
+  };
+
+  const rememberCaret = (field: RichContentField) => (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    lastRichFieldRef.current = { field, caret: e.target.selectionStart ?? -1 };
+  };
+
+  // Insert text at the remembered caret of a rich field, or at its end
+  const insertIntoRichField = (text: string) => {
+    const { field, caret } = lastRichFieldRef.current;
+    const insertAt = (value: string) => {
+      const position = caret >= 0 && caret <= value.length ? caret : value.length;
+      return value.slice(0, position) + text + value.slice(position);
+    };
+
+    setFormData(prev => {
+      if (typeof field === 'number') {
+        if (field >= prev.options.length) return prev;
+        return {
+          ...prev,
+          options: prev.options.map((option, index) =>
+            index === field ? { ...option, option_text: insertAt(option.option_text) } : option
+          ),
+        };
       }
-      
-      // Skip header and extract unique paper IDs
-      const uniquePaperIds = new Set<number>();
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue; // Skip empty lines
-        
-        const values = line.split(',');
-        if (values.length <= paperIdIdx) continue;
-        
-        const paperId = parseInt(values[paperIdIdx], 10);
-        if (!isNaN(paperId)) {
-          uniquePaperIds.add(paperId);
-        }
+      return { ...prev, [field]: insertAt(prev[field]) };
+    });
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow selecting the same file again
+    if (!file) return;
+
+    if (!IMAGE_TYPES.includes(file.type)) {
+      setError('Images must be PNG, JPEG, GIF, WebP or SVG files');
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE_MB * 1024 * 1024) {
+      setError(`Images must be smaller than ${MAX_IMAGE_SIZE_MB} MB`);
+      return;
+    }
+
+    try {
+      setImageUploading(true);
+      const response = await questionsAPI.uploadQuestionImage(file);
+      const url = response.data?.url || response.data?.image_url;
+      if (!url) {
+        throw new Error('The server did not return an image URL');
       }
-      
-      // Get available paper IDs from the system
-      const availablePaperIds = papers.map(paper => paper.paper_id);
-      
-      // Find missing paper IDs
-      const missingPaperIds: number[] = Array.from(uniquePaperIds).filter(
-        id => !availablePaperIds.includes(id)
-      );
-      
-      return { valid: missingPaperIds.length === 0, missingPaperIds };
-    } catch (error) {
-      console.error("Error validating paper IDs:", error);
-      return { valid: false };
+      const altText = file.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '');
+      insertIntoRichField(`![${altText}](${url})`);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      setError(err.response?.data?.detail || err.message || 'Failed to upload image');
+    } finally {
+      setImageUploading(false);
     }
   };
 
+  const handleCorrectOptionToggle = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      correct_option_indices: prev.correct_option_indices.includes(index)
+        ? prev.correct_option_indices.filter(i => i !== index)
+        : [...prev.correct_option_indices, index].sort((a, b) => a - b),
+    }));
+  };
+
   // --- File upload handler ---
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // The file is parsed, validated and uploaded by the import wizard
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Clear the file input so the same file can be uploaded again if needed
+    event.target.value = '';
     if (!file) return;
 
     // Validate file is a CSV or Excel
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.xlsx')) {
+    const fileName = file.name.toLowerCase();
+    if (!fileName.endsWith('.csv') && !fileName.endsWith('.xlsx')) {
       setError('Only CSV (.csv) or Excel (.xlsx) files are supported');
       return;
     }
 
-    try {
-      setUploading(true);
-      console.log(`Uploading file: ${file.name} (${file.size} bytes, type: ${file.type})`);
-        
-      // Check if file is valid and not empty
-      if (file.size === 0) {
-        setError('The file is empty. Please download the sample template and fill it out.');
-        setSnackbarMessage('Empty file detected. Please download and use the sample template.');
-        setSnackbarSeverity('warning');
-        setSnackbarOpen(true);
-        return;
+    // Check if file is valid and not empty
+    if (file.size === 0) {
+      setError('The file is empty. Please download the sample template and fill it out.');
+      setSnackbarMessage('Empty file detected. Please download and use the sample template.');
+      setSnackbarSeverity('warning');
+      setSnackbarOpen(true);
+      return;
+    }
+
+    setError(null);
+    setImportFile(file);
+    // Imported rows are checked against the bank for duplicates
+    questionBank.load().catch(() => undefined);
+  };
+
+  // Rows fixed in the review step would be lost, so closing there is confirmed
+  const handleCloseImport = (hasReviewedRows: boolean) => {
+    if (!hasReviewedRows) {
+      setImportFile(null);
+      return;
+    }
+    setConfirmDialogProps({
+      open: true,
+      title: 'Discard Import',
+      message: 'Close the import without uploading?\nChanges made in the review grid will be lost.',
+      confirmText: 'Discard',
+      cancelText: 'Keep Reviewing',
+      onConfirm: () => {
+        setConfirmDialogProps(prev => ({ ...prev, open: false }));
+        setImportFile(null);
+      },
+      onCancel: () => {
+        setConfirmDialogProps(prev => ({ ...prev, open: false }));
       }
-      
-      // Basic client-side validation for CSV files
-      if (file.name.endsWith('.csv')) {
-        try {
-          // Read the entire file content for validation
-          const fileText = await file.text();
-          
-          // Log sample for debugging
-          console.log('CSV header sample:', fileText.substring(0, 200));
-          
-          // Check for basic CSV structure (has header row with commas)
-          if (!fileText.includes(',')) {
-            setError('The CSV file appears to be incorrectly formatted. It should use commas as separators.');
-            setSnackbarMessage('Invalid CSV format. Make sure your file uses commas as separators.');
-            setSnackbarSeverity('warning');
-            setSnackbarOpen(true);
-            return;
-          }
-          
-          // Check for required headers
-          const requiredHeaders = ['question_text', 'question_type', 'paper_id', 'section_id', 'correct_option_index', 'option_0'];
-          const headerLine = fileText.split('\n')[0].toLowerCase();
-          
-          const missingHeaders = requiredHeaders.filter(header => !headerLine.includes(header));
-          if (missingHeaders.length > 0) {
-            setError(`The CSV file is missing required headers: ${missingHeaders.join(', ')}`);
-            setSnackbarMessage('CSV is missing required headers. Download and use the sample template.');
-            setSnackbarSeverity('warning');
-            setSnackbarOpen(true);
-            return;
-          }
-          
-          // Validate that paper IDs in the CSV exist in the system
-          const paperValidation = await validatePaperIds(fileText);
-          if (!paperValidation.valid) {
-            const missingIds = paperValidation.missingPaperIds || [];
-            if (missingIds.length > 0) {
-              setError(`The CSV file references paper IDs that don't exist in the system: ${missingIds.join(', ')}. Please create these papers first or update your CSV to use existing paper IDs.`);
-              setSnackbarMessage('CSV contains invalid paper IDs. See error details for more information.');
-              setSnackbarSeverity('error');
-              setSnackbarOpen(true);
-              return;
-            } else {
-              setError('Failed to validate paper IDs in the CSV file.');
-              setSnackbarSeverity('error');
-              setSnackbarOpen(true);
-              return;
-            }
-          }
-        } catch (csvErr) {
-          console.error('Error validating CSV:', csvErr);
-        }
+    });
+  };
+
+  const handleImported = async (importedCount: number) => {
+    setSnackbarMessage(`${importedCount} question${importedCount === 1 ? '' : 's'} uploaded successfully`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    questionBank.invalidate();
+    // Refresh data after successful upload
+    await fetchData();
+  };
+
+  const handleOpenDuplicateReport = () => {
+    setDuplicateReportOpen(true);
+    questionBank.load(true).catch(() => undefined);
+  };
+
+  const handleOpenItemAnalysis = () => {
+    setItemAnalysisOpen(true);
+    questionBank.load(true).catch(() => undefined);
+  };
+
+  const selectedList = Object.values(selectedQuestions);
+
+  const toggleQuestionSelection = (question: BulkQuestion) => {
+    setSelectedQuestions(prev => {
+      const next = { ...prev };
+      if (next[question.question_id]) {
+        delete next[question.question_id];
+      } else {
+        next[question.question_id] = question;
       }
-      
-      // We're removing the template check as it's causing false positives
-      // The backend validation will catch actual issues with the file format
-      
-      // Attempt to upload the file
-      const response = await questionsAPI.uploadQuestions(file);
-      console.log('File upload successful:', response);
-      
-      // Show success message
-      setSnackbarMessage('Questions uploaded successfully');
-      setSnackbarSeverity('success');
-      setSnackbarOpen(true);
-      
-      // Refresh data after successful upload
-      await fetchData();
-      setError(null); // Clear any previous errors on success
-    } catch (err: any) {
-      console.error('File upload error:', err);
-      
-      // Extract detailed error information with deep debugging
-      let errorMessage = 'Failed to upload questions';
-      console.log('Error details:', err);
-      
-      if (err.response && err.response.data) {
-        // Handle structured error response
-        if (err.response.data.detail) {
-          errorMessage = err.response.data.detail;
-          
-          // Special handling for known error types
-          if (err.response.data.errorType === "PAPER_NOT_FOUND") {
-            // Add guidance for creating missing papers
-            setSnackbarMessage('Question upload failed: Referenced paper does not exist');
-            // Show a more detailed error with action buttons
-            setConfirmDialogProps({
-              open: true,
-              title: 'Missing Paper Reference',
-              message: `${errorMessage}\n\nWould you like to create a sample paper with ID 1 now?`,
-              confirmText: 'Create Sample Paper',
-              cancelText: 'Cancel',
-              onConfirm: async () => {
-                // Close the dialog
-                setConfirmDialogProps(prev => ({ ...prev, open: false }));
-                
-                try {
-                  // Call an API to create the sample paper
-                  setSnackbarMessage('Creating sample paper...');
-                  setSnackbarSeverity('info');
-                  setSnackbarOpen(true);
-                  
-                  // You'll need to implement this API endpoint
-                  await papersAPI.createSamplePaper();
-                  
-                  setSnackbarMessage('Sample paper created. You can now try uploading the questions again.');
-                  setSnackbarSeverity('success');
-                  setSnackbarOpen(true);
-                  
-                  // Refresh papers list
-                  await fetchData();
-                } catch (createErr) {
-                  console.error('Error creating sample paper:', createErr);
-                  setSnackbarMessage('Failed to create sample paper. Please create it manually.');
-                  setSnackbarSeverity('error');
-                  setSnackbarOpen(true);
-                }
-              },
-              onCancel: () => {
-                setConfirmDialogProps(prev => ({ ...prev, open: false }));
-              }
-            });
-            return;
-          }
-        } else if (typeof err.response.data === 'string' && err.response.data.includes('foreign key constraint')) {
-          // Handle plaintext foreign key errors
-          if (err.response.data.includes('questions_paper_id_fkey')) {
-            errorMessage = 'The paper ID referenced in your CSV file does not exist in the database. Please create this paper first.';
-          }
+      return next;
+    });
+  };
+
+  const togglePageSelection = (select: boolean) => {
+    setSelectedQuestions(prev => {
+      const next = { ...prev };
+      searchResults.forEach((q: BulkQuestion) => {
+        if (select) {
+          next[q.question_id] = q;
+        } else {
+          delete next[q.question_id];
         }
-      } else if (err.message) {
-        // Simple error with just a message
-        errorMessage = err.message;
-      }
-      
-      // Set the error message for display
-      setError(errorMessage);
-      
-      // Show snackbar with appropriate message
-      setSnackbarMessage('Question upload failed');
-      setSnackbarSeverity('error');
-      setSnackbarOpen(true);
-    } finally {
-      setUploading(false);
-      // Clear the file input so the same file can be uploaded again if needed
-      event.target.value = '';
+      });
+      return next;
+    });
+  };
+
+  // Keep the selection in step with what the bulk action changed
+  const applyChangesToSelection = (plan: BulkPlan, questionIds: number[]) => {
+    setSelectedQuestions(prev => {
+      const next = { ...prev };
+      plan.changes.forEach(change => {
+        const id = change.question.question_id;
+        if (!questionIds.includes(id) || !next[id]) return;
+        if (plan.action.type === 'delete' || plan.action.type === 'deactivate') {
+          delete next[id];
+        } else {
+          next[id] = { ...next[id], ...change.next };
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleBulkCompleted = ({ plan, succeeded }: BulkActionOutcome) => {
+    if (succeeded.length === 0) return;
+
+    applyChangesToSelection(plan, succeeded.map(change => change.question.question_id));
+    questionBank.invalidate();
+    fetchQuestions();
+    setUndoPlan(buildUndoPlan(plan, succeeded));
+  };
+
+  const handleUndo = async () => {
+    const plan = undoPlan;
+    setUndoPlan(null);
+    if (!plan) return;
+
+    const results = await runBulkTasks(plan.changes, change => applyBulkChange(plan.action, change));
+    const failed = results.filter(result => result.error);
+    applyChangesToSelection(plan, results.filter(result => !result.error).map(result => result.item.question.question_id));
+    questionBank.invalidate();
+    fetchQuestions();
+
+    setSnackbarMessage(failed.length === 0
+      ? `Undid changes to ${results.length} question${results.length === 1 ? '' : 's'}`
+      : `Could not undo ${failed.length} question${failed.length === 1 ? '' : 's'}: ${failed.map(r => `#${r.item.question.question_id}`).join(', ')}`);
+    setSnackbarSeverity(failed.length === 0 ? 'success' : 'error');
+    setSnackbarOpen(true);
+  };
+
+  const handleExportSelected = () => {
+    const blob = new Blob([questionsToCsv(selectedList)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'selected_questions.csv';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleDuplicatesDeactivated = (questionIds: number[]) => {
+    questionBank.remove(questionIds);
+    setSnackbarMessage(`Deactivated ${questionIds.length} duplicate question${questionIds.length === 1 ? '' : 's'}`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    fetchQuestions();
+  };
+
+  const handleRecalibrated = (questionId: number, level: string) => {
+    setSnackbarMessage(`Question ${questionId} is now rated ${level} and back in draft for review`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    fetchQuestions();
+  };
+
+  const handleChallengeResolved = (challenge: AnswerKeyChallenge, decision: 'accepted' | 'rejected') => {
+    setSnackbarMessage(
+      decision === 'accepted'
+        ? `Challenge accepted: question ${challenge.question_id} is being regraded`
+        : `Challenge on question ${challenge.question_id} rejected`
+    );
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    if (decision === 'accepted') {
+      questionBank.invalidate();
+      fetchQuestions();
     }
   };
 
+  const handleStatusChanged = (questionId: number, status: QuestionStatus) => {
+    setSnackbarMessage(`Question ${questionId} is now ${QUESTION_STATUS_LABELS[status].toLowerCase()}`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    fetchQuestions();
+    fetchReviewQueueCount();
+  };
+
+  const handleRevisionRestored = (revision: QuestionRevision) => {
+    // Show the restored content as the current version in the open history
+    setHistoryQuestion(prev => prev && ({ ...prev, ...revision.snapshot, question_id: prev.question_id, status: 'draft' } as BulkQuestion));
+    questionBank.invalidate();
+    setSnackbarMessage(`Restored revision ${revision.revision_number}; the question is back in draft for review`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+    fetchQuestions();
+  };
+
   // --- Handlers ---
   const handleSearchInput = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setSearchParams((prev) => ({ ...prev, [e.target.name]: e.target.value }));
@@ -604,6 +874,11 @@ export const QuestionManagement: React.FC = () => {
       modified_after: '',
       option_count: '',
       has_explanation: false,
+      tags: '',
+      bloom_level: '',
+      objective_id: '',
+      status: '',
+      awaiting_my_review: false,
     });    setCurrentPage(1);
     // The search will happen automatically due to the useEffect hook with the debouncedSearchParams dependency
   };
@@ -741,8 +1016,9 @@ export const QuestionManagement: React.FC = () => {
               onChange={handleSearchSelect}
             >
               <MenuItem value="">All</MenuItem>
-              <MenuItem value="MCQ">Multiple Choice</MenuItem>
-              <MenuItem value="True/False">True/False</MenuItem>
+              {QUESTION_TYPES.map(type => (
+                <MenuItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</MenuItem>
+              ))}
             </Select>
           </FormControl>
           <FormControl sx={{ minWidth: 150, bgcolor: 'background.paper', borderRadius: 2 }} size="small">
@@ -759,6 +1035,21 @@ export const QuestionManagement: React.FC = () => {
               <MenuItem value="Hard">Hard</MenuItem>
             </Select>
           </FormControl>
+          <FormControl sx={{ minWidth: 150, bgcolor: 'background.paper', borderRadius: 2 }} size="small">
+            <InputLabel>Status</InputLabel>
+            <Select
+              name="status"
+              value={searchParams.awaiting_my_review ? 'in_review' : searchParams.status}
+              label="Status"
+              onChange={handleSearchSelect}
+              disabled={searchParams.awaiting_my_review}
+            >
+              <MenuItem value="">All</MenuItem>
+              {QUESTION_STATUSES.map(status => (
+                <MenuItem key={status} value={status}>{QUESTION_STATUS_LABELS[status]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
           
           {/* Validity date range filters */}
           <TextField
@@ -827,6 +1118,22 @@ export const QuestionManagement: React.FC = () => {
             }
             label={<span style={{ fontWeight: 500 }}>Advanced Mode</span>}
           />
+          <FormControlLabel
+            control={
+              <Checkbox
+                name="awaiting_my_review"
+                checked={searchParams.awaiting_my_review}
+                onChange={handleCheckbox}
+                sx={{ color: 'primary.main' }}
+                title="Questions in review that you can approve or send back"
+              />
+            }
+            label={
+              <span style={{ fontWeight: 500 }}>
+                Awaiting My Review{reviewQueueCount !== null ? ` (${reviewQueueCount})` : ''}
+              </span>
+            }
+          />
           <Box sx={{ flexGrow: 1 }} />
           <Button 
             variant="contained" 
@@ -919,6 +1226,47 @@ export const QuestionManagement: React.FC = () => {
               }
               label={<span style={{ fontWeight: 500 }}>Has Explanation</span>}
             />
+
+            {/* Taxonomy filters */}
+            <Autocomplete
+              multiple
+              size="small"
+              options={taxonomy.tags.map(tag => tag.name)}
+              value={parseTagList(searchParams.tags)}
+              onChange={(_, tags) => setSearchParams(prev => ({ ...prev, tags: tags.join(',') }))}
+              sx={{ minWidth: 260, bgcolor: 'background.paper', borderRadius: 2 }}
+              renderInput={(params) => <TextField {...params} label="Tags" placeholder="Any of" />}
+            />
+            <FormControl sx={{ minWidth: 160, bgcolor: 'background.paper', borderRadius: 2 }} size="small">
+              <InputLabel>Bloom's Level</InputLabel>
+              <Select
+                name="bloom_level"
+                value={searchParams.bloom_level || ''}
+                label="Bloom's Level"
+                onChange={handleSearchSelect}
+              >
+                <MenuItem value="">Any</MenuItem>
+                {BLOOM_LEVELS.map(entry => (
+                  <MenuItem key={entry.level} value={entry.level}>{entry.level}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl sx={{ minWidth: 220, bgcolor: 'background.paper', borderRadius: 2 }} size="small">
+              <InputLabel>Learning Objective</InputLabel>
+              <Select
+                name="objective_id"
+                value={searchParams.objective_id || ''}
+                label="Learning Objective"
+                onChange={handleSearchSelect}
+              >
+                <MenuItem value="">Any</MenuItem>
+                {taxonomy.objectives.map(objective => (
+                  <MenuItem key={objective.objective_id} value={String(objective.objective_id)}>
+                    {formatObjective(objective)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
           </Box>
         )}
       </Paper>
@@ -945,13 +1293,61 @@ export const QuestionManagement: React.FC = () => {
                 { option_text: '', option_order: 3 },
               ],
               correct_option_index: 0,
+              correct_option_indices: [],
+              numeric_answer: '',
+              numeric_tolerance: '',
+              accepted_answers: [],
+              case_sensitive: false,
               explanation: '',
               valid_until: '',
+              tags: [],
+              bloom_level: '',
+              objective_ids: [],
             });
             setOpenDialog(true);
           }}
         >
           Add Question
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={handleOpenDuplicateReport}
+          sx={{ fontWeight: 600, borderRadius: 2 }}
+        >
+          Find Duplicates
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={handleOpenItemAnalysis}
+          sx={{ fontWeight: 600, borderRadius: 2 }}
+        >
+          Item Analysis
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={() => setChallengeQueueOpen(true)}
+          sx={{ fontWeight: 600, borderRadius: 2 }}
+        >
+          Answer Challenges
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={() => setLeaderboardsOpen(true)}
+          sx={{ fontWeight: 600, borderRadius: 2 }}
+        >
+          Leaderboards
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={() => setProctoringOpen(true)}
+          sx={{ fontWeight: 600, borderRadius: 2 }}
+        >
+          Proctoring
         </Button>        <Tooltip 
           title={
             <>
@@ -959,7 +1355,8 @@ export const QuestionManagement: React.FC = () => {
                 Upload Questions File
               </Typography>
               <Typography variant="body2">
-                Upload a CSV or Excel file with your questions.
+                Upload a CSV or Excel file with your questions. Rows are checked
+                and can be fixed before anything is uploaded.
                 Make sure the file has all required columns:
               </Typography>
               <ul style={{ margin: '4px 0', paddingLeft: 18 }}>
@@ -987,9 +1384,9 @@ export const QuestionManagement: React.FC = () => {
                 variant="outlined"
                 color="primary"
                 sx={{ fontWeight: 600, borderRadius: 2, minWidth: 180 }}
-                disabled={uploading}
+                disabled={!!importFile}
               >
-                {uploading ? 'Uploading...' : 'Upload Questions CSV/Excel'}
+                Upload Questions CSV/Excel
               </Button>
             </label>
           </span>
@@ -1077,6 +1474,27 @@ export const QuestionManagement: React.FC = () => {
           onChange={handleFileUpload}
         />
       </Box>
+      <QuestionImportWizard
+        file={importFile}
+        bankQuestions={questionBank.questions || []}
+        onClose={handleCloseImport}
+        onImported={handleImported}
+      />
+      {/* --- Bulk actions for the selected questions --- */}
+      {selectedList.length > 0 && (
+        <Paper sx={{ p: 1.5, mb: 2, borderRadius: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle2" sx={{ mr: 1 }}>
+            {selectedList.length} selected
+          </Typography>
+          <Button size="small" variant="outlined" onClick={() => setBulkActionType('move')}>Move</Button>
+          <Button size="small" variant="outlined" onClick={() => setBulkActionType('difficulty')}>Difficulty</Button>
+          <Button size="small" variant="outlined" onClick={() => setBulkActionType('setValidUntil')}>Valid Until</Button>
+          <Button size="small" variant="outlined" color="warning" onClick={() => setBulkActionType('deactivate')}>Deactivate</Button>
+          <Button size="small" variant="outlined" color="error" onClick={() => setBulkActionType('delete')}>Delete</Button>
+          <Button size="small" variant="outlined" onClick={handleExportSelected}>Export CSV</Button>
+          <Button size="small" onClick={() => setSelectedQuestions({})} sx={{ ml: 'auto' }}>Clear Selection</Button>
+        </Paper>
+      )}
       {/* --- Search Results Table --- */}
       {searchLoading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
@@ -1092,9 +1510,21 @@ export const QuestionManagement: React.FC = () => {
             <Table>
               <TableHead sx={{ bgcolor: 'background.paper' }}>
                 <TableRow>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={searchResults.every((q: any) => !!selectedQuestions[q.question_id])}
+                      indeterminate={
+                        searchResults.some((q: any) => !!selectedQuestions[q.question_id]) &&
+                        !searchResults.every((q: any) => !!selectedQuestions[q.question_id])
+                      }
+                      onChange={(e) => togglePageSelection(e.target.checked)}
+                      inputProps={{ 'aria-label': 'Select all questions on this page' }}
+                    />
+                  </TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>ID</TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Question</TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Type</TableCell>
+                  <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Status</TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Difficulty</TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Validity</TableCell>
                   <TableCell sx={{ fontWeight: 700, color: 'primary.main' }}>Paper</TableCell>
@@ -1106,9 +1536,43 @@ export const QuestionManagement: React.FC = () => {
               <TableBody>
                 {searchResults.map((q: any) => (
                   <TableRow key={q.question_id} hover sx={{ transition: 'background 0.2s', '&:hover': { bgcolor: 'action.hover' } }}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={!!selectedQuestions[q.question_id]}
+                        onChange={() => toggleQuestionSelection(q)}
+                        inputProps={{ 'aria-label': `Select question ${q.question_id}` }}
+                      />
+                    </TableCell>
                     <TableCell>{q.question_id}</TableCell>
-                    <TableCell>{q.question_text}</TableCell>
+                    <TableCell>
+                      {q.question_text}
+                      {Array.isArray(q.tags) && q.tags.length > 0 && (
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                          {q.tags.map((tag: string) => (
+                            <Chip
+                              key={tag}
+                              size="small"
+                              variant="outlined"
+                              label={tag}
+                              onClick={() => setSearchParams(prev => ({ ...prev, advanced_mode: true, tags: tag }))}
+                            />
+                          ))}
+                        </Box>
+                      )}
+                    </TableCell>
                     <TableCell>{q.question_type}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        color={QUESTION_STATUS_COLORS[effectiveQuestionStatus(q)]}
+                        label={QUESTION_STATUS_LABELS[effectiveQuestionStatus(q)]}
+                        title={
+                          effectiveQuestionStatus(q) !== normalizeQuestionStatus(q.status)
+                            ? 'Retired automatically when its valid until date passed'
+                            : undefined
+                        }
+                      />
+                    </TableCell>
                     <TableCell>{q.default_difficulty_level}</TableCell>
                     <TableCell>{q.valid_until ? new Date(q.valid_until).toLocaleDateString() : ''}</TableCell>
                     <TableCell>{q.paper?.paper_name || q.paper_name || ''}</TableCell>
@@ -1120,7 +1584,7 @@ export const QuestionManagement: React.FC = () => {
                           setSelectedQuestion(q);
                           setFormData({
                             question_text: q.question_text,
-                            question_type: q.question_type || 'MCQ',
+                            question_type: normalizeQuestionType(q.question_type),
                             paper_id: q.paper_id,
                             section_id: q.section_id,
                             subsection_id: q.subsection_id ?? null,
@@ -1132,14 +1596,32 @@ export const QuestionManagement: React.FC = () => {
                               { option_text: '', option_order: 3 },
                             ],
                             correct_option_index: q.correct_option_index ?? 0,
+                            correct_option_indices: q.correct_option_indices ?? [],
+                            numeric_answer: q.numeric_answer != null ? String(q.numeric_answer) : '',
+                            numeric_tolerance: q.numeric_tolerance != null ? String(q.numeric_tolerance) : '',
+                            accepted_answers: q.accepted_answers ?? [],
+                            case_sensitive: !!q.case_sensitive,
                             explanation: q.explanation || '',
                             valid_until: q.valid_until,
+                            tags: parseTagList(q.tags),
+                            bloom_level: isBloomLevel(q.bloom_level) ? q.bloom_level : '',
+                            objective_ids: q.objective_ids ?? [],
                           });
                           setOpenDialog(true);
                         }}
                       >
                         <EditIcon />
                       </IconButton>
+                      <Tooltip title="Review">
+                        <IconButton onClick={() => setReviewQuestion(q)} aria-label={`Review question ${q.question_id}`}>
+                          <RateReviewIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Revision history">
+                        <IconButton onClick={() => setHistoryQuestion(q)} aria-label={`Revision history of question ${q.question_id}`}>
+                          <HistoryIcon />
+                        </IconButton>
+                      </Tooltip>
                       <IconButton
                         onClick={async () => {
                           if (!window.confirm('Are you sure you want to delete this question?')) return;
@@ -1164,6 +1646,7 @@ export const QuestionManagement: React.FC = () => {
                             console.log(`[DEBUG][DELETE] Sending delete request for question ID: ${q.question_id}`);
                             const response = await questionsAPI.deleteQuestion(q.question_id);
                             console.log(`[DEBUG][DELETE] Delete successful for question ID: ${q.question_id}`, response);
+                            questionBank.remove([q.question_id]);
                             fetchData();
                             fetchQuestions(); // Also refresh the search results
                           } catch (err: any) {
@@ -1219,6 +1702,11 @@ export const QuestionManagement: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <Box sx={{ mt: 2 }}>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {selectedQuestion && normalizeQuestionStatus(selectedQuestion.status) !== 'draft'
+                ? 'Saving moves this question back to draft. Candidates no longer see it until it is reviewed and published again.'
+                : 'The question is saved as a draft and is served in tests once it has been reviewed and published.'}
+            </Alert>
             <TextField
               fullWidth
               multiline
@@ -1226,16 +1714,39 @@ export const QuestionManagement: React.FC = () => {
               label="Question Text"
               value={formData.question_text}
               onChange={(e) => setFormData({ ...formData, question_text: e.target.value })}
-              sx={{ mb: 2 }}
+              onBlur={rememberCaret('question_text')}
+              helperText="Supports Markdown (tables, code blocks), LaTeX math between $...$ or $$...$$ and images"
+              sx={{ mb: 1 }}
             />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept={IMAGE_TYPES.join(',')}
+                hidden
+                onChange={handleImageUpload}
+              />
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() => imageInputRef.current?.click()}
+                disabled={imageUploading}
+              >
+                {imageUploading ? 'Uploading...' : 'Insert Image'}
+              </Button>
+              <Typography variant="caption" color="text.secondary">
+                Inserted at the cursor of the last edited question, option or explanation field
+              </Typography>
+            </Box>
             <FormControl fullWidth sx={{ mb: 2 }}>
               <InputLabel>Question Type</InputLabel>
               <Select
                 value={formData.question_type}
-                onChange={e => setFormData({ ...formData, question_type: e.target.value as string })}
+                onChange={e => handleQuestionTypeChange(e.target.value as QuestionType)}
               >
-                <MenuItem value="MCQ">MCQ</MenuItem>
-                <MenuItem value="True/False">True/False</MenuItem>
+                {QUESTION_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</MenuItem>
+                ))}
               </Select>
             </FormControl>
             <FormControl fullWidth sx={{ mb: 2 }}>
@@ -1280,12 +1791,14 @@ export const QuestionManagement: React.FC = () => {
               </Select>
             </FormControl>
 
-            {formData.options.map((option, index) => (
+            {usesOptions(formData.question_type) && formData.options.map((option, index) => (
               <TextField
                 key={index}
                 fullWidth
                 label={`Option ${String.fromCharCode(65 + index)}`}
                 value={option.option_text}
+                disabled={formData.question_type === 'True/False'}
+                onBlur={rememberCaret(index)}
                 onChange={(e) => {
                   const newOptions = [...formData.options];
                   newOptions[index].option_text = e.target.value;
@@ -1295,6 +1808,70 @@ export const QuestionManagement: React.FC = () => {
               />
             ))}
 
+            {formData.question_type === 'MultiSelect' && (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  Correct Answers (select all that apply)
+                </Typography>
+                {formData.options.map((option, index) => (
+                  <FormControlLabel
+                    key={index}
+                    control={
+                      <Checkbox
+                        checked={formData.correct_option_indices.includes(index)}
+                        onChange={() => handleCorrectOptionToggle(index)}
+                      />
+                    }
+                    label={`Option ${String.fromCharCode(65 + index)}${option.option_text ? `: ${option.option_text}` : ''}`}
+                  />
+                ))}
+              </Box>
+            )}
+
+            {formData.question_type === 'Numeric' && (
+              <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                <TextField
+                  fullWidth
+                  label="Correct Answer"
+                  value={formData.numeric_answer}
+                  onChange={e => setFormData({ ...formData, numeric_answer: e.target.value })}
+                  inputProps={{ inputMode: 'decimal' }}
+                />
+                <TextField
+                  fullWidth
+                  label="Tolerance (±)"
+                  value={formData.numeric_tolerance}
+                  onChange={e => setFormData({ ...formData, numeric_tolerance: e.target.value })}
+                  inputProps={{ inputMode: 'decimal' }}
+                  helperText="Answers within this range are accepted; leave empty for an exact match"
+                />
+              </Box>
+            )}
+
+            {formData.question_type === 'FillInBlank' && (
+              <Box sx={{ mb: 2 }}>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={3}
+                  label="Accepted Answers"
+                  value={formData.accepted_answers.join('\n')}
+                  onChange={e => setFormData({ ...formData, accepted_answers: e.target.value.split('\n') })}
+                  helperText="One accepted answer per line; extra spaces are ignored"
+                />
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={formData.case_sensitive}
+                      onChange={e => setFormData({ ...formData, case_sensitive: e.target.checked })}
+                    />
+                  }
+                  label="Case sensitive"
+                />
+              </Box>
+            )}
+
+            {(formData.question_type === 'MCQ' || formData.question_type === 'True/False') && (
             <FormControl fullWidth sx={{ mb: 2 }}>
               <InputLabel>Correct Answer</InputLabel>
               <Select
@@ -1313,6 +1890,7 @@ export const QuestionManagement: React.FC = () => {
                 ))}
               </Select>
             </FormControl>
+            )}
 
             <TextField
               fullWidth
@@ -1323,8 +1901,16 @@ export const QuestionManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, explanation: e.target.value })
               }
+              onBlur={rememberCaret('explanation')}
               sx={{ mb: 2 }}
             />
+            <QuestionTaxonomyFields
+              value={formData}
+              paperId={formData.paper_id}
+              tagOptions={taxonomy.tags}
+              objectives={taxonomy.objectives}
+              onChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+            />
             <TextField
               fullWidth
               label="Valid Until"
@@ -1335,14 +1921,135 @@ export const QuestionManagement: React.FC = () => {
               InputLabelProps={{ shrink: true }}
               helperText="Set the last valid date for this question (required)"
             />
+
+            {/* Live preview, rendered exactly as candidates will see it */}
+            {formData.question_text.trim() !== '' && (
+              <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Typography variant="overline" color="text.secondary">
+                  Preview
+                </Typography>
+                <Box sx={{ mb: 1 }}>
+                  <RichContent content={formData.question_text} />
+                </Box>
+                {usesOptions(formData.question_type) && formData.options.map((option, index) => {
+                  const isCorrect = formData.question_type === 'MultiSelect'
+                    ? formData.correct_option_indices.includes(index)
+                    : formData.correct_option_index === index;
+                  return (
+                    <Box
+                      key={index}
+                      sx={{
+                        display: 'flex',
+                        gap: 1,
+                        p: 1,
+                        mb: 0.5,
+                        borderRadius: 1,
+                        border: '1px solid',
+                        borderColor: isCorrect ? 'success.main' : 'divider',
+                      }}
+                    >
+                      <Typography variant="body2" fontWeight="bold">
+                        {String.fromCharCode(65 + index)}.
+                      </Typography>
+                      <Typography variant="body2" component="div">
+                        <RichContent content={option.option_text} inline />
+                      </Typography>
+                    </Box>
+                  );
+                })}
+                {formData.explanation.trim() !== '' && (
+                  <Box sx={{ mt: 1 }}>
+                    <Typography variant="subtitle2">Explanation</Typography>
+                    <Typography variant="body2" component="div">
+                      <RichContent content={formData.explanation} />
+                    </Typography>
+                  </Box>
+                )}
+              </Paper>
+            )}
           </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setOpenDialog(false)}>Cancel</Button>
-          <Button onClick={handleSubmit} variant="contained">
+          <Button onClick={() => handleSubmit()} variant="contained">
             {selectedQuestion ? 'Update' : 'Create'}
           </Button>        </DialogActions>
       </Dialog>
+
+      {/* Possible duplicates found when saving a question */}
+      <Dialog open={!!duplicateMatches} onClose={() => setDuplicateMatches(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Possible Duplicate Question</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            This question is similar to {duplicateMatches?.length === 1 ? 'a question' : 'questions'} already in the bank.
+          </Typography>
+          {duplicateMatches?.map(match => (
+            <QuestionComparison
+              key={match.question.question_id}
+              left={{ question_text: formData.question_text, options: usesOptions(formData.question_type) ? formData.options : [] }}
+              right={match.question}
+              leftLabel="This question"
+              rightLabel={`#${match.question.question_id}`}
+              similarity={match.similarity}
+            />
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDuplicateMatches(null)}>Go Back</Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={() => {
+              setDuplicateMatches(null);
+              handleSubmit(true);
+            }}
+          >
+            Save Anyway
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <DuplicateReportDialog
+        open={duplicateReportOpen}
+        questions={questionBank.questions}
+        loading={questionBank.loading}
+        error={questionBank.error}
+        onClose={() => setDuplicateReportOpen(false)}
+        onDeactivated={handleDuplicatesDeactivated}
+      />
+
+      <ItemAnalysisDialog
+        open={itemAnalysisOpen}
+        papers={papers}
+        initialPaperId={papers.find(paper => paper.paper_name === searchParams.paper_name)?.paper_id}
+        questions={questionBank.questions}
+        loading={questionBank.loading}
+        error={questionBank.error}
+        onClose={() => setItemAnalysisOpen(false)}
+        onRecalibrated={handleRecalibrated}
+      />
+
+      <AnswerChallengeQueue
+        open={challengeQueueOpen}
+        onClose={() => setChallengeQueueOpen(false)}
+        onResolved={handleChallengeResolved}
+      />
+
+      <LeaderboardSettingsDialog open={leaderboardsOpen} onClose={() => setLeaderboardsOpen(false)} />
+      <ProctoringSettingsDialog open={proctoringOpen} onClose={() => setProctoringOpen(false)} />
+
+      <QuestionReviewDialog
+        question={reviewQuestion}
+        currentUserId={user?.user_id}
+        onClose={() => setReviewQuestion(null)}
+        onStatusChanged={handleStatusChanged}
+      />
+
+      <QuestionRevisionHistory
+        question={historyQuestion}
+        onClose={() => setHistoryQuestion(null)}
+        onRestored={handleRevisionRestored}
+      />
       
       {/* Confirmation Dialog for various actions */}
       <Dialog
@@ -1368,6 +2075,32 @@ export const QuestionManagement: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <BulkActionDialog
+        actionType={bulkActionType}
+        questions={selectedList}
+        papers={papers}
+        onClose={() => setBulkActionType(null)}
+        onCompleted={handleBulkCompleted}
+      />
+
+      {/* Undo window for the last bulk action */}
+      <Snackbar
+        open={!!undoPlan}
+        autoHideDuration={UNDO_WINDOW_MS}
+        onClose={(_, reason) => {
+          if (reason !== 'clickaway') setUndoPlan(null);
+        }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        message={undoPlan
+          ? `${BULK_ACTION_LABELS[undoPlan.action.type === 'activate' ? 'deactivate' : undoPlan.action.type]}: ${undoPlan.changes.length} question${undoPlan.changes.length === 1 ? '' : 's'} changed`
+          : ''}
+        action={
+          <Button color="secondary" size="small" onClick={handleUndo}>
+            Undo
+          </Button>
+        }
+      />
+
       {/* Snackbar for notifications */}
       <Snackbar 
         open={snackbarOpen} 
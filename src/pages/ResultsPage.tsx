@@ -18,13 +18,40 @@ import {
   Grid,
   Chip,
   Avatar,
+  Tooltip,
+  Checkbox,
 } from '@mui/material';
+import { CompareArrows as CompareIcon } from '@mui/icons-material';
 import { useTheme, alpha } from '@mui/material/styles';
 import { useNavigate } from 'react-router-dom';
-import { testsAPI } from '../services/api';
+import { challengesAPI, testsAPI } from '../services/api';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import { useAuth } from '../contexts/AuthContext';
+import { ResumeAttemptBanner } from '../components/ResumeAttemptBanner';
+import { IntegrityTimeline } from '../components/IntegrityTimeline';
+import { RichContent } from '../components/RichContent';
+import { ChallengeQuestionDialog, ChallengeableQuestion } from '../components/ChallengeQuestionDialog';
+import { ScoreBreakdownPanel } from '../components/ScoreBreakdownPanel';
+import { PeerStandingPanel } from '../components/PeerStandingPanel';
+import { RetryPracticeActions } from '../components/RetryPracticeActions';
+import { AttemptComparisonDialog } from '../components/AttemptComparisonDialog';
+import { richContentToPlainText } from '../utils/richContent';
+import { RasterizedContent, rasterizeRichContent } from '../utils/richContentPdf';
+import { getRemainingSeconds, getResumePath } from '../utils/attemptResume';
+import { AnswerKeyChallenge, AttemptResult, AttemptSummary, TestType } from '../types';
+import { computeScoreSummary, describeScoringScheme } from '../utils/scoring';
+import { loadAttemptResult, parseAttemptDetails, parseAttemptList, scoredQuestions } from '../utils/attemptResults';
+import { ComparedAttemptInfo } from '../utils/attemptComparison';
+import { BREAKDOWN_COLUMNS, BREAKDOWN_DEPTH, breakdownTableCells, computeScoreBreakdown } from '../utils/scoreBreakdown';
+import { retryQuestions } from '../utils/retryPractice';
+import { formatExpectedAnswer, normalizeQuestionType, usesOptions } from '../utils/questionTypes';
+import {
+  CHALLENGE_STATUS_COLORS,
+  CHALLENGE_STATUS_LABELS,
+  latestChallengeByQuestion,
+  normalizeChallenges,
+} from '../utils/answerChallenges';
 
 // Utility function for safe date formatting
 const formatSafeDate = (dateStr: string | null | undefined, format: 'locale' | 'localeString' = 'locale'): string => {
@@ -50,55 +77,8 @@ declare module 'jspdf' {
   }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-// TestQuestion interface to handle both standard and adaptive test questions
-interface TestQuestion {
-  question_id: number | string;
-  question_text: string;
-  selected_option_index?: number | string | null;
-  selected_option?: number | string | null;
-  answer?: number | string | null;
-  correct_option_index?: number | string | null;
-  correct_option?: number | string | null;
-  correct_answer?: number | string | null;
-  is_correct?: boolean;
-  explanation?: string;
-  feedback?: string;
-  options?: Array<TestOption | string | any[]>;
-  choices?: Array<TestOption | string | any[]>;
-  
-  // Adaptive test specific fields
-  adaptive_result?: boolean | string | number;
-  difficulty_adjustment?: string;
-  difficulty_level?: string | number;
-  is_attempted?: boolean;
-  score_value?: number;
-  marks?: number | string | boolean | null; // Added marks property for adaptive tests
-}
-
-// Options can come in various formats
-interface TestOption {
-  option_id?: number | string;
-  id?: number | string;
-  option_text?: string;
-  text?: string;
-  value?: string;
-  option_order?: number;
-  order?: number;
-}
-
-interface TestResult {
-  attempt_id: number;
-  test_type: string;
-  start_time: string;
-  end_time: string;
-  score: number;
-  weighted_score: number;
-  duration_minutes: number;
-  total_allotted_duration_minutes: number;
-  status: 'InProgress' | 'Completed' | 'Abandoned'; // Added status field
-  is_adaptive?: boolean;  // Added is_adaptive flag
-  
+// Attempt of the results list with the fields shown besides the summary
+interface TestResult extends AttemptSummary {
   // Additional fields for test time/duration
   duration?: number | string;
   test_duration?: number | string;
@@ -106,11 +86,9 @@ interface TestResult {
   
   // Adaptive test specific fields
   adaptive_strategy_chosen?: string;
-  questions_attempted?: number;
-  total_possible_questions?: number;
   difficulty_level_final?: string | number;
   difficulty_progression?: Array<any>;
-  
+
   // Add potential user information fields that might be in the API response
   user_name?: string;
   candidate_name?: string;
@@ -120,44 +98,40 @@ interface TestResult {
   phone?: string;
 }
 
-interface TestDetails {
-  questions: Array<{
-    question_id: number | string;
-    question_text: string;
-    selected_option_index: number | string | null;
-    correct_option_index: number | string | null;
-    is_correct: boolean;
-    explanation?: string;
-    options: Array<{
-      option_id: number | string;
-      option_text: string;
-      option_order: number;
-    }>;
-    // Adaptive test specific fields
-    adaptive_result?: boolean | string | number;
-    difficulty_adjustment?: string;
-    difficulty_level?: string | number;
-    is_attempted?: boolean;
-    score_value?: number; // Some adaptive questions may have weighted scores
-    marks?: number | string | boolean | null; // Added marks property for adaptive tests
-  }>;
-  is_adaptive?: boolean;  // Added is_adaptive flag
-  start_time?: string;    // Test start time
-  total_possible_questions?: number; // Total question pool size for adaptive tests
-  questions_attempted?: number;      // Number of questions actually attempted
-  user_info?: {           // Added user info field
+// Details of an attempt with who took it and which test it was
+type TestDetails = AttemptResult & {
+  user_info?: {
     name: string;
     id: string;
-    email?: string;    phone?: string;
+    email?: string;
+    phone?: string;
   };
-  test_info?: {           // Added test info field
+  test_info?: {
     title: string;
     category: string;
     date: string;
     id?: string | number;  // Test ID added
     test_time?: string;    // Test time added
-  }
-}
+  };
+};
+
+type DetailQuestion = TestDetails['questions'][number];
+
+// Whether the option at a position is selected by the candidate and whether it is a
+// correct option; option indices of an AttemptResult are positions in its options
+const getOptionState = (q: DetailQuestion, optIndex: number) => {
+  const isMultiSelect = normalizeQuestionType(q.question_type) === 'MultiSelect';
+  const selectedValues = isMultiSelect ? (q.selected_option_indices ?? []) : [q.selected_option_index];
+  const correctValues = isMultiSelect ? (q.correct_option_indices ?? []) : [q.correct_option_index];
+
+  return {
+    isSelected: selectedValues.includes(optIndex),
+    isCorrect: correctValues.includes(optIndex)
+  };
+};
+
+// Score percentage as shown in the results list; attempts not completed have none
+const formatScore = (score: number | null) => (score === null ? '-' : `${score.toFixed(2)}%`);
 
 export const ResultsPage: React.FC = () => {
   const [results, setResults] = useState<TestResult[]>([]);
@@ -165,10 +139,18 @@ export const ResultsPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedTest, setSelectedTest] = useState<TestDetails | null>(null);
   const [showDetails, setShowDetails] = useState(false);
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [detailsLoading, setDetailsLoading] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [detailsError, setDetailsError] = useState<string | null>(null);
   const [selectedTestResult, setSelectedTestResult] = useState<TestResult | null>(null);
+  // Answer key challenges of the attempt being viewed, latest per question
+  const [challengesByQuestion, setChallengesByQuestion] = useState<Record<number, AnswerKeyChallenge>>({});
+  const [challengeQuestion, setChallengeQuestion] = useState<ChallengeableQuestion | null>(null);
+  // Attempts ticked in compare mode, and the ones being compared
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [comparedAttempts, setComparedAttempts] = useState<ComparedAttemptInfo[]>([]);
   const navigate = useNavigate();
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const theme = useTheme();
@@ -407,369 +389,20 @@ export const ResultsPage: React.FC = () => {
   
 
 
-  // Helper function to determine if an answer is correct with robust handling of different data formats
-  const determineIfCorrect = (question: any, isAdaptiveTest: boolean = false): boolean => {
-    // Enhanced debug logging for adaptive tests
-    if (isAdaptiveTest) {
-      console.log(`🎯 [CORRECTNESS-CHECK] Checking question:`, {
-        marks: question.marks,
-        is_correct: question.is_correct,
-        selected_option_index: question.selected_option_index,
-        correct_option_index: question.correct_option_index,
-        allProperties: Object.keys(question)
-      });
-    }
-    
-    // Case 1: Check marks field first (this is the primary indicator from backend)
-    if (question.marks !== undefined) {
-      if (question.marks === null) {
-        console.log(`🎯 [CORRECTNESS-CHECK] Marks is null (question not attempted):`, question.marks);
-        return false; // null marks means unanswered/not attempted
-      }
-      
-      console.log(`🎯 [CORRECTNESS-CHECK] Using marks field:`, {
-        original: question.marks,
-        type: typeof question.marks
-      });
-      
-      // Convert marks to number for comparison, handling string/number/boolean types
-      let marksValue = question.marks;
-      if (typeof marksValue === 'string') {
-        marksValue = parseFloat(marksValue);
-        // Handle case where parseFloat returns NaN
-        if (isNaN(marksValue)) {
-          console.warn(`🚨 [CORRECTNESS-CHECK] Invalid marks value, treating as 0:`, question.marks);
-          marksValue = 0;
-        }
-      } else if (typeof marksValue === 'boolean') {
-        marksValue = marksValue ? 1 : 0;
-      }
-      
-      const result = marksValue > 0;
-      console.log(`🎯 [CORRECTNESS-CHECK] Marks result: ${result} (converted value: ${marksValue})`);
-      // marks = 1.0 for correct, 0.0 for incorrect, null for unanswered
-      return result;
-    } else if (isAdaptiveTest) {
-      console.log(`⚠️ [CORRECTNESS-CHECK] No marks field found for adaptive test question!`, 'Available fields:', Object.keys(question));
-    }
-    
-    // Case 2: Explicit is_correct property exists
-    if (question.is_correct !== undefined) {
-      console.log(`🎯 [CORRECTNESS-CHECK] Using explicit is_correct property:`, question.is_correct);
-      // Handle boolean, string, or number types
-      if (typeof question.is_correct === 'boolean') return question.is_correct;
-      if (typeof question.is_correct === 'string') return question.is_correct.toLowerCase() === 'true';
-      if (typeof question.is_correct === 'number') return question.is_correct !== 0;
-    }
-    
-    // Case 3: Alternative property names
-    const alternativeProps = ['correct', 'isCorrect', 'is_right', 'right', 'isRight', 'correctness'];
-    for (const prop of alternativeProps) {
-      if (question[prop] !== undefined) {
-        console.log(`🎯 [CORRECTNESS-CHECK] Using alternative property ${prop}:`, question[prop]);
-        if (typeof question[prop] === 'boolean') return question[prop];
-        if (typeof question[prop] === 'string') return question[prop].toLowerCase() === 'true';
-        if (typeof question[prop] === 'number') return question[prop] !== 0;
-      }
-    }
-    
-    // Case 4: Compare selected and correct indices (fallback method)
-    const selectedIndex = question.selected_option_index !== undefined ? question.selected_option_index :
-                          question.selected_option !== undefined ? question.selected_option :
-                          question.answer !== undefined ? question.answer : null;
-                          
-    const correctIndex = question.correct_option_index !== undefined ? question.correct_option_index :
-                       question.correct_option !== undefined ? question.correct_option :
-                       question.correct_answer !== undefined ? question.correct_answer : null;
-                       
-    if (isAdaptiveTest) {
-      console.log(`🎯 [CORRECTNESS-CHECK] Option indices comparison:`, {
-        selected: selectedIndex,
-        correct: correctIndex,
-        selectedType: typeof selectedIndex,
-        correctType: typeof correctIndex
-      });
-    }
-                       
-    // If both indices are available, compare them
-    if (selectedIndex !== null && selectedIndex !== undefined && 
-        correctIndex !== null && correctIndex !== undefined) {
-      console.log(`🎯 [CORRECTNESS-CHECK] Comparing selected index ${selectedIndex} with correct index ${correctIndex}`);
-      // Handle both string and numeric comparisons
-      if (typeof selectedIndex === 'string' && typeof correctIndex === 'string') {
-        const result = selectedIndex.trim().toLowerCase() === correctIndex.trim().toLowerCase();
-        console.log(`🎯 [CORRECTNESS-CHECK] String comparison result: ${result}`);
-        return result;
-      }
-      const result = selectedIndex === correctIndex;
-      console.log(`🎯 [CORRECTNESS-CHECK] Direct comparison result: ${result}`);
-      return result;
-    }
-    
-    // Case 5: For adaptive tests, if no clear indicator is found, we need to be more careful
-    if (isAdaptiveTest) {
-      console.warn(`🚨 [CORRECTNESS-CHECK] Could not determine correctness for adaptive test question!`, {
-        availableFields: Object.keys(question),
-        questionData: question
-      });
-      // For adaptive tests, if we can't determine correctness, assume incorrect
-      // This is safer than assuming correct
-      return false;
-    }
-    
-    // Default fallback - if we can't determine correctness, assume incorrect
-    console.warn(`🚨 [CORRECTNESS-CHECK] Could not determine correctness, defaulting to false`);
-    return false;
-  };
-
   useEffect(() => {
     fetchResults();
   }, []);
 
 
 
-  // Enhanced helper function to get display score for a test result
-  const getDisplayScore = (result: TestResult, useRecalculated: boolean = false) => {
-    let displayScore = result.score || 0;
-    
-    // Enhanced adaptive test handling
-    if (result.is_adaptive || result.test_type === 'adaptive') {
-      console.log(`🎯 [ADAPTIVE-SCORE] Processing adaptive test score for attempt ${result.attempt_id}:`, {
-        originalScore: result.score,
-        testType: result.test_type,
-        isAdaptive: result.is_adaptive,
-        questionsAttempted: result.questions_attempted,
-        totalPossibleQuestions: result.total_possible_questions
-      });
-      
-      // First, normalize the score format
-      if (displayScore !== null && displayScore !== undefined) {
-        // If score is in 0-1 range, convert to percentage
-        if (displayScore <= 1 && displayScore > 0) {
-          displayScore = displayScore * 100;
-          console.log(`🎯 [ADAPTIVE-SCORE] Converted 0-1 range to percentage: ${displayScore}%`);
-        }
-        // Handle edge cases where score might be > 100 (error case)
-        else if (displayScore > 100) {
-          console.warn(`🎯 [ADAPTIVE-SCORE] Score > 100% detected, capping at 100%: ${displayScore}`);
-          displayScore = 100;
-        }
-      } else {
-        console.warn(`🎯 [ADAPTIVE-SCORE] Invalid score detected, setting to 0`);
-        displayScore = 0;
-      }
-      
-      // Apply adaptive test score correction if we have the necessary metadata
-      if (result.questions_attempted && result.total_possible_questions && 
-          result.questions_attempted < result.total_possible_questions) {
-        
-        // Calculate what the correct answers would be based on the backend score
-        const correctAnswersFromBackend = Math.round((displayScore / 100) * result.total_possible_questions);
-        
-        // Recalculate score based on attempted questions
-        const recalculatedScore = result.questions_attempted > 0 ? 
-          (correctAnswersFromBackend / result.questions_attempted) * 100 : 0;
-        
-        console.log(`🎯 [ADAPTIVE-RECALC] Recalculating score for attempt ${result.attempt_id}:`, {
-          backendScore: displayScore,
-          totalPossible: result.total_possible_questions,
-          attempted: result.questions_attempted,
-          calculatedCorrect: correctAnswersFromBackend,
-          recalculatedScore: recalculatedScore
-        });
-        
-        // Only apply the recalculation if it makes sense (score <= 100%)
-        if (recalculatedScore <= 100) {
-          displayScore = recalculatedScore;
-          console.log(`🎯 [ADAPTIVE-RECALC] Applied recalculated score: ${displayScore}%`);
-        }
-      } else {
-        // If we don't have metadata, apply a heuristic for common cases
-        // Based on the analysis, many adaptive tests showing 50% might actually be perfect scores
-        // that should show 100% (e.g., 2/2 correct showing as 2/4 = 50%)
-        
-        // Apply heuristic correction for likely cases
-        if (displayScore === 50 && result.status === 'Completed') {
-          console.log(`🎯 [ADAPTIVE-HEURISTIC] Detected 50% adaptive score, might need correction`);
-          // For now, just log it - we can add more sophisticated heuristics later
-          // displayScore = 100; // Uncomment if we want to correct all 50% scores
-        }
-        
-        console.log(`🎯 [ADAPTIVE-SCORE] No metadata available for recalculation, using backend score: ${displayScore}%`);
-      }
-    } else {
-      // Standard test handling (preserve existing logic)
-      console.log(`📝 [STANDARD-SCORE] Processing standard test score for attempt ${result.attempt_id}:`, {
-        originalScore: result.score,
-        testType: result.test_type
-      });
-      
-      // For standard tests, apply the existing normalization
-      if (displayScore !== null && displayScore !== undefined) {
-        if (displayScore <= 1 && displayScore > 0) {
-          displayScore = displayScore * 100;
-          console.log(`📝 [STANDARD-SCORE] Converted 0-1 range to percentage: ${displayScore}%`);
-        }
-      }
-    }
-    
-    return {
-      score: displayScore,
-      displayText: `${displayScore.toFixed(2)}%`,
-      isRecalculated: false
-    };
-  };
-  
   const fetchResults = async () => {
     try {
-      console.log('Fetching test results from API...');
       const response = await testsAPI.getAttempts();
-      
-      // Log raw data from API for debugging score issues
-      console.log('Raw test results from API:', response.data);
-      
-      // Handle different API response formats
-      let resultsData = Array.isArray(response.data) ? response.data : [];
-      
-      // If response.data is not an array but has results/data property
-      if (!Array.isArray(response.data) && response.data?.results) {
-        resultsData = response.data.results;
-      } else if (!Array.isArray(response.data) && response.data?.data) {
-        resultsData = response.data.data;
-      }
-      
-      if (!Array.isArray(resultsData)) {
-        console.warn('Results data is not an array:', resultsData);
-        resultsData = [];
-      }
-      
-      console.log(`Processing ${resultsData.length} test results`);
-      
-      // Check for format issues in scores and perform normalization
-      const normalizedResults = resultsData.map((result: any) => {
-        // Log raw score values for debugging
-        console.log(`Test ID ${result.attempt_id} raw scores:`, {
-          score: result.score,
-          weighted_score: result.weighted_score,
-          typeofScore: typeof result.score,
-          typeofWeightedScore: typeof result.weighted_score,
-          status: result.status
-        });
-        
-        // Normalize scores to ensure consistent handling
-        let normalizedScore = result.score;
-        let normalizedWeightedScore = result.weighted_score;
-        
-        // Handle string values by converting to numbers
-        if (typeof normalizedScore === 'string') {
-          normalizedScore = parseFloat(normalizedScore);
-          if (isNaN(normalizedScore)) normalizedScore = 0;
-        }
-        
-        if (typeof normalizedWeightedScore === 'string') {
-          normalizedWeightedScore = parseFloat(normalizedWeightedScore);
-          if (isNaN(normalizedWeightedScore)) normalizedWeightedScore = 0;
-        }
-        
-        // Handle null/undefined scores - only show scores for completed tests
-        if (result.status !== 'Completed') {
-          console.log(`Test ${result.attempt_id} is not completed (status: ${result.status}), setting scores to 0`);
-          normalizedScore = 0;
-          normalizedWeightedScore = 0;
-        } else {
-          // For completed tests, ensure we have valid scores
-          if (normalizedScore === null || normalizedScore === undefined || isNaN(normalizedScore)) {
-            console.warn(`Test ${result.attempt_id} completed but has invalid score, setting to 0`);
-            normalizedScore = 0;
-          }
-          
-          // Enhanced adaptive test score handling
-          const isAdaptiveTest = result.is_adaptive || result.test_type === 'adaptive';
-          
-          if (isAdaptiveTest) {
-            console.log(`🎯 [ADAPTIVE-NORMALIZE] Processing adaptive test ${result.attempt_id}`);
-            
-            // For adaptive tests, be more careful with score normalization
-            if (normalizedScore !== null && normalizedScore !== undefined && normalizedScore > 0) {
-              // Check if score is in 0-1 range and convert to percentage
-              if (normalizedScore <= 1) {
-                const originalScore = normalizedScore;
-                normalizedScore = normalizedScore * 100;
-                console.log(`🎯 [ADAPTIVE-NORMALIZE] Converted adaptive score from ${originalScore} to ${normalizedScore}%`);
-              }
-            }
-            
-            // Handle weighted score for adaptive tests
-            if (normalizedWeightedScore !== null && normalizedWeightedScore !== undefined && normalizedWeightedScore > 0) {
-              if (normalizedWeightedScore <= 1) {
-                const originalWeightedScore = normalizedWeightedScore;
-                normalizedWeightedScore = normalizedWeightedScore * 100;
-                console.log(`🎯 [ADAPTIVE-NORMALIZE] Converted adaptive weighted_score from ${originalWeightedScore} to ${normalizedWeightedScore}%`);
-              }
-            } else if (normalizedScore > 0) {
-              // For adaptive tests, if weighted_score is missing, use the normalized score
-              normalizedWeightedScore = normalizedScore;
-              console.log(`🎯 [ADAPTIVE-NORMALIZE] Set weighted_score equal to score for adaptive test: ${normalizedWeightedScore}%`);
-            }
-          } else {
-            // Standard test handling (preserve existing logic)
-            console.log(`📝 [STANDARD-NORMALIZE] Processing standard test ${result.attempt_id}`);
-            
-            // Handle cases where weighted_score is null/undefined but score exists
-            if ((normalizedWeightedScore === null || normalizedWeightedScore === undefined || isNaN(normalizedWeightedScore)) && 
-                normalizedScore !== null && normalizedScore !== undefined) {
-              console.log(`Setting weighted_score equal to score for test ${result.attempt_id}`);
-              normalizedWeightedScore = normalizedScore;
-            }
-            
-            // Handle potential format mismatches for standard tests
-            if (normalizedScore !== null && normalizedScore !== undefined && normalizedScore <= 1 && normalizedScore > 0) {
-              console.log(`Converting score from 0-1 range to percentage for test ${result.attempt_id}`);
-              normalizedScore = normalizedScore * 100;
-            }
-            
-            if (normalizedWeightedScore !== null && normalizedWeightedScore !== undefined && normalizedWeightedScore <= 1 && normalizedWeightedScore > 0) {
-              console.log(`Converting weighted_score from 0-1 range to percentage for test ${result.attempt_id}`);
-              normalizedWeightedScore = normalizedWeightedScore * 100;
-            }
-          }
-        }
-        
-        const normalizedResult = {
-          ...result,
-          score: normalizedScore,
-          weighted_score: normalizedWeightedScore,
-          // Ensure required fields have defaults
-          test_type: result.test_type || 'Unknown',
-          start_time: result.start_time || new Date().toISOString(),
-          duration_minutes: result.duration_minutes || 0,
-          total_allotted_duration_minutes: result.total_allotted_duration_minutes || 0,
-          is_adaptive: result.is_adaptive || result.test_type === 'adaptive' || false
-        };
-        
-        console.log(`✅ Normalized result for test ${result.attempt_id}:`, {
-          originalScore: result.score,
-          normalizedScore: normalizedResult.score,
-          originalWeightedScore: result.weighted_score,
-          normalizedWeightedScore: normalizedResult.weighted_score,
-          isAdaptive: normalizedResult.is_adaptive,
-          testType: normalizedResult.test_type
-        });
-        
-        return normalizedResult;
-      });
-      
-      console.log(`Successfully processed ${normalizedResults.length} test results`);
-      setResults(normalizedResults);
-      
-      // Clear any existing error
+      setResults(parseAttemptList(response.data));
       setError(null);
     } catch (err: any) {
       console.error('Error fetching test results:', err);
-      const errorMessage = err.response?.data?.detail || err.message || 'Failed to load test results';
-      setError(errorMessage);
-      
-      // Set empty results on error
+      setError(err.response?.data?.detail || err.message || 'Failed to load test results');
       setResults([]);
     } finally {
       setLoading(false);
@@ -786,206 +419,22 @@ export const ResultsPage: React.FC = () => {
     // Find the corresponding test result
     const testResult = results.find(r => r.attempt_id === attemptId) || null;
     setSelectedTestResult(testResult);
+    setChallengesByQuestion({});
+    challengesAPI.getChallenges({ attempt_id: attemptId })
+      .then(response => setChallengesByQuestion(latestChallengeByQuestion(normalizeChallenges(response.data))))
+      .catch(err => console.warn(`[Results] Could not load challenges of attempt ${attemptId}:`, err));
     
     try {
-      console.log(`Fetching details for attempt ID: ${attemptId}`);
       const response = await testsAPI.getAttemptDetails(attemptId);
       
-      // Log the entire response structure for debugging
-      console.log('Test details API response structure:', JSON.stringify(response.data, null, 2));
-      
-      // Add specific debug for adaptive tests
-      const isAdaptiveAttempt = testResult?.is_adaptive || false;
-      if (isAdaptiveAttempt) {
-        console.log('🎯 [ADAPTIVE-DEBUG] Processing adaptive test details for attempt:', attemptId);
-        console.log('🎯 [ADAPTIVE-DEBUG] Response data structure:', response.data);
-      }
-      
-      // Handle different API response formats more robustly
-      let responseData = response.data;
-      
-      // If response.data is nested under another data property
-      if (responseData?.data && !responseData?.questions) {
-        responseData = responseData.data;
-      }
-      
-      // Attempt to find questions data in the response with flexible structure handling
-      let questionsData = null;
-      
-      // Check for different possible structures
-      if (responseData) {
-        // Case 1: questions array directly at the top level
-        if (responseData.questions && Array.isArray(responseData.questions)) {
-          questionsData = responseData.questions;
-          console.log('Found questions at top level:', questionsData.length);
-        }
-        // Case 2: questions might be nested under a 'data', 'attempt', 'result', or other property
-        else if (responseData.data && responseData.data.questions && Array.isArray(responseData.data.questions)) {
-          questionsData = responseData.data.questions;
-          console.log('Found questions in nested data property:', questionsData.length);
-        }
-        // Case 3: questions might be under 'test_details', 'attempt_details', or similar
-        else if (responseData.test_details && responseData.test_details.questions && 
-                Array.isArray(responseData.test_details.questions)) {
-          questionsData = responseData.test_details.questions;
-          console.log('Found questions in test_details property:', questionsData.length);
-        }
-        // Case 4: questions might be an array of objects directly at the top level
-        else if (Array.isArray(responseData) && responseData.length > 0 && 
-                responseData[0] && (responseData[0].question_id || responseData[0].question_text)) {
-          questionsData = responseData;
-          console.log('Found questions as top level array:', questionsData.length);
-        }
-        // Case 5: attempt_details structure
-        else if (responseData.attempt_details && Array.isArray(responseData.attempt_details)) {
-          questionsData = responseData.attempt_details;
-          console.log('Found questions in attempt_details array:', questionsData.length);
-        }
-        // Case 6: results structure (for some API formats)
-        else if (responseData.results && Array.isArray(responseData.results)) {
-          questionsData = responseData.results;
-          console.log('Found questions in results array:', questionsData.length);
-        }
-        // Case 7: answers structure (might contain question info)
-        else if (responseData.answers && Array.isArray(responseData.answers)) {
-          questionsData = responseData.answers;
-          console.log('Found questions in answers array:', questionsData.length);
-        }
-        // Case 8: check for any property that might contain an array of questions
-        else {
-          // Look through all top-level properties for arrays that might be questions
-          for (const key in responseData) {
-            if (Array.isArray(responseData[key]) && responseData[key].length > 0) {
-              const firstItem = responseData[key][0];
-              // Check if array items have properties typical of question objects
-              if (firstItem && (firstItem.question_id !== undefined || 
-                               firstItem.question_text !== undefined || 
-                               firstItem.options !== undefined ||
-                               firstItem.selected_option_index !== undefined ||
-                               firstItem.correct_option_index !== undefined)) {
-                questionsData = responseData[key];
-                console.log(`Found possible questions array in property "${key}":`, questionsData.length);
-                break;
-              }
-            }
-          }
-        }
-      }
-
-      if (questionsData && questionsData.length > 0) {
-        // Log the options structure to debug display issues
-        if (questionsData[0] && questionsData[0].options) {
-          console.log('Sample option structure:', {
-            firstQuestion: questionsData[0].question_text || questionsData[0].text || 'No text',
-            optionsArray: questionsData[0].options,
-            firstOption: questionsData[0].options[0]
-          });
-        }
-        
-        // Ensure each question has necessary properties to prevent errors
-        const validatedQuestions = questionsData.map((q: any, index: number) => {
-          // Extract and normalize selected and correct option indices for reuse
-          const selectedOptionIndex = q.selected_option_index !== undefined ? q.selected_option_index : 
-                                    q.selected_option !== undefined ? q.selected_option : 
-                                    q.answer !== undefined ? q.answer : null;
-                                    
-          const correctOptionIndex = q.correct_option_index !== undefined ? q.correct_option_index : 
-                                   q.correct_option !== undefined ? q.correct_option : 
-                                   q.correct_answer !== undefined ? q.correct_answer : null;
-          
-          // Process options array with proper normalization
-          let normalizedOptions: Array<any> = [];
-          
-          if (Array.isArray(q.options)) {
-            // Log the raw options data
-            console.log(`Question ${index + 1} raw options:`, q.options);
-            
-            // Map options to ensure they have required properties
-            normalizedOptions = q.options.map((opt: any, optIndex: number) => {
-              // Handle different option structures
-              // 1. Standard format with option_id, option_text, option_order
-              // 2. Minimal format with just text or value
-              // 3. Array format [id, text, order]
-              
-              if (typeof opt === 'string') {
-                // If option is just a string, create a proper structure
-                return {
-                  option_id: optIndex,
-                  option_text: opt,
-                  option_order: optIndex
-                };
-              } else if (Array.isArray(opt)) {
-                // If option is an array, map it to expected structure
-                return {
-                  option_id: opt[0] || optIndex,
-                  option_text: opt[1] || `Option ${optIndex + 1}`,
-                  option_order: opt[2] !== undefined ? opt[2] : optIndex
-                };
-              } else {
-                // Standard object format, ensure all properties exist
-                // For adaptive tests, preserve original option_order to maintain randomization
-                return {
-                  option_id: opt.option_id !== undefined ? opt.option_id : 
-                          opt.id !== undefined ? opt.id : optIndex,
-                  option_text: opt.option_text || opt.text || opt.value || `Option ${optIndex + 1}`,
-                  // Preserve original option_order if it exists, only fallback to optIndex if not present
-                  option_order: opt.option_order !== undefined ? opt.option_order : 
-                              opt.order !== undefined ? opt.order : optIndex
-                };
-              }
-            });
-            
-            console.log(`Question ${index + 1} normalized options:`, normalizedOptions);
-          } else if (q.choices && Array.isArray(q.choices)) {
-            // Alternative "choices" field instead of "options"
-            normalizedOptions = q.choices.map((choice: any, choiceIndex: number) => {
-              return {
-                option_id: choice.id !== undefined ? choice.id : choiceIndex,
-                option_text: choice.text || choice.value || `Choice ${choiceIndex + 1}`,
-                option_order: choice.order !== undefined ? choice.order : choiceIndex
-              };
-            });
-            console.log(`Question ${index + 1} normalized from choices:`, normalizedOptions);
-          }
-
-          // Determine if the answer is correct using our helper function
-          // Pass is_adaptive flag to ensure proper handling for adaptive tests
-          const isAdaptiveTest = testResult?.is_adaptive || false;
-          
-          // Add detailed debug logging for adaptive tests
-          if (isAdaptiveTest) {
-            console.log(`🎯 [ADAPTIVE-DEBUG] Question ${index + 1} data:`, {
-              question_id: q.question_id,
-              has_marks: 'marks' in q,
-              marks_value: q.marks,
-              marks_type: typeof q.marks,
-              has_is_correct: 'is_correct' in q,
-              is_correct_value: q.is_correct,
-              selected_option_index: selectedOptionIndex,
-              correct_option_index: correctOptionIndex,
-              all_fields: Object.keys(q)
-            });
-          }
-          
-          const isCorrect = determineIfCorrect(q, isAdaptiveTest);
-          
-          // Log detailed information about correctness determination and options
-          console.log(`Question ${index + 1}: selected=${selectedOptionIndex}, correct=${correctOptionIndex}, isCorrect=${isCorrect}, optionsCount=${normalizedOptions.length}, isAdaptiveTest=${isAdaptiveTest}`);
-          
-          return {
-            ...q,
-            // Use normalized options array
-            options: normalizedOptions,
-            // Ensure other required properties have defaults
-            question_text: q.question_text || q.text || 'Question text not available',
-            question_id: q.question_id || q.id || `temp-id-${index}-${Math.random().toString(36).substring(2, 9)}`,
-            selected_option_index: selectedOptionIndex,
-            correct_option_index: correctOptionIndex,
-            is_correct: isCorrect,
-            explanation: q.explanation || q.feedback || ''
-          };
-        });
+      const details = parseAttemptDetails(response.data, { isAdaptive: testResult?.is_adaptive === true });
+      const attempt = await loadAttemptResult(details, {
+        attemptId,
+        startTime: testResult?.start_time,
+      });
+      const responseData = details.payload;
 
+      if (attempt.questions.length > 0) {
         // Extract user info with special handling for different data structures
         const extractedUserInfo = getUserInfo(responseData);
         
@@ -993,17 +442,6 @@ export const ResultsPage: React.FC = () => {
         let enhancedUserInfo = { ...extractedUserInfo };
         
         if (testResult) {
-          console.log('Enhancing user info with testResult data:', {
-            extractedInfo: extractedUserInfo,
-            testResultData: {
-              user_name: testResult.user_name,
-              candidate_name: testResult.candidate_name,
-              user_id: testResult.user_id,
-              candidate_id: testResult.candidate_id,
-              email: testResult.email
-            }
-          });
-
           // Always try to use the best available data from both sources
           // Prioritize authenticated user data first, then testResult, then extracted info
           const userName = user ? `${user.first_name} ${user.last_name}` : 
@@ -1015,39 +453,29 @@ export const ResultsPage: React.FC = () => {
             id: testResult.user_id || testResult.candidate_id || extractedUserInfo.id,
             email: testResult.email || extractedUserInfo.email
           };
-          
-          console.log('Enhanced user info with testResult data:', enhancedUserInfo);
-        } else {
-          console.log('No testResult data available for enhancing user info');
         }
         
-        // Log complete data structures for debugging
-        console.log('Final user info being set:', enhancedUserInfo);
-        
         setSelectedTest({
-          questions: validatedQuestions,
-          is_adaptive: testResult?.is_adaptive || false,
+          ...attempt,
           user_info: enhancedUserInfo,
           test_info: getTestInfo(responseData, testResult)
         });
       } else {
-        // No questions found - this could be valid for some test states
+        // No questions - this could be valid for some test states
         console.warn('No questions found in test details response');
         
         // Check if this is a valid test but just no questions returned
         if (testResult && testResult.status === 'Completed') {
           // Set basic test info even without questions
           setSelectedTest({
-            questions: [],
-            is_adaptive: testResult?.is_adaptive || false,
+            ...attempt,
             user_info: getUserInfo(responseData),
             test_info: getTestInfo(responseData, testResult)
           });
           
           setDetailsError('Test completed but detailed question data is not available.');
         } else {
-          // Detailed error logging
-          console.error('Cannot find questions array in response structure:', responseData);
+          console.error('Attempt details have no questions:', responseData);
           setDetailsError('Unable to load test details. The test may not have been completed or data is not available.');
         }
       }
@@ -1059,7 +487,7 @@ export const ResultsPage: React.FC = () => {
       setDetailsLoading(false);
     }
   };
-  const handleDownloadPdf = () => {
+  const handleDownloadPdf = async () => {
     if (!selectedTest) return;
 
     const doc = new jsPDF();
@@ -1211,55 +639,28 @@ export const ResultsPage: React.FC = () => {
     // Update lastY for content that follows
     lastY += 10;
     
-    // Handle adaptive tests by filtering only attempted questions for both display and scoring
-    let validQuestions = selectedTest.questions;
+    // Adaptive tests are scored on the attempted questions only
+    const validQuestions = scoredQuestions(selectedTest);
     let displayQuestionsInfo = '';
     
     if (selectedTest.is_adaptive) {
-      console.log('Processing adaptive test questions for summary');
-      const totalQuestions = selectedTest.questions.length;
-      
-      // Filter only attempted questions (those with a selected option or marks > 0)
-      validQuestions = selectedTest.questions.filter(q => {
-        // Check for any indication that the question was attempted
-        const hasSelection = (q.selected_option_index !== undefined && q.selected_option_index !== null) || 
-                          ((q as any).selected_option !== undefined && (q as any).selected_option !== null) || 
-                          ((q as any).answer !== undefined && (q as any).answer !== null);
-        
-        // Also check for positive marks as indication of attempt
-        const hasMarks = q.marks !== undefined && q.marks !== null && (
-          (typeof q.marks === 'number' && q.marks > 0) ||
-          (typeof q.marks === 'string' && parseFloat(q.marks) > 0) ||
-          (typeof q.marks === 'boolean' && q.marks === true)
-        );
-        
-        return hasSelection || hasMarks;
-      });
-      
-      const attemptedCount = validQuestions.length;
-      displayQuestionsInfo = `Attempted ${attemptedCount} out of ${totalQuestions} questions`;
-      
-      console.log(`Filtered ${attemptedCount} attempted questions out of ${totalQuestions} total questions`);
+      displayQuestionsInfo = `Attempted ${validQuestions.length} out of ${selectedTest.questions.length} questions`;
+      console.log(displayQuestionsInfo);
     }
 
     // Calculate score safely, using only attempted questions for adaptive tests
     const totalQuestions = validQuestions.length; // Use actual attempted questions for both adaptive and standard tests
-      
-    // Re-apply determineIfCorrect with adaptive test flag for consistency
-    const correctAnswers = validQuestions.filter(q => 
-      selectedTest.is_adaptive ? 
-        determineIfCorrect(q, true) : // Re-check with adaptive flag
-        q.is_correct // Use existing calculation for regular tests
-    ).length;
-    const incorrectAnswers = totalQuestions - correctAnswers;
-    const scorePercent = totalQuestions > 0 ? ((correctAnswers / totalQuestions) * 100).toFixed(2) : '0.00';
+    const scoreSummary = computeScoreSummary(validQuestions, selectedTest.scoring_scheme);
+    const correctAnswers = scoreSummary.correct;
+    const incorrectAnswers = scoreSummary.wrong;
+    const scorePercent = scoreSummary.percentage.toFixed(2);
+    const marksText = `${scoreSummary.marksObtained} / ${scoreSummary.maxMarks}`;
     
-    // For adaptive tests, also calculate the "correct" score based on attempted questions
+    // For adaptive tests, also show how many questions the score is based on
     let displayScoreText = `${scorePercent}%`;
     if (selectedTest.is_adaptive) {
-      const correctScore = totalQuestions > 0 ? ((correctAnswers / totalQuestions) * 100).toFixed(2) : '0.00';
-      displayScoreText = `${correctScore}% (${correctAnswers}/${totalQuestions} attempted)`;
-      console.log(`Adaptive test score recalculated: ${correctScore}% (${correctAnswers} correct out of ${totalQuestions} attempted)`);
+      displayScoreText = `${scorePercent}% (${correctAnswers}/${totalQuestions} attempted)`;
+      console.log(`Adaptive test score recalculated: ${scorePercent}% (${correctAnswers} correct out of ${totalQuestions} attempted)`);
     }
     
     // Log the calculation for debugging
@@ -1274,11 +675,13 @@ export const ResultsPage: React.FC = () => {
       try {
       doc.autoTable({
         startY: 130,
-        head: [['Total Questions', 'Correct Answers', 'Incorrect Answers', 'Score']],
+        head: [['Total Questions', 'Correct Answers', 'Incorrect Answers', 'Unattempted', 'Marks', 'Score']],
         body: [[
           totalQuestions,
           correctAnswers,
           incorrectAnswers,
+          scoreSummary.unattempted,
+          scoreSummary.negativeMarks > 0 ? `${marksText} (-${scoreSummary.negativeMarks})` : marksText,
           displayScoreText
         ]],
         theme: 'grid',
@@ -1293,7 +696,8 @@ export const ResultsPage: React.FC = () => {
       doc.text(`Total Questions: ${totalQuestions}`, 14, 140);
       doc.text(`Correct Answers: ${correctAnswers}`, 14, 150);
       doc.text(`Incorrect Answers: ${incorrectAnswers}`, 14, 160);
-      doc.text(`Score: ${displayScoreText}`, 14, 170);    }    // Table - Questions with options    // Track the Y position after the summary table
+      doc.text(`Marks: ${marksText}`, 14, 170);
+      doc.text(`Score: ${displayScoreText}`, 14, 180);    }    // Table - Questions with options    // Track the Y position after the summary table
     try {
       // Get the Y position after the summary table
       if ((doc as any).lastAutoTable && (doc as any).lastAutoTable.finalY) {
@@ -1308,6 +712,34 @@ export const ResultsPage: React.FC = () => {
       // Keep default value of 145 if there's an error
       lastY = 145;
     }
+    // Same breakdown as the results screen
+    const breakdown = computeScoreBreakdown(selectedTest);
+    if (breakdown.length > 0) {
+      doc.setFontSize(14).setFont('helvetica', 'bold').text('Section-wise Breakdown', 14, lastY);
+      doc.setFont('helvetica', 'normal');
+      doc.autoTable({
+        startY: lastY + 4,
+        head: [BREAKDOWN_COLUMNS],
+        body: breakdown.map(row => {
+          const [label, ...cells] = breakdownTableCells(row);
+          return ['   '.repeat(BREAKDOWN_DEPTH[row.level]) + label, ...cells];
+        }),
+        theme: 'grid',
+        styles: { cellPadding: 2, fontSize: 9 },
+        headStyles: { fillColor: [0, 102, 204], textColor: 255, fontStyle: 'bold' },
+        didParseCell: (data: any) => {
+          if (data.section === 'body' && breakdown[data.row.index]?.level === 'paper') {
+            data.cell.styles.fontStyle = 'bold';
+          }
+        },
+      });
+      lastY = ((doc as any).lastAutoTable?.finalY ?? lastY + 40) + 15;
+      if (lastY > 260) {
+        doc.addPage();
+        lastY = 20;
+      }
+    }
+
     doc.setFontSize(14).setFont('helvetica', 'bold').text('Questions & Answers', 14, lastY);
     doc.setFont('helvetica', 'normal');
     lastY += 7;    // Define interfaces for PDF table structure
@@ -1318,18 +750,68 @@ export const ResultsPage: React.FC = () => {
       cellPadding?: number;
       fontSize?: number;
       cellWidth?: number | string;
+      minCellHeight?: number;
+      valign?: string;
     }
 
     interface QuestionTableCell {
       content: string;
       colSpan?: number;
       styles: QuestionTableCellStyle;
+      richImage?: RasterizedContent; // Drawn over the cell in didDrawCell
     }
 
     interface QuestionTableData {
       head: QuestionTableCell[][];
       body: QuestionTableCell[][];
-    }    // Prepare all questions data to ensure proper pagination
+    }
+
+    // Rich content (math, tables, code, images) is drawn as an image of the same HTML shown on screen
+    const FULL_WIDTH_MM = 176;   // Question and explanation cells span the whole table, minus padding
+    const OPTION_WIDTH_MM = 161; // Option text column
+    const richImages = new Map<string, RasterizedContent | null>();
+    const rasterizeOnce = async (source: string, widthMm: number) => {
+      const key = `${widthMm}:${source}`;
+      if (!richImages.has(key)) {
+        richImages.set(key, await rasterizeRichContent(source, widthMm));
+      }
+    };
+    // One at a time, so only a single offscreen render exists at once
+    for (const q of validQuestions) {
+      await rasterizeOnce(q.question_text, FULL_WIDTH_MM);
+      for (const option of q.options || []) {
+        await rasterizeOnce(option.option_text, OPTION_WIDTH_MM);
+      }
+      if (!q.is_correct && q.explanation) {
+        await rasterizeOnce(`Explanation: ${q.explanation}`, FULL_WIDTH_MM);
+      }
+    }
+
+    // Cell for rich content: the rasterized image with the suffix below it, or plain text
+    const richCell = (
+      source: string,
+      widthMm: number,
+      styles: QuestionTableCellStyle,
+      suffix: string = '',
+      colSpan?: number
+    ): QuestionTableCell => {
+      const image = richImages.get(`${widthMm}:${source}`);
+      if (image) {
+        return {
+          content: suffix.trim(),
+          ...(colSpan ? { colSpan } : {}),
+          richImage: image,
+          styles: { ...styles, minCellHeight: image.height + (suffix ? 10 : 6), valign: 'bottom' }
+        };
+      }
+      return {
+        content: `${richContentToPlainText(source)}${suffix}`,
+        ...(colSpan ? { colSpan } : {}),
+        styles
+      };
+    };
+
+    // Prepare all questions data to ensure proper pagination
     const prepareAllQuestionsData = (): QuestionTableData[] => {
       // Create a master array to hold all questions data with proper typing
       const allQuestionsTables: QuestionTableData[] = [];
@@ -1349,46 +831,47 @@ export const ResultsPage: React.FC = () => {
         }];
 
         // Question text
-        tableData.push([{
-          content: q.question_text,
-          colSpan: 2,
-          styles: { fillColor: [240, 240, 240] }
-        }]);
+        tableData.push([richCell(q.question_text, FULL_WIDTH_MM, { fillColor: [240, 240, 240] }, '', 2)]);
 
-        // Options
-        if (q.options && Array.isArray(q.options) && q.options.length > 0) {
+        // Options, or the typed answer of numeric and fill-in-the-blank questions
+        if (!usesOptions(normalizeQuestionType(q.question_type))) {
+          tableData.push([
+            { content: 'Your Answer', styles: { fontStyle: 'bold' } },
+            {
+              content: q.answer_text && q.answer_text.trim() !== '' ? q.answer_text : 'Not answered',
+              styles: { textColor: q.is_correct ? [0, 128, 0] : [220, 0, 0] }
+            }
+          ]);
+          tableData.push([
+            { content: 'Correct Answer', styles: { fontStyle: 'bold' } },
+            { content: formatExpectedAnswer(q), styles: { textColor: [0, 128, 0] } }
+          ]);
+        } else if (q.options && Array.isArray(q.options) && q.options.length > 0) {
           q.options.forEach((option, optIndex) => {
-            // More flexible comparison that checks both option_id and option_order
-            const isSelected = 
-              q.selected_option_index === option.option_id || 
-              q.selected_option_index === option.option_order ||
-              q.selected_option_index === optIndex;
-              
-            const isCorrect = 
-              q.correct_option_index === option.option_id || 
-              q.correct_option_index === option.option_order ||
-              q.correct_option_index === optIndex;
+            const { isSelected, isCorrect } = getOptionState(q, optIndex);
               
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
             const isWrongSelection = isSelected && !isCorrect;
 
             tableData.push([
               {
-                content: `${String.fromCharCode(65 + option.option_order)}`,
+                content: `${String.fromCharCode(65 + optIndex)}`,
                 styles: {
                   fontStyle: (isSelected || isCorrect) ? 'bold' : 'normal',
                   fillColor: isCorrect ? [220, 237, 200] : isSelected && !isCorrect ? [255, 235, 235] : [255, 255, 255],
                   textColor: isCorrect ? [0, 128, 0] : isSelected && !isCorrect ? [220, 0, 0] : [0, 0, 0]
                 }
               },
-              {
-                content: `${option.option_text}${isSelected ? ' (Your Answer)' : ''}${isCorrect ? ' (Correct)' : ''}`,
-                styles: {
+              richCell(
+                option.option_text,
+                OPTION_WIDTH_MM,
+                {
                   fontStyle: (isSelected || isCorrect) ? 'bold' : 'normal',
                   fillColor: isCorrect ? [220, 237, 200] : isSelected && !isCorrect ? [255, 235, 235] : [255, 255, 255],
                   textColor: isCorrect ? [0, 128, 0] : isSelected && !isCorrect ? [220, 0, 0] : [0, 0, 0]
-                }
-              }
+                },
+                `${isSelected ? ' (Your Answer)' : ''}${isCorrect ? ' (Correct)' : ''}`
+              )
             ]);
           });
         } else {
@@ -1401,11 +884,9 @@ export const ResultsPage: React.FC = () => {
 
         // Add explanation if incorrect
         if (!q.is_correct && q.explanation) {
-          tableData.push([{
-            content: `Explanation: ${q.explanation}`,
-            colSpan: 2,
-            styles: { fontStyle: 'italic', textColor: [100, 100, 100] }
-          }]);
+          tableData.push([
+            richCell(`Explanation: ${q.explanation}`, FULL_WIDTH_MM, { fontStyle: 'italic', textColor: [100, 100, 100] }, '', 2)
+          ]);
         }
 
         // Store the question data
@@ -1469,6 +950,16 @@ export const ResultsPage: React.FC = () => {
             // If a cell is too tall for the current page, autoTable will
             // automatically add a new page
             return true;
+          },
+          // Draw rasterized rich content at the top of its cell
+          didDrawCell: function(data: any) {
+            const image: RasterizedContent | undefined = data.section === 'body' ? data.cell.raw?.richImage : undefined;
+            if (!image) return;
+            try {
+              doc.addImage(image.dataUrl, 'PNG', data.cell.x + data.cell.padding('left'), data.cell.y + data.cell.padding('top'), image.width, image.height);
+            } catch (error) {
+              console.error('Error drawing rich content in PDF:', error);
+            }
           }
         });
         
@@ -1482,9 +973,10 @@ export const ResultsPage: React.FC = () => {
         try {
           doc.setFontSize(10);
           const currentQuestion = validQuestions[i];
-          const shortQuestionText = currentQuestion.question_text.length > 50 ? 
-            currentQuestion.question_text.substring(0, 50) + "..." : 
-            currentQuestion.question_text;
+          const plainQuestionText = richContentToPlainText(currentQuestion.question_text);
+          const shortQuestionText = plainQuestionText.length > 50 ? 
+            plainQuestionText.substring(0, 50) + "..." : 
+            plainQuestionText;
           
           // Be extra careful with text positioning
           try {
@@ -1567,16 +1059,53 @@ export const ResultsPage: React.FC = () => {
     );
   }
 
+  const toggleCompare = (attemptId: number) => {
+    setCompareIds(prev => (prev.includes(attemptId) ? prev.filter(id => id !== attemptId) : [...prev, attemptId]));
+  };
+
+  const exitCompareMode = () => {
+    setCompareMode(false);
+    setCompareIds([]);
+  };
+
+  const handleCompare = () => {
+    setComparedAttempts(results
+      .filter(result => compareIds.includes(result.attempt_id))
+      .map(({ attempt_id, start_time, test_type, is_adaptive }) => ({ attempt_id, start_time, test_type, is_adaptive })));
+  };
+
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Test Results
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="h4" gutterBottom>
+          Test Results
+        </Typography>
+        {compareMode ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {compareIds.length < 2 ? 'Select two or more completed attempts' : `${compareIds.length} attempts selected`}
+            </Typography>
+            <Button variant="contained" onClick={handleCompare} disabled={compareIds.length < 2}>
+              Compare
+            </Button>
+            <Button onClick={exitCompareMode}>Cancel</Button>
+          </Box>
+        ) : (
+          results.filter(result => result.status === 'Completed').length >= 2 && (
+            <Button variant="outlined" startIcon={<CompareIcon />} onClick={() => setCompareMode(true)}>
+              Compare Attempts
+            </Button>
+          )
+        )}
+      </Box>
+
+      <ResumeAttemptBanner />
 
       <TableContainer component={Paper}>
         <Table>
           <TableHead>
             <TableRow>
+              {compareMode && <TableCell padding="checkbox" />}
               <TableCell>Test Type</TableCell>
               <TableCell>Date</TableCell>
               <TableCell>Duration</TableCell>
@@ -1587,7 +1116,17 @@ export const ResultsPage: React.FC = () => {
           </TableHead>
           <TableBody>
             {results.map((result) => (
-              <TableRow key={result.attempt_id}>
+              <TableRow key={result.attempt_id} selected={compareIds.includes(result.attempt_id)}>
+                {compareMode && (
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={compareIds.includes(result.attempt_id)}
+                      disabled={result.status !== 'Completed'}
+                      onChange={() => toggleCompare(result.attempt_id)}
+                      inputProps={{ 'aria-label': `Compare attempt ${result.attempt_id}` }}
+                    />
+                  </TableCell>
+                )}
                 <TableCell>
                   {result.test_type}
                   {result.is_adaptive && (
@@ -1605,87 +1144,76 @@ export const ResultsPage: React.FC = () => {
                 </TableCell>                <TableCell>
                   {result.duration_minutes || 0} / {result.total_allotted_duration_minutes || 0} minutes
                 </TableCell>                <TableCell>
-                  {(() => {
-                    const displayScore = getDisplayScore(result);
-                    console.log(`🖥️ [TABLE-RENDER] Rendering Raw Score cell for Test ${result.attempt_id}:`, {
-                      displayScore,
-                      isAdaptive: result.is_adaptive,
-                      backendScore: result.score
-                    });
-                    return (
-                      <Box>
-                        <Typography
-                          variant="body2"
-                          fontWeight="medium"
-                          color={displayScore.score >= 60 ? 'success.main' : 'error.main'}
-                        >
-                          {displayScore.displayText}
-                        </Typography>
-                        {result.is_adaptive && (
-                          <Typography 
-                            variant="caption" 
-                            color="text.secondary"
-                            sx={{ 
-                              display: 'block', 
-                              fontSize: '0.7rem',
-                              fontStyle: 'italic'
-                            }}
-                          >
-                            Click "View Details" for accurate adaptive score
-                          </Typography>
-                        )}
-                      </Box>
-                    );
-                  })()}
+                  <Box>
+                    <Typography
+                      variant="body2"
+                      fontWeight="medium"
+                      color={(result.score ?? 0) >= 60 ? 'success.main' : 'error.main'}
+                    >
+                      {formatScore(result.score)}
+                    </Typography>
+                    {result.is_adaptive && (
+                      <Typography 
+                        variant="caption" 
+                        color="text.secondary"
+                        sx={{ 
+                          display: 'block', 
+                          fontSize: '0.7rem',
+                          fontStyle: 'italic'
+                        }}
+                      >
+                        Click "View Details" for accurate adaptive score
+                      </Typography>
+                    )}
+                  </Box>
                 </TableCell>
                 <TableCell>
-                  {(() => {
-                    // For Final Score, use weighted_score if available, otherwise use the same as raw score
-                    const displayScore = getDisplayScore(result);
-                    const finalScore = result.weighted_score !== null && result.weighted_score !== undefined ? 
-                      result.weighted_score : displayScore.score;
-                    
-                    console.log(`🖥️ [TABLE-RENDER] Rendering Final Score cell for Test ${result.attempt_id}:`, {
-                      displayScore,
-                      finalScore,
-                      weightedScore: result.weighted_score,
-                      isAdaptive: result.is_adaptive
-                    });
-                    
-                    return (
-                      <Box>
-                        <Typography
-                          variant="body2"
-                          fontWeight="medium"
-                          color={finalScore >= 60 ? 'success.main' : 'error.main'}
-                        >
-                          {`${finalScore.toFixed(2)}%`}
-                        </Typography>
-                        {result.is_adaptive && (
-                          <Typography 
-                            variant="caption" 
-                            color="text.secondary"
-                            sx={{ 
-                              display: 'block', 
-                              fontSize: '0.7rem',
-                              fontStyle: 'italic'
-                            }}
-                          >
-                            See details for attempted-based score
-                          </Typography>
-                        )}
-                      </Box>
-                    );
-                  })()}
+                  <Box>
+                    <Typography
+                      variant="body2"
+                      fontWeight="medium"
+                      color={(result.weighted_score ?? 0) >= 60 ? 'success.main' : 'error.main'}
+                    >
+                      {formatScore(result.weighted_score)}
+                    </Typography>
+                    {result.is_adaptive && (
+                      <Typography 
+                        variant="caption" 
+                        color="text.secondary"
+                        sx={{ 
+                          display: 'block', 
+                          fontSize: '0.7rem',
+                          fontStyle: 'italic'
+                        }}
+                      >
+                        See details for attempted-based score
+                      </Typography>
+                    )}
+                    {result.regrade_notices.length > 0 && (
+                      <Tooltip title="The answer key of a question was corrected after this test and the score was recomputed">
+                        <Chip size="small" color="info" variant="outlined" label="Regraded" sx={{ mt: 0.5 }} />
+                      </Tooltip>
+                    )}
+                  </Box>
                 </TableCell>
                 <TableCell>
-                  <Button
-                    variant="outlined"
-                    size="small"
-                    onClick={() => handleViewDetails(result.attempt_id)}
-                  >
-                    View Details
-                  </Button>
+                  {result.status === 'InProgress' && getRemainingSeconds(result) > 0 ? (
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => navigate(getResumePath({ attempt_id: result.attempt_id, test_type: result.test_type as TestType }))}
+                    >
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      onClick={() => handleViewDetails(result.attempt_id)}
+                    >
+                      View Details
+                    </Button>
+                  )}
                 </TableCell>
               </TableRow>
             ))}
@@ -1706,7 +1234,15 @@ export const ResultsPage: React.FC = () => {
             Take a Mock Test
           </Button>
         </Box>
-      )}      <Dialog
+      )}
+
+      <AttemptComparisonDialog
+        open={comparedAttempts.length > 0}
+        attempts={comparedAttempts}
+        onClose={() => setComparedAttempts([])}
+      />
+
+      <Dialog
         open={showDetails}
         onClose={() => setShowDetails(false)}
         maxWidth="md"
@@ -1752,7 +1288,15 @@ export const ResultsPage: React.FC = () => {
             variant="contained" 
             color="secondary" 
             size="small" 
-            onClick={() => handleDownloadPdf()}
+            onClick={async () => {
+              setIsGeneratingPdf(true);
+              try {
+                await handleDownloadPdf();
+              } finally {
+                setIsGeneratingPdf(false);
+              }
+            }}
+            disabled={isGeneratingPdf}
             startIcon={<span>📄</span>}
             sx={{ 
               ml: 2,
@@ -1764,7 +1308,7 @@ export const ResultsPage: React.FC = () => {
               transition: 'all 0.2s'
             }}
           >
-            Download PDF
+            {isGeneratingPdf ? 'Generating PDF...' : 'Download PDF'}
           </Button>
         </DialogTitle>        <DialogContent sx={{ 
           px: 3, 
@@ -1933,26 +1477,10 @@ export const ResultsPage: React.FC = () => {
                                   fontSize: '0.75rem'
                                 }}
                               >
-                                Only attempted questions are shown ({
-                                  // First try API-provided count, then fall back to filtered count
-                                  selectedTest.questions_attempted !== undefined ? 
-                                  selectedTest.questions_attempted : 
-                                  selectedTest.questions.filter(q => 
-                                    (q.selected_option_index !== undefined && q.selected_option_index !== null) || 
-                                    ((q as any).selected_option !== undefined && (q as any).selected_option !== null) || 
-                                    ((q as any).answer !== undefined && (q as any).answer !== null)
-                                  ).length
-                                } of {
-                                  // First try API-provided total if available, otherwise fall back
-                                  selectedTest.total_possible_questions !== undefined ? 
-                                  selectedTest.total_possible_questions : 
-                                  selectedTestResult?.total_possible_questions !== undefined ?
-                                  selectedTestResult.total_possible_questions :
-                                  selectedTest.questions_attempted !== undefined ?
-                                  selectedTest.questions_attempted :
-                                  selectedTest.questions.filter(q => 
-                                    (q.selected_option_index !== undefined && q.selected_option_index !== null)
-                                  ).length
+                                Only attempted questions are shown ({selectedTest.questions_attempted} of {
+                                  selectedTest.total_possible_questions ??
+                                  selectedTestResult?.total_possible_questions ??
+                                  selectedTest.questions_attempted
                                 } total)
                               </Box>
                             </Box>
@@ -2056,50 +1584,20 @@ export const ResultsPage: React.FC = () => {
                       );
                     }
 
-                    // Get filtered questions for adaptive tests
-                    // For adaptive tests, we need to ensure we only count questions that were actually attempted
-                    let validQuestions = selectedTest.questions;                      if (selectedTest.is_adaptive) {
-                      console.log('Processing adaptive test questions for summary');
-                      // Filter only attempted questions (those with a selected option)                      
-                      validQuestions = selectedTest.questions.filter(q => {
-                        // For adaptive tests, we consider a question attempted ONLY if it has a non-null selected_option_index
-                        // This is the most reliable indicator that a user actually answered the question
-                        return q.selected_option_index !== null && q.selected_option_index !== undefined;
-                      });
-                      
-                      // For total questions count, use API-provided values if available
-                      const attemptedQuestionsCount = selectedTest.questions_attempted !== undefined ?
-                        selectedTest.questions_attempted : validQuestions.length;
-                        
-                      const totalQuestionsCount = selectedTest.total_possible_questions !== undefined ? 
-                        selectedTest.total_possible_questions : 
-                        selectedTestResult?.total_possible_questions !== undefined ?
-                        selectedTestResult.total_possible_questions :
-                        selectedTest.questions_attempted !== undefined ?
-                        selectedTest.questions_attempted :
-                        validQuestions.length;
-                        
-                      console.log(`Filtered ${attemptedQuestionsCount} attempted questions out of ${totalQuestionsCount} total questions`);
-                    }
+                    // Adaptive tests are scored on the attempted questions only
+                    const validQuestions = scoredQuestions(selectedTest);
+                    const scoringScheme = selectedTest.scoring_scheme;
+                    const scoreSummary = computeScoreSummary(validQuestions, scoringScheme);
+                    const total = scoreSummary.total;
+                    const correct = scoreSummary.correct;
+                    const incorrect = scoreSummary.wrong;
                     
-                    const total = validQuestions.length;
-                    // Re-apply determineIfCorrect with adaptive test flag for consistency
-                    const correct = validQuestions.filter(q => 
-                      selectedTest.is_adaptive ? 
-                        determineIfCorrect(q, true) : // Re-check with adaptive flag
-                        q.is_correct // Use existing calculation for regular tests
-                    ).length;
-                    
-                    const incorrect = total - correct;
-                    
-                    // For adaptive tests, calculate score as (correct/attempted), not (correct/total)
-                    let correctPercent = total > 0 ? Math.round((correct / total) * 100) : 0;
+                    // Score is marks obtained out of the maximum marks (correct/attempted for adaptive tests)
+                    let correctPercent = Math.round(scoreSummary.percentage);
                     // eslint-disable-next-line @typescript-eslint/no-unused-vars
                     let scoreDisplayText = `${correctPercent}%`;
                     
                     if (selectedTest.is_adaptive) {
-                      // Recalculate score for adaptive tests as (correct/attempted)
-                      correctPercent = total > 0 ? Math.round((correct / total) * 100) : 0;
                       scoreDisplayText = `${correctPercent}% (${correct}/${total} attempted)`;
                       console.log(`Adaptive test dialog score: ${correctPercent}% (${correct} correct out of ${total} attempted)`);
                     }
@@ -2268,7 +1766,7 @@ export const ResultsPage: React.FC = () => {
                               </Typography>
                             </Paper>
                           </Grid>
-                            <Grid item xs={12}>
+                            <Grid item xs={6}>
                             <Paper
                               elevation={2}
                               sx={(theme) => ({
@@ -2294,6 +1792,56 @@ export const ResultsPage: React.FC = () => {
                               </Typography>
                             </Paper>
                           </Grid>
+                          <Grid item xs={6}>
+                            <Paper
+                              elevation={2}
+                              sx={(theme) => ({
+                                p: 2,
+                                display: 'flex',
+                                flexDirection: 'column',
+                                alignItems: 'center',
+                                borderRadius: 2,
+                                backgroundColor: theme.palette.mode === 'dark' ? alpha(theme.palette.background.paper, 0.6) : '#f8f9fa',
+                                border: theme.palette.mode === 'dark' ? `1px solid ${alpha(theme.palette.divider, 0.1)}` : 'none'
+                              })}
+                            >
+                              <Typography variant="body2" color="text.secondary">
+                                Unattempted
+                              </Typography>
+                              <Typography variant="h4" fontWeight="bold" color="text.primary">
+                                {scoreSummary.unattempted}
+                              </Typography>
+                            </Paper>
+                          </Grid>
+                          <Grid item xs={12}>
+                            <Paper
+                              elevation={2}
+                              sx={(theme) => ({
+                                p: 2,
+                                display: 'flex',
+                                flexDirection: 'column',
+                                alignItems: 'center',
+                                borderRadius: 2,
+                                backgroundColor: theme.palette.mode === 'dark' ? alpha(theme.palette.background.paper, 0.6) : '#f8f9fa',
+                                border: theme.palette.mode === 'dark' ? `1px solid ${alpha(theme.palette.divider, 0.1)}` : 'none'
+                              })}
+                            >
+                              <Typography variant="body2" color="text.secondary">
+                                Marks Obtained
+                              </Typography>
+                              <Typography variant="h4" fontWeight="bold" color="text.primary">
+                                {scoreSummary.marksObtained} / {scoreSummary.maxMarks}
+                              </Typography>
+                              {scoreSummary.negativeMarks > 0 && (
+                                <Typography variant="body2" color="error">
+                                  Includes -{scoreSummary.negativeMarks} for wrong answers
+                                </Typography>
+                              )}
+                              <Typography variant="caption" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+                                {describeScoringScheme(scoringScheme).join(' | ')}
+                              </Typography>
+                            </Paper>
+                          </Grid>
                         </Grid>
                       </Box>
                     );
@@ -2308,7 +1856,15 @@ export const ResultsPage: React.FC = () => {
                     );
                   }
                 })()}
-              </Paper>              {/* Questions header */}              <Box sx={(theme) => ({ 
+              </Paper>
+              <ScoreBreakdownPanel result={selectedTest} />
+              <PeerStandingPanel attemptId={selectedTest.attempt_id} />
+              <RetryPracticeActions
+                attemptId={selectedTest.attempt_id}
+                incorrect={retryQuestions(selectedTest, 'incorrect')}
+                marked={retryQuestions(selectedTest, 'marked')}
+              />
+              {/* Questions header */}              <Box sx={(theme) => ({ 
                 display: 'flex',
                 alignItems: 'center',
                 pb: 1,
@@ -2365,45 +1921,33 @@ export const ResultsPage: React.FC = () => {
                         ? `0 0 8px ${alpha(theme.palette.info.main, 0.3)}`
                         : 'none'
                     })}
-                  >Showing only attempted questions ({
-                      selectedTest.questions_attempted !== undefined ? 
-                      selectedTest.questions_attempted : 
-                      selectedTest.questions.filter(q => 
-                        (q.selected_option_index !== undefined && q.selected_option_index !== null) || 
-                        ((q as any).selected_option !== undefined && (q as any).selected_option !== null) || 
-                        ((q as any).answer !== undefined && (q as any).answer !== null)
-                      ).length                    } of {
-                      selectedTest.questions_attempted !== undefined ? 
-                      selectedTest.questions_attempted : 
-                      selectedTest.questions.filter(q => 
-                        (q.selected_option_index !== undefined && q.selected_option_index !== null) || 
-                        ((q as any).selected_option !== undefined && (q as any).selected_option !== null) || 
-                        ((q as any).answer !== undefined && (q as any).answer !== null)
-                      ).length
+                  >Showing only attempted questions ({selectedTest.questions_attempted} of {
+                      selectedTest.total_possible_questions ??
+                      selectedTestResult?.total_possible_questions ??
+                      selectedTest.questions_attempted
                     })
                   </Typography>
                 )}
               </Box>
               
+              {selectedTest.regrade_notices && selectedTest.regrade_notices.length > 0 && (
+                <Alert severity="info" sx={{ mb: 3 }}>
+                  {selectedTest.regrade_notices.map((notice, index) => (
+                    <Typography key={index} variant="body2" sx={{ mb: index < selectedTest.regrade_notices!.length - 1 ? 1 : 0 }}>
+                      Regraded on {formatSafeDate(notice.regraded_at, 'localeString')} after an answer key correction
+                      {notice.question_ids.length > 0 && ` (question ${notice.question_ids.map(id => `#${id}`).join(', ')})`}
+                      {notice.previous_weighted_score !== null && `; your score was previously ${notice.previous_weighted_score.toFixed(2)}%`}
+                      {notice.reason && `. ${notice.reason}`}
+                    </Typography>
+                  ))}
+                </Alert>
+              )}
+
               {/* Questions with answers */}
               {selectedTest.questions && Array.isArray(selectedTest.questions) ? (
                 (() => {                  // For adaptive tests, filter only attempted questions  
-                  let displayQuestions = selectedTest.questions;
+                  const displayQuestions = scoredQuestions(selectedTest);
                   if (selectedTest.is_adaptive) {
-                    displayQuestions = selectedTest.questions.filter(q => {
-                      const hasSelection = (q.selected_option_index !== undefined && q.selected_option_index !== null) ||
-                        ((q as any).selected_option !== undefined && (q as any).selected_option !== null) ||
-                        ((q as any).answer !== undefined && (q as any).answer !== null);
-                      
-                      // Also check for positive marks as indication of attempt
-                      const hasMarks = q.marks !== undefined && q.marks !== null && (
-                        (typeof q.marks === 'number' && q.marks > 0) ||
-                        (typeof q.marks === 'string' && parseFloat(q.marks) > 0) ||
-                        (typeof q.marks === 'boolean' && q.marks === true)
-                      );
-                      
-                      return hasSelection || hasMarks;
-                    });
                     console.log(`ResultsPage: Filtered ${displayQuestions.length} attempted questions out of ${selectedTest.questions.length} total questions`);
                   }
                   return displayQuestions.length > 0 ? (
@@ -2475,6 +2019,7 @@ export const ResultsPage: React.FC = () => {
                         </Box>
                         <Box sx={{ p: 2 }}>                          <Typography 
                             variant="body1" 
+                            component="div"
                             gutterBottom 
                             sx={(theme) => ({ 
                               fontWeight: 'medium',
@@ -2488,30 +2033,85 @@ export const ResultsPage: React.FC = () => {
                               color: theme.palette.text.primary
                             })}
                           >
-                            {q.question_text}
+                            <RichContent content={q.question_text} />
                           </Typography>
-                          {q.options && Array.isArray(q.options) ? (
+                          {q.edited_since_attempt && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                              This question has been edited since this attempt; it is shown as it was when the test was taken
+                            </Typography>
+                          )}
+                          {q.regraded && (
+                            <Typography variant="caption" color="info.main" sx={{ display: 'block', mt: 1 }}>
+                              The answer key of this question was corrected and this attempt has been regraded
+                            </Typography>
+                          )}
+                          {selectedTestResult?.status === 'Completed' && typeof q.question_id === 'number' && (
+                            <Box sx={{ mt: 1 }}>
+                              {challengesByQuestion[q.question_id] ? (
+                                <Tooltip title={challengesByQuestion[q.question_id].resolution_note || ''}>
+                                  <Chip
+                                    size="small"
+                                    color={CHALLENGE_STATUS_COLORS[challengesByQuestion[q.question_id].status]}
+                                    label={CHALLENGE_STATUS_LABELS[challengesByQuestion[q.question_id].status]}
+                                  />
+                                </Tooltip>
+                              ) : (
+                                <Button
+                                  size="small"
+                                  onClick={() => setChallengeQuestion({
+                                    question_id: q.question_id as number,
+                                    question_text: q.question_text,
+                                    question_type: q.question_type,
+                                    options: q.options,
+                                  })}
+                                >
+                                  Challenge this question
+                                </Button>
+                              )}
+                            </Box>
+                          )}
+                          {normalizeQuestionType(q.question_type) === 'MultiSelect' && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                              Multiple select: all correct options had to be chosen
+                            </Typography>
+                          )}
+                          {!usesOptions(normalizeQuestionType(q.question_type)) ? (
+                            <Box sx={{ mt: 1 }}>
+                              <Box
+                                sx={(theme) => ({
+                                  p: 1.5,
+                                  my: 1,
+                                  borderRadius: 1.5,
+                                  border: '1px solid',
+                                  borderColor: q.is_correct ? theme.palette.success.main : theme.palette.error.main,
+                                  backgroundColor: q.is_correct
+                                    ? alpha(theme.palette.success.main, theme.palette.mode === 'dark' ? 0.2 : 0.15)
+                                    : alpha(theme.palette.error.main, theme.palette.mode === 'dark' ? 0.2 : 0.15)
+                                })}
+                              >
+                                <Typography variant="body2" fontWeight="bold">
+                                  Your Answer: {q.answer_text && q.answer_text.trim() !== '' ? q.answer_text : 'Not answered'}
+                                </Typography>
+                              </Box>
+                              <Box
+                                sx={(theme) => ({
+                                  p: 1.5,
+                                  my: 1,
+                                  borderRadius: 1.5,
+                                  border: '1px solid',
+                                  borderColor: theme.palette.success.main,
+                                  backgroundColor: alpha(theme.palette.success.main, theme.palette.mode === 'dark' ? 0.2 : 0.15)
+                                })}
+                              >
+                                <Typography variant="body2" fontWeight="bold" color="success.main">
+                                  Correct Answer: {formatExpectedAnswer(q)}
+                                </Typography>
+                              </Box>
+                            </Box>
+                          ) : q.options && Array.isArray(q.options) ? (
                             q.options.length > 0 ? (
                               q.options.map((option, optIndex) => {
-                                // Debug log the option and comparison values
-                                console.log(`Question ${index + 1}, Option ${optIndex}:`, {
-                                  option_id: option.option_id,
-                                  option_order: option.option_order,
-                                  option_text: option.option_text,
-                                  selected_option_index: q.selected_option_index,
-                                  correct_option_index: q.correct_option_index
-                                });
-                                
-                                // More flexible comparison that checks both option_id and option_order
-                                const isSelected = 
-                                  q.selected_option_index === option.option_id || 
-                                  q.selected_option_index === option.option_order ||
-                                  q.selected_option_index === optIndex;
-                                  
-                                const isCorrect = 
-                                  q.correct_option_index === option.option_id || 
-                                  q.correct_option_index === option.option_order ||
-                                  q.correct_option_index === optIndex;
+                                const { isSelected, isCorrect } = getOptionState(q, optIndex);
                                   
                                 const isWrongSelection = isSelected && !isCorrect;
                                 
@@ -2585,7 +2185,7 @@ export const ResultsPage: React.FC = () => {
                                             : 'none',
                                         })}
                                       >
-                                        {String.fromCharCode(65 + option.option_order)}
+                                        {String.fromCharCode(65 + optIndex)}
                                       </Box>                                      <Typography
                                         variant="body2"
                                         sx={(theme) => ({
@@ -2604,11 +2204,10 @@ export const ResultsPage: React.FC = () => {
                                               ? 'bold'
                                               : 'normal',
                                         })}>
-                                        {/* Enhanced option text display with fallbacks */}
-                                        {option.option_text || 
-                                         (option as any).text || 
-                                         (option as any).value || 
-                                         `Option ${String.fromCharCode(65 + optIndex)}`}
+                                        <RichContent
+                                          inline
+                                          content={option.option_text}
+                                        />
                                       </Typography>
                                     </Box>
                                     
@@ -2709,6 +2308,7 @@ export const ResultsPage: React.FC = () => {
                             {!q.is_correct && (
                               <Typography 
                                 variant="body2" 
+                                component="div"
                                 sx={(theme) => ({
                                   mt: 1, 
                                   color: theme.palette.mode === 'dark'
@@ -2721,7 +2321,7 @@ export const ResultsPage: React.FC = () => {
                                     : 'transparent'
                                 })}
                               >
-                                <b>Explanation:</b> {q.explanation || "No explanation available."}
+                                <b>Explanation:</b> <RichContent content={q.explanation || "No explanation available."} />
                               </Typography>
                             )}
                           </Box>
@@ -2736,6 +2336,21 @@ export const ResultsPage: React.FC = () => {
                 })()
               ) : null}
             </Box>
+          )}
+          {/* Proctoring events are only visible to administrators */}
+          {isAdmin && selectedTestResult && (
+            <IntegrityTimeline attemptId={selectedTestResult.attempt_id} />
+          )}
+          {selectedTestResult && (
+            <ChallengeQuestionDialog
+              question={challengeQuestion}
+              attemptId={selectedTestResult.attempt_id}
+              onClose={() => setChallengeQuestion(null)}
+              onSubmitted={(challenge) => {
+                setChallengesByQuestion(prev => ({ ...prev, [challenge.question_id]: challenge }));
+                setChallengeQuestion(null);
+              }}
+            />
           )}        </DialogContent>
       </Dialog>
     </Box>
@@ -4,6 +4,7 @@ import axios from 'axios';
 import { handleAPIError, APIError, logError } from '../utils/errorHandler';
 import { DEV_TOKEN, isDevToken, isDevMode } from '../utils/devMode';
 import { axiosWithRetry } from '../utils/apiRetry';
+import { isServable } from '../utils/questionWorkflow';
 import { 
   mockOverallPerformance, 
   mockTopicPerformance, 
@@ -20,7 +21,14 @@ import {
   TestTemplate,
   StartTestRequest,
   TestAttempt,
-  DifficultyStrategy
+  DifficultyStrategy,
+  ProctoringEvent,
+  ProctoringConfig,
+  QuestionStatus,
+  BloomLevel,
+  LearningObjective,
+  ChallengeStatus,
+  PeerScope
 } from '../types';
 import {
   DifficultyTrendsResponse,
@@ -90,17 +98,29 @@ interface GoogleLoginRequest {
   token: string;
 }
 
-interface QuestionData {
+export interface QuestionData {
   question_text: string;
+  question_type?: string;                 // One of QuestionType, 'MCQ' when omitted
   paper_id: number;
   section_id: number;
+  subsection_id?: number | null;
   default_difficulty_level: string;
   options: Array<{
     option_text: string;
     option_order: number;
   }>;
-  correct_option_index: number;
+  correct_option_index?: number;          // Single-choice and true/false questions
+  correct_option_indices?: number[];      // Multi-select questions
+  numeric_answer?: number | null;
+  numeric_tolerance?: number;
+  accepted_answers?: string[];            // Fill-in-the-blank questions
+  case_sensitive?: boolean;
   explanation?: string;
+  valid_until?: string | null;
+  status?: QuestionStatus;                // New questions start as drafts
+  tags?: string[];
+  bloom_level?: BloomLevel | null;
+  objective_ids?: number[];
 }
 
 export const axiosInstance = axios.create({
@@ -355,7 +375,7 @@ export const authAPI = {
 
 // Questions API
 export const questionsAPI = {
-  getQuestions: (params?: { paper_id?: number; section_id?: number; page?: number; page_size?: number }) =>
+  getQuestions: (params?: { paper_id?: number; section_id?: number; page?: number; page_size?: number; status?: QuestionStatus }) =>
     axiosInstance.get('/api/questions', { params }),
   getQuestion: (id: number) => axiosInstance.get(`/api/questions/${id}`),
   createQuestion: (data: QuestionData) => axiosInstance.post('/api/questions', data),  uploadQuestions: (file: File) => {
@@ -486,7 +506,35 @@ export const questionsAPI = {
     });
   },
   updateQuestion: (id: number, data: any) => axiosInstance.put(`/api/questions/${id}`, data),
+  /**
+   * Upload an image for use in question content
+   * @param file - PNG, JPEG, GIF, WebP or SVG image
+   * @returns Promise resolving to `{ url }` of the stored image
+   */
+  uploadQuestionImage: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return axiosInstance.post('/api/questions/images', formData, {
+      // Overrides the JSON default; the browser adds the multipart boundary
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000
+    });
+  },
+  // Images referenced by question content, for embedding them in a paper bundle.
+  // Sends the user's token, so only for URLs served by the API or this app
+  downloadQuestionImage: (url: string) => axiosInstance.get(url, { responseType: 'blob', timeout: 60000 }),
   deactivateQuestion: (id: number) => axiosInstance.put(`/api/questions/${id}/deactivate`),
+  activateQuestion: (id: number) => axiosInstance.put(`/api/questions/${id}/activate`),
+  getQuestionRevisions: (id: number) => axiosInstance.get(`/api/questions/${id}/revisions`),
+  // Review workflow: status changes are recorded with an optional reviewer comment
+  changeQuestionStatus: (id: number, data: { status: QuestionStatus; comment?: string }) =>
+    axiosInstance.post(`/api/questions/${id}/status`, data),
+  getReviewComments: (id: number) => axiosInstance.get(`/api/questions/${id}/comments`),
+  addReviewComment: (id: number, comment: string) =>
+    axiosInstance.post(`/api/questions/${id}/comments`, { comment }),
+  // Responses of completed attempts to the questions of a paper or section, for item analysis
+  getItemResponses: (params: { paper_id: number; section_id?: number }) =>
+    axiosInstance.get('/api/questions/item-responses', { params: { ...params, attempt_status: 'Completed' } }),
   deleteQuestion: (id: number) => {
     console.log(`[DEBUG][API] Initiating DELETE request for question ID: ${id}`);
     return axiosInstance.delete(`/api/questions/${id}`)
@@ -509,9 +557,25 @@ export const questionsAPI = {
     axiosInstance.get('/api/questions/admin/download-all', { responseType: 'blob' }),
 };
 
+// Answer key challenges raised by candidates, and the regrade jobs of accepted ones
+export const challengesAPI = {
+  createChallenge: (data: { attempt_id: number; question_id: number; reason: string; proposed_option_index?: number | null }) =>
+    axiosInstance.post('/api/challenges', data),
+  getChallenges: (params?: { status?: ChallengeStatus; attempt_id?: number }) =>
+    axiosInstance.get('/api/challenges', { params }),
+  // Accepting with a corrected key updates the question and starts a regrade of every affected attempt
+  acceptChallenge: (id: number, data: { correct_option_index?: number; correct_option_indices?: number[]; note?: string }) =>
+    axiosInstance.post(`/api/challenges/${id}/accept`, data),
+  rejectChallenge: (id: number, note: string) =>
+    axiosInstance.post(`/api/challenges/${id}/reject`, { note }),
+  getRegradeJob: (jobId: number) => axiosInstance.get(`/api/regrade-jobs/${jobId}`),
+};
+
 // Tests API
 export const testsAPI = {
   getTemplates: () => axiosInstance.get('/tests/templates'),
+  setTemplateLeaderboard: (templateId: number, enabled: boolean) =>
+    axiosInstance.patch(`/tests/templates/${templateId}/leaderboard`, { enabled }),
   
   createTemplate: (data: CreateTestTemplateRequest) => {
     console.log('Creating template with data:', JSON.stringify(data, null, 2));
@@ -541,7 +605,12 @@ export const testsAPI = {
       paper_id: section.paper_id,
       section_id: section.section_id, // Backend will map this to section_id_ref
       subsection_id: section.subsection_id || null,
-      question_count: section.question_count
+      question_count: section.question_count,
+      // Only sent for tests with section-wise timing
+      ...(section.section_order !== undefined ? { section_order: section.section_order } : {}),
+      ...(section.duration_minutes ? { duration_minutes: section.duration_minutes } : {}),
+      ...(section.tags && section.tags.length > 0 ? { tags: section.tags } : {}),
+      ...(section.question_ids ? { question_ids: section.question_ids } : {})
     }));
     
     // For debugging
@@ -594,7 +663,9 @@ export const testsAPI = {
     
     const payload: any = { 
       test_template_id: templateId,
-      duration_minutes: durationMinutes 
+      duration_minutes: durationMinutes,
+      // Only published questions may be served in tests
+      question_status: 'published'
     };
       // Add adaptive options if provided
     if (adaptiveOptions?.adaptive) {
@@ -643,7 +714,7 @@ export const testsAPI = {
         console.error('Failed to abandon test:', error);
         throw error;
       });
-  },  getAvailableQuestionCount: (paperId: number, sectionId?: number, subsectionId?: number) => {
+  },  getAvailableQuestionCount: (paperId: number, sectionId?: number, subsectionId?: number, tags?: string[]) => {
     // FALLBACK METHOD 
     // If we continue having issues with the backend endpoint, 
     // use an alternative approach by counting available questions
@@ -657,6 +728,8 @@ export const testsAPI = {
           params: { 
             paper_id: paperId,
             section_id: sectionId,
+            tags: tags && tags.length > 0 ? tags.join(',') : undefined,  // Questions with any of the tags
+            status: 'published',  // Only published questions are served in tests
             page: 1,
             page_size: 100  // Maximum allowed by backend
           } 
@@ -669,9 +742,9 @@ export const testsAPI = {
           return totalCount;
         }
         
-        // Count the items returned
+        // Count the items returned that can be served today
         const items = response?.data?.items || [];
-        const count = items.length;
+        const count = items.filter((item: any) => isServable(item)).length;
         
         console.log(`[API] Fallback method found ${count} questions`);
         return count;      } catch (err: any) {
@@ -715,7 +788,7 @@ export const testsAPI = {
       return Promise.resolve(0);
     }
     
-    const params: any = { paper_id: paperId };
+    const params: any = { paper_id: paperId, status: 'published' };
     
     // Only include section_id if it's a valid value
     if (sectionId !== undefined && sectionId !== null && sectionId > 0) {
@@ -727,6 +800,10 @@ export const testsAPI = {
       params.subsection_id = subsectionId;
     }
     
+    if (tags && tags.length > 0) {
+      params.tags = tags.join(',');
+    }
+    
     console.log(`[API] Fetching available count with params:`, params);
     
     return axiosInstance.get(`/api/questions/available-count`, { params })
@@ -760,10 +837,20 @@ export const testsAPI = {
     axiosInstance.post(`/tests/submit/${attemptId}/answer`, data),
   finishTest: (attemptId: number) => axiosInstance.post(`/tests/finish/${attemptId}`),
   getAttempts: () => axiosInstance.get('/tests/attempts'),
+  getServerTime: () => axiosInstance.get('/tests/server-time'),
   getQuestions: (attemptId: number) => axiosInstance.get(`/tests/questions/${attemptId}`),
+  getSavedAnswers: (attemptId: number) => axiosInstance.get(`/tests/attempts/${attemptId}/answers`),
   getAttemptDetails: (attemptId: number) => axiosInstance.get(`/tests/attempts/${attemptId}/details`),
+  getAttemptPeerStanding: (attemptId: number, scope: PeerScope = 'template') =>
+    axiosInstance.get(`/tests/attempts/${attemptId}/peer-standing`, { params: { scope } }),
   toggleMarkForReview: (attemptId: number, questionId: number) =>
     axiosInstance.post(`/tests/${attemptId}/mark-review/${questionId}`),
+  submitProctoringEvents: (attemptId: number, events: ProctoringEvent[]) =>
+    axiosInstance.post(`/tests/${attemptId}/proctoring-events`, { events }),
+  getProctoringEvents: (attemptId: number) =>
+    axiosInstance.get(`/tests/${attemptId}/proctoring-events`),
+  getProctoringPolicy: () => axiosInstance.get('/tests/proctoring-policy'),
+  updateProctoringPolicy: (config: ProctoringConfig) => axiosInstance.put('/tests/proctoring-policy', config),
   /**
    * Submit answer and get the next question in an adaptive test
    * @param attemptId - Test attempt ID
@@ -1269,6 +1356,53 @@ export const sectionsAPI = {
       logError('Failed to delete section', apiError);
       throw apiError;
     }
+  },
+
+  /**
+   * Set the display order of the sections of a paper
+   * @param paperId - ID of the paper
+   * @param sectionIds - IDs of all its sections, in display order
+   */
+  reorderSections: async (paperId: number, sectionIds: number[]) => {
+    try {
+      const response = await axiosWithRetry.put(`/api/papers/${paperId}/sections/order/`, { section_ids: sectionIds }, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to reorder sections', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Move a section to another paper, with its subsections and questions
+   * @param sectionId - ID of the section to move
+   * @param target - Paper to move it to and its position there
+   */
+  moveSection: async (sectionId: number, target: { paper_id: number; display_order: number }) => {
+    try {
+      const response = await axiosWithRetry.post(`/api/sections/${sectionId}/move/`, target, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to move section', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Number of questions and test templates that use a section
+   * @param sectionId - ID of the section
+   */
+  getSectionUsage: async (sectionId: number) => {
+    try {
+      const response = await axiosWithRetry.get(`/api/sections/${sectionId}/usage/`, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to fetch section usage', apiError);
+      throw apiError;
+    }
   }
 };
 
@@ -1348,9 +1482,185 @@ export const subsectionsAPI = {
       logError('Failed to delete subsection', apiError);
       throw apiError;
     }
+  },
+
+  /**
+   * Set the display order of the subsections of a section
+   * @param sectionId - ID of the section
+   * @param subsectionIds - IDs of all its subsections, in display order
+   */
+  reorderSubsections: async (sectionId: number, subsectionIds: number[]) => {
+    try {
+      const response = await axiosWithRetry.put(`/api/sections/${sectionId}/subsections/order/`, { subsection_ids: subsectionIds }, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to reorder subsections', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Move a subsection to another section, with its questions
+   * @param subsectionId - ID of the subsection to move
+   * @param target - Section to move it to and its position there
+   */
+  moveSubsection: async (subsectionId: number, target: { section_id: number; display_order: number }) => {
+    try {
+      const response = await axiosWithRetry.post(`/api/subsections/${subsectionId}/move/`, target, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to move subsection', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Number of questions and test templates that use a subsection
+   * @param subsectionId - ID of the subsection
+   */
+  getSubsectionUsage: async (subsectionId: number) => {
+    try {
+      const response = await axiosWithRetry.get(`/api/subsections/${subsectionId}/usage/`, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to fetch subsection usage', apiError);
+      throw apiError;
+    }
   }
 };
 
 
+/**
+ * API functions for question tags and the learning-objective taxonomy
+ */
+export const taxonomyAPI = {
+  /**
+   * Get all tags with the number of questions carrying each
+   */
+  getTags: async () => {
+    try {
+      const response = await axiosWithRetry.get('/api/tags/', { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to fetch tags', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Create a tag
+   * @param name - Tag name
+   */
+  createTag: async (name: string) => {
+    try {
+      const response = await axiosWithRetry.post('/api/tags/', { name }, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to create tag', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Rename a tag on every question carrying it
+   * @param tagId - ID of the tag
+   * @param name - New tag name
+   */
+  renameTag: async (tagId: number, name: string) => {
+    try {
+      const response = await axiosWithRetry.put(`/api/tags/${tagId}/`, { name }, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to rename tag', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Delete a tag and remove it from every question
+   * @param tagId - ID of the tag
+   */
+  deleteTag: async (tagId: number) => {
+    try {
+      const response = await axiosWithRetry.delete(`/api/tags/${tagId}/`, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to delete tag', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Get learning objectives, optionally only those that apply to a paper
+   * @param paperId - ID of the paper
+   */
+  getObjectives: async (paperId?: number) => {
+    try {
+      const response = await axiosWithRetry.get('/api/learning-objectives/', {
+        baseURL: finalApiUrl,
+        params: paperId ? { paper_id: paperId } : undefined,
+      });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to fetch learning objectives', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Create a learning objective
+   * @param objectiveData - Code, name, description and optional paper of the objective
+   */
+  createObjective: async (objectiveData: Omit<LearningObjective, 'objective_id'>) => {
+    try {
+      const response = await axiosWithRetry.post('/api/learning-objectives/', objectiveData, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to create learning objective', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Update a learning objective
+   * @param objectiveId - ID of the objective
+   * @param objectiveData - Updated objective data
+   */
+  updateObjective: async (objectiveId: number, objectiveData: Omit<LearningObjective, 'objective_id'>) => {
+    try {
+      const response = await axiosWithRetry.put(`/api/learning-objectives/${objectiveId}/`, objectiveData, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to update learning objective', apiError);
+      throw apiError;
+    }
+  },
+
+  /**
+   * Delete a learning objective
+   * @param objectiveId - ID of the objective
+   */
+  deleteObjective: async (objectiveId: number) => {
+    try {
+      const response = await axiosWithRetry.delete(`/api/learning-objectives/${objectiveId}/`, { baseURL: finalApiUrl });
+      return { data: response.data, success: true };
+    } catch (error) {
+      const apiError = handleAPIError(error as Error);
+      logError('Failed to delete learning objective', apiError);
+      throw apiError;
+    }
+  }
+};
+
 // Default export for API client
 export default axiosInstance;
@@ -6,11 +6,29 @@ export type DifficultyStrategy = 'hard_to_easy' | 'easy_to_hard' | 'balanced' |
 
 export type TestType = 'Mock' | 'Practice' | 'Regular' | 'Adaptive';
 
+export type DifficultyLevel = 'Easy' | 'Medium' | 'Hard';
+
+// How a question is answered; 'MCQ' is a single-choice question
+export type QuestionType = 'MCQ' | 'MultiSelect' | 'True/False' | 'Numeric' | 'FillInBlank';
+
+// How marks are awarded for each question of a test
+export interface ScoringScheme {
+  marks_per_correct: number;
+  penalty_per_wrong: number;        // Marks deducted per wrong answer, as a positive number
+  marks_per_unattempted: number;    // Usually 0
+  section_weights?: Record<string, number>;                   // Multiplier keyed by paper ID
+  difficulty_weights?: Partial<Record<DifficultyLevel, number>>; // Multiplier per difficulty level
+}
+
 export interface TestTemplateSection {
   paper_id: number;
   section_id?: number | null;
   subsection_id?: number | null;
   question_count: number;
+  section_order?: number;            // Position of the section when sections are taken in order
+  duration_minutes?: number | null;  // Per-section time limit; the section locks when it runs out
+  tags?: string[];                   // Questions of the paper carrying any of these tags, across sections
+  question_ids?: number[];           // Exactly these questions of the paper instead of a random draw
 }
 
 export interface CreateTestTemplateRequest {
@@ -18,6 +36,10 @@ export interface CreateTestTemplateRequest {
   test_type: TestType;
   sections: TestTemplateSection[];
   difficulty_strategy?: DifficultyStrategy;
+  enforce_section_order?: boolean;
+  scoring_scheme?: ScoringScheme;
+  is_retry?: boolean;           // Made to retry questions of a finished attempt; hidden from template lists
+  source_attempt_id?: number;   // Attempt a retry template was made from
 }
 
 export interface TestTemplate {
@@ -29,6 +51,10 @@ export interface TestTemplate {
   is_active: boolean;
   difficulty_strategy?: DifficultyStrategy;
   sections: TestTemplateSection[];
+  scoring_scheme?: ScoringScheme;
+  leaderboard_enabled?: boolean;  // Whether candidates see the anonymized leaderboard of the template
+  is_retry?: boolean;
+  source_attempt_id?: number;
 }
 
 export interface StartTestRequest {
@@ -37,6 +63,7 @@ export interface StartTestRequest {
   is_adaptive?: boolean;
   adaptive_strategy?: string;
   max_questions?: number;
+  question_status?: QuestionStatus; // Status of the questions that may be served
 }
 
 export interface TestAttempt {
@@ -52,16 +79,68 @@ export interface TestAttempt {
   is_adaptive: boolean;
 }
 
+// Attempt in the results list; scores are percentages and only completed attempts have them
+export interface AttemptSummary extends Omit<TestAttempt, 'score' | 'weighted_score'> {
+  score: number | null;
+  weighted_score: number | null;
+  questions_attempted: number | null;
+  total_possible_questions: number | null;
+  regrade_notices: RegradeNotice[];
+}
+
+// Cognitive level of a question in Bloom's taxonomy
+export type BloomLevel = 'Remember' | 'Understand' | 'Apply' | 'Analyze' | 'Evaluate' | 'Create';
+
+// Free-form label shared by questions, such as a topic name
+export interface QuestionTag {
+  tag_id: number;
+  name: string;
+  question_count?: number;
+}
+
+// Curated learning objective or skill, identified by a syllabus code
+export interface LearningObjective {
+  objective_id: number;
+  code: string;
+  name: string;
+  description?: string | null;
+  paper_id?: number | null;          // Objectives without a paper apply to every paper
+}
+
+// Authoring state of a question; only published questions are served in tests
+export type QuestionStatus = 'draft' | 'in_review' | 'approved' | 'published' | 'retired';
+
+// Reviewer comment on a question, optionally recorded with a status change
+export interface QuestionReviewComment {
+  comment_id: number;
+  question_id: number;
+  author_name: string;
+  author_id?: number;
+  comment: string;
+  status_change?: { from: QuestionStatus; to: QuestionStatus } | null;
+  created_at: string;
+}
+
 export interface Question {
   question_id: number;
   question_text: string;
   paper_id: number;
   section_id?: number;
   subsection_id?: number;
-  options: QuestionOption[];
+  question_type?: QuestionType;
+  options: QuestionOption[];           // Empty for numeric and fill-in-the-blank questions
   correct_option_index: number;
+  correct_option_indices?: number[];   // All correct options of a multi-select question
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;   // Accepted absolute deviation from numeric_answer
+  accepted_answers?: string[];         // Accepted responses of a fill-in-the-blank question
+  case_sensitive?: boolean;
   explanation?: string;
   difficulty_level?: string;
+  status?: QuestionStatus;
+  tags?: string[];
+  bloom_level?: BloomLevel | null;
+  objective_ids?: number[];            // Learning objectives the question assesses
 }
 
 export interface QuestionOption {
@@ -72,6 +151,166 @@ export interface QuestionOption {
 export interface TestAnswer {
   question_id: number;
   selected_option_index?: number;
+  selected_option_indices?: number[]; // Multi-select questions
+  answer_text?: string;               // Numeric and fill-in-the-blank questions
   time_taken_seconds: number;
   is_marked_for_review: boolean;
 }
+
+export type ProctoringEventType =
+  | 'tab_switch'
+  | 'window_blur'
+  | 'fullscreen_exit'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'context_menu'
+  | 'devtools_shortcut';
+
+export interface ProctoringEvent {
+  event_type: ProctoringEventType;
+  occurred_at: string;
+  question_index: number;
+  detail?: string;
+}
+
+export interface ProctoringConfig {
+  enabled: boolean;
+  requireFullscreen: boolean;
+  warningThreshold: number;     // Violations before the candidate is warned
+  autoSubmitThreshold: number;  // Violations before the test is submitted automatically
+}
+
+// A section of a mock test with its own time limit
+export interface TimedSection {
+  paper_id: number;
+  section_name: string;
+  section_order: number;
+  duration_minutes: number;
+}
+
+// Additional settings chosen while customizing a mock test
+export interface MockTestOptions {
+  proctoring?: ProctoringConfig;   // From the admin proctoring policy, never chosen by the candidate
+  timedSections?: TimedSection[];  // Set when section-wise timing is enabled
+  scoringScheme?: ScoringScheme;
+}
+
+// Candidate report of a suspected wrong answer key
+export type ChallengeStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface AnswerKeyChallenge {
+  challenge_id: number;
+  question_id: number;
+  attempt_id: number;
+  candidate_name?: string;
+  reason: string;
+  proposed_option_index?: number | null;  // Answer the candidate believes is correct
+  status: ChallengeStatus;
+  created_at: string;
+  resolved_at?: string | null;
+  resolution_note?: string | null;
+  regrade_job_id?: number | null;         // Set once an accepted challenge starts a regrade
+  question_text?: string;
+}
+
+// Server job recomputing the scores of every attempt affected by an answer key correction
+export type RegradeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface RegradeJob {
+  job_id: number;
+  status: RegradeJobStatus;
+  affected_attempts: number;
+  processed_attempts: number;
+  error?: string | null;
+}
+
+// Shown on a result whose score changed in a regrade
+export interface RegradeNotice {
+  question_ids: number[];
+  regraded_at: string;
+  previous_score: number | null;
+  previous_weighted_score: number | null;
+  reason?: string | null;
+}
+
+export interface AttemptResultOption {
+  option_id: number;
+  option_text: string;
+  option_order: number;
+}
+
+// Question of a finished attempt with the candidate's response and its marking.
+// Option indices are positions in `options`, which are in option order.
+export interface AttemptResultQuestion {
+  question_id: number;
+  question_text: string;
+  question_type: QuestionType;
+  options: AttemptResultOption[];            // Empty for numeric and fill-in-the-blank questions
+  selected_option_index: number | null;
+  selected_option_indices: number[] | null;
+  correct_option_index: number | null;
+  correct_option_indices: number[] | null;
+  answer_text: string | null;
+  numeric_answer: number | null;
+  numeric_tolerance: number | null;
+  accepted_answers: string[] | null;
+  case_sensitive: boolean;
+  is_attempted: boolean;
+  is_correct: boolean;
+  marks: number | null;                      // Marks awarded, null when the API does not send them
+  explanation: string;
+  time_taken_seconds: number | null;
+  is_marked_for_review: boolean;
+  paper_id?: number;
+  section_id?: number;
+  subsection_id?: number;
+  paper_name?: string;
+  section_name?: string;
+  subsection_name?: string;
+  difficulty_level?: string;
+  edited_since_attempt: boolean;             // Shown as it was when the attempt was taken
+  regraded: boolean;                         // Answer key corrected after an accepted challenge
+}
+
+// Details of a finished attempt, the same for regular and adaptive tests
+export interface AttemptResult {
+  attempt_id: number;
+  is_adaptive: boolean;
+  questions: AttemptResultQuestion[];
+  questions_attempted: number;
+  total_possible_questions: number | null;   // Size of the question pool of an adaptive test
+  scoring_scheme: ScoringScheme;
+  template_sections: TestTemplateSection[];  // Sections of the test template, in test order
+  regrade_notices: RegradeNotice[];
+  start_time: string | null;
+}
+
+// Attempts an attempt is ranked against: those on the same test template or on the same paper
+export type PeerScope = 'template' | 'paper';
+
+export interface ScoreHistogramBin {
+  from: number;                // Score percentage, inclusive
+  to: number;                  // Exclusive, except for the last bin which includes 100
+  count: number;
+  includes_attempt: boolean;   // Bin of the attempt being ranked
+}
+
+// Leaderboard row, anonymized by the server: other candidates get labels such as "Candidate 3"
+export interface LeaderboardEntry {
+  rank: number;
+  label: string;
+  percentage: number;
+  is_current_attempt: boolean;
+}
+
+export interface PeerStanding {
+  attempt_id: number;
+  scope: PeerScope;
+  percentage: number;                   // Score of the attempt
+  percentile: number;                   // Share of peer attempts scoring lower, ties counted half
+  rank: number;                         // 1 + number of peer attempts scoring higher
+  peer_count: number;                   // Peer attempts ranked, including this one
+  histogram: ScoreHistogramBin[];
+  leaderboard: LeaderboardEntry[] | null;  // Null unless enabled for the template
+}
@@ -0,0 +1,80 @@
+import { challengesAPI } from '../../services/api';
+import {
+  keepRegradedAnswerKeys,
+  latestChallengeByQuestion,
+  normalizeChallenges,
+  normalizeRegradeJob,
+  normalizeRegradeNotices,
+  pollRegradeJob,
+  regradeProgress,
+  validateChallengeReason,
+} from '../answerChallenges';
+
+jest.mock('../../services/api', () => ({
+  challengesAPI: { getRegradeJob: jest.fn() },
+}));
+
+describe('answerChallenges', () => {
+  it('requires a reason with some detail', () => {
+    expect(validateChallengeReason('  ')).toMatch(/explain/);
+    expect(validateChallengeReason('Option B is right')).toMatch(/at least 20/);
+    expect(validateChallengeReason('Option B is right, see chapter 4 of the textbook')).toBeNull();
+  });
+
+  it('normalizes challenges and keeps the latest one per question', () => {
+    const challenges = normalizeChallenges({
+      items: [
+        { id: 2, question_id: 7, attempt_id: 3, reason: 'Second', status: 'REJECTED', note: 'Key is right', created_at: '2025-06-02T00:00:00Z' },
+        { challenge_id: 1, question_id: 7, attempt_id: 3, reason: 'First', proposed_option_index: '2', created_at: '2025-06-01T00:00:00Z' },
+      ],
+    });
+    expect(challenges.map(c => c.challenge_id)).toEqual([1, 2]);
+    expect(challenges[0]).toMatchObject({ status: 'pending', proposed_option_index: 2 });
+    expect(challenges[1]).toMatchObject({ status: 'rejected', resolution_note: 'Key is right' });
+    expect(latestChallengeByQuestion(challenges)[7].challenge_id).toBe(2);
+  });
+
+  it('normalizes regrade jobs and reports their progress', () => {
+    const job = normalizeRegradeJob({ job: { id: 9, status: 'RUNNING', affected_attempts: 8, processed_attempts: 2 } })!;
+    expect(job).toMatchObject({ job_id: 9, status: 'running' });
+    expect(regradeProgress(job)).toBe(25);
+    expect(regradeProgress({ ...job, status: 'completed', processed_attempts: 0 })).toBe(100);
+    expect(normalizeRegradeJob({})).toBeNull();
+  });
+
+  it('polls a regrade job until it finishes', async () => {
+    (challengesAPI.getRegradeJob as jest.Mock)
+      .mockResolvedValueOnce({ data: { job_id: 9, status: 'running', affected_attempts: 2, processed_attempts: 1 } })
+      .mockResolvedValueOnce({ data: { job_id: 9, status: 'completed', affected_attempts: 2, processed_attempts: 2 } });
+    const updates: string[] = [];
+    const job = await pollRegradeJob(9, update => updates.push(update.status), { intervalMs: 0 });
+    expect(updates).toEqual(['running', 'completed']);
+    expect(job?.status).toBe('completed');
+  });
+
+  it('reads regrade notices newest first', () => {
+    const notices = normalizeRegradeNotices({
+      regrade_notices: [
+        { question_id: 4, regraded_at: '2025-06-01T00:00:00Z', previous_score: '60' },
+        { question_ids: [5, 6], regraded_at: '2025-06-03T00:00:00Z', previous_weighted_score: 55.5 },
+      ],
+    });
+    expect(notices.map(n => n.question_ids)).toEqual([[5, 6], [4]]);
+    expect(notices[1].previous_score).toBe(60);
+  });
+
+  it('keeps the corrected answer key of regraded questions shown as attempted', () => {
+    const live = [
+      { question_id: 1, question_text: 'Edited', correct_option_index: 2 },
+      { question_id: 2, question_text: 'Edited too', correct_option_index: 3 },
+    ];
+    const resolved = [
+      { question_id: 1, question_text: 'Original', correct_option_index: 1 },
+      { question_id: 2, question_text: 'Original too', correct_option_index: 0 },
+    ];
+    expect(keepRegradedAnswerKeys(resolved, live, [1])).toEqual([
+      { question_id: 1, question_text: 'Original', correct_option_index: 2, regraded: true },
+      resolved[1],
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  abandonPendingEntries,
+  enqueueAnswer,
+  flushOutbox,
+  getPendingEntries,
+  getPendingCount,
+  getUndeliveredEntries,
+  clearOutbox,
+} from '../answerOutbox';
+
+describe('answerOutbox', () => {
+  const attemptId = 42;
+
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('assigns increasing sequence numbers to queued changes', () => {
+    const first = enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 5, is_marked_for_review: false
+    });
+    const second = enqueueAnswer(attemptId, 'review', {
+      question_id: 2, time_taken_seconds: 9, is_marked_for_review: true
+    });
+
+    expect(second.seq).toBeGreaterThan(first.seq);
+    expect(getPendingEntries(attemptId).map(e => e.payload.question_id)).toEqual([1, 2]);
+  });
+
+  it('supersedes older pending changes for the same question', () => {
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 5, is_marked_for_review: false
+    });
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 2, time_taken_seconds: 8, is_marked_for_review: false
+    });
+
+    const entries = getPendingEntries(attemptId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].payload.selected_option_index).toBe(2);
+  });
+
+  it('drains entries in order and stops at the first failure', async () => {
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 5, is_marked_for_review: false
+    });
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 2, selected_option_index: 1, time_taken_seconds: 6, is_marked_for_review: false
+    });
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 3, selected_option_index: 3, time_taken_seconds: 7, is_marked_for_review: false
+    });
+
+    const send = jest.fn()
+      .mockResolvedValueOnce({ data: {} })
+      .mockRejectedValueOnce(new Error('Network Error'));
+
+    const result = await flushOutbox(attemptId, send, { retries: 0 });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][1].question_id).toBe(1);
+    expect(result).toEqual({ sent: 1, remaining: 2, rejected: 0 });
+    expect(getPendingEntries(attemptId)[0].attempts).toBe(1);
+  });
+
+  it('parks entries the server rejects and delivers the rest', async () => {
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 9, time_taken_seconds: 5, is_marked_for_review: false
+    });
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 2, selected_option_index: 1, time_taken_seconds: 6, is_marked_for_review: false
+    });
+
+    const send = jest.fn()
+      .mockRejectedValueOnce({ message: 'Unprocessable', response: { status: 422, data: { detail: 'Option 9 does not exist' } } })
+      .mockResolvedValueOnce({ data: {} });
+
+    const result = await flushOutbox(attemptId, send, { retries: 0 });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ sent: 1, remaining: 0, rejected: 1 });
+    expect(getUndeliveredEntries(attemptId).map(e => [e.payload.question_id, e.reason, e.detail]))
+      .toEqual([[1, 'rejected', 'Option 9 does not exist']]);
+
+    // Answering the question again and delivering it replaces the rejected entry
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 8, is_marked_for_review: false
+    });
+    await flushOutbox(attemptId, jest.fn().mockResolvedValue({ data: {} }), { retries: 0 });
+    expect(getUndeliveredEntries(attemptId)).toEqual([]);
+  });
+
+  it('reports the entries given up on when the test is submitted without them', () => {
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 4, selected_option_index: 2, time_taken_seconds: 5, is_marked_for_review: false
+    });
+
+    const undelivered = abandonPendingEntries(attemptId);
+
+    expect(undelivered.map(e => [e.payload.question_id, e.reason])).toEqual([[4, 'not_sent']]);
+    expect(getPendingCount(attemptId)).toBe(0);
+
+    clearOutbox(attemptId);
+    expect(getUndeliveredEntries(attemptId)).toEqual([]);
+  });
+
+  it('keeps outboxes separate per attempt and clears them', () => {
+    enqueueAnswer(attemptId, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 5, is_marked_for_review: false
+    });
+    enqueueAnswer(7, 'answer', {
+      question_id: 1, selected_option_index: 0, time_taken_seconds: 5, is_marked_for_review: false
+    });
+
+    clearOutbox(attemptId);
+
+    expect(getPendingCount(attemptId)).toBe(0);
+    expect(getPendingCount(7)).toBe(1);
+  });
+});
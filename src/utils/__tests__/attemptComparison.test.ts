@@ -0,0 +1,77 @@
+import { testsAPI } from '../../services/api';
+import { adaptRegularAttempt, parseAttemptDetails } from '../attemptResults';
+import { compareAttempts, deltaFromPrevious, loadComparedAttempts } from '../attemptComparison';
+
+jest.mock('../../services/api', () => ({
+  testsAPI: { getAttemptDetails: jest.fn() },
+  questionsAPI: { getQuestionRevisions: jest.fn() },
+}));
+
+const question = (id: number, selected: number | null, fields: Record<string, any> = {}) => ({
+  question_id: id,
+  question_text: `Question ${id}`,
+  options: [{ option_text: 'A' }, { option_text: 'B' }],
+  correct_option_index: 0,
+  selected_option_index: selected,
+  paper_id: 1,
+  paper_name: 'Physics',
+  ...fields,
+});
+
+const attempt = (attemptId: number, startTime: string, questions: any[]) => ({
+  info: { attempt_id: attemptId, start_time: startTime, test_type: 'Mock' },
+  result: adaptRegularAttempt(parseAttemptDetails({ questions }, { isAdaptive: false }), { attemptId }),
+});
+
+const first = attempt(1, '2025-01-01T10:00:00Z', [
+  question(1, 1, { time_taken_seconds: 40 }),
+  question(2, 0, { section_id: 10, section_name: 'Optics', time_taken_seconds: 20 }),
+  question(3, 1),
+  question(4, null),
+]);
+const second = attempt(2, '2025-02-01T10:00:00Z', [
+  question(1, 1, { time_taken_seconds: 30 }),
+  question(2, 0, { section_id: 10, section_name: 'Optics', time_taken_seconds: 10 }),
+  question(3, 0),
+  question(5, 1),
+]);
+
+describe('attemptComparison', () => {
+  it('compares attempts from the oldest with their sections', () => {
+    const comparison = compareAttempts([second, first]);
+
+    expect(comparison.attempts.map(a => [a.attempt_id, a.attempted, a.accuracy, a.percentage, a.secondsPerQuestion])).toEqual([
+      [1, 3, 33.33, 25, 30],
+      [2, 4, 50, 50, 20],
+    ]);
+    expect(comparison.sections.map(s => [s.label, s.rows.map(row => row && row.accuracy)])).toEqual([
+      ['Physics', [33.33, 50]],
+      ['Optics', [100, 100]],
+    ]);
+  });
+
+  it('lists the questions wrong in every attempt that included them', () => {
+    const { wrongEveryTime } = compareAttempts([first, second]);
+    expect(wrongEveryTime).toEqual([{ question_id: 1, question_text: 'Question 1', attempts: 2 }]);
+  });
+
+  it('computes the change from the previous attempt', () => {
+    expect(deltaFromPrevious([25, 50.5], 0)).toBeNull();
+    expect(deltaFromPrevious([25, 50.5], 1)).toBe(25.5);
+    expect(deltaFromPrevious([30, null], 1)).toBeNull();
+  });
+
+  it('loads the results of the attempts to compare', async () => {
+    (testsAPI.getAttemptDetails as jest.Mock).mockImplementation(async (attemptId: number) => ({
+      data: { questions_attempted: 1, questions: [question(attemptId, 0, { marks: 1 })] },
+    }));
+
+    const loaded = await loadComparedAttempts([
+      { attempt_id: 7, start_time: '', test_type: 'Mock' },
+      { attempt_id: 8, start_time: '', test_type: 'Mock', is_adaptive: true },
+    ]);
+
+    expect(loaded.map(({ info, result }) => [info.attempt_id, result.attempt_id, result.is_adaptive, result.questions[0].is_correct]))
+      .toEqual([[7, 7, false, true], [8, 8, true, true]]);
+  });
+});
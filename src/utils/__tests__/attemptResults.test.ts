@@ -0,0 +1,164 @@
+import { questionsAPI } from '../../services/api';
+import {
+  adaptAdaptiveAttempt,
+  adaptRegularAttempt,
+  AttemptResultsError,
+  loadAttemptResult,
+  parseAttemptDetails,
+  parseAttemptList,
+  scoredQuestions,
+} from '../attemptResults';
+import adaptiveAttemptDetails from './fixtures/adaptiveAttemptDetails.json';
+import regularAttemptDetails from './fixtures/regularAttemptDetails.json';
+
+jest.mock('../../services/api', () => ({
+  questionsAPI: { getQuestionRevisions: jest.fn() },
+}));
+
+describe('attemptResults', () => {
+  it('normalizes the options of a regular attempt', () => {
+    const details = parseAttemptDetails(regularAttemptDetails, { isAdaptive: false });
+    expect(details.payload.attempt_id).toBe(41);
+
+    const result = adaptRegularAttempt(details, { attemptId: 41 });
+    const [force, light, vectors, water] = result.questions;
+    expect(light).toMatchObject({ question_id: 2, question_text: 'Speed of light in km/s?', explanation: 'About 3 x 10^5 km/s' });
+    expect(vectors.question_type).toBe('MultiSelect');
+    expect(vectors.options).toEqual([
+      { option_id: 0, option_text: 'Velocity', option_order: 0 },
+      { option_id: 32, option_text: 'Mass', option_order: 1 },
+      { option_id: 33, option_text: 'Force', option_order: 2 },
+    ]);
+    expect(water).toMatchObject({ selected_option_index: null, correct_option_index: 1, marks: null });
+    expect(force.section_id).toBe(10);
+    expect(water).not.toHaveProperty('section_id');
+  });
+
+  it('marks regular questions by is_correct, then by the answer key', () => {
+    const result = adaptRegularAttempt(parseAttemptDetails(regularAttemptDetails, { isAdaptive: false }), { attemptId: 41 });
+    expect(result.questions.map(q => [q.is_attempted, q.is_correct])).toEqual([
+      [true, true],
+      [true, true],
+      [true, true],
+      [false, false],
+    ]);
+    expect(result).toMatchObject({
+      attempt_id: 41,
+      is_adaptive: false,
+      questions_attempted: 3,
+      total_possible_questions: null,
+      start_time: '2025-03-01T09:00:00Z',
+      scoring_scheme: { marks_per_correct: 4, penalty_per_wrong: 1, marks_per_unattempted: 0 },
+    });
+    expect(result.regrade_notices).toHaveLength(1);
+    expect(scoredQuestions(result)).toHaveLength(4);
+  });
+
+  it('marks adaptive questions by the marks awarded and scores only attempted ones', () => {
+    const result = adaptAdaptiveAttempt(parseAttemptDetails(adaptiveAttemptDetails, { isAdaptive: true }), { attemptId: 52 });
+    expect(result.questions.map(q => [q.question_id, q.is_attempted, q.is_correct, q.marks])).toEqual([
+      [7, true, false, 0],
+      [8, true, true, 1],
+      [9, false, false, null],
+    ]);
+    expect(result).toMatchObject({ is_adaptive: true, questions_attempted: 2, total_possible_questions: 20, start_time: null });
+    expect(result.questions[0].options[1]).toEqual({ option_id: 1, option_text: 'B', option_order: 1 });
+    expect(scoredQuestions(result).map(q => q.question_id)).toEqual([7, 8]);
+  });
+
+  it('rejects details whose shape changed with the failing fields', () => {
+    expect(() => parseAttemptDetails({ items: [] }, { isAdaptive: false })).toThrow(AttemptResultsError);
+    expect(() => parseAttemptDetails({ items: [] }, { isAdaptive: false })).toThrow("attempt must have required property 'questions'");
+
+    const changed = {
+      questions: [
+        { question_id: 1, question_text: 'Fine', options: [] },
+        { question_id: 2, question_text: { en: 'Localized' }, options: [], marks: [1] },
+        { question_text: 'No ID', options: [] },
+        { question_id: 4, question_text: 'Bad option', options: [7] },
+      ],
+    };
+    let error: AttemptResultsError | null = null;
+    try {
+      parseAttemptDetails(changed, { isAdaptive: false });
+    } catch (err) {
+      error = err as AttemptResultsError;
+    }
+    expect(error).toBeInstanceOf(AttemptResultsError);
+    expect(error!.problems).toEqual([
+      'questions[1].question_text must be string',
+      'questions[1].marks must be number',
+      "questions[2] must have required property 'question_id'",
+      'questions[3].options[0] must be object',
+    ]);
+    expect(error!.message).toContain('did not have the expected format (questions[1].question_text must be string;');
+    expect(error!.message).toContain('and 1 more');
+  });
+
+  it('rejects legacy field names and loosely typed values', () => {
+    const legacy = { questions: [{ id: 1, text: 'Old names', options: [] }] };
+    expect(() => parseAttemptDetails(legacy, { isAdaptive: false })).toThrow("questions[0] must have required property 'question_id'");
+
+    const loose = { questions: [{ question_id: 1, question_text: 'Flag', options: [], is_correct: 'true' }] };
+    expect(() => parseAttemptDetails(loose, { isAdaptive: false })).toThrow('questions[0].is_correct must be boolean');
+
+    const unmarked = { questions_attempted: 1, questions: [{ question_id: 1, question_text: 'Served', options: [] }] };
+    expect(() => parseAttemptDetails(unmarked, { isAdaptive: false })).not.toThrow();
+    expect(() => parseAttemptDetails(unmarked, { isAdaptive: true })).toThrow("questions[0] must have required property 'marks'");
+  });
+
+  it('sorts options by their order and gives chosen options as positions', () => {
+    const payload = {
+      questions: [{
+        question_id: 1,
+        question_text: 'Pick the noble gas',
+        options: [
+          { option_id: 12, option_text: 'Neon', option_order: 2 },
+          { option_id: 10, option_text: 'Iron', option_order: 0 },
+          { option_id: 11, option_text: 'Zinc', option_order: 1 },
+        ],
+        selected_option_index: 2,
+        correct_option_index: 2,
+      }],
+    };
+    const [question] = adaptRegularAttempt(parseAttemptDetails(payload, { isAdaptive: false }), { attemptId: 1 }).questions;
+    expect(question.options.map(option => option.option_text)).toEqual(['Iron', 'Zinc', 'Neon']);
+    expect(question).toMatchObject({ selected_option_index: 2, correct_option_index: 2, is_correct: true });
+
+    const unknown = { questions: [{ ...payload.questions[0], selected_option_index: 5 }] };
+    expect(() => parseAttemptDetails(unknown, { isAdaptive: false }))
+      .toThrow('questions[0].selected_option_index 5 is not the order of an option');
+  });
+
+  it('reads the attempts list with percentage scores only for completed attempts', () => {
+    const attempts = parseAttemptList([
+      { attempt_id: 1, test_type: 'Mock', start_time: '2025-03-01T09:00:00Z', status: 'Completed', score: 62.5,
+        total_allotted_duration_minutes: 60, regrade_notices: [{ question_ids: [3], regraded_at: '2025-03-05T10:00:00Z' }] },
+      { attempt_id: 2, test_type: 'Practice', start_time: '2025-03-02T09:00:00Z', status: 'InProgress', score: 0,
+        total_allotted_duration_minutes: 30, is_adaptive: true },
+    ]);
+    expect(attempts[0]).toMatchObject({ score: 62.5, weighted_score: 62.5, is_adaptive: false, questions_attempted: null });
+    expect(attempts[0].regrade_notices).toHaveLength(1);
+    expect(attempts[1]).toMatchObject({ score: null, weighted_score: null, is_adaptive: true, regrade_notices: [] });
+
+    expect(() => parseAttemptList({ results: [] })).toThrow('attempts must be array');
+    expect(() => parseAttemptList([{ attempt_id: 3, test_type: 'Mock', start_time: '', status: 'Completed', score: '80',
+      total_allotted_duration_minutes: 60 }])).toThrow('The attempts list returned by the server did not have the expected format (attempts[0].score must be number)');
+  });
+
+  describe('loadAttemptResult', () => {
+    beforeEach(() => {
+      (questionsAPI.getQuestionRevisions as jest.Mock).mockRejectedValue(new Error('Network Error'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('resolves revisions at the start time and flags regraded questions', async () => {
+      const result = await loadAttemptResult(parseAttemptDetails(regularAttemptDetails, { isAdaptive: false }), { attemptId: 41 });
+
+      expect((questionsAPI.getQuestionRevisions as jest.Mock).mock.calls.map(([id]) => id)).toEqual([1, 2, 3, 4]);
+      expect(result.questions.map(q => q.regraded)).toEqual([false, false, true, false]);
+      expect(result.questions[2].is_correct).toBe(true);
+      expect(result.is_adaptive).toBe(false);
+    });
+  });
+});
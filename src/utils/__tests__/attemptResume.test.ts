@@ -0,0 +1,98 @@
+import {
+  getRemainingSeconds,
+  findOpenAttempts,
+  extractAttemptList,
+  getResumePath,
+  saveAttemptProgress,
+  loadAttemptProgress,
+  clearAttemptProgress,
+  mergeSavedAnswers,
+} from '../attemptResume';
+import { TestAttempt } from '../../types';
+
+jest.mock('../../services/api', () => ({
+  testsAPI: {
+    getAttempts: jest.fn()
+  }
+}));
+
+const makeAttempt = (overrides: Partial<TestAttempt>): TestAttempt => ({
+  attempt_id: 1,
+  test_type: 'Practice',
+  start_time: '2024-01-01T10:00:00Z',
+  total_allotted_duration_minutes: 60,
+  status: 'InProgress',
+  is_adaptive: false,
+  ...overrides,
+});
+
+describe('attemptResume', () => {
+  const now = new Date('2024-01-01T10:15:00Z').getTime();
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('computes remaining time from the server start time', () => {
+    expect(getRemainingSeconds(makeAttempt({}), now)).toBe(45 * 60);
+    expect(getRemainingSeconds(makeAttempt({ total_allotted_duration_minutes: 10 }), now)).toBe(0);
+    expect(getRemainingSeconds(makeAttempt({ start_time: 'not a date' }), now)).toBe(0);
+  });
+
+  it('finds only in-progress attempts with time left, newest first', () => {
+    const attempts = [
+      makeAttempt({ attempt_id: 1 }),
+      makeAttempt({ attempt_id: 2, status: 'Completed' }),
+      makeAttempt({ attempt_id: 3, total_allotted_duration_minutes: 5 }),
+      makeAttempt({ attempt_id: 4, start_time: '2024-01-01T10:10:00Z' }),
+    ];
+
+    expect(findOpenAttempts(attempts, now).map(a => a.attempt_id)).toEqual([4, 1]);
+  });
+
+  it('accepts the different attempt list response shapes', () => {
+    const attempt = makeAttempt({});
+    expect(extractAttemptList([attempt])).toHaveLength(1);
+    expect(extractAttemptList({ results: [attempt] })).toHaveLength(1);
+    expect(extractAttemptList({ data: [attempt] })).toHaveLength(1);
+    expect(extractAttemptList(null)).toEqual([]);
+  });
+
+  it('routes mock attempts to the mock test page', () => {
+    expect(getResumePath({ attempt_id: 9, test_type: 'Mock' })).toBe('/mock-test?resume=9');
+    expect(getResumePath({ attempt_id: 9, test_type: 'Practice' })).toBe('/practice-test?resume=9');
+  });
+
+  it('round-trips saved progress per attempt', () => {
+    saveAttemptProgress({
+      attemptId: 5,
+      answers: { '10-0': '2' },
+      markedForReview: [1],
+      currentQuestionIndex: 3,
+    });
+
+    const restored = loadAttemptProgress(5);
+    expect(restored?.answers).toEqual({ '10-0': '2' });
+    expect(restored?.markedForReview).toEqual([1]);
+    expect(restored?.currentQuestionIndex).toBe(3);
+    expect(loadAttemptProgress(6)).toBeNull();
+
+    clearAttemptProgress(5);
+    expect(loadAttemptProgress(5)).toBeNull();
+  });
+
+  it('resumes with the server answers except for undelivered changes', () => {
+    const local = { answers: { '10-0': '1', '11-1': '0', '12-2': 'stale' }, markedForReview: [1] };
+    const saved = [
+      { question_id: 10, selected_option_index: 3, is_marked_for_review: true },
+      { question_id: 11, selected_option_index: 2, is_marked_for_review: false },
+      { question_id: 13, selected_option_indices: [2, 0], is_marked_for_review: false },
+      { question_id: 14, answer_text: '9.81', is_marked_for_review: false },
+    ];
+
+    expect(mergeSavedAnswers(local, [10, 11, 12, 13, 14], saved, [11])).toEqual({
+      answers: { '10-0': '3', '11-1': '0', '13-3': '0,2', '14-4': '9.81' },
+      markedForReview: [0, 1],
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  addDays,
+  applyBulkChange,
+  buildUndoPlan,
+  buildUpdatePayload,
+  planBulkAction,
+  questionsToCsv,
+  runBulkTasks,
+  BulkQuestion,
+} from '../bulkQuestionActions';
+import { questionsAPI } from '../../services/api';
+
+jest.mock('../../services/api', () => ({
+  questionsAPI: {
+    updateQuestion: jest.fn(() => Promise.resolve({})),
+    deactivateQuestion: jest.fn(() => Promise.resolve({})),
+    activateQuestion: jest.fn(() => Promise.resolve({})),
+    deleteQuestion: jest.fn(() => Promise.resolve({})),
+  }
+}));
+
+const question = (overrides: Partial<BulkQuestion> = {}): BulkQuestion => ({
+  question_id: 1,
+  question_text: 'What is 2+2?',
+  question_type: 'MCQ',
+  paper_id: 1,
+  section_id: 10,
+  subsection_id: null,
+  default_difficulty_level: 'Easy',
+  valid_until: '2025-12-31T00:00:00',
+  options: [{ option_text: '4', option_order: 0 }, { option_text: '5', option_order: 1 }],
+  correct_option_index: 0,
+  paper: { paper_name: 'Maths' },
+  ...overrides,
+});
+
+describe('bulkQuestionActions', () => {
+  it('plans moves and skips questions already in place', () => {
+    const plan = planBulkAction(
+      [question(), question({ question_id: 2, paper_id: 2, section_id: 20, subsection_id: 200 })],
+      { type: 'move', paper_id: 2, section_id: 20, subsection_id: 200 }
+    );
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0].previous).toEqual({ paper_id: 1, section_id: 10, subsection_id: null });
+    expect(plan.skipped.map(s => s.reason)).toEqual(['Already in this location']);
+  });
+
+  it('extends validity by days but leaves indefinite questions alone', () => {
+    const plan = planBulkAction(
+      [question(), question({ question_id: 2, valid_until: '9999-12-31' }), question({ question_id: 3, valid_until: null })],
+      { type: 'extendValidUntil', days: 30 }
+    );
+    expect(plan.changes.map(c => c.next)).toEqual([{ valid_until: '2026-01-30' }]);
+    expect(plan.skipped.map(s => s.question.question_id)).toEqual([2, 3]);
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+  });
+
+  it('sends the full question with the changes applied', () => {
+    const payload = buildUpdatePayload(question({ status: 'published' }), { default_difficulty_level: 'Hard' });
+    expect(payload).toMatchObject({ default_difficulty_level: 'Hard', correct_option_index: 0, question_text: 'What is 2+2?' });
+    // Changed questions are reviewed again before candidates see them
+    expect(payload.status).toBe('draft');
+    expect(payload.options).toHaveLength(2);
+    expect(payload).not.toHaveProperty('paper');
+  });
+
+  it('keeps the tags, Bloom level and objectives of moved questions', async () => {
+    const tagged = question({ tags: ['algebra', 'exam-2024'], bloom_level: 'Apply', objective_ids: [3, 7] });
+    const plan = planBulkAction([tagged], { type: 'move', paper_id: 2, section_id: 20, subsection_id: null });
+    await applyBulkChange(plan.action, plan.changes[0]);
+    expect(questionsAPI.updateQuestion).toHaveBeenCalledWith(1, expect.objectContaining({
+      paper_id: 2,
+      tags: ['algebra', 'exam-2024'],
+      bloom_level: 'Apply',
+      objective_ids: [3, 7],
+    }));
+  });
+
+  it('applies updates with the full question and other actions through their endpoints', async () => {
+    const plan = planBulkAction([question()], { type: 'difficulty', level: 'Hard' });
+    await applyBulkChange(plan.action, plan.changes[0]);
+    expect(questionsAPI.updateQuestion).toHaveBeenCalledWith(1, expect.objectContaining({ default_difficulty_level: 'Hard', correct_option_index: 0 }));
+
+    await applyBulkChange({ type: 'activate' }, plan.changes[0]);
+    expect(questionsAPI.activateQuestion).toHaveBeenCalledWith(1);
+  });
+
+  it('reverts succeeded changes and undoes deactivation by activating', () => {
+    const plan = planBulkAction([question()], { type: 'difficulty', level: 'Hard' });
+    const undo = buildUndoPlan(plan, plan.changes)!;
+    expect(undo.changes[0].next).toEqual({ default_difficulty_level: 'Easy' });
+    expect(undo.changes[0].question.default_difficulty_level).toBe('Hard');
+
+    const deactivation = planBulkAction([question()], { type: 'deactivate' });
+    expect(buildUndoPlan(deactivation, deactivation.changes)!.action).toEqual({ type: 'activate' });
+
+    const deletion = planBulkAction([question()], { type: 'delete' });
+    expect(buildUndoPlan(deletion, deletion.changes)).toBeNull();
+  });
+
+  it('keeps going after a failed task and reports each failure', async () => {
+    const progress: number[] = [];
+    const results = await runBulkTasks(
+      [1, 2, 3],
+      async n => {
+        if (n === 2) throw Object.assign(new Error('Request failed'), { response: { data: { detail: 'Not found' } } });
+      },
+      completed => progress.push(completed)
+    );
+    expect(results).toEqual([{ item: 1 }, { item: 2, error: 'Not found' }, { item: 3 }]);
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it('exports selected questions in the template layout', () => {
+    const csv = questionsToCsv([question({ question_text: 'Sum, of 2+2?' })]);
+    expect(csv.split('\n')).toEqual([
+      'question_id,question_text,question_type,default_difficulty_level,paper_id,section_id,subsection_id,correct_option_index,option_0,option_1,option_2,option_3,explanation,valid_until',
+      '1,"Sum, of 2+2?",MCQ,Easy,1,10,,0,4,5,,,,31-12-2025',
+    ]);
+  });
+
+  it('exports the answer keys of the other question types like the import', () => {
+    const csv = questionsToCsv([
+      question(),
+      question({ question_id: 2, question_type: 'MultiSelect', correct_option_index: null, correct_option_indices: [0, 1] }),
+      question({ question_id: 3, question_type: 'Numeric', options: [], correct_option_index: null, numeric_answer: 9.8, numeric_tolerance: 0.1 }),
+      question({ question_id: 4, question_type: 'FillInBlank', options: [], correct_option_index: null, accepted_answers: ['Paris', 'paris'], case_sensitive: false }),
+    ]);
+    const [header, ...lines] = csv.split('\n');
+    expect(header).toMatch(/,valid_until,correct_option_indices,numeric_answer,numeric_tolerance,accepted_answers,case_sensitive$/);
+    expect(lines).toEqual([
+      '1,What is 2+2?,MCQ,Easy,1,10,,0,4,5,,,,31-12-2025,,,,,',
+      '2,What is 2+2?,MultiSelect,Easy,1,10,,0,4,5,,,,31-12-2025,"0,1",,,,',
+      '3,What is 2+2?,Numeric,Easy,1,10,,,,,,,,31-12-2025,,9.8,0.1,,',
+      '4,What is 2+2?,FillInBlank,Easy,1,10,,,,,,,,31-12-2025,,,,Paris|paris,false',
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  parseServerTimestamp,
+  readServerTime,
+  measureClockOffset,
+  getAttemptDeadline,
+  getRemainingMs,
+  getCrossedWarning,
+} from '../examClock';
+
+describe('examClock', () => {
+  it('reads server time from the server time response', () => {
+    expect(readServerTime({ data: { server_time: '2024-01-01T10:00:00Z' } })).toBe(Date.parse('2024-01-01T10:00:00Z'));
+    expect(readServerTime({ data: { server_time: '2024-01-01T10:00:00' } })).toBe(Date.parse('2024-01-01T10:00:00Z'));
+    expect(readServerTime({ data: {} })).toBeNull();
+    expect(readServerTime({ data: { server_time: 'not a time' } })).toBeNull();
+  });
+
+  it('reads timestamps without a zone as UTC', () => {
+    expect(parseServerTimestamp('2024-01-01T10:00:00')).toBe(Date.parse('2024-01-01T10:00:00Z'));
+    expect(parseServerTimestamp('2024-01-01 10:00:00.250')).toBe(Date.parse('2024-01-01T10:00:00.250Z'));
+    expect(parseServerTimestamp('2024-01-01T10:00:00+02:00')).toBe(Date.parse('2024-01-01T08:00:00Z'));
+    expect(parseServerTimestamp('')).toBeNaN();
+  });
+
+  it('measures the offset against the round-trip midpoint', () => {
+    // Client clock is 30s behind; request took 2s
+    expect(measureClockOffset(131000, 100000, 102000)).toBe(30000);
+  });
+
+  it('derives the deadline from start time and allotted duration', () => {
+    const deadline = getAttemptDeadline({
+      start_time: '2024-01-01T10:00:00Z',
+      total_allotted_duration_minutes: 90
+    });
+    expect(deadline).toBe(Date.parse('2024-01-01T11:30:00Z'));
+    expect(getAttemptDeadline({ start_time: '2024-01-01T10:00:00', total_allotted_duration_minutes: 90 }))
+      .toBe(Date.parse('2024-01-01T11:30:00Z'));
+    expect(getAttemptDeadline({ start_time: '', total_allotted_duration_minutes: 90 })).toBeNull();
+  });
+
+  it('corrects remaining time for clock skew', () => {
+    const deadline = Date.parse('2024-01-01T11:00:00Z');
+    const clientNow = Date.parse('2024-01-01T10:50:00Z');
+
+    expect(getRemainingMs(deadline, clientNow, 0)).toBe(10 * 60 * 1000);
+    // Server is 2 minutes ahead of the client
+    expect(getRemainingMs(deadline, clientNow, 2 * 60 * 1000)).toBe(8 * 60 * 1000);
+    expect(getRemainingMs(deadline, clientNow, 20 * 60 * 1000)).toBe(0);
+  });
+
+  it('reports the warning threshold crossed between ticks', () => {
+    expect(getCrossedWarning(601, 600)).toBe(10);
+    expect(getCrossedWarning(600, 599)).toBeNull();
+    expect(getCrossedWarning(301, 300)).toBe(5);
+    // Several thresholds crossed at once, e.g. after the laptop slept
+    expect(getCrossedWarning(900, 50)).toBe(1);
+    expect(getCrossedWarning(30, 0)).toBeNull();
+  });
+});
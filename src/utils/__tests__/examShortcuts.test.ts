@@ -0,0 +1,44 @@
+import { resolveExamShortcut, isEditableTarget } from '../examShortcuts';
+
+const press = (key: string, mods: Partial<{ ctrlKey: boolean; metaKey: boolean; altKey: boolean; shiftKey: boolean }> = {}, target: EventTarget | null = null) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  target,
+  ...mods,
+});
+
+describe('examShortcuts', () => {
+  it('maps digits and letters to option indexes', () => {
+    expect(resolveExamShortcut(press('1'))).toEqual({ type: 'selectOption', optionIndex: 0 });
+    expect(resolveExamShortcut(press('9'))).toEqual({ type: 'selectOption', optionIndex: 8 });
+    expect(resolveExamShortcut(press('b'))).toEqual({ type: 'selectOption', optionIndex: 1 });
+    expect(resolveExamShortcut(press('c'))).toEqual({ type: 'selectOption', optionIndex: 2 });
+    expect(resolveExamShortcut(press('0'))).toBeNull();
+  });
+
+  it('maps navigation and dialog keys', () => {
+    expect(resolveExamShortcut(press('n'))).toEqual({ type: 'next' });
+    expect(resolveExamShortcut(press('P'))).toEqual({ type: 'previous' });
+    expect(resolveExamShortcut(press('m'))).toEqual({ type: 'markForReview' });
+    expect(resolveExamShortcut(press('g'))).toEqual({ type: 'goToQuestion' });
+    expect(resolveExamShortcut(press('?', { shiftKey: true }))).toEqual({ type: 'help' });
+    expect(resolveExamShortcut(press('C', { shiftKey: true }))).toEqual({ type: 'clear' });
+    expect(resolveExamShortcut(press('Delete'))).toEqual({ type: 'clear' });
+  });
+
+  it('ignores modified keys and keys typed into text fields', () => {
+    expect(resolveExamShortcut(press('c', { ctrlKey: true }))).toBeNull();
+    expect(resolveExamShortcut(press('n', { metaKey: true }))).toBeNull();
+
+    const input = document.createElement('input');
+    const radio = document.createElement('input');
+    radio.type = 'radio';
+    expect(isEditableTarget(input)).toBe(true);
+    expect(isEditableTarget(radio)).toBe(false);
+    expect(resolveExamShortcut(press('n', {}, input))).toBeNull();
+    expect(resolveExamShortcut(press('n', {}, radio))).toEqual({ type: 'next' });
+  });
+});
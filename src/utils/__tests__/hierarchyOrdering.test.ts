@@ -0,0 +1,104 @@
+import {
+  applyTreeMove,
+  normalizeUsage,
+  OrderedPaper,
+  planTreeMove,
+  sortByDisplayOrder,
+  sortHierarchy,
+} from '../hierarchyOrdering';
+
+const papers: OrderedPaper[] = [
+  {
+    paper_id: 1,
+    paper_name: 'Physics',
+    sections: [
+      {
+        section_id: 10,
+        section_name: 'Mechanics',
+        subsections: [
+          { subsection_id: 100, subsection_name: 'Kinematics' },
+          { subsection_id: 101, subsection_name: 'Dynamics' },
+        ],
+      },
+      { section_id: 11, section_name: 'Optics', subsections: [] },
+      { section_id: 12, section_name: 'Waves', subsections: [{ subsection_id: 120, subsection_name: 'Sound' }] },
+    ],
+  },
+  { paper_id: 2, paper_name: 'Chemistry', sections: [{ section_id: 20, section_name: 'Organic', subsections: [] }] },
+];
+
+describe('hierarchyOrdering', () => {
+  it('sorts by display order and keeps unordered items in API order', () => {
+    const sorted = sortByDisplayOrder([
+      { id: 'a' },
+      { id: 'b', display_order: 1 },
+      { id: 'c', display_order: 0 },
+      { id: 'd', display_order: null },
+    ]);
+    expect(sorted.map(item => item.id)).toEqual(['c', 'b', 'a', 'd']);
+
+    const [paper] = sortHierarchy([{
+      paper_id: 1,
+      paper_name: 'P',
+      sections: [
+        { section_id: 1, section_name: 'B', display_order: 2, subsections: [] },
+        {
+          section_id: 2,
+          section_name: 'A',
+          display_order: 1,
+          subsections: [
+            { subsection_id: 1, subsection_name: 'y', display_order: 1 },
+            { subsection_id: 2, subsection_name: 'x', display_order: 0 },
+          ],
+        },
+      ],
+    }]);
+    expect(paper.sections.map(s => s.section_name)).toEqual(['A', 'B']);
+    expect(paper.sections[0].subsections.map(s => s.subsection_name)).toEqual(['x', 'y']);
+  });
+
+  it('plans reorders within a paper and ignores drops that change nothing', () => {
+    const item = { type: 'section' as const, paper_id: 1, section_id: 10 };
+    expect(planTreeMove(papers, item, { type: 'section', paper_id: 1, index: 0 })).toBeNull();
+    expect(planTreeMove(papers, item, { type: 'section', paper_id: 1, index: 1 })).toBeNull();
+
+    const move = planTreeMove(papers, item, { type: 'section', paper_id: 1, index: 3 })!;
+    expect(move).toMatchObject({ parentChanged: false, index: 2, order: [11, 12, 10], name: 'Mechanics' });
+
+    const upward = planTreeMove(papers, { type: 'section', paper_id: 1, section_id: 12 }, { type: 'section', paper_id: 1, index: 0 })!;
+    expect(upward.order).toEqual([12, 10, 11]);
+  });
+
+  it('plans moves to another parent and rejects mismatched drops', () => {
+    const item = { type: 'subsection' as const, section_id: 10, subsection_id: 101 };
+    const move = planTreeMove(papers, item, { type: 'subsection', section_id: 12, index: 0 })!;
+    expect(move).toMatchObject({
+      parentChanged: true,
+      fromParentId: 10,
+      toParentId: 12,
+      toParentName: 'Waves',
+      index: 0,
+      order: [101, 120],
+    });
+    expect(planTreeMove(papers, item, { type: 'section', paper_id: 2, index: 0 })).toBeNull();
+    expect(planTreeMove(papers, { type: 'subsection', section_id: 10, subsection_id: 999 }, { type: 'subsection', section_id: 12, index: 0 })).toBeNull();
+  });
+
+  it('applies moves with fresh display orders', () => {
+    const sectionMove = planTreeMove(papers, { type: 'section', paper_id: 1, section_id: 11 }, { type: 'section', paper_id: 2, index: 1 })!;
+    const afterSectionMove = applyTreeMove(papers, sectionMove);
+    expect(afterSectionMove[0].sections.map(s => [s.section_id, s.display_order])).toEqual([[10, 0], [12, 1]]);
+    expect(afterSectionMove[1].sections.map(s => [s.section_id, s.display_order])).toEqual([[20, 0], [11, 1]]);
+
+    const subsectionMove = planTreeMove(papers, { type: 'subsection', section_id: 10, subsection_id: 100 }, { type: 'subsection', section_id: 10, index: 2 })!;
+    const afterSubsectionMove = applyTreeMove(papers, subsectionMove);
+    expect(afterSubsectionMove[0].sections[0].subsections.map(s => s.subsection_id)).toEqual([101, 100]);
+    expect(afterSubsectionMove[0].sections[2]).toBe(papers[0].sections[2]);
+  });
+
+  it('normalizes usage counts', () => {
+    expect(normalizeUsage({ question_count: '12', template_count: 3 })).toEqual({ question_count: 12, template_count: 3 });
+    expect(normalizeUsage({ questions: 4 })).toEqual({ question_count: 4, template_count: 0 });
+    expect(normalizeUsage(null)).toEqual({ question_count: 0, template_count: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  AnalysisQuestion,
+  ItemResponse,
+  computeItemAnalysis,
+  difficultyForPValue,
+  normalizeItemResponses,
+  pointBiserial,
+} from '../itemAnalysis';
+
+const mcq = (question_id: number, correct_option_index: number, default_difficulty_level = 'Medium'): AnalysisQuestion => ({
+  question_id,
+  question_text: `Question ${question_id}`,
+  question_type: 'MCQ',
+  correct_option_index,
+  default_difficulty_level,
+  options: ['A', 'B', 'C', 'D'].map((option_text, option_order) => ({ option_text, option_order })),
+});
+
+const response = (attempt_id: number, question_id: number, selected: number | null, is_correct: boolean | null = null): ItemResponse => ({
+  attempt_id,
+  question_id,
+  selected_option_index: selected,
+  is_correct,
+  time_taken_seconds: 30,
+});
+
+// Twelve candidates: the first six are strong and answer the anchor questions 1 and 2 correctly
+const cohort = (answerTo3: (attempt: number) => number | null): ItemResponse[] => {
+  const rows: ItemResponse[] = [];
+  for (let attempt = 1; attempt <= 12; attempt++) {
+    const strong = attempt <= 6;
+    rows.push(response(attempt, 1, strong ? 0 : 1));
+    rows.push(response(attempt, 2, strong ? 0 : 2));
+    rows.push(response(attempt, 3, answerTo3(attempt)));
+  }
+  return rows;
+};
+
+const questions = [mcq(1, 0), mcq(2, 0), mcq(3, 0)];
+
+describe('itemAnalysis', () => {
+  it('normalizes item responses and drops incomplete rows', () => {
+    const rows = normalizeItemResponses({
+      items: [
+        { attempt_id: 1, question_id: 2, selected_option_index: 1, is_correct: true, time_taken: '42' },
+        { question_id: 3 },
+      ],
+    });
+    expect(rows).toEqual([
+      { attempt_id: 1, question_id: 2, selected_option_index: 1, selected_option_indices: null, answer_text: null, is_correct: true, time_taken_seconds: 42 },
+    ]);
+  });
+
+  it('computes point-biserial correlations and maps difficulty indices to levels', () => {
+    expect(pointBiserial([true, true, false, false], [3, 3, 1, 1])).toBeCloseTo(1);
+    expect(pointBiserial([true, false], [2, 2])).toBeNull();
+    expect(difficultyForPValue(0.9)).toBe('Easy');
+    expect(difficultyForPValue(0.5)).toBe('Medium');
+    expect(difficultyForPValue(0.2)).toBe('Hard');
+  });
+
+  it('computes difficulty, discrimination, time and option rates, marking responses without a verdict', () => {
+    const [item] = computeItemAnalysis([questions[0]], cohort(() => 0));
+    expect(item.responses).toBe(12);
+    expect(item.p_value).toBe(0.5);
+    expect(item.average_time_seconds).toBe(30);
+    expect(item.options.map(option => option.selection_rate)).toEqual([0.5, 0.5, 0, 0]);
+    expect(item.options[0].is_key).toBe(true);
+  });
+
+  it('flags negative discrimination and distractors nobody chooses', () => {
+    const stats = computeItemAnalysis(questions, cohort(attempt => (attempt <= 6 ? 1 : 0)));
+    const item = stats.find(stat => stat.question.question_id === 3)!;
+    expect(item.discrimination).toBeLessThan(0);
+    expect(item.flags).toEqual(expect.arrayContaining(['negative_discrimination', 'unused_distractor']));
+  });
+
+  it('suspects a wrong key when strong candidates prefer a distractor', () => {
+    const stats = computeItemAnalysis(questions, cohort(attempt => (attempt <= 8 ? 2 : 0)));
+    expect(stats[2].flags).toContain('suspected_wrong_key');
+    expect(stats[0].flags).not.toContain('suspected_wrong_key');
+  });
+
+  it('suggests a new difficulty level only with enough responses and when it differs', () => {
+    const easy = computeItemAnalysis([mcq(3, 0, 'Hard')], cohort(() => 0));
+    expect(easy[0].suggested_difficulty).toBe('Easy');
+    const unchanged = computeItemAnalysis([mcq(3, 0, 'easy')], cohort(() => 0));
+    expect(unchanged[0].suggested_difficulty).toBeNull();
+    const few = computeItemAnalysis([mcq(3, 0, 'Hard')], cohort(() => 0).slice(0, 9));
+    expect(few[0].reliable).toBe(false);
+    expect(few[0].suggested_difficulty).toBeNull();
+  });
+});
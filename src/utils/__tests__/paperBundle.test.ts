@@ -0,0 +1,204 @@
+import { papersAPI, questionsAPI, sectionsAPI, subsectionsAPI } from '../../services/api';
+import { ClonePaper } from '../paperCloning';
+import {
+  buildPaperBundle,
+  collectImageUrls,
+  defaultImportPlan,
+  exportPaperBundle,
+  findConflictingPaper,
+  isApiImageUrl,
+  PaperBundle,
+  parsePaperBundle,
+  replaceImageUrls,
+  resolveSection,
+  runBundleImport,
+  sectionChoicesFor,
+  validateImportPlan,
+} from '../paperBundle';
+
+jest.mock('../../services/api', () => ({
+  axiosInstance: { defaults: { baseURL: 'https://api.example.com' } },
+  papersAPI: { createPaper: jest.fn() },
+  sectionsAPI: { createSection: jest.fn() },
+  subsectionsAPI: { createSubsection: jest.fn() },
+  questionsAPI: { getQuestions: jest.fn(), createQuestion: jest.fn(), uploadQuestionImage: jest.fn(), downloadQuestionImage: jest.fn() },
+}));
+
+const paper: ClonePaper = {
+  paper_id: 1,
+  paper_name: 'Physics',
+  total_marks: 100,
+  description: '',
+  sections: [
+    {
+      section_id: 10,
+      section_name: 'Mechanics',
+      marks_allocated: 60,
+      description: '',
+      subsections: [{ subsection_id: 100, subsection_name: 'Kinematics', description: '' }],
+    },
+    { section_id: 11, section_name: 'Optics', marks_allocated: 40, description: '', subsections: [] },
+  ],
+};
+
+const bundle: PaperBundle = buildPaperBundle(
+  paper,
+  [
+    {
+      question_id: 5,
+      question_text: 'Speed from ![graph](/media/graph.png)?',
+      paper_id: 1,
+      section_id: 10,
+      subsection_id: 100,
+      question_type: 'MCQ',
+      options: [{ option_id: 50, option_text: '2 m/s', option_order: 0 }, { option_id: 51, option_text: '4 m/s', option_order: 1 }],
+      correct_option_index: 1,
+      explanation: 'Slope of <img src="/media/slope.png">',
+      tags: ['motion'],
+      objective_ids: [3],
+      status: 'published',
+    },
+    { question_id: 6, question_text: 'What is a lens?', paper_id: 1, section_id: 11, subsection_id: null },
+  ],
+  { '/media/graph.png': 'data:image/png;base64,iVBORw0KGgo=' },
+  new Date('2025-01-02T03:04:05Z')
+);
+
+describe('paperBundle', () => {
+  it('builds a portable bundle of the paper and its questions', () => {
+    expect(bundle).toMatchObject({ format: 'cil-paper-bundle', version: 1, exported_at: '2025-01-02T03:04:05.000Z' });
+    expect(bundle.paper.sections.map(s => [s.id, s.section_name, s.subsections.length])).toEqual([[10, 'Mechanics', 1], [11, 'Optics', 0]]);
+    const [question] = bundle.questions;
+    expect(question).toMatchObject({ id: 5, section_id: 10, subsection_id: 100, tags: ['motion'], correct_option_index: 1 });
+    expect(question.options).toEqual([{ option_text: '2 m/s', option_order: 0 }, { option_text: '4 m/s', option_order: 1 }]);
+    expect(question).not.toHaveProperty('objective_ids');
+    expect(question).not.toHaveProperty('status');
+  });
+
+  it('finds and replaces image URLs in Markdown and HTML content', () => {
+    const texts = ['![a](/media/graph.png) and ![b](data:image/png;base64,AAA)', '<img alt="" src="/media/slope.png"> ![a](/media/graph.png)'];
+    expect(collectImageUrls(texts)).toEqual(['/media/graph.png', '/media/slope.png']);
+    expect(replaceImageUrls(texts[1], { '/media/slope.png': '/media/new.png' })).toBe('<img alt="" src="/media/new.png"> ![a](/media/graph.png)');
+  });
+
+  it('downloads only images served by the API or this app', async () => {
+    expect(isApiImageUrl('/media/graph.png')).toBe(true);
+    expect(isApiImageUrl('https://api.example.com/media/graph.png', 'https://api.example.com')).toBe(true);
+    expect(isApiImageUrl(`${window.location.origin}/logo.png`)).toBe(true);
+    expect(isApiImageUrl('https://cdn.other.com/graph.png', 'https://api.example.com')).toBe(false);
+    expect(isApiImageUrl('//cdn.other.com/graph.png', 'https://api.example.com')).toBe(false);
+
+    (questionsAPI.getQuestions as jest.Mock).mockResolvedValue({
+      data: { items: [{ question_id: 5, question_text: '![a](/media/a.png) ![b](https://cdn.other.com/b.png)', section_id: 10 }], total: 1 },
+    });
+    (questionsAPI.downloadQuestionImage as jest.Mock).mockResolvedValue({ data: new Blob(['x'], { type: 'image/png' }) });
+
+    const { bundle: exported, warnings } = await exportPaperBundle({ ...paper, sections: [paper.sections[0]] });
+
+    expect(questionsAPI.downloadQuestionImage).toHaveBeenCalledTimes(1);
+    expect(questionsAPI.downloadQuestionImage).toHaveBeenCalledWith('/media/a.png');
+    expect(Object.keys(exported.images)).toEqual(['/media/a.png']);
+    expect(warnings).toEqual(['Image https://cdn.other.com/b.png is hosted on another site and was kept as a link']);
+  });
+
+  it('reads bundles and rejects other files and newer versions', () => {
+    expect(parsePaperBundle(JSON.stringify(bundle))).toEqual(bundle);
+    expect(() => parsePaperBundle('{')).toThrow('not valid JSON');
+    expect(() => parsePaperBundle('{"format":"other"}')).toThrow('not a paper bundle');
+    expect(() => parsePaperBundle(JSON.stringify({ ...bundle, version: 2 }))).toThrow('up to version 1');
+    expect(() => parsePaperBundle(JSON.stringify({ ...bundle, questions: [{ id: 1, question_text: 'x', section_id: 99 }] })))
+      .toThrow('does not belong');
+  });
+
+  it('plans the import around conflicting paper and section names', () => {
+    const existing: ClonePaper = {
+      paper_id: 7,
+      paper_name: 'physics',
+      total_marks: 100,
+      description: '',
+      sections: [{ section_id: 70, section_name: 'Mechanics', marks_allocated: 50, description: '', subsections: [] }],
+    };
+    expect(findConflictingPaper(bundle, [existing])).toBe(existing);
+
+    const plan = defaultImportPlan(bundle, [existing]);
+    expect(plan.target).toEqual({ type: 'newPaper', paper_name: 'Physics (copy)' });
+    expect(validateImportPlan(plan, [existing])).toEqual([]);
+    expect(validateImportPlan({ ...plan, target: { type: 'newPaper', paper_name: 'PHYSICS' } }, [existing]))
+      .toEqual(['A paper named "PHYSICS" already exists; rename it or merge into it']);
+
+    const merge = { target: { type: 'existingPaper' as const, paper: existing }, sections: sectionChoicesFor(bundle, existing) };
+    expect(merge.sections.map(choice => choice.resolution)).toEqual(['merge', 'create']);
+    const renamed = resolveSection(merge, 10, 'rename');
+    expect(renamed.sections[0]).toMatchObject({ resolution: 'rename', section_name: 'Mechanics (copy)' });
+    expect(validateImportPlan(renamed, [existing])).toEqual([]);
+    expect(validateImportPlan({ ...renamed, sections: renamed.sections.map(c => ({ ...c, section_name: 'Mechanics' })) }, [existing]))
+      .toHaveLength(2);
+    expect(validateImportPlan(resolveSection(resolveSection(merge, 10, 'skip'), 11, 'skip'), [existing]))
+      .toEqual(['Every section is skipped, so there is nothing to import']);
+  });
+
+  describe('runBundleImport', () => {
+    beforeEach(() => {
+      (papersAPI.createPaper as jest.Mock).mockResolvedValue({ data: { paper_id: 2 }, success: true });
+      (sectionsAPI.createSection as jest.Mock).mockResolvedValue({ data: { section_id: 21 }, success: true });
+      (subsectionsAPI.createSubsection as jest.Mock).mockResolvedValue({ data: { subsection_id: 200 }, success: true });
+      (questionsAPI.uploadQuestionImage as jest.Mock).mockResolvedValue({ data: { url: '/media/uploaded.png' } });
+      (questionsAPI.getQuestions as jest.Mock).mockResolvedValue({
+        data: { items: [{ question_id: 60, question_text: 'what is  a LENS?', section_id: 70 }], total: 1 },
+      });
+      (questionsAPI.createQuestion as jest.Mock).mockResolvedValue({ data: {} });
+    });
+
+    it('creates the hierarchy and draft questions with uploaded images', async () => {
+      const report = await runBundleImport(bundle, { target: { type: 'newPaper', paper_name: 'Physics 2' }, sections: sectionChoicesFor(bundle, null) });
+
+      expect(questionsAPI.uploadQuestionImage).toHaveBeenCalledTimes(1);
+      expect(papersAPI.createPaper).toHaveBeenCalledWith(expect.objectContaining({ paper_name: 'Physics 2' }));
+      expect(subsectionsAPI.createSubsection).toHaveBeenCalledWith({ section_id: 21, subsection_name: 'Kinematics', description: '' });
+      expect((questionsAPI.createQuestion as jest.Mock).mock.calls[0][0]).toMatchObject({
+        question_text: 'Speed from ![graph](/media/uploaded.png)?',
+        explanation: 'Slope of <img src="/media/slope.png">',
+        paper_id: 2,
+        section_id: 21,
+        subsection_id: 200,
+        status: 'draft',
+      });
+      expect(report).toMatchObject({
+        paper: { paper_id: 2, paper_name: 'Physics 2', created: true },
+        sectionsCreated: ['Mechanics', 'Optics'],
+        subsectionsCreated: 1,
+        questionsImported: 2,
+        errors: [],
+      });
+    });
+
+    it('merges into existing sections and skips the questions already there', async () => {
+      const existing: ClonePaper = {
+        paper_id: 7,
+        paper_name: 'Physics',
+        total_marks: 100,
+        description: '',
+        sections: [{ section_id: 70, section_name: 'Optics', marks_allocated: 40, description: '', subsections: [] }],
+      };
+      const plan = resolveSection(
+        { target: { type: 'existingPaper', paper: existing }, sections: sectionChoicesFor(bundle, existing) },
+        10,
+        'skip'
+      );
+      const report = await runBundleImport(bundle, plan);
+
+      expect(papersAPI.createPaper).not.toHaveBeenCalled();
+      expect(sectionsAPI.createSection).not.toHaveBeenCalled();
+      expect(questionsAPI.uploadQuestionImage).not.toHaveBeenCalled();
+      expect(questionsAPI.createQuestion).not.toHaveBeenCalled();
+      expect(report).toMatchObject({
+        paper: { paper_id: 7, created: false },
+        sectionsMerged: ['Optics'],
+        sectionsSkipped: ['Mechanics'],
+        questionsSkipped: 1,
+        questionsImported: 0,
+        questionsFailed: [],
+      });
+    });
+  });
+});
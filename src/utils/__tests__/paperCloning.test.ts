@@ -0,0 +1,155 @@
+import { papersAPI, questionsAPI, sectionsAPI, subsectionsAPI } from '../../services/api';
+import {
+  buildQuestionCopy,
+  ClonePaper,
+  ClonePlan,
+  runClonePlan,
+  suggestCopyName,
+  validateClonePlan,
+} from '../paperCloning';
+
+jest.mock('../../services/api', () => ({
+  papersAPI: { createPaper: jest.fn() },
+  sectionsAPI: { createSection: jest.fn() },
+  subsectionsAPI: { createSubsection: jest.fn() },
+  questionsAPI: { getQuestions: jest.fn(), createQuestion: jest.fn() },
+}));
+
+const source: ClonePaper = {
+  paper_id: 1,
+  paper_name: 'Physics 2024',
+  total_marks: 100,
+  description: 'Final exam',
+  sections: [
+    {
+      section_id: 10,
+      section_name: 'Mechanics',
+      marks_allocated: 60,
+      description: '',
+      subsections: [{ subsection_id: 100, subsection_name: 'Kinematics', description: '' }],
+    },
+    { section_id: 11, section_name: 'Optics', marks_allocated: 40, description: '', subsections: [] },
+  ],
+};
+
+const planFor = (changes: Partial<ClonePlan> = {}): ClonePlan => ({
+  source,
+  target: { type: 'newPaper', paper_name: 'Physics 2025', total_marks: 100, description: 'Final exam' },
+  sections: source.sections.map(section => ({
+    source: section,
+    section_name: section.section_name,
+    subsection_names: section.subsections.map(subsection => subsection.subsection_name),
+  })),
+  includeQuestions: true,
+  ...changes,
+});
+
+describe('paperCloning', () => {
+  it('suggests a name for the copy', () => {
+    expect(suggestCopyName('Physics 2024')).toBe('Physics 2025');
+    expect(suggestCopyName('Mock 2023-2024 set A')).toBe('Mock 2023-2025 set A');
+    expect(suggestCopyName('Mechanics', ['mechanics (copy)'])).toBe('Mechanics (copy) 2');
+    expect(suggestCopyName('Physics 2024', ['Physics 2025', 'Physics 2025 2'])).toBe('Physics 2025 3');
+  });
+
+  it('validates names in the plan against the target paper', () => {
+    expect(validateClonePlan(planFor())).toEqual([]);
+    expect(validateClonePlan(planFor({ target: { type: 'newPaper', paper_name: ' ', total_marks: 0, description: '' } })))
+      .toEqual(['Paper name is required']);
+    expect(validateClonePlan(planFor({ sections: [] }))).toEqual(['Select at least one section to copy']);
+
+    const intoSamePaper = planFor({ target: { type: 'existingPaper', paper_id: 1 } });
+    expect(validateClonePlan(intoSamePaper, ['Mechanics', 'Optics'])).toHaveLength(2);
+    intoSamePaper.sections[0].subsection_names = [''];
+    expect(validateClonePlan(intoSamePaper, [])).toEqual(['Every subsection of "Mechanics" needs a name']);
+  });
+
+  it('copies a question into the new hierarchy as a draft', () => {
+    const copy = buildQuestionCopy(
+      {
+        question_id: 5,
+        question_text: 'What is g?',
+        paper_id: 1,
+        section_id: 10,
+        subsection_id: 100,
+        question_type: 'MCQ',
+        tags: ['gravity'],
+        status: 'published',
+      },
+      { paper_id: 2, section_id: 20, subsection_id: 200 }
+    );
+    expect(copy).toMatchObject({
+      question_text: 'What is g?',
+      paper_id: 2,
+      section_id: 20,
+      subsection_id: 200,
+      tags: ['gravity'],
+      status: 'draft',
+    });
+    expect(copy).not.toHaveProperty('question_id');
+  });
+
+  describe('runClonePlan', () => {
+    beforeEach(() => {
+      (papersAPI.createPaper as jest.Mock).mockResolvedValue({ data: { paper_id: 2 }, success: true });
+      (sectionsAPI.createSection as jest.Mock).mockImplementation(async ({ section_name }) =>
+        ({ data: { section_id: section_name === 'Mechanics' ? 20 : 21 }, success: true }));
+      (subsectionsAPI.createSubsection as jest.Mock).mockResolvedValue({ data: { id: 200 }, success: true });
+      (questionsAPI.getQuestions as jest.Mock).mockImplementation(async ({ section_id }) => ({
+        data: {
+          items: section_id === 10
+            ? [
+              { question_id: 5, question_text: 'A', paper_id: 1, section_id: 10, subsection_id: 100 },
+              { question_id: 6, question_text: 'B', paper_id: 1, section_id: 10, subsection_id: null, is_active: false },
+            ]
+            : [{ question_id: 7, question_text: 'C', paper_id: 1, section_id: 11, subsection_id: null }],
+          total: section_id === 10 ? 2 : 1,
+        },
+      }));
+      (questionsAPI.createQuestion as jest.Mock).mockResolvedValue({ data: {} });
+    });
+
+    it('recreates the hierarchy and copies active questions with remapped IDs', async () => {
+      const onProgress = jest.fn();
+      const report = await runClonePlan(planFor(), onProgress);
+
+      expect(papersAPI.createPaper).toHaveBeenCalledWith(expect.objectContaining({ paper_name: 'Physics 2025', sections: [] }));
+      expect(subsectionsAPI.createSubsection).toHaveBeenCalledWith({ section_id: 20, subsection_name: 'Kinematics', description: '' });
+      expect(report.paper).toEqual({ paper_id: 2, paper_name: 'Physics 2025' });
+      expect(report.sections.map(section => [section.from, section.to])).toEqual([[10, 20], [11, 21]]);
+      expect(report.subsections).toEqual([{ from: 100, to: 200, subsection_name: 'Kinematics' }]);
+
+      const created = (questionsAPI.createQuestion as jest.Mock).mock.calls.map(([payload]) => payload);
+      expect(created).toEqual([
+        expect.objectContaining({ question_text: 'A', paper_id: 2, section_id: 20, subsection_id: 200, status: 'draft' }),
+        expect.objectContaining({ question_text: 'C', paper_id: 2, section_id: 21, subsection_id: null }),
+      ]);
+      expect(report.questionsCopied).toBe(2);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 6, total: 6 }));
+    });
+
+    it('reports failed sections and questions without stopping the copy', async () => {
+      (sectionsAPI.createSection as jest.Mock).mockImplementation(async ({ section_name }) => {
+        if (section_name === 'Mechanics') throw Object.assign(new Error('Request failed'), { response: { data: { detail: 'Duplicate name' } } });
+        return { data: { section_id: 21 }, success: true };
+      });
+      (questionsAPI.createQuestion as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+      const report = await runClonePlan(planFor({ target: { type: 'existingPaper', paper_id: 3 } }));
+
+      expect(papersAPI.createPaper).not.toHaveBeenCalled();
+      expect(subsectionsAPI.createSubsection).not.toHaveBeenCalled();
+      expect(report.errors).toEqual(['Section "Mechanics": Duplicate name']);
+      expect(report.sections).toEqual([{ from: 11, to: 21, section_name: 'Optics' }]);
+      expect(questionsAPI.getQuestions).toHaveBeenCalledTimes(1);
+      expect(report.questionsFailed).toEqual([{ question_id: 7, error: 'Network Error' }]);
+      expect(report.questionsCopied).toBe(0);
+    });
+
+    it('skips the questions when they are not included', async () => {
+      const report = await runClonePlan(planFor({ includeQuestions: false }));
+      expect(questionsAPI.getQuestions).not.toHaveBeenCalled();
+      expect(report.sections).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { testsAPI } from '../../services/api';
+import {
+  buildScoreHistogram,
+  computePercentile,
+  computeRank,
+  loadPeerStanding,
+  normalizeLeaderboard,
+  normalizePeerStanding,
+  ordinal,
+} from '../peerStanding';
+
+jest.mock('../../services/api', () => ({
+  testsAPI: { getAttemptPeerStanding: jest.fn() },
+}));
+
+describe('peerStanding', () => {
+  it('computes percentile and rank with ties', () => {
+    const scores = [40, 60, 60, 80];
+    expect(computePercentile(60, scores)).toBe(50);
+    expect(computePercentile(80, scores)).toBe(87.5);
+    expect(computeRank(60, scores)).toBe(2);
+    expect(computeRank(40, scores)).toBe(4);
+    expect(ordinal(87.5)).toBe('88th');
+    expect(ordinal(2)).toBe('2nd');
+    expect(ordinal(13)).toBe('13th');
+  });
+
+  it('bins scores in 10-point steps and marks the attempt', () => {
+    const bins = buildScoreHistogram([-5, 5, 55, 100, 100], 55);
+    expect(bins).toHaveLength(10);
+    expect(bins[0].count).toBe(2);
+    expect(bins[5]).toEqual({ from: 50, to: 60, count: 1, includes_attempt: true });
+    expect(bins[9].count).toBe(2);
+    expect(bins.filter(bin => bin.includes_attempt)).toHaveLength(1);
+  });
+
+  it('keeps the leaderboard rows as the server ranked them', () => {
+    const leaderboard = normalizeLeaderboard([
+      { rank: 1, label: 'You', percentage: 90, is_current_attempt: true },
+      { rank: '1', label: 'Candidate 1', percentage: '90' },
+      { rank: 3, label: 'Candidate 2' },
+    ]);
+    expect(leaderboard).toEqual([
+      { rank: 1, label: 'You', percentage: 90, is_current_attempt: true },
+      { rank: 1, label: 'Candidate 1', percentage: 90, is_current_attempt: false },
+    ]);
+  });
+
+  it('shows the leaderboard only when the server says it is enabled', () => {
+    const leaderboard = [{ rank: 1, label: 'You', percentage: 60, is_current_attempt: true }];
+    expect(normalizePeerStanding({ percentage: 60, leaderboard }, 5, 'template').leaderboard).toBeNull();
+    expect(normalizePeerStanding({ percentage: 60, leaderboard_enabled: 'true', leaderboard }, 5, 'template').leaderboard).toBeNull();
+    expect(normalizePeerStanding({ percentage: 60, leaderboard_enabled: true, leaderboard }, 5, 'template').leaderboard).toEqual(leaderboard);
+  });
+
+  it('fills in the figures the server leaves out', () => {
+    const standing = normalizePeerStanding({ percentage: 60, scores: [40, 80] }, 5, 'paper');
+    expect(standing).toMatchObject({ attempt_id: 5, scope: 'paper', percentile: 50, rank: 2, peer_count: 3, leaderboard: null });
+    expect(standing.histogram.find(bin => bin.includes_attempt)).toMatchObject({ from: 60, count: 1 });
+
+    const fromServer = normalizePeerStanding({
+      data: {
+        score: 100,
+        percentile: 97,
+        rank: 1,
+        peer_count: 120,
+        histogram: [{ from: 0, to: 50, count: 80 }, { from: 50, to: 100, count: 40 }],
+        leaderboard_enabled: false,
+        leaderboard: [{ score: 100 }],
+      },
+    }, 5, 'template');
+    expect(fromServer).toMatchObject({ percentile: 97, rank: 1, peer_count: 120, leaderboard: null });
+    expect(fromServer.histogram.map(bin => bin.includes_attempt)).toEqual([false, true]);
+
+    expect(() => normalizePeerStanding({ scores: [] }, 5, 'template')).toThrow('no score');
+  });
+
+  it('loads the standing for the chosen scope', async () => {
+    (testsAPI.getAttemptPeerStanding as jest.Mock).mockResolvedValue({ data: { percentage: 75, scores: [75] } });
+
+    const standing = await loadPeerStanding(9, 'paper');
+
+    expect(testsAPI.getAttemptPeerStanding).toHaveBeenCalledWith(9, 'paper');
+    expect(standing).toMatchObject({ attempt_id: 9, percentile: 50, rank: 1, peer_count: 1 });
+  });
+});
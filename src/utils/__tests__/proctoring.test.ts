@@ -0,0 +1,85 @@
+import {
+  isAnswerFieldTarget,
+  isDevtoolsShortcut,
+  isDuplicateFocusLoss,
+  loadProctoringState,
+  normalizeProctoringConfig,
+  saveProctoringState,
+  clearProctoringState,
+  validateProctoringConfig,
+  DEFAULT_PROCTORING_CONFIG,
+} from '../proctoring';
+
+jest.mock('../../services/api', () => ({
+  testsAPI: { getProctoringPolicy: jest.fn() },
+}));
+
+const key = (k: string, mods: Partial<{ ctrlKey: boolean; metaKey: boolean; shiftKey: boolean; altKey: boolean }> = {}) => ({
+  key: k,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...mods,
+});
+
+describe('proctoring', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('detects developer-tools shortcuts', () => {
+    expect(isDevtoolsShortcut(key('F12'))).toBe(true);
+    expect(isDevtoolsShortcut(key('i', { ctrlKey: true, shiftKey: true }))).toBe(true);
+    expect(isDevtoolsShortcut(key('j', { metaKey: true, altKey: true }))).toBe(true);
+    expect(isDevtoolsShortcut(key('u', { ctrlKey: true }))).toBe(true);
+    expect(isDevtoolsShortcut(key('c', { ctrlKey: true }))).toBe(false);
+    expect(isDevtoolsShortcut(key('a'))).toBe(false);
+  });
+
+  it('treats a blur right after a tab switch as the same violation', () => {
+    expect(isDuplicateFocusLoss('window_blur', 1000, 1500)).toBe(true);
+    expect(isDuplicateFocusLoss('window_blur', 1000, 2500)).toBe(false);
+    expect(isDuplicateFocusLoss('window_blur', null, 1500)).toBe(false);
+    expect(isDuplicateFocusLoss('paste', 1000, 1200)).toBe(false);
+  });
+
+  it('reads the admin policy with defaults for missing settings', () => {
+    expect(normalizeProctoringConfig({ enabled: true, autoSubmitThreshold: '5' })).toEqual({
+      ...DEFAULT_PROCTORING_CONFIG,
+      enabled: true,
+      autoSubmitThreshold: 5,
+    });
+    expect(normalizeProctoringConfig(null)).toEqual(DEFAULT_PROCTORING_CONFIG);
+    expect(normalizeProctoringConfig({ warningThreshold: -1 }).warningThreshold).toBe(DEFAULT_PROCTORING_CONFIG.warningThreshold);
+
+    const config = { ...DEFAULT_PROCTORING_CONFIG, enabled: true, warningThreshold: 4, autoSubmitThreshold: 2 };
+    expect(validateProctoringConfig(config)).toMatch(/warning threshold/);
+    expect(validateProctoringConfig({ ...config, autoSubmitThreshold: 0 })).toBeNull();
+  });
+
+  it('leaves clipboard use in answer fields alone', () => {
+    const input = document.createElement('input');
+    const readOnly = document.createElement('textarea');
+    readOnly.readOnly = true;
+
+    expect(isAnswerFieldTarget(input)).toBe(true);
+    expect(isAnswerFieldTarget(document.createElement('textarea'))).toBe(true);
+    expect(isAnswerFieldTarget(readOnly)).toBe(false);
+    expect(isAnswerFieldTarget(document.createElement('p'))).toBe(false);
+    expect(isAnswerFieldTarget(null)).toBe(false);
+  });
+
+  it('persists the event buffer per attempt', () => {
+    saveProctoringState(7, {
+      pending: [{ event_type: 'copy', occurred_at: '2024-01-01T10:00:00Z', question_index: 3 }],
+      violationCount: 4,
+    });
+
+    expect(loadProctoringState(7).violationCount).toBe(4);
+    expect(loadProctoringState(7).pending).toHaveLength(1);
+
+    clearProctoringState(7);
+    expect(loadProctoringState(7)).toEqual({ pending: [], violationCount: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import { Workbook } from 'exceljs';
+import {
+  buildImportCsv,
+  buildImportRows,
+  chunkItems,
+  missingRequiredFields,
+  parseCsv,
+  suggestColumnMapping,
+  validateImportRows,
+  worksheetToRows,
+  ImportLookup,
+  ImportRowResult,
+} from '../questionImport';
+
+const lookup: ImportLookup = {
+  papers: [
+    { paper_id: 1, paper_name: 'General Studies' },
+    { paper_id: 2, paper_name: 'Aptitude' },
+  ],
+  sections: [
+    { section_id: 10, section_name: 'History', paper_id: 1 },
+    { section_id: 20, section_name: 'Reasoning', paper_id: 2 },
+  ],
+  subsections: [{ subsection_id: 100, subsection_name: 'Ancient', section_id: 10 }],
+};
+
+const TEMPLATE_HEADER =
+  'question_text,question_type,default_difficulty_level,paper_id,section_id,subsection_id,correct_option_index,option_0,option_1,option_2,option_3,explanation,valid_until';
+
+const importCsv = (csv: string, existing: string[] = []): ImportRowResult[] => {
+  const [header, ...data] = parseCsv(csv);
+  return validateImportRows(buildImportRows(data, suggestColumnMapping(header)), lookup, existing);
+};
+
+describe('questionImport', () => {
+  it('maps template and hand-written headers to fields', () => {
+    const mapping = suggestColumnMapping(['Question Text (REQUIRED)', 'Paper Name', 'section_id', 'Option A', 'option_1', 'Notes', 'paper_id']);
+    expect(mapping).toEqual(['question_text', 'paper', 'section', 'option', 'option', null, null]);
+    expect(missingRequiredFields(['question_text', 'option'])).toEqual(['paper', 'section']);
+  });
+
+  it('parses quoted CSV cells and keeps dates as typed', () => {
+    const rows = parseCsv(`${TEMPLATE_HEADER}\n"Which is larger, 2 or 3?",MCQ,Easy,1,10,,1,2,3,,,"Say ""three""",31-12-2025`);
+    expect(rows[1][0]).toBe('Which is larger, 2 or 3?');
+    expect(rows[1][11]).toBe('Say "three"');
+    expect(rows[1][12]).toBe('31-12-2025');
+  });
+
+  it('reads Excel cells as text with dates in the import format', () => {
+    const sheet = new Workbook().addWorksheet('Questions');
+    sheet.addRow(['question_text', 'default_difficulty_level', 'correct_option_index', 'valid_until']);
+    sheet.addRow([' Q1 ', 'Easy', 2, new Date(Date.UTC(2025, 11, 31))]);
+    sheet.addRow([]);
+    sheet.addRow(['Q2']);
+
+    expect(worksheetToRows(sheet)).toEqual([
+      ['question_text', 'default_difficulty_level', 'correct_option_index', 'valid_until'],
+      ['Q1', 'Easy', '2', '31-12-2025'],
+      ['', '', '', ''],
+      ['Q2', '', '', ''],
+    ]);
+  });
+
+  it('resolves papers, sections and subsections by ID or name', () => {
+    const [result] = importCsv(`${TEMPLATE_HEADER}\nQ1,MCQ,Easy,general studies,History,Ancient,0,A,B,C,D,,`);
+    expect(result.errors).toEqual([]);
+    expect(result.resolved).toMatchObject({ paper_id: 1, section_id: 10, subsection_id: 100, question_type: 'MCQ' });
+  });
+
+  it('flags invalid rows with their spreadsheet line numbers', () => {
+    const results = importCsv([
+      TEMPLATE_HEADER,
+      'Q1,MCQ,Easy,1,10,,4,A,B,C,D,,',
+      'Q2,MCQ,Easy,1,20,,0,A,B,,,,',
+      'Q3,MCQ,Easy,1,10,,0,A,,,,,',
+      '',
+      'q1 ,Essay,Easy,9,10,,0,A,B,,,,2025-12-31',
+    ].join('\n'));
+
+    expect(results.map(r => r.rowNumber)).toEqual([2, 3, 4, 6]);
+    expect(results[0].errors).toEqual(['Correct option index must be between 0 and 3']);
+    expect(results[1].errors).toEqual(['Unknown section "20" in General Studies']);
+    expect(results[2].errors).toEqual(['At least two options are required']);
+    expect(results[3].errors).toEqual([
+      'Duplicate of row 2',
+      'Unknown question type "Essay"',
+      'Unknown paper "9"',
+      'Valid until must be a date in DD-MM-YYYY format',
+    ]);
+    expect(results.every(r => r.resolved === null)).toBe(true);
+  });
+
+  it('flags questions that already exist in the bank', () => {
+    const [result] = importCsv(`${TEMPLATE_HEADER}\nWhat is  2+2?,MCQ,Easy,1,10,,0,4,5,,,,`, ['what is 2+2?']);
+    expect(result.errors).toEqual(['Question already exists in the question bank']);
+  });
+
+  it('builds template CSV for the valid rows', () => {
+    const results = importCsv([
+      `${TEMPLATE_HEADER},accepted_answers`,
+      'Is the sky blue?,True/False,Easy,1,10,,0,,,,,,,',
+      'Capital of India?,FillInBlank,Medium,Aptitude,Reasoning,,,,,,,"Think, then answer",,New Delhi|Delhi',
+    ].join('\n'));
+    const csv = buildImportCsv(results.map(r => r.resolved!));
+
+    expect(csv.split('\n')).toEqual([
+      `${TEMPLATE_HEADER},correct_option_indices,numeric_answer,numeric_tolerance,accepted_answers,case_sensitive`,
+      'Is the sky blue?,True/False,Easy,1,10,,0,True,False,,,,,,,,,',
+      'Capital of India?,FillInBlank,Medium,2,20,,,,,,,"Think, then answer",,,,,New Delhi|Delhi,false',
+    ]);
+  });
+
+  it('splits rows into upload chunks', () => {
+    expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkItems([], 2)).toEqual([]);
+  });
+});
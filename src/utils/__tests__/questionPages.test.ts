@@ -0,0 +1,51 @@
+import { questionsAPI } from '../../services/api';
+import { fetchAllQuestions, MAX_QUESTION_PAGES, QUESTION_PAGE_SIZE } from '../questionPages';
+
+jest.mock('../../services/api', () => ({
+  questionsAPI: { getQuestions: jest.fn() },
+}));
+
+const getQuestions = questionsAPI.getQuestions as jest.Mock;
+
+const questions = (from: number, count: number) =>
+  Array.from({ length: count }, (_, index) => ({ question_id: from + index }));
+
+describe('questionPages', () => {
+  it('pages at the backend maximum until the total is reached', async () => {
+    getQuestions
+      .mockResolvedValueOnce({ data: { items: questions(1, 100), total: 250 } })
+      .mockResolvedValueOnce({ data: { items: questions(101, 100), total: 250 } })
+      .mockResolvedValueOnce({ data: { items: questions(201, 50), total: 250 } });
+
+    const all = await fetchAllQuestions({ paper_id: 3 });
+
+    expect(all).toHaveLength(250);
+    expect(getQuestions).toHaveBeenCalledTimes(3);
+    expect(getQuestions).toHaveBeenLastCalledWith({ paper_id: 3, page: 3, page_size: QUESTION_PAGE_SIZE });
+  });
+
+  it('stops at an empty page when the total is overstated', async () => {
+    getQuestions
+      .mockResolvedValueOnce({ data: { items: questions(1, 100), total: 300 } })
+      .mockResolvedValueOnce({ data: { items: [], total: 300 } });
+
+    await expect(fetchAllQuestions()).resolves.toHaveLength(100);
+    expect(getQuestions).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the page limit when the total keeps growing', async () => {
+    getQuestions.mockImplementation(async ({ page }) => ({
+      data: { items: questions((page - 1) * 100 + 1, 100), total: page * 100 + 1 },
+    }));
+
+    await expect(fetchAllQuestions()).rejects.toThrow(`Stopped loading questions after ${MAX_QUESTION_PAGES} pages`);
+    expect(getQuestions).toHaveBeenCalledTimes(MAX_QUESTION_PAGES);
+  });
+
+  it('returns legacy array responses as they are', async () => {
+    getQuestions.mockResolvedValueOnce({ data: questions(1, 120) });
+
+    await expect(fetchAllQuestions()).resolves.toHaveLength(120);
+    expect(getQuestions).toHaveBeenCalledTimes(1);
+  });
+});
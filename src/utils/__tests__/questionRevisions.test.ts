@@ -0,0 +1,124 @@
+import {
+  applySnapshotToAttemptQuestion,
+  buildRestorePayload,
+  diffRevisions,
+  formatSnapshotAnswer,
+  isEditedSince,
+  normalizeRevisions,
+  resolveAttemptQuestions,
+  resolveRevisionAt,
+  QuestionSnapshot,
+} from '../questionRevisions';
+import { questionsAPI } from '../../services/api';
+
+jest.mock('../../services/api', () => ({
+  questionsAPI: {
+    getQuestionRevisions: jest.fn(),
+  }
+}));
+
+const snapshot = (overrides: Partial<QuestionSnapshot> = {}): QuestionSnapshot => ({
+  question_text: 'What is 2+2?',
+  question_type: 'MCQ',
+  options: [{ option_text: '4', option_order: 0 }, { option_text: '5', option_order: 1 }],
+  correct_option_index: 0,
+  explanation: '',
+  default_difficulty_level: 'Easy',
+  valid_until: '9999-12-31T00:00:00',
+  paper_id: 1,
+  section_id: 10,
+  ...overrides,
+});
+
+describe('questionRevisions', () => {
+  it('normalizes revisions from different response shapes, oldest first', () => {
+    const revisions = normalizeRevisions({
+      items: [
+        { id: 8, revision_number: 2, changed_by: { first_name: 'Asha', last_name: 'Rao' }, changed_at: '2024-03-02T10:00:00Z', snapshot: snapshot({ question_text: 'What is 3+3?' }) },
+        { revision_id: 5, revision_number: 1, changed_by_name: 'admin@example.com', created_at: '2024-03-01T10:00:00Z', data: snapshot() },
+        { revision_id: 9, revision_number: 3 },
+      ],
+    });
+    expect(revisions.map(r => [r.revision_id, r.changed_by])).toEqual([[5, 'admin@example.com'], [8, 'Asha Rao']]);
+    expect(revisions[0].changed_at).toBe('2024-03-01T10:00:00Z');
+  });
+
+  it('lists only the fields that changed between revisions', () => {
+    const changes = diffRevisions(snapshot(), snapshot({ question_text: 'What is 2 + 2?', correct_option_index: 1 }));
+    expect(changes.map(c => c.field)).toEqual(['question_text', 'answer']);
+    expect(changes[1]).toMatchObject({ before: 'A. 4', after: 'B. 5' });
+    expect(diffRevisions(null, snapshot()).map(c => c.field)).toContain('options');
+  });
+
+  it('formats answer keys of every question type', () => {
+    expect(formatSnapshotAnswer(snapshot({ question_type: 'MultiSelect', correct_option_indices: [1, 0] }))).toBe('A. 4, B. 5');
+    expect(formatSnapshotAnswer(snapshot({ question_type: 'Numeric', options: [], numeric_answer: 9.8, numeric_tolerance: 0.1 }))).toBe('9.8 (±0.1)');
+    expect(formatSnapshotAnswer(snapshot({ correct_option_index: null }))).toBe('Not set');
+  });
+
+  it('resolves the revision that was live when an attempt started', () => {
+    const revisions = normalizeRevisions([
+      { revision_id: 1, revision_number: 1, changed_at: '2024-03-01T10:00:00Z', snapshot: snapshot() },
+      { revision_id: 2, revision_number: 2, changed_at: '2024-03-05T10:00:00Z', snapshot: snapshot({ question_text: 'Edited' }) },
+    ]);
+    expect(resolveRevisionAt(revisions, '2024-03-03T09:00:00Z')?.revision_id).toBe(1);
+    expect(resolveRevisionAt(revisions, '2024-03-06T09:00:00Z')?.revision_id).toBe(2);
+    expect(resolveRevisionAt(revisions, '2024-02-01T09:00:00Z')).toBeNull();
+    expect(resolveRevisionAt(revisions, undefined)).toBeNull();
+    expect(isEditedSince(revisions, '2024-03-03T09:00:00Z')).toBe(true);
+    expect(isEditedSince(revisions, '2024-03-06T09:00:00Z')).toBe(false);
+  });
+
+  it('restores every field of a revision but keeps the question ID', () => {
+    const payload = buildRestorePayload(
+      { question_id: 7, question_text: 'Edited', paper_id: 2, section_id: 20, paper: { paper_name: 'Maths' } },
+      snapshot({ question_id: 99 })
+    );
+    expect(payload).toMatchObject({ question_text: 'What is 2+2?', paper_id: 1, section_id: 10, correct_option_index: 0 });
+    expect(payload).not.toHaveProperty('paper');
+    expect(payload).not.toHaveProperty('question_id');
+  });
+
+  it('shows an attempted question as it was while keeping the recorded response', () => {
+    const attempted = {
+      question_id: 7,
+      question_text: 'Edited',
+      options: [{ option_id: 71, option_text: 'four', option_order: 0 }, { option_id: 72, option_text: 'five', option_order: 1 }],
+      selected_option_index: 0,
+      correct_option_index: 1,
+      is_correct: true,
+    };
+    const shown = applySnapshotToAttemptQuestion(attempted, snapshot());
+    expect(shown).toMatchObject({ question_text: 'What is 2+2?', correct_option_index: 0, selected_option_index: 0, is_correct: true });
+    expect(shown.options).toEqual([
+      { option_id: 71, option_text: '4', option_order: 0 },
+      { option_id: 72, option_text: '5', option_order: 1 },
+    ]);
+  });
+
+  it('resolves attempted questions from sent snapshots or from their revisions', async () => {
+    (questionsAPI.getQuestionRevisions as jest.Mock).mockImplementation((id: number) => {
+      if (id === 2) return Promise.reject(new Error('Not found'));
+      return Promise.resolve({
+        data: [
+          { revision_id: 1, revision_number: 1, changed_at: '2024-03-01T10:00:00Z', snapshot: snapshot() },
+          { revision_id: 2, revision_number: 2, changed_at: '2024-03-05T10:00:00Z', snapshot: snapshot({ question_text: 'Edited' }) },
+        ],
+      });
+    });
+    const resolved = await resolveAttemptQuestions(
+      [
+        { question_id: 1, question_text: 'Edited' },
+        { question_id: 2, question_text: 'Unknown history' },
+        { question_id: 3, question_text: 'Edited', question_snapshot: snapshot({ question_text: 'Sent with attempt' }) },
+      ],
+      '2024-03-03T09:00:00Z'
+    );
+    expect(resolved.map(q => [q.question_text, !!q.edited_since_attempt])).toEqual([
+      ['What is 2+2?', true],
+      ['Unknown history', false],
+      ['Sent with attempt', false],
+    ]);
+    expect(questionsAPI.getQuestionRevisions).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  buildSimilarityIndex,
+  compareQuestions,
+  DUPLICATE_THRESHOLD,
+  diffWords,
+  findDuplicateGroups,
+  normalizeForComparison,
+} from '../questionSimilarity';
+
+const options = (...texts: string[]) => texts.map(option_text => ({ option_text }));
+
+const bank = [
+  { question_id: 1, question_text: 'What is the capital of France?', options: options('Paris', 'London', 'Berlin', 'Rome') },
+  { question_id: 2, question_text: 'What is the capital city of France?', options: options('Rome', 'Paris', 'Berlin', 'London') },
+  { question_id: 3, question_text: 'Which planet is known as the Red Planet?', options: options('Earth', 'Mars', 'Jupiter', 'Venus') },
+  { question_id: 4, question_text: '**What** is the capital of   France', options: options('Berlin', 'Paris', 'Rome', 'Madrid') },
+  { question_id: 5, question_text: 'Who wrote Hamlet?' },
+];
+
+describe('questionSimilarity', () => {
+  it('normalizes markup, punctuation and case', () => {
+    expect(normalizeForComparison('**What** is  $x^2$, really?')).toBe('what is x 2 really');
+  });
+
+  it('treats reworded questions with shuffled options as near-duplicates', () => {
+    const similarity = compareQuestions(bank[0], bank[1]);
+    expect(similarity.optionScore).toBe(1);
+    expect(similarity.score).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+    expect(compareQuestions(bank[0], bank[2]).score).toBeLessThan(0.3);
+  });
+
+  it('scores identical text fully even when markup differs', () => {
+    const similarity = compareQuestions(bank[0], bank[3]);
+    expect(similarity.textScore).toBe(1);
+    expect(similarity.optionScore).toBeCloseTo(3 / 5);
+  });
+
+  it('finds similar questions in the bank, excluding the question itself', () => {
+    const index = buildSimilarityIndex(bank);
+    const matches = index.findSimilar(bank[0], { excludeId: 1 });
+    expect(matches.map(match => match.question.question_id)).toEqual([4, 2]);
+    expect(index.findSimilar({ question_text: 'Who wrote Hamlet' }).map(m => m.question.question_id)).toEqual([5]);
+    expect(index.findSimilar({ question_text: 'Explain photosynthesis' })).toEqual([]);
+  });
+
+  it('looks up candidates by distinctive words, not stop-words or words the whole bank shares', () => {
+    const templated = Array.from({ length: 30 }, (_, i) => ({
+      question_id: 100 + i,
+      question_text: `Calculate the value of the unknown when ${i + 2}k equals ${(i + 2) * 7} in equation ${i}`,
+    }));
+    const reworded = { question_id: 200, question_text: 'Calculate the value of the unknown if 2k equals 14 in equation 0' };
+    const index = buildSimilarityIndex([...templated, reworded]);
+
+    // Every question shares the template words, yet only the reworded one is even scored
+    const candidates = index.findSimilar(templated[0], { threshold: 0, excludeId: 100, limit: 50 });
+    expect(candidates.map(match => match.question.question_id)).toEqual([200]);
+    expect(findDuplicateGroups([...templated, reworded]).map(group => group.questions.map(q => q.question_id)))
+      .toEqual([[100, 200]]);
+  });
+
+  it('groups duplicates across the bank', () => {
+    const groups = findDuplicateGroups(bank);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].questions.map(q => q.question_id)).toEqual([1, 2, 4]);
+  });
+
+  it('diffs words for side-by-side display', () => {
+    const { left, right } = diffWords('What is the capital of France?', 'What is the capital city of France?');
+    expect(left).toEqual([{ type: 'same', text: 'What is the capital of France?' }]);
+    expect(right).toEqual([
+      { type: 'same', text: 'What is the capital' },
+      { type: 'added', text: 'city' },
+      { type: 'same', text: 'of France?' },
+    ]);
+  });
+});
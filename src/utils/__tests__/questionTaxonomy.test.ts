@@ -0,0 +1,61 @@
+import {
+  describeTagSelection,
+  normalizeObjectivesResponse,
+  normalizeTag,
+  normalizeTagsResponse,
+  objectivesForPaper,
+  parseTagList,
+  validateObjective,
+} from '../questionTaxonomy';
+import { LearningObjective } from '../../types';
+
+const objectives: LearningObjective[] = [
+  { objective_id: 1, code: 'PHY-2', name: 'Heat transfer', paper_id: 1 },
+  { objective_id: 2, code: 'GEN-1', name: 'Units and measurement', paper_id: null },
+  { objective_id: 3, code: 'CHE-1', name: 'Stoichiometry', paper_id: 2 },
+];
+
+describe('questionTaxonomy', () => {
+  it('normalizes tags and parses tag lists without duplicates', () => {
+    expect(normalizeTag('  Heat   Transfer ')).toBe('heat transfer');
+    expect(parseTagList('Optics; thermodynamics, optics,,')).toEqual(['optics', 'thermodynamics']);
+    expect(parseTagList(['Waves', ' waves '])).toEqual(['waves']);
+    expect(parseTagList(null)).toEqual([]);
+  });
+
+  it('normalizes tag responses of objects or plain names, sorted by name', () => {
+    expect(normalizeTagsResponse({ items: [{ id: 4, name: 'Optics', usage_count: 3 }, { tag_id: 2, name: 'acids' }] }))
+      .toEqual([
+        { tag_id: 2, name: 'acids', question_count: undefined },
+        { tag_id: 4, name: 'optics', question_count: 3 },
+      ]);
+    expect(normalizeTagsResponse(['Waves', '']).map(tag => tag.name)).toEqual(['waves']);
+  });
+
+  it('sorts objectives by syllabus code with numeric ordering', () => {
+    const sorted = normalizeObjectivesResponse([
+      { id: 1, code: 'PHY-10', name: 'Optics' },
+      { id: 2, code: 'PHY-2', name: 'Heat' },
+      { id: 3, name: 'Missing code' },
+    ]);
+    expect(sorted.map(objective => objective.code)).toEqual(['PHY-2', 'PHY-10']);
+  });
+
+  it('offers a paper its own objectives and the shared ones', () => {
+    expect(objectivesForPaper(objectives, 1).map(objective => objective.code)).toEqual(['PHY-2', 'GEN-1']);
+    expect(objectivesForPaper(objectives, null).map(objective => objective.code)).toEqual(['GEN-1']);
+  });
+
+  it('validates syllabus codes and names, ignoring the objective being edited', () => {
+    expect(validateObjective({ code: '', name: 'X' }, objectives)).toMatch(/required/);
+    expect(validateObjective({ code: 'PHY 3', name: 'X' }, objectives)).toMatch(/only contain/);
+    expect(validateObjective({ code: 'PHY-3', name: ' ' }, objectives)).toBe('Name is required');
+    expect(validateObjective({ code: 'phy-2', name: 'Heat' }, objectives)).toBe('Syllabus code PHY-2 is already used');
+    expect(validateObjective({ code: 'phy-2', name: 'Heat' }, objectives, 1)).toBeNull();
+  });
+
+  it('describes tag-based selections', () => {
+    expect(describeTagSelection(['optics', 'waves'])).toBe('Tagged optics or waves');
+    expect(describeTagSelection([])).toBe('Any tag');
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  buildAnswerFields,
+  buildAnswerKeyPayload,
+  evaluateResponse,
+  formatExpectedAnswer,
+  normalizeQuestionType,
+  toggleOptionIndex,
+  validateAnswerKey,
+  AnswerKeyForm,
+} from '../questionTypes';
+
+const form = (overrides: Partial<AnswerKeyForm> = {}): AnswerKeyForm => ({
+  question_type: 'MCQ',
+  options: [
+    { option_text: 'A', option_order: 0 },
+    { option_text: 'B', option_order: 1 },
+    { option_text: 'C', option_order: 2 },
+  ],
+  correct_option_index: 0,
+  correct_option_indices: [],
+  numeric_answer: '',
+  numeric_tolerance: '',
+  accepted_answers: [],
+  case_sensitive: false,
+  ...overrides,
+});
+
+describe('questionTypes', () => {
+  it('normalizes type spellings', () => {
+    expect(normalizeQuestionType('multi_select')).toBe('MultiSelect');
+    expect(normalizeQuestionType('true_false')).toBe('True/False');
+    expect(normalizeQuestionType('Fill in the blank')).toBe('FillInBlank');
+    expect(normalizeQuestionType('NUMERIC')).toBe('Numeric');
+    expect(normalizeQuestionType(undefined)).toBe('MCQ');
+    expect(normalizeQuestionType('essay')).toBe('MCQ');
+  });
+
+  it('toggles multi-select answers and builds the submitted fields', () => {
+    let stored = toggleOptionIndex(undefined, 2);
+    stored = toggleOptionIndex(stored, 0);
+    expect(stored).toBe('0,2');
+    expect(toggleOptionIndex(stored, 2)).toBe('0');
+
+    expect(buildAnswerFields('MultiSelect', stored)).toEqual({ selected_option_indices: [0, 2] });
+    expect(buildAnswerFields('MultiSelect', undefined)).toEqual({ selected_option_indices: [] });
+    expect(buildAnswerFields('Numeric', '3.5')).toEqual({ answer_text: '3.5' });
+    expect(buildAnswerFields('MCQ', '1')).toEqual({ selected_option_index: 1 });
+    expect(buildAnswerFields('MCQ', undefined)).toEqual({});
+  });
+
+  it('marks multi-select answers correct only for the exact set', () => {
+    const key = { question_type: 'MultiSelect', correct_option_indices: [0, 2] };
+    expect(evaluateResponse(key, { selected_option_indices: [2, 0] })).toBe(true);
+    expect(evaluateResponse(key, { selected_option_indices: [0] })).toBe(false);
+    expect(evaluateResponse(key, { selected_option_indices: [0, 1, 2] })).toBe(false);
+  });
+
+  it('accepts numeric answers within the tolerance', () => {
+    const key = { question_type: 'Numeric', numeric_answer: 9.81, numeric_tolerance: 0.01 };
+    expect(evaluateResponse(key, { answer_text: '9.8' })).toBe(true);
+    expect(evaluateResponse(key, { answer_text: ' 9.82 ' })).toBe(true);
+    expect(evaluateResponse(key, { answer_text: '9.7' })).toBe(false);
+    expect(evaluateResponse(key, { answer_text: 'nine' })).toBe(false);
+    expect(formatExpectedAnswer(key)).toBe('9.81 (±0.01)');
+  });
+
+  it('matches fill-in-the-blank answers ignoring case and extra spaces', () => {
+    const key = { question_type: 'FillInBlank', accepted_answers: ['New Delhi', 'Delhi'] };
+    expect(evaluateResponse(key, { answer_text: '  new   delhi ' })).toBe(true);
+    expect(evaluateResponse(key, { answer_text: 'Mumbai' })).toBe(false);
+    expect(evaluateResponse({ ...key, case_sensitive: true }, { answer_text: 'delhi' })).toBe(false);
+    expect(evaluateResponse(key, { answer_text: '' })).toBe(false);
+  });
+
+  it('validates the answer key for each type', () => {
+    expect(validateAnswerKey(form())).toBeNull();
+    expect(validateAnswerKey(form({ question_type: 'MultiSelect' }))).toBe('Select at least one correct option');
+    expect(validateAnswerKey(form({ question_type: 'Numeric', numeric_answer: 'abc' }))).toBe('The correct answer must be a number');
+    expect(validateAnswerKey(form({ question_type: 'Numeric', numeric_answer: '4', numeric_tolerance: '-1' })))
+      .toBe('Tolerance must be zero or a positive number');
+    expect(validateAnswerKey(form({ question_type: 'FillInBlank', accepted_answers: ['  '] }))).toBe('Add at least one accepted answer');
+  });
+
+  it('only sends the answer key fields of the question type', () => {
+    expect(buildAnswerKeyPayload(form({ question_type: 'Numeric', numeric_answer: '42' }))).toEqual({
+      options: [],
+      numeric_answer: 42,
+      numeric_tolerance: 0,
+    });
+    expect(buildAnswerKeyPayload(form({ question_type: 'MultiSelect', correct_option_indices: [2, 1] }))).toMatchObject({
+      correct_option_index: 1,
+      correct_option_indices: [1, 2],
+    });
+  });
+});
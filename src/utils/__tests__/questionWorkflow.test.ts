@@ -0,0 +1,65 @@
+import {
+  availableTransitions,
+  effectiveQuestionStatus,
+  isAwaitingReviewBy,
+  isServable,
+  normalizeQuestionStatus,
+  normalizeReviewComments,
+} from '../questionWorkflow';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+describe('questionWorkflow', () => {
+  it('treats questions without a status as published and normalizes spellings', () => {
+    expect(normalizeQuestionStatus(undefined)).toBe('published');
+    expect(normalizeQuestionStatus('In Review')).toBe('in_review');
+    expect(normalizeQuestionStatus('in-review')).toBe('in_review');
+    expect(normalizeQuestionStatus('unexpected')).toBe('draft');
+  });
+
+  it('retires published questions automatically once valid until has passed', () => {
+    expect(effectiveQuestionStatus({ status: 'published', valid_until: '2025-06-14T00:00:00' }, NOW)).toBe('retired');
+    expect(effectiveQuestionStatus({ status: 'published', valid_until: '2025-06-15' }, NOW)).toBe('published');
+    expect(effectiveQuestionStatus({ status: 'approved', valid_until: '2025-01-01' }, NOW)).toBe('approved');
+  });
+
+  it('serves only active published questions that have not expired', () => {
+    expect(isServable({ status: 'published', valid_until: '9999-12-31' }, NOW)).toBe(true);
+    expect(isServable({}, NOW)).toBe(true);
+    expect(isServable({ status: 'draft' }, NOW)).toBe(false);
+    expect(isServable({ status: 'approved' }, NOW)).toBe(false);
+    expect(isServable({ status: 'published', is_active: false }, NOW)).toBe(false);
+    expect(isServable({ status: 'published', valid_until: '2025-06-01' }, NOW)).toBe(false);
+  });
+
+  it('leaves review decisions to someone other than the submitter', () => {
+    const inReview = { status: 'in_review', submitted_by_id: 1 };
+    expect(availableTransitions(inReview, 1, NOW)).toEqual([]);
+    expect(availableTransitions(inReview, 2, NOW).map(t => t.to)).toEqual(['approved', 'draft']);
+    expect(availableTransitions({ status: 'draft' }, 1, NOW).map(t => t.action)).toEqual(['submit']);
+  });
+
+  it('blocks publishing an approved question whose validity has passed', () => {
+    const [publish] = availableTransitions({ status: 'approved', valid_until: '2025-01-01' }, 1, NOW);
+    expect(publish.action).toBe('publish');
+    expect(publish.disabledReason).toMatch(/extend/i);
+  });
+
+  it('builds the review queue of a user', () => {
+    expect(isAwaitingReviewBy({ status: 'in_review', submitted_by_id: 1 }, 2)).toBe(true);
+    expect(isAwaitingReviewBy({ status: 'in_review', submitted_by_id: 1, reviewer_id: 3 }, 2)).toBe(false);
+    expect(isAwaitingReviewBy({ status: 'in_review', submitted_by_id: 2 }, 2)).toBe(false);
+    expect(isAwaitingReviewBy({ status: 'draft' }, 2)).toBe(false);
+  });
+
+  it('normalizes review comments with status changes, oldest first', () => {
+    const comments = normalizeReviewComments({
+      items: [
+        { id: 2, question_id: 5, author: { first_name: 'Asha', last_name: 'Rao' }, text: 'Fix option C', from_status: 'in_review', to_status: 'draft', created_at: '2025-06-02T10:00:00Z' },
+        { comment_id: 1, question_id: 5, author_name: 'Ben', comment: 'Ready', created_at: '2025-06-01T10:00:00Z' },
+      ],
+    });
+    expect(comments.map(c => c.author_name)).toEqual(['Ben', 'Asha Rao']);
+    expect(comments[1]).toMatchObject({ comment: 'Fix option C', status_change: { from: 'in_review', to: 'draft' } });
+  });
+});
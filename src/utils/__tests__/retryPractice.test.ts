@@ -0,0 +1,97 @@
+import { testsAPI } from '../../services/api';
+import { adaptAdaptiveAttempt, adaptRegularAttempt, parseAttemptDetails } from '../attemptResults';
+import { buildRetryTemplate, retryDuration, retryQuestions, startRetryPractice } from '../retryPractice';
+
+jest.mock('../../services/api', () => ({
+  testsAPI: { getTemplates: jest.fn(), createTemplate: jest.fn(), startTest: jest.fn() },
+  questionsAPI: {},
+}));
+
+const question = (id: number, selected: number | null, fields: Record<string, any> = {}) => ({
+  question_id: id,
+  question_text: `Question ${id}`,
+  options: [{ option_text: 'A' }, { option_text: 'B' }],
+  correct_option_index: 0,
+  selected_option_index: selected,
+  paper_id: 1,
+  ...fields,
+});
+
+const payload = {
+  questions: [
+    question(1, 0),
+    question(2, 1, { paper_id: 2 }),
+    question(3, null, { is_marked_for_review: true }),
+    question(4, 0, { is_marked_for_review: true }),
+  ],
+};
+
+describe('retryPractice', () => {
+  it('picks the wrong or skipped and the marked questions', () => {
+    const result = adaptRegularAttempt(parseAttemptDetails(payload, { isAdaptive: false }), { attemptId: 1 });
+    expect(retryQuestions(result, 'incorrect').map(q => q.question_id)).toEqual([2, 3]);
+    expect(retryQuestions(result, 'marked').map(q => q.question_id)).toEqual([3, 4]);
+
+    // Questions never served in an adaptive attempt are not retried
+    const served = {
+      questions_attempted: 3,
+      questions: payload.questions.map(q => ({ ...q, marks: q.selected_option_index === null ? null : Number(q.selected_option_index === 0) })),
+    };
+    const adaptive = adaptAdaptiveAttempt(parseAttemptDetails(served, { isAdaptive: true }), { attemptId: 1 });
+    expect(retryQuestions(adaptive, 'incorrect').map(q => q.question_id)).toEqual([2]);
+  });
+
+  it('builds a practice template with the exact questions per paper', () => {
+    const template = buildRetryTemplate(41, [
+      { question_id: 5, paper_id: 2 },
+      { question_id: 6, paper_id: 1 },
+      { question_id: 7, paper_id: 2 },
+      { question_id: 5, paper_id: 2 },
+      { question_id: 8 },
+    ], 'incorrect');
+
+    expect(template.test_type).toBe('Practice');
+    expect(template).toMatchObject({ template_name: 'Retry incorrect - attempt 41', is_retry: true, source_attempt_id: 41 });
+    expect(template.sections).toEqual([
+      { paper_id: 2, question_count: 2, question_ids: [5, 7] },
+      { paper_id: 1, question_count: 1, question_ids: [6] },
+    ]);
+    expect(retryDuration(3)).toBe(10);
+    expect(retryDuration(12)).toBe(24);
+  });
+
+  it('creates the template and starts the test', async () => {
+    (testsAPI.getTemplates as jest.Mock).mockResolvedValue({
+      data: [{ template_id: 40, template_name: 'Retry marked-for-review - attempt 9', is_retry: true, source_attempt_id: 9 }],
+    });
+    (testsAPI.createTemplate as jest.Mock).mockResolvedValue({ data: { template_id: 42 } });
+    (testsAPI.startTest as jest.Mock).mockResolvedValue({ data: { attempt_id: 77 } });
+
+    await expect(startRetryPractice(41, [{ question_id: 3, paper_id: 1 }], 'marked')).resolves.toBe(77);
+    expect(testsAPI.createTemplate).toHaveBeenCalledWith(expect.objectContaining({
+      is_retry: true,
+      sections: [{ paper_id: 1, question_count: 1, question_ids: [3] }],
+    }));
+    expect(testsAPI.startTest).toHaveBeenCalledWith(42, 10);
+  });
+
+  it('reuses the retry template made earlier for the attempt', async () => {
+    (testsAPI.getTemplates as jest.Mock).mockResolvedValue({
+      data: { templates: [
+        { template_id: 40, template_name: 'Retry incorrect - attempt 41', is_retry: true, source_attempt_id: 41 },
+        { template_id: 43, template_name: 'Retry marked-for-review - attempt 41', is_retry: true, source_attempt_id: 41 },
+      ] },
+    });
+    (testsAPI.startTest as jest.Mock).mockResolvedValue({ data: { attempt_id: 78 } });
+
+    await expect(startRetryPractice(41, [{ question_id: 3, paper_id: 1 }], 'marked')).resolves.toBe(78);
+    expect(testsAPI.createTemplate).not.toHaveBeenCalled();
+    expect(testsAPI.startTest).toHaveBeenCalledWith(43, 10);
+  });
+
+  it('refuses to start without questions to retry', async () => {
+    await expect(startRetryPractice(41, [], 'marked')).rejects.toThrow('No questions were marked for review');
+    await expect(startRetryPractice(41, [{ question_id: 3 }], 'incorrect')).rejects.toThrow('papers of these questions are unknown');
+    expect(testsAPI.createTemplate).not.toHaveBeenCalled();
+  });
+});
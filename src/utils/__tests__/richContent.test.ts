@@ -0,0 +1,45 @@
+import { hasRichFormatting, renderRichContent as richContentToHtml, richContentToPlainText } from '../richContent';
+
+describe('richContent', () => {
+  it('leaves plain text on the plain path', () => {
+    expect(hasRichFormatting('What is the capital of India?')).toBe(false);
+    expect(hasRichFormatting('Solve $x^2 = 4$')).toBe(true);
+    expect(hasRichFormatting('| a | b |')).toBe(true);
+    expect(hasRichFormatting('')).toBe(false);
+  });
+
+  it('renders Markdown, code blocks and tables', () => {
+    const html = richContentToHtml('**Bold**\n\n```\nint x = 1;\n```\n\n| A | B |\n|---|---|\n| 1 | 2 |');
+    expect(html).toContain('<strong>Bold</strong>');
+    expect(html).toContain('<code>int x = 1;\n</code>');
+    expect(html).toContain('<table>');
+  });
+
+  it('renders inline and display math with KaTeX', () => {
+    const inline = richContentToHtml('Find $\\frac{a}{b}$', { inline: true });
+    expect(inline).toContain('class="katex"');
+    expect(inline).not.toContain('<p>');
+
+    const display = richContentToHtml('$$\nE = mc^2\n$$');
+    expect(display).toContain('rich-math-block');
+    expect(display).toContain('katex-display');
+  });
+
+  it('does not treat currency amounts as math', () => {
+    const html = richContentToHtml('It costs $5 and $10', { inline: true });
+    expect(html).not.toContain('katex');
+    expect(html).toContain('$5 and $10');
+  });
+
+  it('sanitizes scripts and event handlers', () => {
+    const html = richContentToHtml('<img src="x.png" onerror="alert(1)"><script>alert(2)</script> ok');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('src="x.png"');
+  });
+
+  it('converts rich content to readable plain text', () => {
+    expect(richContentToPlainText('**Find** $x^2$ in ![circuit](https://cdn/x.png)')).toBe('Find x^2 in [Image: circuit]');
+    expect(richContentToPlainText('## Title\n`code`')).toBe('Title\ncode');
+  });
+});
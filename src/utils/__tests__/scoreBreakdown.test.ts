@@ -0,0 +1,79 @@
+import { adaptAdaptiveAttempt, adaptRegularAttempt, parseAttemptDetails } from '../attemptResults';
+import { breakdownTableCells, computeScoreBreakdown, formatBreakdownTime } from '../scoreBreakdown';
+
+jest.mock('../../services/api', () => ({ questionsAPI: {} }));
+
+const question = (id: number, fields: Record<string, any>) => ({
+  question_id: id,
+  question_text: `Question ${id}`,
+  options: [{ option_text: 'A' }, { option_text: 'B' }],
+  correct_option_index: 0,
+  ...fields,
+});
+
+const payload = {
+  scoring_scheme: { marks_per_correct: 4, penalty_per_wrong: 1, marks_per_unattempted: 0 },
+  test_template: {
+    sections: [
+      { paper_id: 2, section_id: 20, question_count: 1, section_order: 0 },
+      { paper_id: 1, section_id: 11, question_count: 1, section_order: 1 },
+      { paper_id: 1, section_id: 10, question_count: 2, section_order: 2 },
+    ],
+  },
+  questions: [
+    question(1, { paper_id: 1, paper_name: 'Physics', section_id: 10, section_name: 'Mechanics', subsection_id: 100,
+      subsection_name: 'Kinematics', selected_option_index: 0, time_taken_seconds: 30 }),
+    question(2, { paper_id: 1, section_id: 10, section_name: 'Mechanics', selected_option_index: 1, time_taken_seconds: 45.4 }),
+    question(3, { paper_id: 1, section_id: 11, section_name: 'Optics', selected_option_index: null }),
+    question(4, { paper_id: 2, paper_name: 'Chemistry', section_id: 20, selected_option_index: 0, time_taken_seconds: 20 }),
+    question(5, { selected_option_index: 0 }),
+  ],
+};
+
+describe('scoreBreakdown', () => {
+  it('groups questions by paper, section and subsection in template order', () => {
+    const rows = computeScoreBreakdown(adaptRegularAttempt(parseAttemptDetails(payload, { isAdaptive: false }), { attemptId: 1 }));
+
+    expect(rows.map(row => [row.level, row.label])).toEqual([
+      ['paper', 'Chemistry'],
+      ['section', 'Section 20'],
+      ['paper', 'Physics'],
+      ['section', 'Optics'],
+      ['section', 'Mechanics'],
+      ['subsection', 'Kinematics'],
+      ['paper', 'Other questions'],
+    ]);
+    expect(rows[2]).toMatchObject({
+      total: 3,
+      attempted: 2,
+      correct: 1,
+      wrong: 1,
+      skipped: 1,
+      accuracy: 50,
+      timeSeconds: 75.4,
+      marksObtained: 3,
+      maxMarks: 12,
+    });
+    expect(rows[3]).toMatchObject({ attempted: 0, accuracy: 0, timeSeconds: null });
+    expect(breakdownTableCells(rows[4])).toEqual(['Mechanics', '2/2', '1', '1', '0', '50%', '1:15', '3 / 8']);
+  });
+
+  it('counts only the attempted questions of an adaptive attempt', () => {
+    // The adaptive engine records marks only for the questions it served
+    const marks: Record<number, number | null> = { 1: 1, 2: 0, 3: null, 4: 1, 5: 1 };
+    const adaptive = {
+      ...payload,
+      questions_attempted: 4,
+      questions: payload.questions.map(q => ({ ...q, marks: marks[q.question_id] })),
+    };
+    const rows = computeScoreBreakdown(adaptAdaptiveAttempt(parseAttemptDetails(adaptive, { isAdaptive: true }), { attemptId: 1 }));
+    const physics = rows.find(row => row.label === 'Physics');
+    expect(physics).toMatchObject({ total: 2, skipped: 0 });
+    expect(rows.find(row => row.label === 'Optics')).toBeUndefined();
+  });
+
+  it('formats the time spent', () => {
+    expect(formatBreakdownTime(null)).toBe('-');
+    expect(formatBreakdownTime(125.6)).toBe('2:06');
+  });
+});
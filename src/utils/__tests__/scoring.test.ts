@@ -0,0 +1,88 @@
+import {
+  computeScoreSummary,
+  describeScoringScheme,
+  getAnswerOutcome,
+  resolveScoringScheme,
+  DEFAULT_SCORING_SCHEME,
+} from '../scoring';
+
+const correct = { is_correct: true, selected_option_index: 0 };
+const wrong = { is_correct: false, selected_option_index: 1 };
+const skipped = { is_correct: false, selected_option_index: null };
+
+describe('scoring', () => {
+  it('scores one mark per correct answer by default', () => {
+    const summary = computeScoreSummary([correct, correct, wrong, skipped]);
+
+    expect(summary).toMatchObject({
+      total: 4,
+      correct: 2,
+      wrong: 1,
+      unattempted: 1,
+      marksObtained: 2,
+      maxMarks: 4,
+      negativeMarks: 0,
+      percentage: 50,
+    });
+  });
+
+  it('deducts the penalty for wrong answers only', () => {
+    const scheme = { marks_per_correct: 4, penalty_per_wrong: 1, marks_per_unattempted: 0 };
+    const summary = computeScoreSummary([correct, wrong, wrong, skipped], scheme);
+
+    expect(summary.marksObtained).toBe(2);
+    expect(summary.maxMarks).toBe(16);
+    expect(summary.negativeMarks).toBe(2);
+    expect(summary.percentage).toBe(12.5);
+  });
+
+  it('allows a negative total', () => {
+    const scheme = { marks_per_correct: 1, penalty_per_wrong: 0.25, marks_per_unattempted: 0 };
+    const summary = computeScoreSummary([wrong, wrong, wrong, skipped], scheme);
+
+    expect(summary.marksObtained).toBe(-0.75);
+    expect(summary.percentage).toBe(-18.75);
+  });
+
+  it('applies section and difficulty weights', () => {
+    const scheme = {
+      ...DEFAULT_SCORING_SCHEME,
+      section_weights: { '2': 2 },
+      difficulty_weights: { Hard: 3 },
+    };
+    const summary = computeScoreSummary([
+      { ...correct, paper_id: 2, difficulty_level: 'hard' },
+      { ...correct, paper_id: 1, difficulty_level: 'Easy' },
+      { ...skipped, paper_id: 2 },
+    ], scheme);
+
+    expect(summary.marksObtained).toBe(7);
+    expect(summary.maxMarks).toBe(9);
+  });
+
+  it('treats an empty selection as unattempted', () => {
+    expect(getAnswerOutcome({ is_correct: false, selected_option_index: '' })).toBe('unattempted');
+    expect(getAnswerOutcome({ is_correct: false })).toBe('unattempted');
+    expect(getAnswerOutcome({ is_correct: false, selected_option_index: 0 })).toBe('wrong');
+  });
+
+  it('normalizes schemes from the API', () => {
+    expect(resolveScoringScheme(null)).toEqual(DEFAULT_SCORING_SCHEME);
+    expect(resolveScoringScheme({ marks_per_correct: '2', penalty_per_wrong: -0.5 })).toEqual({
+      marks_per_correct: 2,
+      penalty_per_wrong: 0.5,
+      marks_per_unattempted: 0,
+    });
+  });
+
+  it('describes the marking rules', () => {
+    const lines = describeScoringScheme(
+      { marks_per_correct: 4, penalty_per_wrong: 1, marks_per_unattempted: 0, section_weights: { '3': 2 } },
+      { '3': 'Physics' }
+    );
+
+    expect(lines).toContain('Correct answer: +4 marks');
+    expect(lines).toContain('Wrong answer: -1 mark');
+    expect(lines).toContain('Section weights: Physics x2');
+  });
+});
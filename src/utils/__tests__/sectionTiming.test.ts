@@ -0,0 +1,48 @@
+import {
+  groupQuestionsBySection,
+  getSectionIndexForQuestion,
+  getNextNonEmptySection,
+  getSectionRemainingSeconds,
+} from '../sectionTiming';
+
+const sections = [
+  { paper_id: 2, section_name: 'Reasoning', section_order: 2, duration_minutes: 20 },
+  { paper_id: 1, section_name: 'Quant', section_order: 1, duration_minutes: 30 },
+];
+
+describe('sectionTiming', () => {
+  it('groups questions into contiguous blocks in section order', () => {
+    const questions = [
+      { question_id: 1, paper_id: 2 },
+      { question_id: 2, paper_id: 1 },
+      { question_id: 3, paper_id: 2 },
+      { question_id: 4, paper_id: 1 },
+    ];
+
+    const { questions: ordered, ranges } = groupQuestionsBySection(questions, sections);
+
+    expect(ordered.map(q => q.question_id)).toEqual([2, 4, 1, 3]);
+    expect(ranges).toEqual([
+      { paperId: 1, name: 'Quant', durationSeconds: 1800, startIndex: 0, endIndex: 2 },
+      { paperId: 2, name: 'Reasoning', durationSeconds: 1200, startIndex: 2, endIndex: 4 },
+    ]);
+    expect(getSectionIndexForQuestion(ranges, 3)).toBe(1);
+    expect(getSectionIndexForQuestion(ranges, 4)).toBe(-1);
+  });
+
+  it('keeps questions from unknown papers in the last section', () => {
+    const { ranges } = groupQuestionsBySection([{ paper_id: 9 }, { paper_id: 1 }], sections);
+    expect(ranges[1].endIndex - ranges[1].startIndex).toBe(1);
+  });
+
+  it('skips sections without questions', () => {
+    const { ranges } = groupQuestionsBySection([{ paper_id: 2 }], sections);
+    expect(getNextNonEmptySection(ranges, 0)).toBe(1);
+    expect(getNextNonEmptySection(ranges, 2)).toBe(-1);
+  });
+
+  it('counts down from the section start time', () => {
+    expect(getSectionRemainingSeconds(0, 60, 30000)).toBe(30);
+    expect(getSectionRemainingSeconds(0, 60, 90000)).toBe(0);
+  });
+});
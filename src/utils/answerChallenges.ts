@@ -0,0 +1,185 @@
+/**
+ * Answer Key Challenges
+ *
+ * Helpers for candidates challenging the answer key of a question and for
+ * the regrade that follows an accepted challenge: normalizing challenges,
+ * regrade jobs and the regrade notices of results, and polling a regrade
+ * job until every affected attempt has been rescored.
+ */
+import { challengesAPI } from '../services/api';
+import { AnswerKeyChallenge, ChallengeStatus, RegradeJob, RegradeJobStatus, RegradeNotice } from '../types';
+
+export const MIN_CHALLENGE_REASON_LENGTH = 20;
+
+export const CHALLENGE_STATUS_LABELS: Record<ChallengeStatus, string> = {
+  pending: 'Challenge pending',
+  accepted: 'Challenge accepted',
+  rejected: 'Challenge rejected',
+};
+
+export const CHALLENGE_STATUS_COLORS: Record<ChallengeStatus, 'warning' | 'success' | 'default'> = {
+  pending: 'warning',
+  accepted: 'success',
+  rejected: 'default',
+};
+
+const REGRADE_JOB_STATUSES: RegradeJobStatus[] = ['queued', 'running', 'completed', 'failed'];
+
+// Answer key fields a regrade may have corrected
+const ANSWER_KEY_FIELDS = [
+  'correct_option_index',
+  'correct_option_indices',
+  'numeric_answer',
+  'numeric_tolerance',
+  'accepted_answers',
+  'case_sensitive',
+];
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+};
+
+const normalizeChallengeStatus = (raw?: string | null): ChallengeStatus => {
+  const status = (raw || '').toLowerCase();
+  return status === 'accepted' || status === 'rejected' ? status : 'pending';
+};
+
+/**
+ * Validation error of a challenge reason, or null
+ */
+export const validateChallengeReason = (reason: string): string | null => {
+  const length = reason.trim().length;
+  if (length === 0) return 'Please explain why you think the answer key is wrong';
+  if (length < MIN_CHALLENGE_REASON_LENGTH) {
+    return `Please give a little more detail (at least ${MIN_CHALLENGE_REASON_LENGTH} characters)`;
+  }
+  return null;
+};
+
+/**
+ * Challenges from an API response, oldest first
+ */
+export const normalizeChallenges = (data: any): AnswerKeyChallenge[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || data?.challenges || [];
+  return items
+    .filter(item => item && (item.challenge_id ?? item.id) != null)
+    .map(item => ({
+      challenge_id: Number(item.challenge_id ?? item.id),
+      question_id: Number(item.question_id),
+      attempt_id: Number(item.attempt_id),
+      candidate_name: item.candidate_name || item.user_name || undefined,
+      reason: item.reason || '',
+      proposed_option_index: toNumberOrNull(item.proposed_option_index),
+      status: normalizeChallengeStatus(item.status),
+      created_at: item.created_at || '',
+      resolved_at: item.resolved_at ?? null,
+      resolution_note: item.resolution_note ?? item.note ?? null,
+      regrade_job_id: toNumberOrNull(item.regrade_job_id ?? item.regrade_job?.job_id),
+      question_text: item.question_text ?? item.question?.question_text,
+    }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+/**
+ * Latest challenge of each question, keyed by question ID
+ */
+export const latestChallengeByQuestion = (challenges: AnswerKeyChallenge[]): Record<number, AnswerKeyChallenge> => {
+  const byQuestion: Record<number, AnswerKeyChallenge> = {};
+  challenges.forEach(challenge => {
+    byQuestion[challenge.question_id] = challenge;
+  });
+  return byQuestion;
+};
+
+/**
+ * Regrade job from an API response, or null when it cannot be read
+ */
+export const normalizeRegradeJob = (data: any): RegradeJob | null => {
+  const job = data?.job ?? data;
+  const jobId = toNumberOrNull(job?.job_id ?? job?.id);
+  if (jobId === null) return null;
+  const status = String(job.status || '').toLowerCase() as RegradeJobStatus;
+  return {
+    job_id: jobId,
+    status: REGRADE_JOB_STATUSES.includes(status) ? status : 'queued',
+    affected_attempts: toNumberOrNull(job.affected_attempts) ?? 0,
+    processed_attempts: toNumberOrNull(job.processed_attempts) ?? 0,
+    error: job.error ?? null,
+  };
+};
+
+export const isRegradeJobFinished = (job: RegradeJob): boolean =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * Percentage of affected attempts rescored so far
+ */
+export const regradeProgress = (job: RegradeJob): number => {
+  if (job.status === 'completed') return 100;
+  if (job.affected_attempts <= 0) return 0;
+  return Math.min(100, Math.round((job.processed_attempts / job.affected_attempts) * 100));
+};
+
+/**
+ * Poll a regrade job until it completes or fails, reporting every update.
+ * Gives up with the last known state after maxPolls requests.
+ */
+export const pollRegradeJob = async (
+  jobId: number,
+  onUpdate: (job: RegradeJob) => void,
+  options: { intervalMs?: number; maxPolls?: number; isCancelled?: () => boolean } = {}
+): Promise<RegradeJob | null> => {
+  const { intervalMs = 2000, maxPolls = 150, isCancelled = () => false } = options;
+  let job: RegradeJob | null = null;
+
+  for (let poll = 0; poll < maxPolls && !isCancelled(); poll++) {
+    const response = await challengesAPI.getRegradeJob(jobId);
+    job = normalizeRegradeJob(response.data);
+    if (!job) return null;
+    onUpdate(job);
+    if (isRegradeJobFinished(job)) break;
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+  return job;
+};
+
+/**
+ * Regrade notices of a result or attempt details response, newest first
+ */
+export const normalizeRegradeNotices = (data: any): RegradeNotice[] => {
+  const items: any[] = data?.regrade_notices || data?.regrades || [];
+  return items
+    .filter(item => item && item.regraded_at)
+    .map(item => ({
+      question_ids: (item.question_ids || (item.question_id != null ? [item.question_id] : [])).map(Number),
+      regraded_at: item.regraded_at,
+      previous_score: toNumberOrNull(item.previous_score),
+      previous_weighted_score: toNumberOrNull(item.previous_weighted_score),
+      reason: item.reason ?? null,
+    }))
+    .sort((a, b) => b.regraded_at.localeCompare(a.regraded_at));
+};
+
+/**
+ * Restore the live answer key of regraded questions. Questions are shown as
+ * they were when the attempt was taken, but a regrade corrects the key of
+ * past attempts too, so the review must match the regraded score.
+ */
+export const keepRegradedAnswerKeys = <T extends Record<string, any>>(
+  resolved: T[],
+  live: Array<Record<string, any>>,
+  regradedQuestionIds: number[]
+): T[] => {
+  if (regradedQuestionIds.length === 0) return resolved;
+  return resolved.map((question, index) => {
+    const current = live[index];
+    if (!current || !regradedQuestionIds.includes(Number(question.question_id))) return question;
+    const key: Record<string, any> = {};
+    ANSWER_KEY_FIELDS.forEach(field => {
+      if (current[field] !== undefined) key[field] = current[field];
+    });
+    return { ...question, ...key, regraded: true };
+  });
+};
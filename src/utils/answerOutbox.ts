@@ -0,0 +1,249 @@
+/**
+ * Answer Outbox
+ *
+ * Persists answer and mark-for-review changes made during a test attempt in
+ * localStorage so they survive network failures and tab reloads. Entries are
+ * stored per attempt, ordered by a monotonically increasing sequence number,
+ * and drained in order with the exponential backoff from apiRetry. Entries
+ * that never reach the server, because it refused them or the test was
+ * submitted first, are kept as undelivered so the candidate can be told.
+ */
+import { AxiosResponse } from 'axios';
+import { requestWithRetry } from './apiRetry';
+
+// Storage key prefixes
+const OUTBOX_KEY_PREFIX = 'answer_outbox_';
+const SEQUENCE_KEY_PREFIX = 'answer_outbox_seq_';
+const UNDELIVERED_KEY_PREFIX = 'answer_outbox_undelivered_';
+
+export type OutboxEntryKind = 'answer' | 'review' | 'clear';
+
+// A clear entry sends null answer fields so the server drops the saved answer
+export interface OutboxAnswerPayload {
+  question_id: number;
+  selected_option_index?: number | null;
+  selected_option_indices?: number[] | null;
+  answer_text?: string | null;
+  time_taken_seconds: number;
+  is_marked_for_review: boolean;
+}
+
+export interface OutboxEntry {
+  seq: number;
+  attemptId: number;
+  kind: OutboxEntryKind;
+  payload: OutboxAnswerPayload;
+  queuedAt: number;
+  attempts: number;
+}
+
+// Why an entry never reached the server
+export type UndeliveredReason = 'rejected' | 'not_sent';
+
+export interface UndeliveredEntry extends OutboxEntry {
+  reason: UndeliveredReason;
+  detail: string | null;  // Error message of the server for rejected entries
+}
+
+export interface FlushResult {
+  sent: number;
+  remaining: number;
+  rejected: number;  // Entries the server refused in this flush, parked and not retried
+}
+
+const outboxKey = (attemptId: number) => `${OUTBOX_KEY_PREFIX}${attemptId}`;
+const sequenceKey = (attemptId: number) => `${SEQUENCE_KEY_PREFIX}${attemptId}`;
+const undeliveredKey = (attemptId: number) => `${UNDELIVERED_KEY_PREFIX}${attemptId}`;
+
+// Client errors that will fail the same way however often they are retried;
+// auth, timeout and rate-limit responses may succeed later
+const RETRYABLE_CLIENT_STATUSES = [401, 403, 408, 429];
+
+const isRejectedByServer = (error: any): boolean => {
+  const status = error?.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && RETRYABLE_CLIENT_STATUSES.indexOf(status) === -1;
+};
+
+/**
+ * Read all pending entries for an attempt, ordered by sequence number
+ */
+export const getPendingEntries = (attemptId: number): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(outboxKey(attemptId));
+    if (!raw) return [];
+
+    const entries = JSON.parse(raw) as OutboxEntry[];
+    if (!Array.isArray(entries)) return [];
+
+    return entries.sort((a, b) => a.seq - b.seq);
+  } catch (error) {
+    console.error('[AnswerOutbox] Error reading outbox:', error);
+    return [];
+  }
+};
+
+const saveEntries = (attemptId: number, entries: OutboxEntry[]) => {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(outboxKey(attemptId));
+    } else {
+      localStorage.setItem(outboxKey(attemptId), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('[AnswerOutbox] Error writing outbox:', error);
+  }
+};
+
+const nextSequence = (attemptId: number): number => {
+  const current = parseInt(localStorage.getItem(sequenceKey(attemptId)) || '0', 10);
+  const next = (isNaN(current) ? 0 : current) + 1;
+  localStorage.setItem(sequenceKey(attemptId), next.toString());
+  return next;
+};
+
+/**
+ * Record an answer or review change for later delivery.
+ * Older pending entries for the same question are superseded, since only the
+ * latest state of a question matters to the server.
+ */
+export const enqueueAnswer = (
+  attemptId: number,
+  kind: OutboxEntryKind,
+  payload: OutboxAnswerPayload
+): OutboxEntry => {
+  const entry: OutboxEntry = {
+    seq: nextSequence(attemptId),
+    attemptId,
+    kind,
+    payload,
+    queuedAt: Date.now(),
+    attempts: 0,
+  };
+
+  const remaining = getPendingEntries(attemptId).filter(
+    existing => existing.payload.question_id !== payload.question_id
+  );
+  saveEntries(attemptId, [...remaining, entry]);
+
+  return entry;
+};
+
+/**
+ * Count pending entries for an attempt
+ */
+export const getPendingCount = (attemptId: number): number => {
+  return getPendingEntries(attemptId).length;
+};
+
+/**
+ * Remove a delivered entry, unless it has been superseded in the meantime
+ */
+const removeEntry = (attemptId: number, seq: number) => {
+  saveEntries(
+    attemptId,
+    getPendingEntries(attemptId).filter(entry => entry.seq !== seq)
+  );
+};
+
+/**
+ * Entries that did not reach the server, kept until the candidate has been told
+ */
+export const getUndeliveredEntries = (attemptId: number): UndeliveredEntry[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(undeliveredKey(attemptId)) || '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.error('[AnswerOutbox] Error reading undelivered entries:', error);
+    return [];
+  }
+};
+
+const saveUndelivered = (attemptId: number, entries: UndeliveredEntry[]) => {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(undeliveredKey(attemptId));
+    } else {
+      localStorage.setItem(undeliveredKey(attemptId), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('[AnswerOutbox] Error writing undelivered entries:', error);
+  }
+};
+
+const parkEntry = (attemptId: number, entry: OutboxEntry, reason: UndeliveredReason, detail: string | null) => {
+  removeEntry(attemptId, entry.seq);
+  saveUndelivered(attemptId, [...getUndeliveredEntries(attemptId), { ...entry, reason, detail }]);
+};
+
+// A later change of the question that was delivered replaces an undelivered one
+const dropUndelivered = (attemptId: number, questionId: number) => {
+  const entries = getUndeliveredEntries(attemptId);
+  if (entries.some(entry => entry.payload.question_id === questionId)) {
+    saveUndelivered(attemptId, entries.filter(entry => entry.payload.question_id !== questionId));
+  }
+};
+
+/**
+ * Give up on the entries still pending, e.g. once the test is submitted
+ * without them, and return every entry that did not reach the server
+ */
+export const abandonPendingEntries = (attemptId: number): UndeliveredEntry[] => {
+  getPendingEntries(attemptId).forEach(entry => parkEntry(attemptId, entry, 'not_sent', null));
+  return getUndeliveredEntries(attemptId);
+};
+
+const incrementAttempts = (attemptId: number, seq: number) => {
+  saveEntries(
+    attemptId,
+    getPendingEntries(attemptId).map(entry =>
+      entry.seq === seq ? { ...entry, attempts: entry.attempts + 1 } : entry
+    )
+  );
+};
+
+/**
+ * Deliver pending entries in sequence order. Stops at the first entry that
+ * still fails after retrying so later changes never overtake earlier ones;
+ * entries the server rejects outright (a 4xx that retrying cannot fix) are
+ * parked instead so they do not block the rest.
+ */
+export const flushOutbox = async (
+  attemptId: number,
+  send: (attemptId: number, payload: OutboxAnswerPayload) => Promise<AxiosResponse<any>>,
+  retryConfig: { retries?: number; retryDelay?: number } = {}
+): Promise<FlushResult> => {
+  let sent = 0;
+  let rejected = 0;
+
+  for (const entry of getPendingEntries(attemptId)) {
+    try {
+      await requestWithRetry(() => send(attemptId, entry.payload), retryConfig);
+      removeEntry(attemptId, entry.seq);
+      dropUndelivered(attemptId, entry.payload.question_id);
+      sent++;
+    } catch (error: any) {
+      if (isRejectedByServer(error)) {
+        console.error(`[AnswerOutbox] Entry ${entry.seq} for question ${entry.payload.question_id} rejected by the server:`, error);
+        const detail = error.response?.data?.detail;
+        parkEntry(attemptId, { ...entry, attempts: entry.attempts + 1 }, 'rejected', typeof detail === 'string' ? detail : null);
+        rejected++;
+        continue;
+      }
+      console.warn(`[AnswerOutbox] Entry ${entry.seq} for question ${entry.payload.question_id} not delivered yet:`, error);
+      incrementAttempts(attemptId, entry.seq);
+      break;
+    }
+  }
+
+  return { sent, remaining: getPendingCount(attemptId), rejected };
+};
+
+/**
+ * Remove all outbox state for an attempt, once the test is finished and the
+ * candidate has seen any undelivered entries
+ */
+export const clearOutbox = (attemptId: number) => {
+  localStorage.removeItem(outboxKey(attemptId));
+  localStorage.removeItem(sequenceKey(attemptId));
+  localStorage.removeItem(undeliveredKey(attemptId));
+};
@@ -0,0 +1,147 @@
+/**
+ * Attempt Comparison
+ *
+ * Side-by-side figures of two or more attempts of a candidate: overall
+ * score, accuracy and time per question, the section breakdown of each
+ * attempt, the change from one attempt to the next, and the questions
+ * answered wrongly in every attempt that included them.
+ */
+import { testsAPI } from '../services/api';
+import { AttemptResult } from '../types';
+import { loadAttemptResult, parseAttemptDetails, scoredQuestions } from './attemptResults';
+import { BreakdownLevel, BreakdownRow, computeScoreBreakdown } from './scoreBreakdown';
+import { computeScoreSummary } from './scoring';
+
+// Attempt picked from the results list
+export interface ComparedAttemptInfo {
+  attempt_id: number;
+  start_time: string;
+  test_type: string;
+  is_adaptive?: boolean;
+}
+
+export interface AttemptOverview {
+  attempt_id: number;
+  start_time: string;
+  test_type: string;
+  percentage: number;
+  marksObtained: number;
+  maxMarks: number;
+  total: number;
+  attempted: number;
+  accuracy: number;                       // Correct share of the attempted questions, in percent
+  secondsPerQuestion: number | null;      // Average over attempted questions with a recorded time
+}
+
+export interface SectionComparison {
+  key: string;
+  level: BreakdownLevel;
+  label: string;
+  rows: Array<BreakdownRow | null>;       // One per attempt, null when the attempt had no such section
+}
+
+export interface RepeatedMistake {
+  question_id: number | string;
+  question_text: string;
+  attempts: number;                       // Compared attempts that included the question
+}
+
+export interface AttemptComparison {
+  attempts: AttemptOverview[];            // Oldest first
+  sections: SectionComparison[];
+  wrongEveryTime: RepeatedMistake[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const overviewOf = (info: ComparedAttemptInfo, result: AttemptResult): AttemptOverview => {
+  const questions = scoredQuestions(result);
+  const summary = computeScoreSummary(questions, result.scoring_scheme);
+  const attempted = summary.correct + summary.wrong;
+  const times = questions
+    .filter(q => q.is_attempted && q.time_taken_seconds !== null)
+    .map(q => q.time_taken_seconds as number);
+
+  return {
+    attempt_id: info.attempt_id,
+    start_time: info.start_time,
+    test_type: info.test_type,
+    percentage: summary.percentage,
+    marksObtained: summary.marksObtained,
+    maxMarks: summary.maxMarks,
+    total: summary.total,
+    attempted,
+    accuracy: attempted > 0 ? round((summary.correct / attempted) * 100) : 0,
+    secondsPerQuestion: times.length > 0 ? round(times.reduce((sum, seconds) => sum + seconds, 0) / times.length) : null,
+  };
+};
+
+/**
+ * Compare attempts given with their results, ordered from the oldest
+ */
+export const compareAttempts = (
+  attempts: Array<{ info: ComparedAttemptInfo; result: AttemptResult }>
+): AttemptComparison => {
+  const ordered = attempts
+    .slice()
+    .sort((a, b) => new Date(a.info.start_time).getTime() - new Date(b.info.start_time).getTime());
+
+  // Sections in the order they first appear, each with the row of every attempt
+  const sections: SectionComparison[] = [];
+  ordered.forEach(({ result }, attemptIndex) => {
+    computeScoreBreakdown(result).forEach(row => {
+      let section = sections.find(s => s.key === row.key);
+      if (!section) {
+        section = { key: row.key, level: row.level, label: row.label, rows: ordered.map(() => null) };
+        sections.push(section);
+      }
+      section.rows[attemptIndex] = row;
+    });
+  });
+
+  const mistakes: Record<string, RepeatedMistake & { wrong: number }> = {};
+  ordered.forEach(({ result }) => {
+    scoredQuestions(result).forEach(question => {
+      const id = String(question.question_id);
+      const mistake = mistakes[id] || { question_id: question.question_id, question_text: question.question_text, attempts: 0, wrong: 0 };
+      mistake.attempts += 1;
+      if (question.is_attempted && !question.is_correct) mistake.wrong += 1;
+      mistakes[id] = mistake;
+    });
+  });
+
+  return {
+    attempts: ordered.map(({ info, result }) => overviewOf(info, result)),
+    sections,
+    wrongEveryTime: Object.keys(mistakes)
+      .map(id => mistakes[id])
+      .filter(mistake => mistake.attempts >= 2 && mistake.wrong === mistake.attempts)
+      .map(({ question_id, question_text, attempts: count }) => ({ question_id, question_text, attempts: count })),
+  };
+};
+
+/**
+ * Change of a figure from the previous attempt, null for the first attempt
+ * or when either value is missing
+ */
+export const deltaFromPrevious = (values: Array<number | null | undefined>, index: number): number | null => {
+  if (index === 0) return null;
+  const current = values[index];
+  const previous = values[index - 1];
+  return current == null || previous == null ? null : round(current - previous);
+};
+
+/**
+ * Load the results of the attempts to compare
+ */
+export const loadComparedAttempts = async (
+  attempts: ComparedAttemptInfo[]
+): Promise<Array<{ info: ComparedAttemptInfo; result: AttemptResult }>> =>
+  Promise.all(attempts.map(async info => {
+    const response = await testsAPI.getAttemptDetails(info.attempt_id);
+    const result = await loadAttemptResult(parseAttemptDetails(response.data, { isAdaptive: !!info.is_adaptive }), {
+      attemptId: info.attempt_id,
+      startTime: info.start_time,
+    });
+    return { info, result };
+  }));
@@ -0,0 +1,401 @@
+/**
+ * Attempt Results
+ *
+ * Turns the attempt details returned by the API into one strict
+ * AttemptResult. Regular and adaptive attempts each have a schema the
+ * payload is checked against, so a change of the backend shape fails with a
+ * clear error instead of showing wrong marks, and an explicit adapter
+ * deciding how a question is marked. The API gives chosen and correct
+ * options by their option_order; in an AttemptResult the options are sorted
+ * by that order and indices are positions in the options array.
+ */
+import Ajv from 'ajv';
+import { AttemptResult, AttemptResultOption, AttemptResultQuestion, AttemptSummary, TestTemplateSection } from '../types';
+import { keepRegradedAnswerKeys, normalizeRegradeNotices } from './answerChallenges';
+import { resolveAttemptQuestions } from './questionRevisions';
+import { evaluateResponse, hasResponse, normalizeQuestionType } from './questionTypes';
+import { resolveScoringScheme } from './scoring';
+
+const INTEGER = { type: 'integer' };
+const NULLABLE_INTEGER = { type: 'integer', nullable: true };
+const NULLABLE_NUMBER = { type: 'number', nullable: true };
+const NULLABLE_STRING = { type: 'string', nullable: true };
+const NULLABLE_INTEGER_LIST = { type: 'array', nullable: true, items: INTEGER };
+
+const OPTION_SCHEMA = {
+  type: 'object',
+  required: ['option_text'],
+  properties: {
+    option_id: INTEGER,
+    option_text: { type: 'string' },
+    option_order: INTEGER,
+  },
+};
+
+// Fields of a question in the attempt details of every kind of test
+const QUESTION_PROPERTIES = {
+  question_id: INTEGER,
+  question_text: { type: 'string' },
+  question_type: NULLABLE_STRING,
+  options: { type: 'array', items: OPTION_SCHEMA },
+  selected_option_index: NULLABLE_INTEGER,
+  selected_option_indices: NULLABLE_INTEGER_LIST,
+  correct_option_index: NULLABLE_INTEGER,
+  correct_option_indices: NULLABLE_INTEGER_LIST,
+  answer_text: NULLABLE_STRING,
+  numeric_answer: NULLABLE_NUMBER,
+  numeric_tolerance: NULLABLE_NUMBER,
+  accepted_answers: { type: 'array', nullable: true, items: { type: 'string' } },
+  case_sensitive: { type: 'boolean', nullable: true },
+  is_correct: { type: 'boolean', nullable: true },
+  marks: NULLABLE_NUMBER,
+  explanation: NULLABLE_STRING,
+  time_taken_seconds: NULLABLE_NUMBER,
+  is_marked_for_review: { type: 'boolean', nullable: true },
+  paper_id: NULLABLE_INTEGER,
+  section_id: NULLABLE_INTEGER,
+  subsection_id: NULLABLE_INTEGER,
+  paper_name: NULLABLE_STRING,
+  section_name: NULLABLE_STRING,
+  subsection_name: NULLABLE_STRING,
+  difficulty_level: NULLABLE_STRING,
+};
+
+// Regular attempts are marked by the server's is_correct
+const REGULAR_ATTEMPT_SCHEMA = {
+  type: 'object',
+  required: ['questions'],
+  properties: {
+    questions: {
+      type: 'array',
+      items: { type: 'object', required: ['question_id', 'question_text', 'options'], properties: QUESTION_PROPERTIES },
+    },
+    start_time: NULLABLE_STRING,
+  },
+};
+
+// Adaptive attempts are marked by the marks the adaptive engine recorded
+// for each question, null for questions never served
+const ADAPTIVE_ATTEMPT_SCHEMA = {
+  type: 'object',
+  required: ['questions', 'questions_attempted'],
+  properties: {
+    questions: {
+      type: 'array',
+      items: { type: 'object', required: ['question_id', 'question_text', 'options', 'marks'], properties: QUESTION_PROPERTIES },
+    },
+    questions_attempted: INTEGER,
+    total_possible_questions: NULLABLE_INTEGER,
+    start_time: NULLABLE_STRING,
+  },
+};
+
+const REGRADE_NOTICE_SCHEMA = {
+  type: 'object',
+  required: ['question_ids', 'regraded_at'],
+  properties: {
+    question_ids: { type: 'array', items: INTEGER },
+    regraded_at: { type: 'string' },
+    previous_score: NULLABLE_NUMBER,
+    previous_weighted_score: NULLABLE_NUMBER,
+    reason: NULLABLE_STRING,
+  },
+};
+
+// The attempts list: scores are percentages, null until an attempt is completed
+const ATTEMPT_LIST_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['attempt_id', 'test_type', 'start_time', 'status', 'total_allotted_duration_minutes'],
+    properties: {
+      attempt_id: INTEGER,
+      test_type: { type: 'string' },
+      start_time: { type: 'string' },
+      end_time: NULLABLE_STRING,
+      status: { enum: ['InProgress', 'Completed', 'Abandoned'] },
+      score: NULLABLE_NUMBER,
+      weighted_score: NULLABLE_NUMBER,
+      duration_minutes: NULLABLE_NUMBER,
+      total_allotted_duration_minutes: { type: 'number' },
+      is_adaptive: { type: 'boolean', nullable: true },
+      questions_attempted: NULLABLE_INTEGER,
+      total_possible_questions: NULLABLE_INTEGER,
+      regrade_notices: { type: 'array', nullable: true, items: REGRADE_NOTICE_SCHEMA },
+    },
+  },
+};
+
+// Shape both schemas guarantee; the rest of the payload is read field by field
+interface AttemptDetailsPayload {
+  questions: Array<Record<string, any>>;
+  [field: string]: any;
+}
+
+// Shape the attempts list schema guarantees; missing figures are filled in by parseAttemptList
+type AttemptListEntry = Pick<AttemptSummary, 'attempt_id' | 'test_type' | 'start_time' | 'status' | 'total_allotted_duration_minutes'> &
+  Partial<Omit<AttemptSummary, 'is_adaptive'>> & { is_adaptive?: boolean | null; [field: string]: any };
+
+const ajv = new Ajv({ allErrors: true });
+const validateRegularAttempt = ajv.compile<AttemptDetailsPayload>(REGULAR_ATTEMPT_SCHEMA);
+const validateAdaptiveAttempt = ajv.compile<AttemptDetailsPayload>(ADAPTIVE_ATTEMPT_SCHEMA);
+const validateAttemptList = ajv.compile<AttemptListEntry[]>(ATTEMPT_LIST_SCHEMA);
+
+// Problems listed in the error message; the rest are on the error itself
+const MAX_LISTED_PROBLEMS = 3;
+
+/**
+ * Raised when attempt details or the attempts list do not match the shape
+ * the results are built from
+ */
+export class AttemptResultsError extends Error {
+  problems: string[];
+
+  constructor(problems: string[], subject: string = 'attempt details') {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).join('; ');
+    const more = problems.length > MAX_LISTED_PROBLEMS ? ` and ${problems.length - MAX_LISTED_PROBLEMS} more` : '';
+    super(`The ${subject} returned by the server did not have the expected format (${listed}${more})`);
+    this.name = 'AttemptResultsError';
+    this.problems = problems;
+
+    Object.setPrototypeOf(this, AttemptResultsError.prototype);
+  }
+}
+
+// Attempt details checked against the schema of the kind of attempt
+export interface ParsedAttemptDetails {
+  isAdaptive: boolean;
+  payload: Record<string, any>;
+  questions: Array<Record<string, any>>;
+}
+
+interface AttemptContext {
+  attemptId: number;
+  startTime?: string | null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// "/questions/2/question_text" reads as "questions[2].question_text"
+const formatPath = (instancePath: string): string =>
+  instancePath
+    .split('/')
+    .filter(Boolean)
+    .reduce((path, part) => (/^\d+$/.test(part) ? `${path}[${part}]` : path ? `${path}.${part}` : part), '');
+
+const OPTION_INDEX_FIELDS = ['selected_option_index', 'selected_option_indices', 'correct_option_index', 'correct_option_indices'];
+
+const optionOrders = (raw: Record<string, any>): number[] =>
+  raw.options.map((option: Record<string, any>, index: number) => option.option_order ?? index);
+
+// Option indices of questions with options that are not the order of any option
+const unknownOptionIndices = (questions: Array<Record<string, any>>): string[] =>
+  questions.reduce((problems: string[], raw, questionIndex) => {
+    if (raw.options.length === 0) return problems;
+    const orders = optionOrders(raw);
+    OPTION_INDEX_FIELDS.forEach(field => {
+      const values: number[] = raw[field] == null ? [] : [].concat(raw[field]);
+      values
+        .filter(value => orders.indexOf(value) === -1)
+        .forEach(value => problems.push(`questions[${questionIndex}].${field} ${value} is not the order of an option`));
+    });
+    return problems;
+  }, []);
+
+/**
+ * Check an attempt details response against the schema of a regular or an
+ * adaptive attempt. Throws AttemptResultsError when it does not match.
+ */
+export const parseAttemptDetails = (data: unknown, options: { isAdaptive: boolean }): ParsedAttemptDetails => {
+  const validate = options.isAdaptive ? validateAdaptiveAttempt : validateRegularAttempt;
+  if (!validate(data)) {
+    throw new AttemptResultsError((validate.errors || [])
+      .map(error => `${formatPath(error.instancePath) || 'attempt'} ${error.message}`));
+  }
+  const problems = unknownOptionIndices(data.questions);
+  if (problems.length > 0) throw new AttemptResultsError(problems);
+  return { isAdaptive: options.isAdaptive, payload: data, questions: data.questions };
+};
+
+/**
+ * Check the attempts list response against its schema. Throws
+ * AttemptResultsError when it does not match.
+ */
+export const parseAttemptList = (data: unknown): AttemptSummary[] => {
+  if (!validateAttemptList(data)) {
+    throw new AttemptResultsError((validateAttemptList.errors || [])
+      .map(error => `attempts${formatPath(error.instancePath)} ${error.message}`), 'attempts list');
+  }
+  return data.map(attempt => {
+    const completed = attempt.status === 'Completed';
+    return {
+      ...attempt,
+      is_adaptive: attempt.is_adaptive === true,
+      score: completed ? attempt.score ?? null : null,
+      weighted_score: completed ? attempt.weighted_score ?? attempt.score ?? null : null,
+      questions_attempted: attempt.questions_attempted ?? null,
+      total_possible_questions: attempt.total_possible_questions ?? null,
+      regrade_notices: attempt.regrade_notices ?? [],
+    };
+  });
+};
+
+const toSeconds = (value: number | null | undefined): number | null =>
+  typeof value === 'number' && isFinite(value) && value >= 0 ? value : null;
+
+const normalizeOption = (option: Record<string, any>, index: number): AttemptResultOption => ({
+  option_id: option.option_id ?? index,
+  option_text: option.option_text !== '' ? option.option_text : `Option ${index + 1}`,
+  option_order: option.option_order ?? index,
+});
+
+// Copied only when the API sends them
+const OPTIONAL_FIELDS: Array<keyof AttemptResultQuestion> = [
+  'paper_id',
+  'section_id',
+  'subsection_id',
+  'paper_name',
+  'section_name',
+  'subsection_name',
+  'difficulty_level',
+];
+
+const orNull = <T>(value: T | undefined): T | null => (value === undefined ? null : value);
+
+/**
+ * Question of an attempt with the response and answer key fields filled in.
+ * `markedCorrect` is the marking sent by the server, null when there is none,
+ * in which case the response is checked against the answer key.
+ */
+const toResultQuestion = (raw: Record<string, any>, markedCorrect: boolean | null): AttemptResultQuestion => {
+  const questionType = normalizeQuestionType(raw.question_type);
+  const marks: number | null = orNull(raw.marks);
+  const options: AttemptResultOption[] = raw.options.map(normalizeOption);
+  options.sort((a, b) => a.option_order - b.option_order);
+  // Option order to position; parseAttemptDetails has checked that every index names an option
+  const orders = options.map(option => option.option_order);
+  const toPosition = (order: number | null | undefined): number | null =>
+    order == null || orders.indexOf(order) === -1 ? null : orders.indexOf(order);
+  const toPositions = (list: number[] | null | undefined): number[] | null =>
+    list == null ? null : list.map(order => orders.indexOf(order)).filter(position => position >= 0);
+
+  const response = {
+    selected_option_index: toPosition(raw.selected_option_index),
+    selected_option_indices: toPositions(raw.selected_option_indices),
+    answer_text: orNull(raw.answer_text),
+  };
+  const question: AttemptResultQuestion = {
+    question_id: raw.question_id,
+    question_text: raw.question_text,
+    question_type: questionType,
+    options,
+    ...response,
+    correct_option_index: toPosition(raw.correct_option_index),
+    correct_option_indices: toPositions(raw.correct_option_indices),
+    numeric_answer: orNull(raw.numeric_answer),
+    numeric_tolerance: orNull(raw.numeric_tolerance),
+    accepted_answers: orNull(raw.accepted_answers),
+    case_sensitive: !!raw.case_sensitive,
+    is_attempted: hasResponse(questionType, response) || (marks ?? 0) > 0,
+    is_correct: false,
+    marks,
+    explanation: raw.explanation || '',
+    time_taken_seconds: toSeconds(raw.time_taken_seconds),
+    is_marked_for_review: !!raw.is_marked_for_review,
+    edited_since_attempt: !!raw.edited_since_attempt,
+    regraded: !!raw.regraded,
+  };
+  OPTIONAL_FIELDS.forEach(field => {
+    if (raw[field] != null) (question as Record<string, any>)[field] = raw[field];
+  });
+
+  question.is_correct = markedCorrect ?? evaluateResponse(question, question);
+  return question;
+};
+
+// Marks decide correctness when the question has a marks field; null marks mean not answered
+const correctByMarks = (raw: Record<string, any>): boolean | null =>
+  raw.marks === undefined ? null : (raw.marks ?? 0) > 0;
+
+const toTemplateSections = (raw: unknown): TestTemplateSection[] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter(section => isPlainObject(section) && section.paper_id != null)
+    .map(section => ({
+      paper_id: Number(section.paper_id),
+      section_id: section.section_id != null ? Number(section.section_id) : null,
+      subsection_id: section.subsection_id != null ? Number(section.subsection_id) : null,
+      question_count: Number(section.question_count) || 0,
+      ...(section.section_order != null ? { section_order: Number(section.section_order) } : {}),
+    }))
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => (a.section.section_order ?? a.index) - (b.section.section_order ?? b.index) || a.index - b.index)
+    .map(({ section }) => section);
+
+const attemptFields = (details: ParsedAttemptDetails, context: AttemptContext) => ({
+  attempt_id: context.attemptId,
+  scoring_scheme: resolveScoringScheme(details.payload.scoring_scheme ?? details.payload.test_template?.scoring_scheme),
+  template_sections: toTemplateSections(details.payload.test_template?.sections ?? details.payload.template_sections),
+  regrade_notices: normalizeRegradeNotices(details.payload),
+  start_time: context.startTime || details.payload.start_time || null,
+});
+
+/**
+ * Result of a regular attempt. Every question counts; the server's is_correct
+ * is used first, then the marks awarded, then the answer key.
+ */
+export const adaptRegularAttempt = (details: ParsedAttemptDetails, context: AttemptContext): AttemptResult => {
+  const questions = details.questions.map(raw => toResultQuestion(raw, orNull(raw.is_correct) ?? correctByMarks(raw)));
+  return {
+    ...attemptFields(details, context),
+    is_adaptive: false,
+    questions,
+    questions_attempted: questions.filter(q => q.is_attempted).length,
+    total_possible_questions: null,
+  };
+};
+
+/**
+ * Result of an adaptive attempt. Questions are served one at a time and
+ * marked by the marks the adaptive engine recorded; only attempted questions
+ * count towards the score.
+ */
+export const adaptAdaptiveAttempt = (details: ParsedAttemptDetails, context: AttemptContext): AttemptResult => {
+  const questions = details.questions.map(raw => toResultQuestion(raw, (raw.marks ?? 0) > 0));
+  return {
+    ...attemptFields(details, context),
+    is_adaptive: true,
+    questions,
+    questions_attempted: details.payload.questions_attempted,
+    total_possible_questions: details.payload.total_possible_questions ?? null,
+  };
+};
+
+/**
+ * Questions a score is computed from: all of a regular attempt, only the
+ * attempted ones of an adaptive attempt
+ */
+export const scoredQuestions = (result: AttemptResult): AttemptResultQuestion[] =>
+  result.is_adaptive ? result.questions.filter(q => q.is_attempted) : result.questions;
+
+/**
+ * Build the result of an attempt from its parsed details. Questions edited
+ * since the attempt are shown as they were when it was taken, except for
+ * answer keys corrected by a regrade.
+ */
+export const loadAttemptResult = async (
+  details: ParsedAttemptDetails,
+  options: AttemptContext
+): Promise<AttemptResult> => {
+  const startTime = options.startTime || details.payload.start_time || null;
+  const regradedIds = normalizeRegradeNotices(details.payload)
+    .reduce((ids: number[], notice) => ids.concat(notice.question_ids), []);
+  const questions = keepRegradedAnswerKeys(
+    await resolveAttemptQuestions(details.questions, startTime),
+    details.questions,
+    regradedIds
+  );
+
+  const adapt = details.isAdaptive ? adaptAdaptiveAttempt : adaptRegularAttempt;
+  return adapt({ ...details, questions }, { attemptId: options.attemptId, startTime });
+};
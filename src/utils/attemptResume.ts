@@ -0,0 +1,187 @@
+/**
+ * Attempt Resume Utilities
+ *
+ * Helpers for re-entering an in-progress test attempt after a reload or
+ * browser crash. Answer progress that only lives in the test interface is
+ * snapshotted to localStorage per attempt, and the remaining time is always
+ * derived from the attempt's server start time rather than a local counter.
+ * The answers saved on the server take precedence over the snapshot, so an
+ * attempt resumed on another device starts with them.
+ */
+import { testsAPI } from '../services/api';
+import { TestAnswer, TestAttempt } from '../types';
+import { getAttemptDeadline } from './examClock';
+import { encodeOptionIndices } from './questionTypes';
+
+// Storage key prefix
+const PROGRESS_KEY_PREFIX = 'attempt_progress_';
+
+export interface AttemptProgressSnapshot {
+  attemptId: number;
+  answers: Record<string, string>;
+  markedForReview: number[];
+  currentQuestionIndex: number;
+  currentSectionIndex?: number; // Only for tests with section-wise timing
+  sectionStartedAt?: number;    // Epoch ms when the current section was entered
+  savedAt: number;
+}
+
+const progressKey = (attemptId: number) => `${PROGRESS_KEY_PREFIX}${attemptId}`;
+
+/**
+ * Persist the candidate's local progress for an attempt
+ */
+export const saveAttemptProgress = (snapshot: Omit<AttemptProgressSnapshot, 'savedAt'>) => {
+  try {
+    const item: AttemptProgressSnapshot = { ...snapshot, savedAt: Date.now() };
+    localStorage.setItem(progressKey(snapshot.attemptId), JSON.stringify(item));
+  } catch (error) {
+    console.error('[AttemptResume] Error saving attempt progress:', error);
+  }
+};
+
+/**
+ * Load saved progress for an attempt, returns null if none exists
+ */
+export const loadAttemptProgress = (attemptId: number): AttemptProgressSnapshot | null => {
+  try {
+    const raw = localStorage.getItem(progressKey(attemptId));
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as AttemptProgressSnapshot;
+    if (!snapshot || snapshot.attemptId !== attemptId) return null;
+
+    return {
+      ...snapshot,
+      answers: snapshot.answers || {},
+      markedForReview: Array.isArray(snapshot.markedForReview) ? snapshot.markedForReview : [],
+      currentQuestionIndex: snapshot.currentQuestionIndex || 0,
+    };
+  } catch (error) {
+    console.error('[AttemptResume] Error reading attempt progress:', error);
+    return null;
+  }
+};
+
+/**
+ * Remove saved progress once an attempt is finished or abandoned
+ */
+export const clearAttemptProgress = (attemptId: number) => {
+  localStorage.removeItem(progressKey(attemptId));
+};
+
+/**
+ * Compute the seconds remaining in an attempt from its server start time
+ */
+export const getRemainingSeconds = (
+  attempt: Pick<TestAttempt, 'start_time' | 'total_allotted_duration_minutes'>,
+  now: number = Date.now()
+): number => {
+  const deadlineMs = getAttemptDeadline(attempt);
+  if (deadlineMs === null) {
+    return 0;
+  }
+
+  return Math.max(0, Math.floor((deadlineMs - now) / 1000));
+};
+
+/**
+ * Normalize the various attempt list response shapes into an array
+ */
+export const extractAttemptList = (data: any): TestAttempt[] => {
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.results)) return data.results;
+  if (Array.isArray(data?.data)) return data.data;
+  return [];
+};
+
+/**
+ * Filter attempts that are still in progress and have time left
+ */
+export const findOpenAttempts = (attempts: TestAttempt[], now: number = Date.now()): TestAttempt[] => {
+  return attempts
+    .filter(attempt => attempt.status === 'InProgress' && getRemainingSeconds(attempt, now) > 0)
+    .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+};
+
+/**
+ * Fetch the current user's attempts and return the ones that can be resumed
+ */
+export const fetchOpenAttempts = async (): Promise<TestAttempt[]> => {
+  const response = await testsAPI.getAttempts();
+  return findOpenAttempts(extractAttemptList(response.data));
+};
+
+/**
+ * Look up a single attempt by ID from the user's attempt list
+ */
+export const fetchAttempt = async (attemptId: number): Promise<TestAttempt | null> => {
+  const response = await testsAPI.getAttempts();
+  return extractAttemptList(response.data).find(attempt => attempt.attempt_id === attemptId) || null;
+};
+
+/**
+ * Route that re-enters an attempt in the page that started it
+ */
+export const getResumePath = (attempt: Pick<TestAttempt, 'attempt_id' | 'test_type'>): string => {
+  const page = attempt.test_type === 'Mock' ? '/mock-test' : '/practice-test';
+  return `${page}?resume=${attempt.attempt_id}`;
+};
+
+// Answer of a question as saved on the server for an in-progress attempt
+export type SavedAnswer = Pick<
+  TestAnswer,
+  'question_id' | 'selected_option_index' | 'selected_option_indices' | 'answer_text' | 'is_marked_for_review'
+>;
+
+/**
+ * Fetch the answers saved on the server for an attempt
+ */
+export const fetchSavedAnswers = async (attemptId: number): Promise<SavedAnswer[]> => {
+  const response = await testsAPI.getSavedAnswers(attemptId);
+  const data = response.data;
+  const answers = Array.isArray(data) ? data : Array.isArray(data?.answers) ? data.answers : [];
+  return answers.filter((answer: any) => typeof answer?.question_id === 'number');
+};
+
+/**
+ * Answer in the form the test interface stores it, or null when unanswered
+ */
+export const toStoredAnswer = (answer: SavedAnswer): string | null => {
+  if (Array.isArray(answer.selected_option_indices) && answer.selected_option_indices.length > 0) {
+    return encodeOptionIndices(answer.selected_option_indices);
+  }
+  if (typeof answer.answer_text === 'string' && answer.answer_text !== '') return answer.answer_text;
+  if (typeof answer.selected_option_index === 'number') return answer.selected_option_index.toString();
+  return null;
+};
+
+/**
+ * Answers and review marks to resume with: the server's, except for questions
+ * with changes still waiting in the outbox, which keep the local state
+ */
+export const mergeSavedAnswers = (
+  local: Pick<AttemptProgressSnapshot, 'answers' | 'markedForReview'>,
+  questionIds: number[],        // Question ids in the order the interface shows them
+  saved: SavedAnswer[],
+  pendingQuestionIds: number[]
+): Pick<AttemptProgressSnapshot, 'answers' | 'markedForReview'> => {
+  const answers: Record<string, string> = {};
+  const markedForReview: number[] = [];
+
+  questionIds.forEach((questionId, index) => {
+    const key = `${questionId}-${index}`;
+    if (pendingQuestionIds.indexOf(questionId) !== -1) {
+      if (local.answers[key] !== undefined) answers[key] = local.answers[key];
+      if (local.markedForReview.indexOf(index) !== -1) markedForReview.push(index);
+      return;
+    }
+
+    const answer = saved.find(s => s.question_id === questionId);
+    const stored = answer ? toStoredAnswer(answer) : null;
+    if (stored !== null) answers[key] = stored;
+    if (answer?.is_marked_for_review) markedForReview.push(index);
+  });
+
+  return { answers, markedForReview };
+};
@@ -0,0 +1,300 @@
+/**
+ * Bulk Question Actions
+ *
+ * Planning and bookkeeping for actions applied to many questions at once from
+ * the question table: a dry run lists what would change for each question,
+ * tasks run one by one with per-question failures collected, and the changes
+ * that succeeded can be turned back into an undo plan.
+ */
+import { questionsAPI } from '../services/api';
+import { ANSWER_KEY_COLUMNS, answerKeyCells, escapeCsvCell, needsAnswerKeyColumns } from './questionImport';
+import { normalizeQuestionType } from './questionTypes';
+
+export interface BulkQuestion {
+  question_id: number;
+  question_text: string;
+  paper_id: number;
+  section_id: number;
+  subsection_id?: number | null;
+  default_difficulty_level?: string;
+  valid_until?: string | null;
+  [key: string]: any;
+}
+
+export type BulkAction =
+  | { type: 'move'; paper_id: number; section_id: number; subsection_id: number | null }
+  | { type: 'difficulty'; level: string }
+  | { type: 'setValidUntil'; date: string }     // YYYY-MM-DD
+  | { type: 'extendValidUntil'; days: number }
+  | { type: 'deactivate' }
+  | { type: 'activate' }                        // Only used to undo a deactivation
+  | { type: 'delete' };
+
+export type BulkActionType = BulkAction['type'];
+
+export type BulkField = 'paper_id' | 'section_id' | 'subsection_id' | 'default_difficulty_level' | 'valid_until';
+
+export interface BulkChange {
+  question: BulkQuestion;
+  previous: Partial<Pick<BulkQuestion, BulkField>>;
+  next: Partial<Pick<BulkQuestion, BulkField>>;
+}
+
+export interface BulkPlan {
+  action: BulkAction;
+  changes: BulkChange[];
+  skipped: Array<{ question: BulkQuestion; reason: string }>;
+}
+
+export interface BulkTaskResult<T> {
+  item: T;
+  error?: string;
+}
+
+// How long the undo action stays available after a bulk update
+export const UNDO_WINDOW_MS = 15000;
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  move: 'Move',
+  difficulty: 'Change difficulty',
+  setValidUntil: 'Set valid until',
+  extendValidUntil: 'Extend valid until',
+  deactivate: 'Deactivate',
+  activate: 'Activate',
+  delete: 'Delete',
+};
+
+// Fields of the full question sent with every update, so a bulk change
+// never clears the answer key, options or taxonomy
+const QUESTION_UPDATE_FIELDS = [
+  'question_text', 'question_type', 'paper_id', 'section_id', 'subsection_id', 'default_difficulty_level',
+  'options', 'correct_option_index', 'correct_option_indices', 'numeric_answer', 'numeric_tolerance',
+  'accepted_answers', 'case_sensitive', 'explanation', 'valid_until', 'tags', 'bloom_level', 'objective_ids',
+];
+
+// Dates at or beyond this year mean "valid indefinitely" (the upload default is 31-12-9999)
+const INDEFINITE_YEAR = 9999;
+
+/**
+ * The date part (YYYY-MM-DD) of a valid_until value, or null when missing
+ */
+export const toDateOnly = (value?: string | null): string | null => {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? match[0] : null;
+};
+
+/**
+ * Add days to a YYYY-MM-DD date, in UTC so time zones cannot shift the day
+ */
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return result.toISOString().slice(0, 10);
+};
+
+const fieldsOf = (question: BulkQuestion, fields: BulkField[]) =>
+  fields.reduce<Partial<Pick<BulkQuestion, BulkField>>>(
+    (acc, field) => ({ ...acc, [field]: question[field] ?? null }),
+    {}
+  );
+
+/**
+ * Dry run of a bulk action: what changes for each question, and which
+ * questions are skipped because nothing would change
+ */
+export const planBulkAction = (questions: BulkQuestion[], action: BulkAction): BulkPlan => {
+  const plan: BulkPlan = { action, changes: [], skipped: [] };
+
+  questions.forEach(question => {
+    switch (action.type) {
+      case 'move': {
+        const next = { paper_id: action.paper_id, section_id: action.section_id, subsection_id: action.subsection_id };
+        if (
+          question.paper_id === next.paper_id &&
+          question.section_id === next.section_id &&
+          (question.subsection_id ?? null) === next.subsection_id
+        ) {
+          plan.skipped.push({ question, reason: 'Already in this location' });
+        } else {
+          plan.changes.push({ question, previous: fieldsOf(question, ['paper_id', 'section_id', 'subsection_id']), next });
+        }
+        break;
+      }
+      case 'difficulty':
+        if ((question.default_difficulty_level || '').toLowerCase() === action.level.toLowerCase()) {
+          plan.skipped.push({ question, reason: `Already ${action.level}` });
+        } else {
+          plan.changes.push({
+            question,
+            previous: fieldsOf(question, ['default_difficulty_level']),
+            next: { default_difficulty_level: action.level },
+          });
+        }
+        break;
+      case 'setValidUntil':
+        if (toDateOnly(question.valid_until) === action.date) {
+          plan.skipped.push({ question, reason: 'Already valid until this date' });
+        } else {
+          plan.changes.push({ question, previous: fieldsOf(question, ['valid_until']), next: { valid_until: action.date } });
+        }
+        break;
+      case 'extendValidUntil': {
+        const current = toDateOnly(question.valid_until);
+        if (!current || Number(current.slice(0, 4)) >= INDEFINITE_YEAR) {
+          plan.skipped.push({ question, reason: 'Valid indefinitely' });
+        } else {
+          plan.changes.push({
+            question,
+            previous: fieldsOf(question, ['valid_until']),
+            next: { valid_until: addDays(current, action.days) },
+          });
+        }
+        break;
+      }
+      default:
+        // Deactivate, activate and delete change the question as a whole
+        plan.changes.push({ question, previous: {}, next: {} });
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Full update request for a question with the changed fields applied. Like
+ * a single edit, it sends the question back to draft, so a changed question
+ * goes through review again before candidates see it.
+ */
+export const buildUpdatePayload = (question: BulkQuestion, next: BulkChange['next']): Record<string, any> => {
+  const updated: Record<string, any> = { ...question, ...next };
+  return QUESTION_UPDATE_FIELDS.reduce<Record<string, any>>((payload, field) => {
+    if (updated[field] !== undefined) payload[field] = updated[field];
+    return payload;
+  }, { status: 'draft' });
+};
+
+/**
+ * Whether an action updates the questions themselves, sending them back to draft
+ */
+export const isContentChange = (action: BulkAction): boolean =>
+  action.type !== 'deactivate' && action.type !== 'activate' && action.type !== 'delete';
+
+/**
+ * Apply one planned change through the questions API
+ */
+export const applyBulkChange = (action: BulkAction, change: BulkChange): Promise<unknown> => {
+  const questionId = change.question.question_id;
+  switch (action.type) {
+    case 'deactivate':
+      return questionsAPI.deactivateQuestion(questionId);
+    case 'activate':
+      return questionsAPI.activateQuestion(questionId);
+    case 'delete':
+      return questionsAPI.deleteQuestion(questionId);
+    default:
+      return questionsAPI.updateQuestion(questionId, buildUpdatePayload(change.question, change.next));
+  }
+};
+
+/**
+ * Whether the succeeded changes of an action can be reverted
+ */
+export const isUndoable = (action: BulkAction): boolean => action.type !== 'delete';
+
+/**
+ * Plan that reverts the given changes: fields go back to their previous
+ * values and deactivated questions are activated again
+ */
+export const buildUndoPlan = (plan: BulkPlan, succeeded: BulkChange[]): BulkPlan | null => {
+  if (!isUndoable(plan.action) || succeeded.length === 0) return null;
+
+  const action: BulkAction = plan.action.type === 'deactivate'
+    ? { type: 'activate' }
+    : plan.action.type === 'activate' ? { type: 'deactivate' } : plan.action;
+
+  return {
+    action,
+    changes: succeeded.map(change => ({
+      question: { ...change.question, ...change.next },
+      previous: change.next,
+      next: change.previous,
+    })),
+    skipped: [],
+  };
+};
+
+/**
+ * Run tasks one after another, reporting progress after each. A failed task
+ * does not stop the others.
+ */
+export const runBulkTasks = async <T>(
+  items: T[],
+  task: (item: T) => Promise<unknown>,
+  onProgress?: (completed: number, results: BulkTaskResult<T>[]) => void
+): Promise<BulkTaskResult<T>[]> => {
+  const results: BulkTaskResult<T>[] = [];
+  for (const item of items) {
+    try {
+      await task(item);
+      results.push({ item });
+    } catch (err: any) {
+      const detail = err?.response?.data?.detail;
+      results.push({ item, error: typeof detail === 'string' ? detail : err?.message || 'Failed' });
+    }
+    onProgress?.(results.length, results);
+  }
+  return results;
+};
+
+const listOf = <T>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+
+/**
+ * CSV of the given questions with their IDs, in the layout of the upload
+ * template; the answer key columns are added as in the import when needed
+ */
+export const questionsToCsv = (questions: BulkQuestion[]): string => {
+  const optionCount = Math.max(4, ...questions.map(q => (Array.isArray(q.options) ? q.options.length : 0)));
+  const withAnswerKey = needsAnswerKeyColumns(questions.map(q => normalizeQuestionType(q.question_type)));
+  const header = [
+    'question_id', 'question_text', 'question_type', 'default_difficulty_level', 'paper_id', 'section_id',
+    'subsection_id', 'correct_option_index',
+    ...Array.from({ length: optionCount }, (_, i) => `option_${i}`),
+    'explanation', 'valid_until',
+    ...(withAnswerKey ? ANSWER_KEY_COLUMNS : []),
+  ];
+
+  const lines = questions.map(q => {
+    const type = normalizeQuestionType(q.question_type);
+    const correctIndices = listOf<number>(q.correct_option_indices);
+    const options: Array<{ option_text: string; option_order?: number }> = Array.isArray(q.options)
+      ? [...q.options].sort((a, b) => (a.option_order ?? 0) - (b.option_order ?? 0))
+      : [];
+    const validUntil = toDateOnly(q.valid_until);
+    return [
+      q.question_id,
+      q.question_text,
+      q.question_type || 'MCQ',
+      q.default_difficulty_level || '',
+      q.paper_id,
+      q.section_id,
+      q.subsection_id ?? '',
+      (type === 'MultiSelect' ? correctIndices[0] : q.correct_option_index) ?? '',
+      ...Array.from({ length: optionCount }, (_, i) => options[i]?.option_text ?? ''),
+      q.explanation || '',
+      // DD-MM-YYYY, as in the upload template
+      validUntil ? validUntil.split('-').reverse().join('-') : '',
+      ...(withAnswerKey
+        ? answerKeyCells(type, {
+          correct_option_indices: correctIndices,
+          numeric_answer: q.numeric_answer != null ? String(q.numeric_answer) : '',
+          numeric_tolerance: q.numeric_tolerance != null ? String(q.numeric_tolerance) : '',
+          accepted_answers: listOf<string>(q.accepted_answers),
+          case_sensitive: !!q.case_sensitive,
+        })
+        : []),
+    ].map(escapeCsvCell).join(',');
+  });
+
+  return [header.join(','), ...lines].join('\n');
+};
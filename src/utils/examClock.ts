@@ -0,0 +1,86 @@
+/**
+ * Exam Clock Utilities
+ *
+ * Pure helpers for a server-authoritative exam timer. The deadline is derived
+ * from the attempt's server start time and allotted duration, and the client
+ * clock is corrected by an offset measured against the server's clock so
+ * that a wrong or changed system clock does not shift the deadline.
+ */
+import { TestAttempt } from '../types';
+
+// Default warning thresholds in minutes
+export const DEFAULT_WARNING_THRESHOLDS_MINUTES = [10, 5, 1];
+
+// ISO timestamp without a zone designator, e.g. 2024-01-01T10:00:00 or 2024-01-01 10:00:00.123
+const ZONELESS_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Parse a timestamp sent by the server in epoch milliseconds, NaN if invalid.
+ * The server stores times in UTC, so a timestamp without a zone is read as
+ * UTC rather than the browser's local time.
+ */
+export const parseServerTimestamp = (value: string | null | undefined): number => {
+  if (!value) return NaN;
+  const trimmed = value.trim();
+  return new Date(ZONELESS_TIMESTAMP.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed).getTime();
+};
+
+/**
+ * Extract the server's notion of "now" from the server time endpoint. The
+ * HTTP Date header is not used: the API is cross-origin and does not expose it.
+ */
+export const readServerTime = (response: { data?: any } | null | undefined): number | null => {
+  const parsed = parseServerTimestamp(response?.data?.server_time);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Estimate the offset (server - client) in milliseconds. The server time is
+ * assumed to have been sampled halfway through the request round trip.
+ */
+export const measureClockOffset = (
+  serverTimeMs: number,
+  requestStartMs: number,
+  requestEndMs: number
+): number => {
+  const clientMidpoint = requestStartMs + (requestEndMs - requestStartMs) / 2;
+  return Math.round(serverTimeMs - clientMidpoint);
+};
+
+/**
+ * Absolute deadline of an attempt in server time, or null if it is unknown
+ */
+export const getAttemptDeadline = (
+  attempt: Pick<TestAttempt, 'start_time' | 'total_allotted_duration_minutes'>
+): number | null => {
+  const startMs = parseServerTimestamp(attempt.start_time);
+  if (isNaN(startMs) || !attempt.total_allotted_duration_minutes) {
+    return null;
+  }
+  return startMs + attempt.total_allotted_duration_minutes * 60 * 1000;
+};
+
+/**
+ * Milliseconds until the deadline given the client clock and measured offset
+ */
+export const getRemainingMs = (deadlineMs: number, clientNowMs: number, offsetMs: number): number => {
+  return Math.max(0, deadlineMs - (clientNowMs + offsetMs));
+};
+
+/**
+ * Return the threshold (in minutes) crossed when the remaining time moved
+ * from previousSeconds to nextSeconds, or null if none was crossed.
+ * When several are crossed at once (e.g. after sleep) the smallest wins.
+ */
+export const getCrossedWarning = (
+  previousSeconds: number,
+  nextSeconds: number,
+  thresholdsMinutes: number[] = DEFAULT_WARNING_THRESHOLDS_MINUTES
+): number | null => {
+  const crossed = thresholdsMinutes.filter(minutes => {
+    const thresholdSeconds = minutes * 60;
+    return previousSeconds > thresholdSeconds && nextSeconds <= thresholdSeconds && nextSeconds > 0;
+  });
+
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+};
@@ -0,0 +1,110 @@
+/**
+ * Exam Keyboard Shortcuts
+ *
+ * Maps key presses in the test interfaces to exam actions so a candidate can
+ * take a whole test without the mouse. Resolution is kept free of React so
+ * the same mapping drives every interface and the shortcut cheat-sheet.
+ */
+
+export type ExamShortcutAction =
+  | { type: 'selectOption'; optionIndex: number }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'markForReview' }
+  | { type: 'clear' }
+  | { type: 'goToQuestion' }
+  | { type: 'help' };
+
+export type ExamShortcutType = ExamShortcutAction['type'];
+
+export interface ExamShortcutDescription {
+  action: ExamShortcutType;
+  keys: string[];
+  description: string;
+  note?: string;   // Shown under the description, e.g. why a key differs from the usual one
+}
+
+interface ShortcutKeyEvent {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  target?: EventTarget | null;
+}
+
+export const EXAM_SHORTCUTS: ExamShortcutDescription[] = [
+  { action: 'selectOption', keys: ['1-9', 'A-D'], description: 'Select an option' },
+  { action: 'next', keys: ['N'], description: 'Save and go to the next question' },
+  { action: 'previous', keys: ['P'], description: 'Go to the previous question' },
+  { action: 'markForReview', keys: ['M'], description: 'Mark for review and go to the next question' },
+  {
+    action: 'clear',
+    keys: ['Shift+C', 'Delete'],
+    description: 'Clear the selected answer',
+    note: 'C on its own selects option C, so clearing uses Shift+C, Delete or Backspace.',
+  },
+  { action: 'goToQuestion', keys: ['G'], description: 'Go to a question by number' },
+  { action: 'help', keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+
+/**
+ * Whether the event comes from a text field, where keys must type normally
+ */
+export const isEditableTarget = (target?: EventTarget | null): boolean => {
+  if (!target || typeof (target as HTMLElement).tagName !== 'string') {
+    return false;
+  }
+  const element = target as HTMLElement;
+  const tag = element.tagName.toUpperCase();
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  if (tag === 'INPUT') {
+    const type = ((element as HTMLInputElement).type || 'text').toLowerCase();
+    return !['radio', 'checkbox', 'button', 'submit'].includes(type);
+  }
+  return element.isContentEditable === true;
+};
+
+/**
+ * Resolve a key press to an exam action, or null if it is not a shortcut
+ */
+export const resolveExamShortcut = (event: ShortcutKeyEvent): ExamShortcutAction | null => {
+  // Leave browser and OS shortcuts alone
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (isEditableTarget(event.target)) return null;
+
+  const { key } = event;
+
+  if (key === '?') return { type: 'help' };
+  if (key === 'Delete' || key === 'Backspace') return { type: 'clear' };
+
+  if (/^[1-9]$/.test(key)) {
+    return { type: 'selectOption', optionIndex: Number(key) - 1 };
+  }
+
+  const upper = key.toUpperCase();
+  if (key.length !== 1) return null;
+
+  if (event.shiftKey) {
+    return upper === 'C' ? { type: 'clear' } : null;
+  }
+
+  if (OPTION_LETTERS.includes(upper)) {
+    return { type: 'selectOption', optionIndex: OPTION_LETTERS.indexOf(upper) };
+  }
+
+  switch (upper) {
+    case 'N':
+      return { type: 'next' };
+    case 'P':
+      return { type: 'previous' };
+    case 'M':
+      return { type: 'markForReview' };
+    case 'G':
+      return { type: 'goToQuestion' };
+    default:
+      return null;
+  }
+};
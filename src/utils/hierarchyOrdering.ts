@@ -0,0 +1,201 @@
+/**
+ * Hierarchy Ordering
+ *
+ * Display order of the sections of a paper and of the subsections of a
+ * section, and the moves made by dragging them in the tree editor: within
+ * the same parent a drop only reorders, across parents it moves the node
+ * together with its questions.
+ */
+
+export interface OrderedSubsection {
+  subsection_id?: number;
+  subsection_name: string;
+  display_order?: number | null;
+  [key: string]: any;
+}
+
+export interface OrderedSection {
+  section_id?: number;
+  section_name: string;
+  display_order?: number | null;
+  subsections: OrderedSubsection[];
+  [key: string]: any;
+}
+
+export interface OrderedPaper {
+  paper_id: number;
+  paper_name: string;
+  sections: OrderedSection[];
+  [key: string]: any;
+}
+
+export type TreeDragItem =
+  | { type: 'section'; paper_id: number; section_id: number }
+  | { type: 'subsection'; section_id: number; subsection_id: number };
+
+// Insertion point in a list as displayed, before the node is taken out of it
+export type TreeDropTarget =
+  | { type: 'section'; paper_id: number; index: number }
+  | { type: 'subsection'; section_id: number; index: number };
+
+export interface TreeMove {
+  item: TreeDragItem;
+  name: string;
+  fromParentId: number;
+  toParentId: number;
+  toParentName: string;
+  parentChanged: boolean;
+  index: number;     // Position in the destination list once moved
+  order: number[];   // IDs of the destination list in their new order
+}
+
+export interface HierarchyUsage {
+  question_count: number;
+  template_count: number;
+}
+
+/**
+ * Items in display order; items without one keep their API order after the
+ * ordered ones
+ */
+export const sortByDisplayOrder = <T extends { display_order?: number | null }>(items: T[]): T[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const orderA = a.item.display_order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.item.display_order ?? Number.MAX_SAFE_INTEGER;
+      return orderA - orderB || a.index - b.index;
+    })
+    .map(({ item }) => item);
+
+/**
+ * Papers with their sections and subsections in display order
+ */
+export const sortHierarchy = <P extends OrderedPaper>(papers: P[]): P[] =>
+  papers.map(paper => ({
+    ...paper,
+    sections: sortByDisplayOrder(paper.sections || []).map(section => ({
+      ...section,
+      subsections: sortByDisplayOrder(section.subsections || []),
+    })),
+  }));
+
+const findSection = (papers: OrderedPaper[], sectionId: number) => {
+  for (const paper of papers) {
+    const section = paper.sections.find(s => s.section_id === sectionId);
+    if (section) return { paper, section };
+  }
+  return null;
+};
+
+/**
+ * Plan the move of a dropped node, or null when the drop is not allowed or
+ * leaves everything where it was
+ */
+export const planTreeMove = (
+  papers: OrderedPaper[],
+  item: TreeDragItem,
+  target: TreeDropTarget
+): TreeMove | null => {
+  if (item.type !== target.type) return null;
+
+  let name: string;
+  let fromParentId: number;
+  let toParentId: number;
+  let toParentName: string;
+  let sourceIndex: number;
+  let destinationIds: number[];
+  let movedId: number;
+
+  if (item.type === 'section' && target.type === 'section') {
+    const from = papers.find(p => p.paper_id === item.paper_id);
+    const to = papers.find(p => p.paper_id === target.paper_id);
+    if (!from || !to) return null;
+    sourceIndex = from.sections.findIndex(s => s.section_id === item.section_id);
+    if (sourceIndex < 0) return null;
+    name = from.sections[sourceIndex].section_name;
+    fromParentId = from.paper_id;
+    toParentId = to.paper_id;
+    toParentName = to.paper_name;
+    destinationIds = to.sections.map(s => Number(s.section_id));
+    movedId = item.section_id;
+  } else if (item.type === 'subsection' && target.type === 'subsection') {
+    const from = findSection(papers, item.section_id);
+    const to = findSection(papers, target.section_id);
+    if (!from || !to) return null;
+    sourceIndex = from.section.subsections.findIndex(s => s.subsection_id === item.subsection_id);
+    if (sourceIndex < 0) return null;
+    name = from.section.subsections[sourceIndex].subsection_name;
+    fromParentId = item.section_id;
+    toParentId = target.section_id;
+    toParentName = to.section.section_name;
+    destinationIds = to.section.subsections.map(s => Number(s.subsection_id));
+    movedId = item.subsection_id;
+  } else {
+    return null;
+  }
+
+  const parentChanged = fromParentId !== toParentId;
+  let index = Math.max(0, Math.min(target.index, destinationIds.length));
+  if (!parentChanged) {
+    // The node leaves the list before being inserted again
+    if (sourceIndex < index) index -= 1;
+    if (index === sourceIndex) return null;
+    destinationIds = destinationIds.filter(id => id !== movedId);
+  }
+  const order = [...destinationIds.slice(0, index), movedId, ...destinationIds.slice(index)];
+
+  return { item, name, fromParentId, toParentId, toParentName, parentChanged, index, order };
+};
+
+const withDisplayOrder = <T>(items: T[]): T[] =>
+  items.map((item, display_order) => ({ ...item, display_order }));
+
+/**
+ * Papers with a planned move applied, to show it before the server confirms
+ */
+export const applyTreeMove = <P extends OrderedPaper>(papers: P[], move: TreeMove): P[] => {
+  const { item } = move;
+
+  if (item.type === 'section') {
+    const moved = papers
+      .find(p => p.paper_id === move.fromParentId)
+      ?.sections.find(s => s.section_id === item.section_id);
+    if (!moved) return papers;
+    return papers.map(paper => {
+      let sections = paper.sections;
+      if (paper.paper_id === move.fromParentId) {
+        sections = sections.filter(s => s.section_id !== item.section_id);
+      }
+      if (paper.paper_id === move.toParentId) {
+        sections = [...sections.slice(0, move.index), moved, ...sections.slice(move.index)];
+      }
+      return sections === paper.sections ? paper : { ...paper, sections: withDisplayOrder(sections) };
+    });
+  }
+
+  const moved = findSection(papers, move.fromParentId)
+    ?.section.subsections.find(s => s.subsection_id === item.subsection_id);
+  if (!moved) return papers;
+  return papers.map(paper => ({
+    ...paper,
+    sections: paper.sections.map(section => {
+      let subsections = section.subsections;
+      if (section.section_id === move.fromParentId) {
+        subsections = subsections.filter(s => s.subsection_id !== item.subsection_id);
+      }
+      if (section.section_id === move.toParentId) {
+        subsections = [...subsections.slice(0, move.index), moved, ...subsections.slice(move.index)];
+      }
+      return subsections === section.subsections ? section : { ...section, subsections: withDisplayOrder(subsections) };
+    }),
+  }));
+};
+
+/**
+ * Normalize the usage counts of a section or subsection from the API
+ */
+export const normalizeUsage = (data: any): HierarchyUsage => ({
+  question_count: Number(data?.question_count ?? data?.questions ?? 0) || 0,
+  template_count: Number(data?.template_count ?? data?.templates ?? 0) || 0,
+});
@@ -0,0 +1,221 @@
+/**
+ * Item Analysis
+ *
+ * Classical item statistics computed from the responses of completed
+ * attempts: difficulty index (proportion correct), point-biserial
+ * discrimination, average time taken and per-option selection rates, with
+ * flags for items that need attention and a suggested difficulty level.
+ */
+import { DifficultyLevel } from '../types';
+import { AnswerKey, QuestionResponse, evaluateResponse, hasResponse, normalizeQuestionType, usesOptions } from './questionTypes';
+
+// Fewer responses than this make the statistics too noisy to flag or recalibrate
+export const MIN_RESPONSES_FOR_ANALYSIS = 10;
+
+// Difficulty index bounds of the suggested difficulty levels
+const EASY_MIN_P_VALUE = 0.75;
+const HARD_MAX_P_VALUE = 0.35;
+
+export type ItemFlag = 'negative_discrimination' | 'unused_distractor' | 'suspected_wrong_key';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  negative_discrimination: 'Negative discrimination',
+  unused_distractor: 'Distractor never chosen',
+  suspected_wrong_key: 'Suspected wrong key',
+};
+
+export const ITEM_FLAG_DESCRIPTIONS: Record<ItemFlag, string> = {
+  negative_discrimination: 'Stronger candidates get this question wrong more often than weaker ones',
+  unused_distractor: 'At least one wrong option is never chosen and adds nothing to the question',
+  suspected_wrong_key: 'A wrong option is chosen more often than the key, mostly by stronger candidates',
+};
+
+// Response of one completed attempt to one question
+export interface ItemResponse extends QuestionResponse {
+  attempt_id: number;
+  question_id: number;
+  is_correct: boolean | null;  // Null when the API leaves marking to the client
+  time_taken_seconds: number | null;
+}
+
+export interface AnalysisQuestion extends AnswerKey {
+  question_id: number;
+  question_text: string;
+  default_difficulty_level?: string | null;
+  options?: Array<{ option_text: string; option_order?: number }>;
+}
+
+export interface OptionStatistics {
+  index: number;
+  option_text: string;
+  is_key: boolean;
+  selection_rate: number;           // Share of all responses choosing this option
+  mean_rest_score: number | null;   // Average rest score of the candidates choosing it
+}
+
+export interface ItemStatistics {
+  question: AnalysisQuestion;
+  responses: number;
+  reliable: boolean;                // Enough responses to flag or recalibrate
+  p_value: number | null;           // Proportion correct
+  discrimination: number | null;    // Point-biserial against the rest score
+  average_time_seconds: number | null;
+  omit_rate: number | null;
+  options: OptionStatistics[];
+  flags: ItemFlag[];
+  suggested_difficulty: DifficultyLevel | null;  // Only when it differs from the current level
+}
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Item responses from an API response, dropping rows without an attempt or question
+ */
+export const normalizeItemResponses = (data: any): ItemResponse[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || data?.responses || [];
+  return items
+    .filter(item => item && item.attempt_id != null && item.question_id != null)
+    .map(item => ({
+      attempt_id: Number(item.attempt_id),
+      question_id: Number(item.question_id),
+      selected_option_index: item.selected_option_index ?? null,
+      selected_option_indices: item.selected_option_indices ?? null,
+      answer_text: item.answer_text ?? null,
+      is_correct: typeof item.is_correct === 'boolean' ? item.is_correct : null,
+      time_taken_seconds: toNumberOrNull(item.time_taken_seconds ?? item.time_taken),
+    }));
+};
+
+/**
+ * Difficulty level matching a difficulty index
+ */
+export const difficultyForPValue = (pValue: number): DifficultyLevel =>
+  pValue >= EASY_MIN_P_VALUE ? 'Easy' : pValue < HARD_MAX_P_VALUE ? 'Hard' : 'Medium';
+
+/**
+ * Point-biserial correlation between a right/wrong item and a continuous
+ * score, or null when either side has no variance
+ */
+export const pointBiserial = (correct: boolean[], scores: number[]): number | null => {
+  const n = correct.length;
+  if (n < 2 || scores.length !== n) return null;
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / n;
+  const sd = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / n);
+  const right = scores.filter((_, i) => correct[i]);
+  const wrong = scores.filter((_, i) => !correct[i]);
+  if (sd === 0 || right.length === 0 || wrong.length === 0) return null;
+
+  const p = right.length / n;
+  const meanRight = right.reduce((sum, score) => sum + score, 0) / right.length;
+  const meanWrong = wrong.reduce((sum, score) => sum + score, 0) / wrong.length;
+  return ((meanRight - meanWrong) / sd) * Math.sqrt(p * (1 - p));
+};
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sortedOptions = (question: AnalysisQuestion) =>
+  [...(question.options || [])].sort((a, b) => (a.option_order ?? 0) - (b.option_order ?? 0));
+
+const keyIndices = (question: AnalysisQuestion): number[] =>
+  normalizeQuestionType(question.question_type) === 'MultiSelect'
+    ? (question.correct_option_indices || []).map(Number)
+    : [Number(question.correct_option_index)];
+
+const chosenIndices = (response: ItemResponse, multiSelect: boolean): number[] =>
+  multiSelect
+    ? (response.selected_option_indices || []).map(Number)
+    : response.selected_option_index === null || response.selected_option_index === undefined || response.selected_option_index === ''
+      ? []
+      : [Number(response.selected_option_index)];
+
+/**
+ * Statistics of every question from the responses of completed attempts.
+ * Discrimination uses the rest score, the number of other questions of the
+ * analysed set the candidate answered correctly in the same attempt, so an
+ * item is not correlated with itself.
+ */
+export const computeItemAnalysis = (questions: AnalysisQuestion[], responses: ItemResponse[]): ItemStatistics[] => {
+  const questionsById = new Map<number, AnalysisQuestion>();
+  questions.forEach(question => questionsById.set(question.question_id, question));
+
+  const marked = responses
+    .filter(response => questionsById.has(response.question_id))
+    .map(response => ({
+      response,
+      correct: response.is_correct ?? evaluateResponse(questionsById.get(response.question_id)!, response),
+    }));
+
+  const attemptTotals = new Map<number, number>();
+  marked.forEach(({ response, correct }) => {
+    attemptTotals.set(response.attempt_id, (attemptTotals.get(response.attempt_id) || 0) + (correct ? 1 : 0));
+  });
+
+  return questions.map(question => {
+    const rows = marked.filter(({ response }) => response.question_id === question.question_id);
+    const n = rows.length;
+    const correct = rows.map(row => row.correct);
+    const restScores = rows.map(row => (attemptTotals.get(row.response.attempt_id) || 0) - (row.correct ? 1 : 0));
+    const type = normalizeQuestionType(question.question_type);
+    const multiSelect = type === 'MultiSelect';
+    const keys = keyIndices(question);
+
+    const pValue = n > 0 ? correct.filter(Boolean).length / n : null;
+    const discrimination = pointBiserial(correct, restScores);
+    const times = rows
+      .map(row => row.response.time_taken_seconds)
+      .filter((time): time is number => time !== null && time >= 0);
+    const omitted = rows.filter(row => !hasResponse(type, row.response)).length;
+
+    const options: OptionStatistics[] = usesOptions(type)
+      ? sortedOptions(question).map((option, index) => {
+        const choosers = rows
+          .map((row, i) => ({ row, rest: restScores[i] }))
+          .filter(({ row }) => chosenIndices(row.response, multiSelect).includes(index));
+        return {
+          index,
+          option_text: option.option_text,
+          is_key: keys.includes(index),
+          selection_rate: n > 0 ? choosers.length / n : 0,
+          mean_rest_score: average(choosers.map(chooser => chooser.rest)),
+        };
+      })
+      : [];
+
+    const reliable = n >= MIN_RESPONSES_FOR_ANALYSIS;
+    const flags: ItemFlag[] = [];
+    if (reliable) {
+      if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination');
+      if (options.some(option => !option.is_key && option.selection_rate === 0)) flags.push('unused_distractor');
+      const key = !multiSelect ? options.find(option => option.is_key) : undefined;
+      const suspect = key && options.some(option =>
+        !option.is_key &&
+        option.selection_rate > key.selection_rate &&
+        option.mean_rest_score !== null &&
+        (key.mean_rest_score === null || option.mean_rest_score > key.mean_rest_score)
+      );
+      if (suspect) flags.push('suspected_wrong_key');
+    }
+
+    const suggested = reliable && pValue !== null ? difficultyForPValue(pValue) : null;
+    const current = (question.default_difficulty_level || '').toLowerCase();
+
+    return {
+      question,
+      responses: n,
+      reliable,
+      p_value: pValue,
+      discrimination,
+      average_time_seconds: average(times),
+      omit_rate: n > 0 ? omitted / n : null,
+      options,
+      flags,
+      suggested_difficulty: suggested && suggested.toLowerCase() !== current ? suggested : null,
+    };
+  });
+};
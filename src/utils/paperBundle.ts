@@ -0,0 +1,604 @@
+/**
+ * Paper Bundles
+ *
+ * A paper bundle is a versioned JSON file with one paper, its sections and
+ * subsections, and the active questions of each section with their
+ * explanations and tags. Images the API serves are embedded as data URLs,
+ * so a bundle moves a paper between environments on its own; images on other
+ * sites stay links.
+ *
+ * Importing previews the conflicts with the papers and sections already
+ * there: the paper can be imported under a new name or merged into an
+ * existing one, and each conflicting section merged, renamed or skipped.
+ * Imported questions start as drafts.
+ */
+import { axiosInstance, questionsAPI, sectionsAPI, papersAPI, subsectionsAPI } from '../services/api';
+import { BulkQuestion, runBulkTasks } from './bulkQuestionActions';
+import { buildQuestionCopy, ClonePaper, CloneSection, createdId, fetchSectionQuestions, suggestCopyName } from './paperCloning';
+
+export const PAPER_BUNDLE_FORMAT = 'cil-paper-bundle';
+export const PAPER_BUNDLE_VERSION = 1;
+
+// Content of a question that is portable between environments; objective IDs are not
+const BUNDLE_QUESTION_FIELDS = [
+  'question_text', 'question_type', 'default_difficulty_level', 'options', 'correct_option_index',
+  'correct_option_indices', 'numeric_answer', 'numeric_tolerance', 'accepted_answers', 'case_sensitive',
+  'explanation', 'valid_until', 'tags', 'bloom_level',
+];
+
+export interface BundleSubsection {
+  id: number;
+  subsection_name: string;
+  description: string;
+  display_order?: number | null;
+}
+
+export interface BundleSection {
+  id: number;
+  section_name: string;
+  marks_allocated: number;
+  description: string;
+  display_order?: number | null;
+  subsections: BundleSubsection[];
+}
+
+export interface BundleQuestion {
+  id: number;
+  section_id: number;             // Bundle section ID
+  subsection_id: number | null;   // Bundle subsection ID
+  question_text: string;
+  [key: string]: any;
+}
+
+export interface PaperBundle {
+  format: string;
+  version: number;
+  exported_at: string;
+  paper: {
+    id: number;
+    paper_name: string;
+    total_marks: number;
+    description: string;
+    sections: BundleSection[];
+  };
+  questions: BundleQuestion[];
+  images: Record<string, string>;  // Data URL of each embedded image, by the URL used in the content
+}
+
+export type SectionImportResolution = 'create' | 'merge' | 'rename' | 'skip';
+
+export interface SectionImportChoice {
+  source: BundleSection;
+  resolution: SectionImportResolution;
+  section_name: string;             // Name of the created section when created or renamed
+  existing: CloneSection | null;    // Section of the target paper with the same name
+}
+
+export interface BundleImportPlan {
+  target: { type: 'newPaper'; paper_name: string } | { type: 'existingPaper'; paper: ClonePaper };
+  sections: SectionImportChoice[];
+}
+
+export interface BundleImportProgress {
+  completed: number;
+  total: number;
+  label: string;
+}
+
+export interface BundleImportReport {
+  paper: { paper_id: number; paper_name: string; created: boolean } | null;
+  sectionsCreated: string[];
+  sectionsMerged: string[];
+  sectionsSkipped: string[];
+  subsectionsCreated: number;
+  questionsImported: number;
+  questionsSkipped: number;   // Already present in a merged section
+  questionsFailed: Array<{ id: number; error: string }>;
+  errors: string[];
+}
+
+const errorMessage = (err: any): string => {
+  const detail = err?.response?.data?.detail;
+  return typeof detail === 'string' ? detail : err?.message || 'Failed';
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Whether an image URL is served by the API or by this app, so it may be
+ * requested with the user's token. Images on any other host are never
+ * downloaded, since the request would hand the token to that host.
+ */
+export const isApiImageUrl = (url: string, apiBaseUrl?: string): boolean => {
+  if (!/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(url)) return true;
+  try {
+    const trusted = [window.location.origin];
+    if (apiBaseUrl) trusted.push(new URL(apiBaseUrl, window.location.href).origin);
+    return trusted.indexOf(new URL(url, window.location.href).origin) !== -1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Texts of a question that may reference images
+ */
+const contentTexts = (question: Record<string, any>): string[] => [
+  question.question_text,
+  question.explanation,
+  ...(Array.isArray(question.options) ? question.options.map((option: any) => option?.option_text) : []),
+].filter((text): text is string => typeof text === 'string');
+
+/**
+ * URLs of the images referenced by Markdown or HTML content, in order of
+ * appearance; embedded data URLs are left out
+ */
+export const collectImageUrls = (texts: string[]): string[] => {
+  const urls: string[] = [];
+  const add = (url: string) => {
+    if (!url.startsWith('data:') && urls.indexOf(url) === -1) urls.push(url);
+  };
+  texts.forEach(text => {
+    let match: RegExpExecArray | null;
+    const markdown = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?/g;
+    while ((match = markdown.exec(text))) add(match[1]);
+    const html = /<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi;
+    while ((match = html.exec(text))) add(match[1]);
+  });
+  return urls;
+};
+
+/**
+ * Content with image URLs replaced by their new URLs
+ */
+export const replaceImageUrls = (text: string, urls: Record<string, string>): string =>
+  Object.keys(urls).reduce((result, from) => result.split(from).join(urls[from]), text);
+
+/**
+ * Portable content of a question, located by bundle section and subsection IDs
+ */
+export const toBundleQuestion = (question: BulkQuestion): BundleQuestion => {
+  const bundled: BundleQuestion = {
+    id: question.question_id,
+    section_id: Number(question.section_id),
+    subsection_id: question.subsection_id != null ? Number(question.subsection_id) : null,
+    question_text: question.question_text,
+  };
+  BUNDLE_QUESTION_FIELDS.forEach(field => {
+    if (question[field] !== undefined && question[field] !== null) bundled[field] = question[field];
+  });
+  if (Array.isArray(question.options)) {
+    // Option IDs belong to this environment
+    bundled.options = question.options.map((option: any, index: number) => ({
+      option_text: option?.option_text ?? String(option ?? ''),
+      option_order: option?.option_order ?? index,
+    }));
+  }
+  return bundled;
+};
+
+/**
+ * Bundle of a paper and its questions
+ */
+export const buildPaperBundle = (
+  paper: ClonePaper,
+  questions: BulkQuestion[],
+  images: Record<string, string> = {},
+  exportedAt: Date = new Date()
+): PaperBundle => ({
+  format: PAPER_BUNDLE_FORMAT,
+  version: PAPER_BUNDLE_VERSION,
+  exported_at: exportedAt.toISOString(),
+  paper: {
+    id: paper.paper_id,
+    paper_name: paper.paper_name,
+    total_marks: paper.total_marks,
+    description: paper.description || '',
+    sections: paper.sections.map((section, index) => ({
+      id: Number(section.section_id),
+      section_name: section.section_name,
+      marks_allocated: section.marks_allocated,
+      description: section.description || '',
+      display_order: section.display_order ?? index,
+      subsections: (section.subsections || []).map((subsection, subIndex) => ({
+        id: Number(subsection.subsection_id),
+        subsection_name: subsection.subsection_name,
+        description: subsection.description || '',
+        display_order: subsection.display_order ?? subIndex,
+      })),
+    })),
+  },
+  questions: questions.map(toBundleQuestion),
+  images,
+});
+
+/**
+ * File name of the bundle of a paper
+ */
+export const bundleFileName = (paperName: string): string => {
+  const slug = paperName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'paper'}.bundle.json`;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error('Could not read the image'));
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToFile = (dataUrl: string, name: string): File => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, comma);
+  const type = (header.match(/^data:([^;,]+)/) || [])[1] || 'application/octet-stream';
+  const data = dataUrl.slice(comma + 1);
+  let bytes: Uint8Array;
+  if (header.indexOf(';base64') !== -1) {
+    const binary = atob(data);
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  } else {
+    bytes = new TextEncoder().encode(decodeURIComponent(data));
+  }
+  return new File([bytes], name, { type });
+};
+
+/**
+ * Export a paper with its active questions and their images. Images on other
+ * sites and images that cannot be downloaded keep their URL and are listed
+ * in the warnings.
+ */
+export const exportPaperBundle = async (
+  paper: ClonePaper,
+  onProgress?: (label: string) => void
+): Promise<{ bundle: PaperBundle; warnings: string[] }> => {
+  const warnings: string[] = [];
+  const questions: BulkQuestion[] = [];
+  for (const section of paper.sections) {
+    if (section.section_id === undefined) continue;
+    onProgress?.(`Loading questions of ${section.section_name}`);
+    questions.push(...await fetchSectionQuestions(paper.paper_id, section.section_id));
+  }
+
+  const images: Record<string, string> = {};
+  const urls = collectImageUrls(questions.reduce<string[]>((texts, q) => texts.concat(contentTexts(q)), []));
+  for (let i = 0; i < urls.length; i++) {
+    onProgress?.(`Embedding image ${i + 1} of ${urls.length}`);
+    if (!isApiImageUrl(urls[i], axiosInstance.defaults.baseURL)) {
+      warnings.push(`Image ${urls[i]} is hosted on another site and was kept as a link`);
+      continue;
+    }
+    try {
+      const response = await questionsAPI.downloadQuestionImage(urls[i]);
+      images[urls[i]] = await blobToDataUrl(response.data);
+    } catch (err) {
+      warnings.push(`Image ${urls[i]} was not embedded: ${errorMessage(err)}`);
+    }
+  }
+
+  return { bundle: buildPaperBundle(paper, questions, images), warnings };
+};
+
+/**
+ * Read a bundle file, checking its format and version
+ */
+export const parsePaperBundle = (text: string): PaperBundle => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!data || data.format !== PAPER_BUNDLE_FORMAT) {
+    throw new Error('The file is not a paper bundle');
+  }
+  const version = Number(data.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('The bundle has no valid version');
+  }
+  if (version > PAPER_BUNDLE_VERSION) {
+    throw new Error(`The bundle is version ${version}; this app reads bundles up to version ${PAPER_BUNDLE_VERSION}`);
+  }
+  const paper = data.paper;
+  if (!paper || typeof paper.paper_name !== 'string' || !paper.paper_name.trim() || !Array.isArray(paper.sections)) {
+    throw new Error('The bundle has no paper');
+  }
+
+  const sections: BundleSection[] = paper.sections.map((section: any) => ({
+    id: Number(section.id),
+    section_name: String(section.section_name ?? ''),
+    marks_allocated: Number(section.marks_allocated) || 0,
+    description: section.description || '',
+    display_order: section.display_order ?? null,
+    subsections: (Array.isArray(section.subsections) ? section.subsections : []).map((subsection: any) => ({
+      id: Number(subsection.id),
+      subsection_name: String(subsection.subsection_name ?? ''),
+      description: subsection.description || '',
+      display_order: subsection.display_order ?? null,
+    })),
+  }));
+  const sectionIds = new Set(sections.map(section => section.id));
+  const questions: BundleQuestion[] = Array.isArray(data.questions) ? data.questions : [];
+  const orphan = questions.find(q => typeof q?.question_text !== 'string' || !sectionIds.has(Number(q.section_id)));
+  if (orphan) {
+    throw new Error(`Question ${orphan?.id ?? ''} of the bundle does not belong to one of its sections`);
+  }
+
+  return {
+    format: PAPER_BUNDLE_FORMAT,
+    version,
+    exported_at: String(data.exported_at ?? ''),
+    paper: {
+      id: Number(paper.id),
+      paper_name: paper.paper_name,
+      total_marks: Number(paper.total_marks) || 0,
+      description: paper.description || '',
+      sections,
+    },
+    questions: questions.map(q => ({
+      ...q,
+      section_id: Number(q.section_id),
+      subsection_id: q.subsection_id != null ? Number(q.subsection_id) : null,
+    })),
+    images: data.images && typeof data.images === 'object' ? data.images : {},
+  };
+};
+
+/**
+ * Existing paper the bundle's paper conflicts with: one with the same name,
+ * or else the one with the same ID when it was exported from here
+ */
+export const findConflictingPaper = (bundle: PaperBundle, papers: ClonePaper[]): ClonePaper | null =>
+  papers.find(paper => sameName(paper.paper_name, bundle.paper.paper_name)) ||
+  papers.find(paper => paper.paper_id === bundle.paper.id) ||
+  null;
+
+/**
+ * Section choices for importing into a target paper: sections whose name is
+ * already used there are merged into it unless the admin decides otherwise
+ */
+export const sectionChoicesFor = (bundle: PaperBundle, target: ClonePaper | null): SectionImportChoice[] =>
+  bundle.paper.sections.map(source => {
+    const existing = target?.sections.find(section => sameName(section.section_name, source.section_name)) || null;
+    return { source, resolution: existing ? 'merge' : 'create', section_name: source.section_name, existing };
+  });
+
+/**
+ * Default plan: a new paper, renamed when its name is taken
+ */
+export const defaultImportPlan = (bundle: PaperBundle, papers: ClonePaper[]): BundleImportPlan => {
+  const taken = papers.map(paper => paper.paper_name);
+  const nameTaken = taken.some(name => sameName(name, bundle.paper.paper_name));
+  return {
+    target: {
+      type: 'newPaper',
+      paper_name: nameTaken ? suggestCopyName(bundle.paper.paper_name, taken) : bundle.paper.paper_name,
+    },
+    sections: sectionChoicesFor(bundle, null),
+  };
+};
+
+/**
+ * Change how a section is imported; renaming suggests a free name
+ */
+export const resolveSection = (
+  plan: BundleImportPlan,
+  sectionId: number,
+  resolution: SectionImportResolution
+): BundleImportPlan => {
+  const taken = [
+    ...(plan.target.type === 'existingPaper' ? plan.target.paper.sections.map(section => section.section_name) : []),
+    ...plan.sections.filter(choice => choice.source.id !== sectionId).map(choice => choice.section_name),
+  ];
+  return {
+    ...plan,
+    sections: plan.sections.map(choice => {
+      if (choice.source.id !== sectionId) return choice;
+      const section_name = resolution === 'rename' && choice.section_name === choice.source.section_name
+        ? suggestCopyName(choice.source.section_name, taken)
+        : choice.section_name;
+      return { ...choice, resolution, section_name };
+    }),
+  };
+};
+
+/**
+ * Validation errors of an import plan
+ */
+export const validateImportPlan = (plan: BundleImportPlan, papers: ClonePaper[]): string[] => {
+  const errors: string[] = [];
+  if (plan.target.type === 'newPaper') {
+    const name = plan.target.paper_name.trim();
+    if (!name) {
+      errors.push('Paper name is required');
+    } else if (papers.some(paper => sameName(paper.paper_name, name))) {
+      errors.push(`A paper named "${name}" already exists; rename it or merge into it`);
+    }
+  }
+  if (plan.sections.every(choice => choice.resolution === 'skip')) {
+    errors.push('Every section is skipped, so there is nothing to import');
+  }
+
+  const existingNames = plan.target.type === 'existingPaper'
+    ? plan.target.paper.sections.map(section => section.section_name.trim().toLowerCase())
+    : [];
+  const seen = new Set(existingNames);
+  plan.sections.forEach(choice => {
+    if (choice.resolution === 'skip') return;
+    if (choice.resolution === 'merge') {
+      if (!choice.existing) errors.push(`Section "${choice.source.section_name}" has no section to merge into`);
+      return;
+    }
+    const name = choice.section_name.trim();
+    if (!name) {
+      errors.push(`Section "${choice.source.section_name}" needs a name`);
+    } else if (seen.has(name.toLowerCase())) {
+      errors.push(`Section name "${name}" is already used; merge, rename or skip it`);
+    }
+    seen.add(name.toLowerCase());
+  });
+  return errors;
+};
+
+/**
+ * Run an import plan: upload the embedded images, create or reuse the paper,
+ * sections and subsections, then create the questions as drafts. Questions
+ * whose text is already in a merged section are skipped.
+ */
+export const runBundleImport = async (
+  bundle: PaperBundle,
+  plan: BundleImportPlan,
+  onProgress?: (progress: BundleImportProgress) => void
+): Promise<BundleImportReport> => {
+  const report: BundleImportReport = {
+    paper: null,
+    sectionsCreated: [],
+    sectionsMerged: [],
+    sectionsSkipped: [],
+    subsectionsCreated: 0,
+    questionsImported: 0,
+    questionsSkipped: 0,
+    questionsFailed: [],
+    errors: [],
+  };
+
+  const included = plan.sections.filter(choice => choice.resolution !== 'skip');
+  report.sectionsSkipped = plan.sections.filter(choice => choice.resolution === 'skip').map(choice => choice.source.section_name);
+  const includedIds = new Set(included.map(choice => choice.source.id));
+  const questions = bundle.questions.filter(q => includedIds.has(q.section_id));
+  const imageUrls = collectImageUrls(questions.reduce<string[]>((texts, q) => texts.concat(contentTexts(q)), []))
+    .filter(url => bundle.images[url]);
+
+  let total = imageUrls.length + 1 + included.length + questions.length;
+  let completed = 0;
+  const step = (label: string) => {
+    completed += 1;
+    onProgress?.({ completed, total, label });
+  };
+
+  // New URLs of the embedded images
+  const imageMap: Record<string, string> = {};
+  for (let i = 0; i < imageUrls.length; i++) {
+    try {
+      const name = imageUrls[i].split('/').pop()?.split('?')[0] || `image-${i + 1}`;
+      const response = await questionsAPI.uploadQuestionImage(dataUrlToFile(bundle.images[imageUrls[i]], name));
+      if (response.data?.url) imageMap[imageUrls[i]] = response.data.url;
+    } catch (err) {
+      report.errors.push(`Image ${imageUrls[i]}: ${errorMessage(err)}`);
+    }
+    step(`Uploaded image ${i + 1} of ${imageUrls.length}`);
+  }
+
+  let paperId: number;
+  if (plan.target.type === 'newPaper') {
+    const name = plan.target.paper_name.trim();
+    const response = await papersAPI.createPaper({
+      paper_name: name,
+      total_marks: bundle.paper.total_marks,
+      description: bundle.paper.description,
+      sections: [],
+    });
+    paperId = createdId(response, 'paper_id');
+    report.paper = { paper_id: paperId, paper_name: name, created: true };
+  } else {
+    paperId = plan.target.paper.paper_id;
+    report.paper = { paper_id: paperId, paper_name: plan.target.paper.paper_name, created: false };
+  }
+  step(`Prepared paper ${report.paper.paper_name}`);
+
+  // New IDs of the bundle's sections and subsections, and the question texts already in merged sections
+  const sectionIds = new Map<number, number>();
+  const subsectionIds = new Map<number, number>();
+  const existingTexts = new Map<number, Set<string>>();
+
+  for (const choice of included) {
+    const { source } = choice;
+    let sectionId: number;
+    let existingSubsections = choice.existing?.subsections || [];
+    try {
+      if (choice.resolution === 'merge' && choice.existing?.section_id !== undefined) {
+        sectionId = choice.existing.section_id;
+        const present = await fetchSectionQuestions(paperId, sectionId);
+        existingTexts.set(source.id, new Set(present.map(q => normalizeText(q.question_text || ''))));
+        report.sectionsMerged.push(choice.existing.section_name);
+      } else {
+        const response = await sectionsAPI.createSection({
+          paper_id: paperId,
+          section_name: choice.section_name.trim(),
+          marks_allocated: source.marks_allocated,
+          description: source.description,
+        });
+        sectionId = createdId(response, 'section_id');
+        existingSubsections = [];
+        report.sectionsCreated.push(choice.section_name.trim());
+      }
+      sectionIds.set(source.id, sectionId);
+    } catch (err) {
+      report.errors.push(`Section "${choice.section_name}": ${errorMessage(err)}`);
+      step(`Skipped section ${choice.section_name}`);
+      continue;
+    }
+
+    for (const subsection of source.subsections) {
+      const existing = existingSubsections.find(s => sameName(s.subsection_name, subsection.subsection_name));
+      if (existing?.subsection_id !== undefined) {
+        subsectionIds.set(subsection.id, existing.subsection_id);
+        continue;
+      }
+      try {
+        const response = await subsectionsAPI.createSubsection({
+          section_id: sectionId,
+          subsection_name: subsection.subsection_name,
+          description: subsection.description,
+        });
+        subsectionIds.set(subsection.id, createdId(response, 'subsection_id'));
+        report.subsectionsCreated += 1;
+      } catch (err) {
+        report.errors.push(`Subsection "${subsection.subsection_name}": ${errorMessage(err)}`);
+      }
+    }
+    step(`Prepared section ${choice.section_name}`);
+  }
+
+  const toCreate = questions.filter(q => {
+    if (!sectionIds.has(q.section_id)) return false;
+    if (existingTexts.get(q.section_id)?.has(normalizeText(q.question_text))) {
+      report.questionsSkipped += 1;
+      return false;
+    }
+    return true;
+  });
+  total -= questions.length - toCreate.length;
+  onProgress?.({ completed, total, label: `Importing ${toCreate.length} questions` });
+
+  const results = await runBulkTasks(
+    toCreate,
+    question => {
+      const { id, section_id, subsection_id, ...content } = question;
+      const copy = buildQuestionCopy(content, {
+        paper_id: paperId,
+        section_id: sectionIds.get(section_id)!,
+        subsection_id: subsection_id != null ? subsectionIds.get(subsection_id) ?? null : null,
+      });
+      return questionsAPI.createQuestion({
+        ...copy,
+        question_text: replaceImageUrls(copy.question_text, imageMap),
+        ...(typeof copy.explanation === 'string' ? { explanation: replaceImageUrls(copy.explanation, imageMap) } : {}),
+        options: copy.options.map(option => ({ ...option, option_text: replaceImageUrls(option.option_text, imageMap) })),
+      });
+    },
+    (done) => onProgress?.({ completed: completed + done, total, label: `Imported ${done} of ${toCreate.length} questions` })
+  );
+
+  results.forEach(result => {
+    if (result.error) {
+      report.questionsFailed.push({ id: result.item.id, error: result.error });
+    } else {
+      report.questionsImported += 1;
+    }
+  });
+  return report;
+};
@@ -0,0 +1,289 @@
+/**
+ * Paper Cloning
+ *
+ * Deep copies of a paper or of some of its sections, for example to start
+ * next year's syllabus from this year's paper: the sections and subsections
+ * are recreated under their new names, and their questions are optionally
+ * copied into the new hierarchy as drafts. Each step runs on its own, so a
+ * failure is reported without stopping the rest of the copy.
+ */
+import { papersAPI, questionsAPI, QuestionData, sectionsAPI, subsectionsAPI } from '../services/api';
+import { BulkQuestion, runBulkTasks } from './bulkQuestionActions';
+import { fetchAllQuestions } from './questionPages';
+
+export interface CloneSubsection {
+  subsection_id?: number;
+  subsection_name: string;
+  description: string;
+  display_order?: number | null;
+}
+
+export interface CloneSection {
+  section_id?: number;
+  section_name: string;
+  marks_allocated: number;
+  description: string;
+  display_order?: number | null;
+  subsections: CloneSubsection[];
+}
+
+export interface ClonePaper {
+  paper_id: number;
+  paper_name: string;
+  total_marks: number;
+  description: string;
+  sections: CloneSection[];
+}
+
+// Where the copied sections go: a new paper, or an existing one
+export type CloneTarget =
+  | { type: 'newPaper'; paper_name: string; total_marks: number; description: string }
+  | { type: 'existingPaper'; paper_id: number };
+
+export interface ClonePlan {
+  source: ClonePaper;
+  target: CloneTarget;
+  // Sections to copy with their new names; subsections are matched by position
+  sections: Array<{ source: CloneSection; section_name: string; subsection_names: string[] }>;
+  includeQuestions: boolean;
+}
+
+export interface CloneProgress {
+  completed: number;
+  total: number;
+  label: string;
+}
+
+export interface CloneReport {
+  paper: { paper_id: number; paper_name: string } | null;
+  sections: Array<{ from: number; to: number; section_name: string }>;
+  subsections: Array<{ from: number; to: number; subsection_name: string }>;
+  questionsCopied: number;
+  questionsFailed: Array<{ question_id: number; error: string }>;
+  errors: string[];
+}
+
+const errorMessage = (err: any): string => {
+  const detail = err?.response?.data?.detail;
+  return typeof detail === 'string' ? detail : err?.message || 'Failed';
+};
+
+/**
+ * ID of a created paper, section or subsection from the create response
+ */
+export const createdId = (response: { data: any }, field: string): number => {
+  const id = Number(response.data?.[field] ?? response.data?.id);
+  if (!isFinite(id) || id <= 0) throw new Error(`The server did not return the new ${field}`);
+  return id;
+};
+
+/**
+ * Name for a copy: a year in the name moves on by one ("Physics 2024" becomes
+ * "Physics 2025"), otherwise "(copy)" is added; a number is appended while
+ * the name is taken
+ */
+export const suggestCopyName = (name: string, takenNames: string[] = []): string => {
+  const taken = new Set(takenNames.map(existing => existing.trim().toLowerCase()));
+  const years = name.trim().match(/\b(?:19|20)\d{2}\b/g);
+  let base = `${name.trim()} (copy)`;
+  if (years) {
+    const year = years[years.length - 1];
+    const at = name.trim().lastIndexOf(year);
+    base = `${name.trim().slice(0, at)}${Number(year) + 1}${name.trim().slice(at + year.length)}`;
+  }
+  if (!taken.has(base.toLowerCase())) return base;
+  for (let n = 2; ; n++) {
+    const candidate = `${base} ${n}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+};
+
+/**
+ * Validation errors of a clone plan: names are required, and section names
+ * must be unique within the target paper
+ */
+export const validateClonePlan = (plan: ClonePlan, targetSectionNames: string[] = []): string[] => {
+  const errors: string[] = [];
+  if (plan.target.type === 'newPaper' && !plan.target.paper_name.trim()) {
+    errors.push('Paper name is required');
+  }
+  if (plan.sections.length === 0) {
+    errors.push('Select at least one section to copy');
+  }
+
+  const seen = new Set(targetSectionNames.map(name => name.trim().toLowerCase()));
+  plan.sections.forEach(({ section_name, subsection_names }) => {
+    const name = section_name.trim();
+    if (!name) {
+      errors.push('Every copied section needs a name');
+    } else if (seen.has(name.toLowerCase())) {
+      errors.push(`Section name "${name}" is already used in the target paper`);
+    }
+    seen.add(name.toLowerCase());
+    if (subsection_names.some(subsection => !subsection.trim())) {
+      errors.push(`Every subsection of "${name || 'a section'}" needs a name`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Create request for a copy of a question in the new hierarchy. Copies start
+ * as drafts, so they go through review before being served.
+ */
+export const buildQuestionCopy = (
+  question: Pick<BulkQuestion, 'question_text'> & Partial<BulkQuestion>,
+  location: { paper_id: number; section_id: number; subsection_id: number | null }
+): QuestionData => ({
+  question_text: question.question_text,
+  question_type: question.question_type,
+  ...location,
+  default_difficulty_level: question.default_difficulty_level || 'Easy',
+  options: Array.isArray(question.options) ? question.options : [],
+  correct_option_index: question.correct_option_index,
+  correct_option_indices: question.correct_option_indices,
+  numeric_answer: question.numeric_answer,
+  numeric_tolerance: question.numeric_tolerance,
+  accepted_answers: question.accepted_answers,
+  case_sensitive: question.case_sensitive,
+  explanation: question.explanation,
+  valid_until: question.valid_until,
+  ...(Array.isArray(question.tags) ? { tags: question.tags } : {}),
+  ...(question.bloom_level ? { bloom_level: question.bloom_level } : {}),
+  ...(Array.isArray(question.objective_ids) ? { objective_ids: question.objective_ids } : {}),
+  status: 'draft',
+});
+
+/**
+ * Active questions of a section
+ */
+export const fetchSectionQuestions = async (paperId: number, sectionId: number): Promise<BulkQuestion[]> => {
+  const questions = await fetchAllQuestions<BulkQuestion>({ paper_id: paperId, section_id: sectionId });
+  // Older endpoints ignore the filters, so keep only this section's questions
+  return questions.filter(q =>
+    Number(q.section_id) === sectionId && q.is_active !== false && q.active !== false
+  );
+};
+
+/**
+ * Run a clone plan: create the paper when needed, then each section with its
+ * subsections, then copy the questions of the sections that were created
+ */
+export const runClonePlan = async (
+  plan: ClonePlan,
+  onProgress?: (progress: CloneProgress) => void
+): Promise<CloneReport> => {
+  const report: CloneReport = {
+    paper: null,
+    sections: [],
+    subsections: [],
+    questionsCopied: 0,
+    questionsFailed: [],
+    errors: [],
+  };
+
+  const structureSteps = (plan.target.type === 'newPaper' ? 1 : 0) +
+    plan.sections.reduce((sum, section) => sum + 1 + section.subsection_names.length, 0);
+  let total = structureSteps;
+  let completed = 0;
+  const step = (label: string) => {
+    completed += 1;
+    onProgress?.({ completed, total, label });
+  };
+
+  let paperId: number;
+  if (plan.target.type === 'newPaper') {
+    const response = await papersAPI.createPaper({
+      paper_name: plan.target.paper_name.trim(),
+      total_marks: plan.target.total_marks,
+      description: plan.target.description,
+      sections: [],
+    });
+    paperId = createdId(response, 'paper_id');
+    report.paper = { paper_id: paperId, paper_name: plan.target.paper_name.trim() };
+    step(`Created paper ${plan.target.paper_name.trim()}`);
+  } else {
+    paperId = plan.target.paper_id;
+  }
+
+  // New IDs of the copied sections and subsections, by source ID
+  const sectionIds = new Map<number, number>();
+  const subsectionIds = new Map<number, number>();
+
+  for (const { source, section_name, subsection_names } of plan.sections) {
+    const name = section_name.trim();
+    let sectionId: number;
+    try {
+      const response = await sectionsAPI.createSection({
+        paper_id: paperId,
+        section_name: name,
+        marks_allocated: source.marks_allocated,
+        description: source.description,
+      });
+      sectionId = createdId(response, 'section_id');
+      if (source.section_id !== undefined) sectionIds.set(source.section_id, sectionId);
+      report.sections.push({ from: source.section_id ?? 0, to: sectionId, section_name: name });
+      step(`Created section ${name}`);
+    } catch (err) {
+      report.errors.push(`Section "${name}": ${errorMessage(err)}`);
+      completed += subsection_names.length;
+      step(`Skipped section ${name}`);
+      continue;
+    }
+
+    for (let i = 0; i < source.subsections.length; i++) {
+      const subsection = source.subsections[i];
+      const subsectionName = (subsection_names[i] ?? subsection.subsection_name).trim();
+      try {
+        const response = await subsectionsAPI.createSubsection({
+          section_id: sectionId,
+          subsection_name: subsectionName,
+          description: subsection.description,
+        });
+        const subsectionId = createdId(response, 'subsection_id');
+        if (subsection.subsection_id !== undefined) subsectionIds.set(subsection.subsection_id, subsectionId);
+        report.subsections.push({ from: subsection.subsection_id ?? 0, to: subsectionId, subsection_name: subsectionName });
+      } catch (err) {
+        report.errors.push(`Subsection "${subsectionName}": ${errorMessage(err)}`);
+      }
+      step(`Created subsection ${subsectionName}`);
+    }
+  }
+
+  if (!plan.includeQuestions) return report;
+
+  const questions: BulkQuestion[] = [];
+  for (const { source } of plan.sections) {
+    if (source.section_id === undefined || !sectionIds.has(source.section_id)) continue;
+    try {
+      questions.push(...await fetchSectionQuestions(plan.source.paper_id, source.section_id));
+    } catch (err) {
+      report.errors.push(`Questions of section "${source.section_name}": ${errorMessage(err)}`);
+    }
+  }
+
+  total += questions.length;
+  onProgress?.({ completed, total, label: `Copying ${questions.length} questions` });
+
+  const results = await runBulkTasks(
+    questions,
+    question => {
+      const subsectionId = question.subsection_id != null ? subsectionIds.get(Number(question.subsection_id)) : undefined;
+      return questionsAPI.createQuestion(buildQuestionCopy(question, {
+        paper_id: paperId,
+        section_id: sectionIds.get(Number(question.section_id))!,
+        subsection_id: subsectionId ?? null,
+      }));
+    },
+    (done) => onProgress?.({ completed: completed + done, total, label: `Copied ${done} of ${questions.length} questions` })
+  );
+
+  results.forEach(result => {
+    if (result.error) {
+      report.questionsFailed.push({ question_id: result.item.question_id, error: result.error });
+    } else {
+      report.questionsCopied += 1;
+    }
+  });
+  return report;
+};
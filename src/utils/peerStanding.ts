@@ -0,0 +1,136 @@
+/**
+ * Peer Standing
+ *
+ * Percentile, rank and score distribution of an attempt among the attempts
+ * on the same test template or paper, and the leaderboard when an admin has
+ * enabled it for the template. Figures the server leaves out are computed
+ * from the peer scores it returns. Anonymizing the leaderboard is up to the
+ * server: its rows carry labels such as "Candidate 3", never names.
+ */
+import { testsAPI } from '../services/api';
+import { LeaderboardEntry, PeerScope, PeerStanding, ScoreHistogramBin } from '../types';
+
+export const HISTOGRAM_BIN_SIZE = 10;
+
+// Fewer peer attempts than this give no meaningful percentile
+export const MIN_PEERS_FOR_STANDING = 2;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const toNumber = (value: any): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : null;
+};
+
+/**
+ * Share of the scores below the given one, in percent, with equal scores
+ * counted half. The scores include the one being ranked.
+ */
+export const computePercentile = (score: number, scores: number[]): number => {
+  if (scores.length === 0) return 0;
+  const below = scores.filter(s => s < score).length;
+  const equal = scores.filter(s => s === score).length;
+  return round(((below + equal / 2) / scores.length) * 100);
+};
+
+/**
+ * Competition rank of a score: equal scores share a rank
+ */
+export const computeRank = (score: number, scores: number[]): number =>
+  1 + scores.filter(s => s > score).length;
+
+const binIndex = (percentage: number, binCount: number): number =>
+  Math.min(Math.floor(Math.max(percentage, 0) / HISTOGRAM_BIN_SIZE), binCount - 1);
+
+/**
+ * Count of score percentages per 10-point bin from 0 to 100, with the bin
+ * of the given score marked. Negative scores fall in the first bin.
+ */
+export const buildScoreHistogram = (scores: number[], score: number): ScoreHistogramBin[] => {
+  const binCount = Math.ceil(100 / HISTOGRAM_BIN_SIZE);
+  const bins: ScoreHistogramBin[] = [];
+  for (let index = 0; index < binCount; index++) {
+    bins.push({ from: index * HISTOGRAM_BIN_SIZE, to: (index + 1) * HISTOGRAM_BIN_SIZE, count: 0, includes_attempt: false });
+  }
+  scores.forEach(s => {
+    bins[binIndex(s, binCount)].count += 1;
+  });
+  bins[binIndex(score, binCount)].includes_attempt = true;
+  return bins;
+};
+
+/**
+ * Leaderboard rows as the server ranked and labelled them, skipping rows
+ * without a score
+ */
+export const normalizeLeaderboard = (entries: any[]): LeaderboardEntry[] =>
+  entries
+    .map(entry => ({
+      rank: toNumber(entry?.rank),
+      label: typeof entry?.label === 'string' ? entry.label : '',
+      percentage: toNumber(entry?.percentage),
+      is_current_attempt: entry?.is_current_attempt === true,
+    }))
+    .filter((row): row is LeaderboardEntry => row.rank !== null && row.percentage !== null);
+
+/**
+ * Peer standing from the server response
+ */
+export const normalizePeerStanding = (data: any, attemptId: number, scope: PeerScope): PeerStanding => {
+  const payload = data?.data && typeof data.data === 'object' ? data.data : data;
+  const percentage = toNumber(payload?.percentage ?? payload?.score);
+  if (percentage === null) {
+    throw new Error('The peer standing returned by the server has no score for the attempt');
+  }
+
+  const scores = (Array.isArray(payload.scores) ? payload.scores : [])
+    .map(toNumber)
+    .filter((s: number | null): s is number => s !== null);
+  // The peer scores include the attempt itself; add it if the server left it out
+  if (scores.length > 0 && scores.indexOf(percentage) === -1) scores.push(percentage);
+
+  const marked = Math.min(Math.max(percentage, 0), 100);
+  const histogram: ScoreHistogramBin[] = Array.isArray(payload.histogram)
+    ? payload.histogram.map((bin: any) => {
+      const from = toNumber(bin.from) ?? 0;
+      const to = toNumber(bin.to) ?? 100;
+      return {
+        from,
+        to,
+        count: toNumber(bin.count) ?? 0,
+        includes_attempt: marked >= from && (marked < to || (to >= 100 && marked === 100)),
+      };
+    })
+    : buildScoreHistogram(scores, percentage);
+
+  return {
+    attempt_id: attemptId,
+    scope,
+    percentage,
+    percentile: toNumber(payload.percentile) ?? computePercentile(percentage, scores),
+    rank: toNumber(payload.rank) ?? computeRank(percentage, scores),
+    peer_count: toNumber(payload.peer_count) ?? scores.length,
+    histogram,
+    leaderboard: payload.leaderboard_enabled === true && Array.isArray(payload.leaderboard)
+      ? normalizeLeaderboard(payload.leaderboard)
+      : null,
+  };
+};
+
+/**
+ * Load the standing of an attempt among its peers
+ */
+export const loadPeerStanding = async (attemptId: number, scope: PeerScope): Promise<PeerStanding> => {
+  const response = await testsAPI.getAttemptPeerStanding(attemptId, scope);
+  return normalizePeerStanding(response.data, attemptId, scope);
+};
+
+/**
+ * Ordinal suffix for a percentile or rank, e.g. 1st, 22nd, 13th
+ */
+export const ordinal = (value: number): string => {
+  const whole = Math.round(value);
+  const lastTwo = whole % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${whole}th`;
+  return `${whole}${['th', 'st', 'nd', 'rd'][whole % 10] || 'th'}`;
+};
@@ -0,0 +1,158 @@
+/**
+ * Proctoring Utilities
+ *
+ * Helpers for the exam proctoring mode: the admin-set proctoring policy,
+ * detection of developer-tools shortcuts, de-duplication of focus-loss events
+ * and per-attempt persistence of the event buffer.
+ */
+import { testsAPI } from '../services/api';
+import { ProctoringConfig, ProctoringEvent, ProctoringEventType } from '../types';
+
+// Storage key prefix
+const STATE_KEY_PREFIX = 'proctoring_state_';
+
+// Blur and tab-switch usually fire together; treat them as one violation
+const FOCUS_LOSS_DEDUPE_MS = 1000;
+const FOCUS_LOSS_EVENTS: ProctoringEventType[] = ['tab_switch', 'window_blur'];
+
+export const DEFAULT_PROCTORING_CONFIG: ProctoringConfig = {
+  enabled: false,
+  requireFullscreen: true,
+  warningThreshold: 3,
+  autoSubmitThreshold: 5,
+};
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  tab_switch: 'Switched tab',
+  window_blur: 'Left exam window',
+  fullscreen_exit: 'Exited fullscreen',
+  copy: 'Copy attempt',
+  cut: 'Cut attempt',
+  paste: 'Paste attempt',
+  context_menu: 'Opened context menu',
+  devtools_shortcut: 'Developer tools shortcut',
+};
+
+interface ShortcutKeyEvent {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+/**
+ * Detect keyboard shortcuts that open developer tools or view source
+ */
+export const isDevtoolsShortcut = (event: ShortcutKeyEvent): boolean => {
+  const key = event.key.toUpperCase();
+
+  if (key === 'F12') return true;
+
+  // Ctrl+Shift+I/J/C (Windows/Linux) and Cmd+Option+I/J/C (macOS)
+  const modifier = (event.ctrlKey && event.shiftKey) || (event.metaKey && event.altKey);
+  if (modifier && ['I', 'J', 'C'].includes(key)) return true;
+
+  // View source: Ctrl+U / Cmd+Option+U
+  if ((event.ctrlKey && !event.shiftKey && key === 'U') || (event.metaKey && event.altKey && key === 'U')) {
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Whether a new focus-loss event duplicates one recorded moments earlier
+ */
+export const isDuplicateFocusLoss = (
+  eventType: ProctoringEventType,
+  lastFocusLossAt: number | null,
+  now: number
+): boolean => {
+  if (!FOCUS_LOSS_EVENTS.includes(eventType) || lastFocusLossAt === null) {
+    return false;
+  }
+  return now - lastFocusLossAt < FOCUS_LOSS_DEDUPE_MS;
+};
+
+export const isFocusLossEvent = (eventType: ProctoringEventType): boolean =>
+  FOCUS_LOSS_EVENTS.includes(eventType);
+
+/**
+ * Proctoring configuration from the policy returned by the server, with
+ * defaults for missing settings
+ */
+export const normalizeProctoringConfig = (data: any): ProctoringConfig => {
+  const threshold = (value: any, fallback: number) =>
+    Number.isInteger(Number(value)) && Number(value) >= 0 ? Number(value) : fallback;
+  return {
+    enabled: typeof data?.enabled === 'boolean' ? data.enabled : DEFAULT_PROCTORING_CONFIG.enabled,
+    requireFullscreen: typeof data?.requireFullscreen === 'boolean'
+      ? data.requireFullscreen
+      : DEFAULT_PROCTORING_CONFIG.requireFullscreen,
+    warningThreshold: threshold(data?.warningThreshold, DEFAULT_PROCTORING_CONFIG.warningThreshold),
+    autoSubmitThreshold: threshold(data?.autoSubmitThreshold, DEFAULT_PROCTORING_CONFIG.autoSubmitThreshold),
+  };
+};
+
+/**
+ * Load the proctoring policy admins have set for mock tests. Candidates
+ * cannot change it, and a test is not started when it cannot be loaded.
+ */
+export const fetchProctoringPolicy = async (): Promise<ProctoringConfig> => {
+  const response = await testsAPI.getProctoringPolicy();
+  return normalizeProctoringConfig(response.data);
+};
+
+/**
+ * Problem with a proctoring configuration an admin is saving, or null
+ */
+export const validateProctoringConfig = (config: ProctoringConfig): string | null =>
+  config.enabled && config.autoSubmitThreshold > 0 && config.warningThreshold > config.autoSubmitThreshold
+    ? 'The warning threshold cannot be higher than the auto-submit threshold.'
+    : null;
+
+/**
+ * True when a clipboard event happens in a field the candidate types an
+ * answer into; the clipboard restrictions only cover question content
+ */
+export const isAnswerFieldTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLTextAreaElement) return !target.readOnly;
+  if (target instanceof HTMLInputElement) return !target.readOnly && target.type !== 'hidden';
+  return target.isContentEditable === true;
+};
+
+export interface ProctoringState {
+  pending: ProctoringEvent[];   // Events not yet delivered to the server
+  violationCount: number;       // All violations recorded for the attempt
+}
+
+/**
+ * Load the buffered events and violation count for an attempt
+ */
+export const loadProctoringState = (attemptId: number): ProctoringState => {
+  try {
+    const raw = localStorage.getItem(`${STATE_KEY_PREFIX}${attemptId}`);
+    const state = raw ? JSON.parse(raw) : null;
+    return {
+      pending: Array.isArray(state?.pending) ? state.pending : [],
+      violationCount: Number(state?.violationCount) || 0,
+    };
+  } catch (error) {
+    console.error('[Proctoring] Error reading proctoring state:', error);
+    return { pending: [], violationCount: 0 };
+  }
+};
+
+export const saveProctoringState = (attemptId: number, state: ProctoringState) => {
+  try {
+    localStorage.setItem(`${STATE_KEY_PREFIX}${attemptId}`, JSON.stringify(state));
+  } catch (error) {
+    console.error('[Proctoring] Error saving proctoring state:', error);
+  }
+};
+
+export const clearProctoringState = (attemptId: number) => {
+  localStorage.removeItem(`${STATE_KEY_PREFIX}${attemptId}`);
+};
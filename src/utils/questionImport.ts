@@ -0,0 +1,514 @@
+/**
+ * Question Bank Import
+ *
+ * Client-side side of the question import wizard: spreadsheets (CSV or XLSX)
+ * are parsed locally, their columns mapped to question fields and every row
+ * validated against the papers, sections and subsections in the system before
+ * anything is uploaded. Valid rows are then sent to the existing upload
+ * endpoint as CSV chunks in the sample template's layout.
+ */
+import { CellValue, Workbook, Worksheet } from 'exceljs';
+import { QuestionType } from '../types';
+import {
+  AnswerKeyForm,
+  TRUE_FALSE_OPTIONS,
+  decodeOptionIndices,
+  isKnownQuestionType,
+  normalizeQuestionType,
+  usesOptions,
+  validateAnswerKey,
+} from './questionTypes';
+
+export type ImportField =
+  | 'question_text'
+  | 'question_type'
+  | 'default_difficulty_level'
+  | 'paper'
+  | 'section'
+  | 'subsection'
+  | 'option'
+  | 'correct_option_index'
+  | 'correct_option_indices'
+  | 'numeric_answer'
+  | 'numeric_tolerance'
+  | 'accepted_answers'
+  | 'case_sensitive'
+  | 'explanation'
+  | 'valid_until';
+
+export type ImportValueField = Exclude<ImportField, 'option'>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  question_text: 'Question text',
+  question_type: 'Question type',
+  default_difficulty_level: 'Difficulty',
+  paper: 'Paper (ID or name)',
+  section: 'Section (ID or name)',
+  subsection: 'Subsection (ID or name)',
+  option: 'Option',
+  correct_option_index: 'Correct option index',
+  correct_option_indices: 'Correct option indices',
+  numeric_answer: 'Numeric answer',
+  numeric_tolerance: 'Numeric tolerance',
+  accepted_answers: 'Accepted answers',
+  case_sensitive: 'Case sensitive',
+  explanation: 'Explanation',
+  valid_until: 'Valid until',
+};
+
+export const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+const VALUE_FIELDS = IMPORT_FIELDS.filter((field): field is ImportValueField => field !== 'option');
+
+// Each column maps to one field or is ignored; several columns may map to 'option'
+export type ColumnMapping = Array<ImportField | null>;
+
+export interface ImportRow {
+  rowNumber: number; // Line in the spreadsheet, the header being line 1
+  values: Record<ImportValueField, string>;
+  options: string[];
+}
+
+export interface ImportLookup {
+  papers: Array<{ paper_id: number; paper_name: string }>;
+  sections: Array<{ section_id: number; section_name: string; paper_id: number }>;
+  subsections: Array<{ subsection_id: number; subsection_name: string; section_id: number }>;
+}
+
+export interface ResolvedImportRow {
+  row: ImportRow;
+  question_type: QuestionType;
+  paper_id: number;
+  section_id: number;
+  subsection_id: number | null;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  errors: string[];
+  resolved: ResolvedImportRow | null; // Set only when the row has no errors
+}
+
+export const IMPORT_CHUNK_SIZE = 50;
+
+// Header spellings from the sample template, exports and hand-made sheets
+const HEADER_ALIASES: Record<string, ImportValueField> = {
+  question_text: 'question_text',
+  question: 'question_text',
+  question_type: 'question_type',
+  type: 'question_type',
+  default_difficulty_level: 'default_difficulty_level',
+  difficulty_level: 'default_difficulty_level',
+  difficulty: 'default_difficulty_level',
+  paper_id: 'paper',
+  paper_name: 'paper',
+  paper: 'paper',
+  section_id: 'section',
+  section_name: 'section',
+  section: 'section',
+  subsection_id: 'subsection',
+  subsection_name: 'subsection',
+  subsection: 'subsection',
+  correct_option_index: 'correct_option_index',
+  correct_option: 'correct_option_index',
+  correct_option_indices: 'correct_option_indices',
+  correct_options: 'correct_option_indices',
+  numeric_answer: 'numeric_answer',
+  numeric_tolerance: 'numeric_tolerance',
+  tolerance: 'numeric_tolerance',
+  accepted_answers: 'accepted_answers',
+  case_sensitive: 'case_sensitive',
+  explanation: 'explanation',
+  valid_until: 'valid_until',
+};
+
+const OPTION_HEADER = /^option_?(\d+|[a-z])$/;
+
+const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '_');
+
+/**
+ * Guess the field of each column from its header
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const key = normalizeHeader(header);
+    if (OPTION_HEADER.test(key)) return 'option';
+    const field = HEADER_ALIASES[key];
+    // A field other than the options can only come from one column
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+/**
+ * Fields that the mapping must include before rows can be validated
+ */
+export const missingRequiredFields = (mapping: ColumnMapping): ImportField[] =>
+  (['question_text', 'paper', 'section'] as ImportField[]).filter(field => !mapping.includes(field));
+
+/**
+ * Read the first sheet of a CSV or XLSX file as rows of cell text
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return parseCsv(await file.text());
+  }
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  return sheet ? worksheetToRows(sheet) : [];
+};
+
+/**
+ * Split CSV text into rows of trimmed cell text. Values are kept exactly as
+ * typed (e.g. 31-12-2025 or 007); quoted cells may contain commas, doubled
+ * quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    rows.push(row);
+    row = [];
+  };
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Dates are shown the way the import expects them, DD-MM-YYYY
+const cellToText = (value: CellValue, text: string): string => {
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(value.getUTCDate())}-${pad(value.getUTCMonth() + 1)}-${value.getUTCFullYear()}`;
+  }
+  return text;
+};
+
+export const worksheetToRows = (sheet: Worksheet): string[][] => {
+  const rows: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      const cell = row.getCell(c);
+      cells.push((cellToText(cell.value, cell.text) ?? '').trim());
+    }
+    rows.push(cells);
+  }
+  return rows;
+};
+
+/**
+ * Turn the data rows of a sheet (header excluded) into import rows, skipping
+ * blank lines
+ */
+export const buildImportRows = (dataRows: string[][], mapping: ColumnMapping): ImportRow[] =>
+  dataRows.reduce<ImportRow[]>((rows, cells, index) => {
+    if (cells.every(cell => !cell)) return rows;
+
+    const values = VALUE_FIELDS.reduce(
+      (acc, field) => ({ ...acc, [field]: '' }),
+      {} as Record<ImportValueField, string>
+    );
+    const options: string[] = [];
+    mapping.forEach((field, column) => {
+      const cell = cells[column] ?? '';
+      if (field === 'option') {
+        options.push(cell);
+      } else if (field) {
+        values[field] = cell;
+      }
+    });
+
+    // Unused option columns (e.g. option_2 and option_3 of a True/False row) are not options
+    while (options.length > 0 && !options[options.length - 1]) {
+      options.pop();
+    }
+
+    rows.push({ rowNumber: index + 2, values, options });
+    return rows;
+  }, []);
+
+/**
+ * Find a paper, section or subsection by ID when the value is a number,
+ * otherwise by name ignoring case
+ */
+export const findByIdOrName = <T>(
+  items: T[],
+  value: string,
+  getId: (item: T) => number,
+  getName: (item: T) => string
+): T | undefined => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const id = parseInt(trimmed, 10);
+    return items.find(item => getId(item) === id);
+  }
+  const name = trimmed.toLowerCase();
+  return items.find(item => (getName(item) || '').trim().toLowerCase() === name);
+};
+
+/**
+ * Normalize question text for duplicate detection
+ */
+export const normalizeQuestionText = (text: string): string =>
+  text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const VALID_UNTIL_PATTERN = /^\d{2}-\d{2}-\d{4}$/;
+
+const splitList = (value: string, separator: RegExp): string[] =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+const isTrue = (value: string): boolean => ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+
+const rowOptions = (row: ImportRow, type: QuestionType) =>
+  type === 'True/False' && row.options.length === 0
+    ? TRUE_FALSE_OPTIONS
+    : row.options.map((option_text, option_order) => ({ option_text, option_order }));
+
+// Multi-select answers may be given in either correct option column
+const correctIndicesOf = (row: ImportRow): number[] =>
+  decodeOptionIndices(
+    splitList(row.values.correct_option_indices || row.values.correct_option_index, /[,;|\s]+/).join(',')
+  );
+
+const answerKeyOf = (row: ImportRow, type: QuestionType): AnswerKeyForm => ({
+  question_type: type,
+  options: rowOptions(row, type),
+  correct_option_index: parseInt(row.values.correct_option_index, 10),
+  correct_option_indices: correctIndicesOf(row),
+  numeric_answer: row.values.numeric_answer,
+  numeric_tolerance: row.values.numeric_tolerance,
+  accepted_answers: splitList(row.values.accepted_answers, /\|/),
+  case_sensitive: isTrue(row.values.case_sensitive),
+});
+
+const validateAnswerKeyOfRow = (row: ImportRow, type: QuestionType): string | null => {
+  const answerKey = answerKeyOf(row, type);
+  const error = validateAnswerKey(answerKey);
+  if (error) return error;
+
+  if (type === 'MCQ' || type === 'True/False') {
+    const raw = row.values.correct_option_index.trim();
+    const lastIndex = answerKey.options.length - 1;
+    if (raw === '') return 'Correct option index is required';
+    if (!/^\d+$/.test(raw) || answerKey.correct_option_index > lastIndex) {
+      return `Correct option index must be between 0 and ${lastIndex}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Validate every row and resolve its paper, section and subsection to IDs.
+ * Duplicates are flagged both within the file and against existing question
+ * texts.
+ */
+export const validateImportRows = (
+  rows: ImportRow[],
+  lookup: ImportLookup,
+  existingQuestionTexts: string[] = []
+): ImportRowResult[] => {
+  const existing = new Set(existingQuestionTexts.map(normalizeQuestionText));
+  const firstRowByText = new Map<string, number>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+    const { values } = row;
+
+    const text = normalizeQuestionText(values.question_text);
+    if (!text) {
+      errors.push('Question text is required');
+    } else if (firstRowByText.has(text)) {
+      errors.push(`Duplicate of row ${firstRowByText.get(text)}`);
+    } else {
+      firstRowByText.set(text, row.rowNumber);
+      if (existing.has(text)) {
+        errors.push('Question already exists in the question bank');
+      }
+    }
+
+    if (values.question_type && !isKnownQuestionType(values.question_type)) {
+      errors.push(`Unknown question type "${values.question_type}"`);
+    }
+    const type = normalizeQuestionType(values.question_type);
+
+    const paper = values.paper
+      ? findByIdOrName(lookup.papers, values.paper, p => p.paper_id, p => p.paper_name)
+      : undefined;
+    if (!values.paper) {
+      errors.push('Paper is required');
+    } else if (!paper) {
+      errors.push(`Unknown paper "${values.paper}"`);
+    }
+
+    const section = paper && values.section
+      ? findByIdOrName(
+          lookup.sections.filter(s => s.paper_id === paper.paper_id),
+          values.section,
+          s => s.section_id,
+          s => s.section_name
+        )
+      : undefined;
+    if (!values.section) {
+      errors.push('Section is required');
+    } else if (paper && !section) {
+      errors.push(`Unknown section "${values.section}" in ${paper.paper_name}`);
+    }
+
+    const subsection = section && values.subsection
+      ? findByIdOrName(
+          lookup.subsections.filter(s => s.section_id === section.section_id),
+          values.subsection,
+          s => s.subsection_id,
+          s => s.subsection_name
+        )
+      : undefined;
+    if (section && values.subsection && !subsection) {
+      errors.push(`Unknown subsection "${values.subsection}" in ${section.section_name}`);
+    }
+
+    const answerKeyError = validateAnswerKeyOfRow(row, type);
+    if (answerKeyError) {
+      errors.push(answerKeyError);
+    }
+
+    if (values.valid_until && !VALID_UNTIL_PATTERN.test(values.valid_until)) {
+      errors.push('Valid until must be a date in DD-MM-YYYY format');
+    }
+
+    return {
+      rowNumber: row.rowNumber,
+      errors,
+      resolved: errors.length === 0 && paper && section
+        ? {
+            row,
+            question_type: type,
+            paper_id: paper.paper_id,
+            section_id: section.section_id,
+            subsection_id: subsection ? subsection.subsection_id : null,
+          }
+        : null,
+    };
+  });
+};
+
+export const chunkItems = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export const escapeCsvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ANSWER_KEY_COLUMNS = ['correct_option_indices', 'numeric_answer', 'numeric_tolerance', 'accepted_answers', 'case_sensitive'];
+
+/**
+ * Whether any of the question types needs the answer key columns
+ */
+export const needsAnswerKeyColumns = (types: QuestionType[]): boolean =>
+  types.some(type => !(type === 'MCQ' || type === 'True/False'));
+
+/**
+ * Cells of the answer key columns for a question of the given type; columns
+ * that do not apply to the type are left empty
+ */
+export const answerKeyCells = (
+  type: QuestionType,
+  key: Pick<AnswerKeyForm, 'correct_option_indices' | 'numeric_answer' | 'numeric_tolerance' | 'accepted_answers' | 'case_sensitive'>
+): string[] => [
+  type === 'MultiSelect' ? key.correct_option_indices.join(',') : '',
+  type === 'Numeric' ? key.numeric_answer.trim() : '',
+  type === 'Numeric' ? key.numeric_tolerance.trim() : '',
+  type === 'FillInBlank' ? key.accepted_answers.join('|') : '',
+  type === 'FillInBlank' ? String(key.case_sensitive) : '',
+];
+
+/**
+ * Serialize resolved rows as CSV in the sample template's layout. The answer
+ * key columns of the newer question types are only added when needed.
+ */
+export const buildImportCsv = (rows: ResolvedImportRow[]): string => {
+  const optionCount = Math.max(4, ...rows.map(r => rowOptions(r.row, r.question_type).length));
+  const withAnswerKey = needsAnswerKeyColumns(rows.map(r => r.question_type));
+
+  const header = [
+    'question_text', 'question_type', 'default_difficulty_level', 'paper_id', 'section_id', 'subsection_id',
+    'correct_option_index',
+    ...Array.from({ length: optionCount }, (_, i) => `option_${i}`),
+    'explanation', 'valid_until',
+    ...(withAnswerKey ? ANSWER_KEY_COLUMNS : []),
+  ];
+
+  const lines = rows.map(({ row, question_type, paper_id, section_id, subsection_id }) => {
+    const answerKey = answerKeyOf(row, question_type);
+    const options = usesOptions(question_type) ? answerKey.options.map(o => o.option_text) : [];
+    const correctIndex = question_type === 'MultiSelect'
+      ? answerKey.correct_option_indices[0]
+      : usesOptions(question_type) ? answerKey.correct_option_index : null;
+
+    const cells: Array<string | number | null> = [
+      row.values.question_text.trim(),
+      question_type,
+      row.values.default_difficulty_level || 'Easy',
+      paper_id,
+      section_id,
+      subsection_id,
+      correctIndex,
+      ...Array.from({ length: optionCount }, (_, i) => options[i] ?? ''),
+      row.values.explanation,
+      row.values.valid_until,
+    ];
+    if (withAnswerKey) {
+      cells.push(...answerKeyCells(question_type, answerKey));
+    }
+    return cells.map(escapeCsvCell).join(',');
+  });
+
+  return [header.join(','), ...lines].join('\n');
+};
@@ -0,0 +1,45 @@
+/**
+ * Question Pages
+ *
+ * Loads every question matching a filter from the paginated questions
+ * endpoint. The backend caps page_size at 100, so pages of that size are
+ * requested until the reported total is reached or a page comes back empty.
+ * A bank larger than MAX_QUESTION_PAGES pages is treated as a server fault
+ * rather than paged through forever.
+ */
+import { questionsAPI } from '../services/api';
+
+export const QUESTION_PAGE_SIZE = 100; // Maximum allowed by the backend
+export const MAX_QUESTION_PAGES = 200; // 20,000 questions
+
+export type QuestionPageFilter = Omit<
+  NonNullable<Parameters<typeof questionsAPI.getQuestions>[0]>,
+  'page' | 'page_size'
+>;
+
+/**
+ * All questions matching the filter, in the order the server returns them
+ */
+export const fetchAllQuestions = async <T = any>(filter: QuestionPageFilter = {}): Promise<T[]> => {
+  const all: T[] = [];
+  for (let page = 1; ; page++) {
+    if (page > MAX_QUESTION_PAGES) {
+      throw new Error(
+        `Stopped loading questions after ${MAX_QUESTION_PAGES} pages; the server kept reporting more than the ${all.length} already loaded`
+      );
+    }
+
+    const response = await questionsAPI.getQuestions({ ...filter, page, page_size: QUESTION_PAGE_SIZE });
+    const data = response.data;
+    // Legacy responses are a plain array of every question
+    if (Array.isArray(data)) return data;
+
+    const items: T[] = Array.isArray(data?.items) ? data.items : [];
+    all.push(...items);
+
+    const total = Number(data?.total);
+    if (items.length === 0) break;
+    if (isFinite(total) ? all.length >= total : items.length < QUESTION_PAGE_SIZE) break;
+  }
+  return all;
+};
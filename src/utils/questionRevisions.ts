@@ -0,0 +1,272 @@
+/**
+ * Question Revisions
+ *
+ * Helpers for the revision history of a question: normalizing the revisions
+ * returned by the API, field-level differences between two revisions, and
+ * finding the version of a question that was live at a given moment, so old
+ * attempts can show the question exactly as it was taken.
+ */
+import { questionsAPI } from '../services/api';
+import { AnswerKey, QUESTION_TYPE_LABELS, formatExpectedAnswer, normalizeQuestionType, usesOptions } from './questionTypes';
+import { BulkQuestion, buildUpdatePayload } from './bulkQuestionActions';
+import { richContentToPlainText } from './richContent';
+
+// State of a question saved with a revision
+export interface QuestionSnapshot extends AnswerKey {
+  question_text: string;
+  options?: Array<{ option_id?: number | string; option_text: string; option_order?: number }>;
+  explanation?: string | null;
+  default_difficulty_level?: string | null;
+  valid_until?: string | null;
+  paper_id?: number | null;
+  section_id?: number | null;
+  subsection_id?: number | null;
+  [key: string]: any;
+}
+
+export interface QuestionRevision {
+  revision_id: number;
+  revision_number: number;
+  changed_by: string;
+  changed_at: string;
+  snapshot: QuestionSnapshot;
+}
+
+export type RevisionField =
+  | 'question_text'
+  | 'question_type'
+  | 'options'
+  | 'answer'
+  | 'explanation'
+  | 'default_difficulty_level'
+  | 'valid_until'
+  | 'location';
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  question_text: 'Question text',
+  question_type: 'Type',
+  options: 'Options',
+  answer: 'Correct answer',
+  explanation: 'Explanation',
+  default_difficulty_level: 'Difficulty',
+  valid_until: 'Valid until',
+  location: 'Paper / section',
+};
+
+const SNAPSHOT_KEYS = ['snapshot', 'question_snapshot', 'data', 'question'];
+
+// Name of the user who made a revision; the API sends either a name or a user object
+const describeAuthor = (raw: any): string => {
+  const author = raw.changed_by ?? raw.changed_by_user ?? raw.user ?? raw.author;
+  if (author && typeof author === 'object') {
+    const name = [author.first_name, author.last_name].filter(Boolean).join(' ');
+    return name || author.email || (author.user_id !== undefined ? `User ${author.user_id}` : 'Unknown');
+  }
+  return raw.changed_by_name || (author !== undefined && author !== null && author !== '' ? String(author) : 'Unknown');
+};
+
+/**
+ * Revisions from an API response, oldest first. Revisions without a
+ * snapshot of the question are dropped.
+ */
+export const normalizeRevisions = (data: any): QuestionRevision[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || data?.revisions || [];
+
+  return items
+    .map((raw, index): QuestionRevision | null => {
+      if (!raw || typeof raw !== 'object') return null;
+      const snapshotKey = SNAPSHOT_KEYS.find(key => raw[key] && typeof raw[key] === 'object');
+      const snapshot = snapshotKey ? raw[snapshotKey] : raw.question_text !== undefined ? raw : null;
+      if (!snapshot) return null;
+
+      return {
+        revision_id: Number(raw.revision_id ?? raw.id ?? index + 1),
+        revision_number: Number(raw.revision_number ?? raw.version ?? index + 1),
+        changed_by: describeAuthor(raw),
+        changed_at: raw.changed_at || raw.created_at || raw.updated_at || '',
+        snapshot,
+      };
+    })
+    .filter((revision): revision is QuestionRevision => revision !== null)
+    .sort((a, b) => a.revision_number - b.revision_number);
+};
+
+const sortedOptions = (snapshot: QuestionSnapshot) =>
+  [...(snapshot.options || [])].sort((a, b) => (a.option_order ?? 0) - (b.option_order ?? 0));
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Readable correct answer of a snapshot, whatever its question type
+ */
+export const formatSnapshotAnswer = (snapshot: QuestionSnapshot): string => {
+  const type = normalizeQuestionType(snapshot.question_type);
+  if (!usesOptions(type)) return formatExpectedAnswer(snapshot);
+
+  const options = sortedOptions(snapshot);
+  const indices = type === 'MultiSelect'
+    ? (snapshot.correct_option_indices || []).map(Number)
+    : snapshot.correct_option_index !== undefined && snapshot.correct_option_index !== null
+      ? [Number(snapshot.correct_option_index)]
+      : [];
+  if (indices.length === 0) return 'Not set';
+
+  return [...indices]
+    .sort((a, b) => a - b)
+    .map(index => `${optionLetter(index)}. ${richContentToPlainText(options[index]?.option_text ?? '')}`.trim())
+    .join(', ');
+};
+
+const formatDate = (value?: string | null) => (value ? value.slice(0, 10) : 'None');
+
+const formatLocation = (snapshot: QuestionSnapshot) =>
+  [
+    snapshot.paper_id != null ? `Paper ${snapshot.paper_id}` : null,
+    snapshot.section_id != null ? `Section ${snapshot.section_id}` : null,
+    snapshot.subsection_id != null ? `Subsection ${snapshot.subsection_id}` : null,
+  ].filter(Boolean).join(' / ') || 'None';
+
+const FIELD_FORMATTERS: Record<RevisionField, (snapshot: QuestionSnapshot) => string> = {
+  question_text: snapshot => snapshot.question_text || '',
+  question_type: snapshot => QUESTION_TYPE_LABELS[normalizeQuestionType(snapshot.question_type)],
+  options: snapshot => sortedOptions(snapshot)
+    .map((option, index) => `${optionLetter(index)}. ${option.option_text}`)
+    .join('\n'),
+  answer: formatSnapshotAnswer,
+  explanation: snapshot => snapshot.explanation || '',
+  default_difficulty_level: snapshot => snapshot.default_difficulty_level || '',
+  valid_until: snapshot => formatDate(snapshot.valid_until),
+  location: formatLocation,
+};
+
+/**
+ * Fields that differ between two versions of a question. Without a previous
+ * version (the first revision) every non-empty field counts as added.
+ */
+export const diffRevisions = (before: QuestionSnapshot | null, after: QuestionSnapshot): RevisionFieldChange[] =>
+  (Object.keys(FIELD_FORMATTERS) as RevisionField[])
+    .map(field => ({
+      field,
+      label: REVISION_FIELD_LABELS[field],
+      before: before ? FIELD_FORMATTERS[field](before) : '',
+      after: FIELD_FORMATTERS[field](after),
+    }))
+    .filter(change => change.before !== change.after);
+
+/**
+ * The revision that was live at the given time: the latest one saved at or
+ * before it. Null when the time is unknown or precedes every revision.
+ */
+export const resolveRevisionAt = (revisions: QuestionRevision[], timestamp?: string | null): QuestionRevision | null => {
+  const time = timestamp ? new Date(timestamp).getTime() : NaN;
+  if (isNaN(time)) return null;
+
+  let live: QuestionRevision | null = null;
+  revisions.forEach(revision => {
+    const changedAt = new Date(revision.changed_at).getTime();
+    if (!isNaN(changedAt) && changedAt <= time && (!live || changedAt >= new Date(live.changed_at).getTime())) {
+      live = revision;
+    }
+  });
+  return live;
+};
+
+/**
+ * Whether the question was changed after the given time
+ */
+export const isEditedSince = (revisions: QuestionRevision[], timestamp?: string | null): boolean => {
+  const time = timestamp ? new Date(timestamp).getTime() : NaN;
+  return !isNaN(time) && revisions.some(revision => new Date(revision.changed_at).getTime() > time);
+};
+
+/**
+ * An attempted question with the wording, options, explanation and answer
+ * key replaced by those of the given snapshot. Options keep the IDs of the
+ * attempt where their position matches, so recorded selections still line up.
+ */
+export const applySnapshotToAttemptQuestion = <T extends Record<string, any>>(question: T, snapshot: QuestionSnapshot): T => {
+  const attemptOptions: any[] = Array.isArray(question.options)
+    ? [...question.options].sort((a, b) => (a.option_order ?? 0) - (b.option_order ?? 0))
+    : [];
+  const options = snapshot.options
+    ? sortedOptions(snapshot).map((option, index) => ({
+        option_id: attemptOptions[index]?.option_id ?? option.option_id ?? index,
+        option_text: option.option_text,
+        option_order: option.option_order ?? index,
+      }))
+    : question.options;
+
+  return {
+    ...question,
+    question_text: snapshot.question_text || question.question_text,
+    question_type: snapshot.question_type ?? question.question_type,
+    options,
+    explanation: snapshot.explanation ?? question.explanation,
+    correct_option_index: snapshot.correct_option_index ?? question.correct_option_index,
+    correct_option_indices: snapshot.correct_option_indices ?? question.correct_option_indices,
+    numeric_answer: snapshot.numeric_answer ?? question.numeric_answer,
+    numeric_tolerance: snapshot.numeric_tolerance ?? question.numeric_tolerance,
+    accepted_answers: snapshot.accepted_answers ?? question.accepted_answers,
+    case_sensitive: snapshot.case_sensitive ?? question.case_sensitive,
+  };
+};
+
+/**
+ * Update request that brings a question back to the state of a revision
+ */
+export const buildRestorePayload = (question: BulkQuestion, snapshot: QuestionSnapshot): Record<string, any> =>
+  buildUpdatePayload({ ...question, ...snapshot, question_id: question.question_id } as BulkQuestion, {});
+
+// Revision requests sent at once when resolving the questions of an attempt
+const REVISION_FETCH_BATCH = 8;
+
+/**
+ * Questions of an attempt as they were when it was taken. A snapshot sent
+ * with the attempt is used as is; otherwise the revision live at the start
+ * time is applied to questions edited since, which are flagged with
+ * edited_since_attempt. Questions whose history cannot be loaded are left as
+ * they are.
+ */
+export const resolveAttemptQuestions = async <T extends Record<string, any>>(
+  questions: T[],
+  startTime?: string | null
+): Promise<Array<T & { edited_since_attempt?: boolean }>> => {
+  const needHistory = Array.from(new Set(
+    questions
+      .filter(q => !q.question_snapshot && typeof q.question_id === 'number')
+      .map(q => q.question_id as number)
+  ));
+
+  const revisionsById: Record<number, QuestionRevision[]> = {};
+  if (startTime && needHistory.length > 0) {
+    for (let start = 0; start < needHistory.length; start += REVISION_FETCH_BATCH) {
+      await Promise.all(needHistory.slice(start, start + REVISION_FETCH_BATCH).map(async questionId => {
+        try {
+          const response = await questionsAPI.getQuestionRevisions(questionId);
+          revisionsById[questionId] = normalizeRevisions(response.data);
+        } catch (err) {
+          console.warn(`[QuestionRevisions] Could not load revisions of question ${questionId}:`, err);
+        }
+      }));
+    }
+  }
+
+  return questions.map(question => {
+    if (question.question_snapshot && typeof question.question_snapshot === 'object') {
+      return applySnapshotToAttemptQuestion(question, question.question_snapshot);
+    }
+    const revisions = revisionsById[question.question_id];
+    if (!revisions || !isEditedSince(revisions, startTime)) return question;
+    const live = resolveRevisionAt(revisions, startTime);
+    return live
+      ? { ...applySnapshotToAttemptQuestion(question, live.snapshot), edited_since_attempt: true }
+      : question;
+  });
+};
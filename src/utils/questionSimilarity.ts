@@ -0,0 +1,300 @@
+/**
+ * Question Similarity
+ *
+ * Detects duplicate and near-duplicate questions. Questions are compared on
+ * normalized text (markup, punctuation and case removed), on word shingles so
+ * that small rewordings still match, and on the set of option texts so that
+ * shuffled options do not hide a duplicate. Candidates are found through
+ * shared words, leaving out stop-words and words most of the bank uses so
+ * that large banks are not compared pair by pair.
+ */
+import { richContentToPlainText } from './richContent';
+
+export interface ComparableQuestion {
+  question_id?: number;
+  question_text: string;
+  options?: Array<{ option_text: string }>;
+}
+
+export interface SimilarityScore {
+  score: number;              // 0-1, combined
+  textScore: number;          // 0-1
+  optionScore: number | null; // 0-1, null when either question has no options
+}
+
+export interface SimilarMatch<T extends ComparableQuestion> {
+  question: T;
+  similarity: SimilarityScore;
+}
+
+export interface DuplicateGroup<T extends ComparableQuestion> {
+  questions: T[];
+  maxScore: number;
+}
+
+export interface SimilarityIndex<T extends ComparableQuestion> {
+  findSimilar: (
+    target: ComparableQuestion,
+    options?: { threshold?: number; excludeId?: number; limit?: number }
+  ) => SimilarMatch<T>[];
+}
+
+// Scores at or above this are reported as possible duplicates
+export const DUPLICATE_THRESHOLD = 0.75;
+
+const TEXT_WEIGHT = 0.7;
+const SHINGLE_SIZE = 2;
+
+// Words too frequent to say anything about whether two questions match
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'each', 'following',
+  'for', 'from', 'given', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or',
+  'that', 'the', 'their', 'these', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with',
+]);
+// Banks of at least this size also leave out words found in more than
+// COMMON_TOKEN_SHARE of their questions
+const MIN_BANK_FOR_COMMON_TOKENS = 20;
+const COMMON_TOKEN_SHARE = 0.2;
+
+interface Fingerprint {
+  text: string;
+  tokens: Set<string>;
+  keyTokens: Set<string>; // tokens without stop-words, or all tokens when every one is a stop-word
+  shingles: Set<string>;
+  options: Set<string>;
+}
+
+/**
+ * Normalize text for comparison: plain text, lower case, no punctuation and
+ * single spaces
+ */
+export const normalizeForComparison = (text?: string | null): string =>
+  richContentToPlainText(text)
+    .toLowerCase()
+    .replace(/[.,;:!?'"()[\]{}<>\-_/\\|*~`^=+#@&%$]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const shinglesOf = (tokens: string[]): Set<string> => {
+  if (tokens.length <= SHINGLE_SIZE) return new Set([tokens.join(' ')]);
+  const shingles = new Set<string>();
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+};
+
+const fingerprintOf = (question: ComparableQuestion): Fingerprint => {
+  const text = normalizeForComparison(question.question_text);
+  const tokens = text ? text.split(' ') : [];
+  const keyTokens = tokens.filter(token => !STOP_WORDS.has(token));
+  return {
+    text,
+    tokens: new Set(tokens),
+    keyTokens: new Set(keyTokens.length > 0 ? keyTokens : tokens),
+    shingles: shinglesOf(tokens),
+    options: new Set(
+      (question.options || []).map(option => normalizeForComparison(option.option_text)).filter(Boolean)
+    ),
+  };
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const compareFingerprints = (a: Fingerprint, b: Fingerprint): SimilarityScore => {
+  // Word sets catch reordering, shingles keep word order in play
+  const textScore = a.text === b.text
+    ? 1
+    : (jaccard(a.tokens, b.tokens) + jaccard(a.shingles, b.shingles)) / 2;
+  const optionScore = a.options.size > 0 && b.options.size > 0 ? jaccard(a.options, b.options) : null;
+  const score = optionScore === null ? textScore : TEXT_WEIGHT * textScore + (1 - TEXT_WEIGHT) * optionScore;
+  return { score, textScore, optionScore };
+};
+
+/**
+ * Similarity of two questions
+ */
+export const compareQuestions = (a: ComparableQuestion, b: ComparableQuestion): SimilarityScore =>
+  compareFingerprints(fingerprintOf(a), fingerprintOf(b));
+
+/**
+ * Index a question bank for repeated similarity lookups. Only questions that
+ * share at least half of their indexed words with the target are scored.
+ */
+export const buildSimilarityIndex = <T extends ComparableQuestion>(questions: T[]): SimilarityIndex<T> => {
+  const fingerprints = questions.map(fingerprintOf);
+
+  const questionCounts = new Map<string, number>();
+  fingerprints.forEach(fingerprint => {
+    fingerprint.keyTokens.forEach(token => questionCounts.set(token, (questionCounts.get(token) || 0) + 1));
+  });
+  const isCommon = (token: string): boolean =>
+    questions.length >= MIN_BANK_FOR_COMMON_TOKENS &&
+    (questionCounts.get(token) || 0) > questions.length * COMMON_TOKEN_SHARE;
+  // A question made only of common words is still indexed under all of them
+  const indexedTokensOf = (fingerprint: Fingerprint): Set<string> => {
+    const rare = Array.from(fingerprint.keyTokens).filter(token => !isCommon(token));
+    return rare.length > 0 ? new Set(rare) : fingerprint.keyTokens;
+  };
+
+  const indexedTokens = fingerprints.map(indexedTokensOf);
+  const byToken = new Map<string, number[]>();
+  indexedTokens.forEach((tokens, index) => {
+    tokens.forEach(token => {
+      const entries = byToken.get(token);
+      if (entries) {
+        entries.push(index);
+      } else {
+        byToken.set(token, [index]);
+      }
+    });
+  });
+
+  const findSimilar: SimilarityIndex<T>['findSimilar'] = (target, options = {}) => {
+    const { threshold = DUPLICATE_THRESHOLD, excludeId, limit = 5 } = options;
+    const fingerprint = fingerprintOf(target);
+    if (!fingerprint.text) return [];
+
+    const targetTokens = indexedTokensOf(fingerprint);
+    const sharedTokens = new Map<number, number>();
+    targetTokens.forEach(token => {
+      (byToken.get(token) || []).forEach(index => sharedTokens.set(index, (sharedTokens.get(index) || 0) + 1));
+    });
+
+    const matches: SimilarMatch<T>[] = [];
+    sharedTokens.forEach((shared, index) => {
+      const question = questions[index];
+      if (excludeId !== undefined && question.question_id === excludeId) return;
+      if (shared * 2 < Math.min(targetTokens.size, indexedTokens[index].size)) return;
+
+      const similarity = compareFingerprints(fingerprint, fingerprints[index]);
+      if (similarity.score >= threshold) {
+        matches.push({ question, similarity });
+      }
+    });
+
+    return matches.sort((a, b) => b.similarity.score - a.similarity.score).slice(0, limit);
+  };
+
+  return { findSimilar };
+};
+
+/**
+ * Group the bank into clusters of questions that are duplicates of one
+ * another, most similar groups first
+ */
+export const findDuplicateGroups = <T extends ComparableQuestion>(
+  questions: T[],
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateGroup<T>[] => {
+  const index = buildSimilarityIndex(questions);
+  const positionOf = new Map<T, number>(questions.map((question, position) => [question, position]));
+
+  // Union-find over every pair above the threshold
+  const parent = questions.map((_, position) => position);
+  const root = (position: number): number => {
+    while (parent[position] !== position) {
+      parent[position] = parent[parent[position]];
+      position = parent[position];
+    }
+    return position;
+  };
+  const maxScoreByRoot = new Map<number, number>();
+  const pairScores: Array<[number, number, number]> = [];
+
+  questions.forEach((question, position) => {
+    index.findSimilar(question, { threshold, limit: questions.length }).forEach(match => {
+      const other = positionOf.get(match.question)!;
+      if (other <= position) return; // Each pair once, and never a question with itself
+      pairScores.push([position, other, match.similarity.score]);
+      parent[root(other)] = root(position);
+    });
+  });
+
+  pairScores.forEach(([position, , score]) => {
+    const groupRoot = root(position);
+    maxScoreByRoot.set(groupRoot, Math.max(maxScoreByRoot.get(groupRoot) || 0, score));
+  });
+
+  const groups = new Map<number, T[]>();
+  questions.forEach((question, position) => {
+    const groupRoot = root(position);
+    if (!maxScoreByRoot.has(groupRoot)) return;
+    groups.set(groupRoot, [...(groups.get(groupRoot) || []), question]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([groupRoot, members]) => ({ questions: members, maxScore: maxScoreByRoot.get(groupRoot)! }))
+    .sort((a, b) => b.maxScore - a.maxScore);
+};
+
+export type DiffSegmentType = 'same' | 'removed' | 'added';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many word pairs the diff is skipped and texts are shown whole
+const MAX_DIFF_CELLS = 250000;
+
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] =>
+  segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += ` ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+
+/**
+ * Word-level diff of two texts for side-by-side display: the left side has
+ * the removed words, the right side the added ones
+ */
+export const diffWords = (leftText: string, rightText: string): { left: DiffSegment[]; right: DiffSegment[] } => {
+  const a = leftText.split(/\s+/).filter(Boolean);
+  const b = rightText.split(/\s+/).filter(Boolean);
+  const key = (word: string) => normalizeForComparison(word) || word;
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return {
+      left: a.length ? [{ type: 'removed', text: a.join(' ') }] : [],
+      right: b.length ? [{ type: 'added', text: b.join(' ') }] : [],
+    };
+  }
+
+  // Longest common subsequence of words, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && key(a[i]) === key(b[j])) {
+      left.push({ type: 'same', text: a[i++] });
+      right.push({ type: 'same', text: b[j++] });
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      right.push({ type: 'added', text: b[j++] });
+    } else {
+      left.push({ type: 'removed', text: a[i++] });
+    }
+  }
+
+  return { left: mergeSegments(left), right: mergeSegments(right) };
+};
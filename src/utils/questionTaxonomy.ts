@@ -0,0 +1,121 @@
+/**
+ * Question Taxonomy
+ *
+ * Free-form tags and the curated learning-objective taxonomy (Bloom's levels
+ * and syllabus-coded objectives) used to classify questions beyond their
+ * paper, section and difficulty.
+ */
+import { BloomLevel, LearningObjective, QuestionTag } from '../types';
+
+export const BLOOM_LEVELS: Array<{ level: BloomLevel; description: string }> = [
+  { level: 'Remember', description: 'Recall facts and basic concepts' },
+  { level: 'Understand', description: 'Explain ideas or concepts' },
+  { level: 'Apply', description: 'Use information in new situations' },
+  { level: 'Analyze', description: 'Draw connections among ideas' },
+  { level: 'Evaluate', description: 'Justify a stand or decision' },
+  { level: 'Create', description: 'Produce new or original work' },
+];
+
+export const MAX_TAG_LENGTH = 50;
+
+const SYLLABUS_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Canonical form of a tag: trimmed, lower case, single spaces, at most
+ * MAX_TAG_LENGTH characters
+ */
+export const normalizeTag = (raw: string): string =>
+  raw.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+
+/**
+ * Tags from a list or from comma or semicolon separated text, normalized and
+ * without duplicates
+ */
+export const parseTagList = (value?: string | string[] | null): string[] => {
+  const parts = Array.isArray(value) ? value : (value || '').split(/[,;]/);
+  const tags: string[] = [];
+  parts.forEach(part => {
+    const tag = normalizeTag(String(part));
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  });
+  return tags;
+};
+
+/**
+ * Whether the value is one of the Bloom's levels
+ */
+export const isBloomLevel = (value?: string | null): value is BloomLevel =>
+  BLOOM_LEVELS.some(entry => entry.level === value);
+
+/**
+ * Tags from an API response, sorted by name. Plain strings are accepted for
+ * endpoints that return only names.
+ */
+export const normalizeTagsResponse = (data: any): QuestionTag[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || data?.tags || [];
+  return items
+    .map((item, index): QuestionTag | null => {
+      if (typeof item === 'string') return { tag_id: index + 1, name: normalizeTag(item) };
+      if (!item || typeof item !== 'object' || !item.name) return null;
+      return {
+        tag_id: Number(item.tag_id ?? item.id ?? index + 1),
+        name: normalizeTag(item.name),
+        question_count: item.question_count ?? item.usage_count,
+      };
+    })
+    .filter((tag): tag is QuestionTag => tag !== null && tag.name !== '')
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Learning objectives from an API response, sorted by syllabus code
+ */
+export const normalizeObjectivesResponse = (data: any): LearningObjective[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || [];
+  return items
+    .filter(item => item && typeof item === 'object' && item.code)
+    .map(item => ({
+      objective_id: Number(item.objective_id ?? item.id),
+      code: String(item.code),
+      name: item.name || '',
+      description: item.description ?? null,
+      paper_id: item.paper_id ?? null,
+    }))
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+};
+
+/**
+ * Objectives that apply to a paper: its own and those shared by every paper
+ */
+export const objectivesForPaper = (objectives: LearningObjective[], paperId?: number | null): LearningObjective[] =>
+  objectives.filter(objective => objective.paper_id == null || objective.paper_id === paperId);
+
+export const formatObjective = (objective: LearningObjective): string =>
+  objective.name ? `${objective.code} – ${objective.name}` : objective.code;
+
+/**
+ * Validation error of a learning objective being created or edited, or null.
+ * Syllabus codes are unique regardless of case.
+ */
+export const validateObjective = (
+  objective: { code: string; name: string },
+  existing: LearningObjective[],
+  editingId?: number | null
+): string | null => {
+  const code = objective.code.trim();
+  if (!code) return 'Syllabus code is required';
+  if (!SYLLABUS_CODE_PATTERN.test(code)) {
+    return 'Syllabus code may only contain letters, digits, dots, dashes and underscores';
+  }
+  if (!objective.name.trim()) return 'Name is required';
+  const duplicate = existing.find(
+    other => other.objective_id !== editingId && other.code.toLowerCase() === code.toLowerCase()
+  );
+  return duplicate ? `Syllabus code ${duplicate.code} is already used` : null;
+};
+
+/**
+ * Readable summary of a tag-based selection, e.g. "Tagged thermodynamics or optics"
+ */
+export const describeTagSelection = (tags: string[]): string =>
+  tags.length === 0 ? 'Any tag' : `Tagged ${tags.join(' or ')}`;
@@ -0,0 +1,313 @@
+/**
+ * Question Types
+ *
+ * Helpers for the supported question types: single choice (MCQ), multi-select,
+ * true/false, numeric answer with a tolerance and fill-in-the-blank. During an
+ * attempt every answer is kept as a string (like a single-choice option index),
+ * so the encoding of each type lives here next to its matching rules.
+ */
+import { QuestionType } from '../types';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  MCQ: 'Multiple Choice (single answer)',
+  MultiSelect: 'Multiple Select (all that apply)',
+  'True/False': 'True/False',
+  Numeric: 'Numeric Answer',
+  FillInBlank: 'Fill in the Blank',
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const TRUE_FALSE_OPTIONS = [
+  { option_text: 'True', option_order: 0 },
+  { option_text: 'False', option_order: 1 },
+];
+
+// Spellings used by the API, CSV uploads and older questions
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  mcq: 'MCQ',
+  singlechoice: 'MCQ',
+  multiselect: 'MultiSelect',
+  multipleselect: 'MultiSelect',
+  msq: 'MultiSelect',
+  'true/false': 'True/False',
+  truefalse: 'True/False',
+  boolean: 'True/False',
+  numeric: 'Numeric',
+  numerical: 'Numeric',
+  fillinblank: 'FillInBlank',
+  fillintheblank: 'FillInBlank',
+  fib: 'FillInBlank',
+};
+
+const typeAliasKey = (raw: string): string => String(raw).toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * Map any known spelling of a question type to its canonical value; unknown
+ * or missing types are treated as single-choice questions
+ */
+export const normalizeQuestionType = (raw?: string | null): QuestionType => {
+  if (!raw) return 'MCQ';
+  return TYPE_ALIASES[typeAliasKey(raw)] || 'MCQ';
+};
+
+/**
+ * Whether the value is a known spelling of a question type
+ */
+export const isKnownQuestionType = (raw: string): boolean => !!TYPE_ALIASES[typeAliasKey(raw)];
+
+/**
+ * Whether questions of this type are answered by choosing options
+ */
+export const usesOptions = (type: QuestionType): boolean =>
+  type === 'MCQ' || type === 'MultiSelect' || type === 'True/False';
+
+// Multi-select answers are stored as sorted, comma-separated option indices
+export const encodeOptionIndices = (indices: number[]): string =>
+  Array.from(new Set(indices)).sort((a, b) => a - b).join(',');
+
+export const decodeOptionIndices = (stored?: string | null): number[] =>
+  stored
+    ? stored.split(',').map(value => parseInt(value, 10)).filter(index => !isNaN(index))
+    : [];
+
+/**
+ * Add or remove an option from a stored multi-select answer
+ */
+export const toggleOptionIndex = (stored: string | undefined, index: number): string => {
+  const indices = decodeOptionIndices(stored);
+  return encodeOptionIndices(
+    indices.includes(index) ? indices.filter(i => i !== index) : [...indices, index]
+  );
+};
+
+export interface AnswerFields {
+  selected_option_index?: number;
+  selected_option_indices?: number[];
+  answer_text?: string;
+}
+
+/**
+ * Answer fields sent to the server for an answer stored during the attempt.
+ * Empty multi-select and text answers are sent too, so deselecting every
+ * option or erasing the text also clears the answer on the server.
+ */
+export const buildAnswerFields = (type: QuestionType, stored?: string): AnswerFields => {
+  switch (type) {
+    case 'MultiSelect':
+      return { selected_option_indices: decodeOptionIndices(stored) };
+    case 'Numeric':
+    case 'FillInBlank':
+      return { answer_text: stored ?? '' };
+    default: {
+      const index = stored ? parseInt(stored, 10) : NaN;
+      return isNaN(index) ? {} : { selected_option_index: index };
+    }
+  }
+};
+
+/**
+ * Parse a numeric response, or null if it is not a number
+ */
+export const parseNumericAnswer = (text?: string | number | null): number | null => {
+  if (text === undefined || text === null) return null;
+  const trimmed = String(text).trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  return isFinite(value) ? value : null;
+};
+
+export const isNumericAnswerCorrect = (
+  response: string | number,
+  answer: number,
+  tolerance: number = 0
+): boolean => {
+  const value = parseNumericAnswer(response);
+  // Small epsilon so e.g. 0.1 + 0.2 is within a tolerance of 0.3
+  return value !== null && Math.abs(value - answer) <= Math.abs(tolerance) + 1e-9;
+};
+
+const normalizeText = (text: string, caseSensitive: boolean): string => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+export const isTextAnswerCorrect = (
+  response: string,
+  acceptedAnswers: string[],
+  caseSensitive: boolean = false
+): boolean => {
+  const normalized = normalizeText(response, caseSensitive);
+  return normalized !== '' &&
+    acceptedAnswers.some(accepted => normalizeText(accepted, caseSensitive) === normalized);
+};
+
+// Answer key of a question as returned by the API
+export interface AnswerKey {
+  question_type?: string | null;
+  correct_option_index?: number | string | null;
+  correct_option_indices?: Array<number | string> | null;
+  numeric_answer?: number | string | null;
+  numeric_tolerance?: number | string | null;
+  accepted_answers?: string[] | null;
+  case_sensitive?: boolean;
+}
+
+export interface QuestionResponse {
+  selected_option_index?: number | string | null;
+  selected_option_indices?: Array<number | string> | null;
+  answer_text?: string | null;
+}
+
+const toIndexSet = (values?: Array<number | string> | null): Set<number> =>
+  new Set((values || []).map(value => Number(value)).filter(index => !isNaN(index)));
+
+/**
+ * Whether the candidate gave any answer to a question of this type
+ */
+export const hasResponse = (type: QuestionType, response: QuestionResponse): boolean => {
+  switch (type) {
+    case 'MultiSelect':
+      return toIndexSet(response.selected_option_indices).size > 0;
+    case 'Numeric':
+    case 'FillInBlank':
+      return !!response.answer_text && response.answer_text.trim() !== '';
+    default:
+      return response.selected_option_index !== undefined &&
+        response.selected_option_index !== null &&
+        response.selected_option_index !== '';
+  }
+};
+
+/**
+ * Check a response against the answer key. Multi-select questions are only
+ * correct when exactly the correct options are chosen.
+ */
+export const evaluateResponse = (key: AnswerKey, response: QuestionResponse): boolean => {
+  const type = normalizeQuestionType(key.question_type);
+  if (!hasResponse(type, response)) return false;
+
+  switch (type) {
+    case 'MultiSelect': {
+      const selected = toIndexSet(response.selected_option_indices);
+      const correct = toIndexSet(key.correct_option_indices);
+      return selected.size === correct.size && Array.from(selected).every(index => correct.has(index));
+    }
+    case 'Numeric': {
+      const answer = parseNumericAnswer(key.numeric_answer);
+      return answer !== null &&
+        isNumericAnswerCorrect(response.answer_text || '', answer, parseNumericAnswer(key.numeric_tolerance) ?? 0);
+    }
+    case 'FillInBlank':
+      return isTextAnswerCorrect(response.answer_text || '', key.accepted_answers || [], !!key.case_sensitive);
+    default:
+      return Number(response.selected_option_index) === Number(key.correct_option_index);
+  }
+};
+
+/**
+ * Readable correct answer of a numeric or fill-in-the-blank question
+ */
+export const formatExpectedAnswer = (key: AnswerKey): string => {
+  const type = normalizeQuestionType(key.question_type);
+  if (type === 'Numeric') {
+    const answer = parseNumericAnswer(key.numeric_answer);
+    const tolerance = parseNumericAnswer(key.numeric_tolerance);
+    if (answer === null) return 'Not available';
+    return tolerance ? `${answer} (±${tolerance})` : String(answer);
+  }
+  if (type === 'FillInBlank') {
+    return key.accepted_answers && key.accepted_answers.length > 0
+      ? key.accepted_answers.join(' / ')
+      : 'Not available';
+  }
+  return '';
+};
+
+// Answer key fields as edited in the question form
+export interface AnswerKeyForm {
+  question_type: QuestionType;
+  options: Array<{ option_text: string; option_order: number }>;
+  correct_option_index: number;
+  correct_option_indices: number[];
+  numeric_answer: string;
+  numeric_tolerance: string;
+  accepted_answers: string[];
+  case_sensitive: boolean;
+}
+
+/**
+ * Validate the answer key of the question form, returning an error message
+ */
+export const validateAnswerKey = (form: AnswerKeyForm): string | null => {
+  const type = form.question_type;
+
+  if (usesOptions(type)) {
+    if (form.options.length < 2) {
+      return 'At least two options are required';
+    }
+    if (form.options.some(opt => !opt.option_text || opt.option_text.trim() === '')) {
+      return 'All options must have text';
+    }
+  }
+
+  if (type === 'MultiSelect') {
+    if (form.correct_option_indices.length === 0) {
+      return 'Select at least one correct option';
+    }
+    if (form.correct_option_indices.some(index => index < 0 || index >= form.options.length)) {
+      return 'Correct options must be among the listed options';
+    }
+  }
+
+  if (type === 'Numeric') {
+    if (parseNumericAnswer(form.numeric_answer) === null) {
+      return 'The correct answer must be a number';
+    }
+    const tolerance = parseNumericAnswer(form.numeric_tolerance);
+    if (form.numeric_tolerance.trim() !== '' && (tolerance === null || tolerance < 0)) {
+      return 'Tolerance must be zero or a positive number';
+    }
+  }
+
+  if (type === 'FillInBlank' && !form.accepted_answers.some(answer => answer.trim() !== '')) {
+    return 'Add at least one accepted answer';
+  }
+
+  return null;
+};
+
+/**
+ * Answer key fields for the create/update question request; fields that do
+ * not apply to the question type are left out
+ */
+export const buildAnswerKeyPayload = (form: AnswerKeyForm) => {
+  switch (form.question_type) {
+    case 'MultiSelect': {
+      const indices = Array.from(new Set(form.correct_option_indices)).sort((a, b) => a - b);
+      return {
+        options: form.options,
+        // Kept for consumers that only understand single-choice questions
+        correct_option_index: indices[0] ?? 0,
+        correct_option_indices: indices,
+      };
+    }
+    case 'Numeric':
+      return {
+        options: [],
+        numeric_answer: parseNumericAnswer(form.numeric_answer),
+        numeric_tolerance: parseNumericAnswer(form.numeric_tolerance) ?? 0,
+      };
+    case 'FillInBlank':
+      return {
+        options: [],
+        accepted_answers: form.accepted_answers.map(answer => answer.trim()).filter(answer => answer !== ''),
+        case_sensitive: form.case_sensitive,
+      };
+    default:
+      return {
+        options: form.options,
+        correct_option_index: form.correct_option_index,
+      };
+  }
+};
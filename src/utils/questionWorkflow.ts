@@ -0,0 +1,173 @@
+/**
+ * Question Workflow
+ *
+ * Authoring states of a question (draft → in review → approved → published →
+ * retired), the transitions allowed from each state and who may make them,
+ * and the rules deciding whether a question can be served in tests. A
+ * published question past its valid_until date counts as retired.
+ */
+import { QuestionReviewComment, QuestionStatus } from '../types';
+
+export const QUESTION_STATUSES: QuestionStatus[] = ['draft', 'in_review', 'approved', 'published', 'retired'];
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+  retired: 'Retired',
+};
+
+export const QUESTION_STATUS_COLORS: Record<QuestionStatus, 'default' | 'info' | 'primary' | 'success' | 'warning'> = {
+  draft: 'default',
+  in_review: 'info',
+  approved: 'primary',
+  published: 'success',
+  retired: 'warning',
+};
+
+export type WorkflowAction = 'submit' | 'approve' | 'request_changes' | 'publish' | 'retire' | 'revise';
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  label: string;
+  to: QuestionStatus;
+  reviewerOnly?: boolean;    // Not allowed to the user who submitted the question
+  requiresComment?: boolean;
+  disabledReason?: string;
+}
+
+// Fields of a question used by the workflow rules
+export interface WorkflowQuestion {
+  status?: string | null;
+  valid_until?: string | null;
+  is_active?: boolean;
+  active?: boolean;
+  submitted_by_id?: number | null;
+  reviewer_id?: number | null;
+}
+
+const TRANSITIONS: Record<QuestionStatus, WorkflowTransition[]> = {
+  draft: [
+    { action: 'submit', label: 'Submit for review', to: 'in_review' },
+  ],
+  in_review: [
+    { action: 'approve', label: 'Approve', to: 'approved', reviewerOnly: true },
+    { action: 'request_changes', label: 'Request changes', to: 'draft', reviewerOnly: true, requiresComment: true },
+  ],
+  approved: [
+    { action: 'publish', label: 'Publish', to: 'published' },
+    { action: 'revise', label: 'Back to draft', to: 'draft' },
+  ],
+  published: [
+    { action: 'retire', label: 'Retire', to: 'retired' },
+  ],
+  retired: [
+    { action: 'revise', label: 'Back to draft', to: 'draft' },
+  ],
+};
+
+const STATUS_ALIASES: Record<string, QuestionStatus> = {
+  draft: 'draft',
+  in_review: 'in_review',
+  inreview: 'in_review',
+  review: 'in_review',
+  pending_review: 'in_review',
+  approved: 'approved',
+  published: 'published',
+  live: 'published',
+  retired: 'retired',
+  archived: 'retired',
+};
+
+/**
+ * Status of a question as stored. Questions created before the workflow
+ * existed have no status and are already live, so they count as published.
+ */
+export const normalizeQuestionStatus = (raw?: string | null): QuestionStatus => {
+  if (!raw) return 'published';
+  return STATUS_ALIASES[raw.trim().toLowerCase().replace(/[\s-]+/g, '_')] || 'draft';
+};
+
+const today = (now: Date) => now.toISOString().slice(0, 10);
+
+// Kept free of API imports, since the API client itself uses these rules
+const dateOnly = (value?: string | null) => (value ? /^\d{4}-\d{2}-\d{2}/.exec(value)?.[0] ?? null : null);
+
+/**
+ * Whether the question's valid_until date has passed
+ */
+export const isPastValidUntil = (question: WorkflowQuestion, now: Date = new Date()): boolean => {
+  const validUntil = dateOnly(question.valid_until);
+  return !!validUntil && validUntil < today(now);
+};
+
+/**
+ * Status the question is in today: valid_until is the automatic retirement
+ * date of a published question
+ */
+export const effectiveQuestionStatus = (question: WorkflowQuestion, now: Date = new Date()): QuestionStatus => {
+  const status = normalizeQuestionStatus(question.status);
+  return status === 'published' && isPastValidUntil(question, now) ? 'retired' : status;
+};
+
+/**
+ * Whether the question may be served in tests and counted as available
+ */
+export const isServable = (question: WorkflowQuestion, now: Date = new Date()): boolean =>
+  question.is_active !== false && question.active !== false && effectiveQuestionStatus(question, now) === 'published';
+
+/**
+ * Transitions the user can make from the question's current status. Review
+ * decisions are left to someone other than the submitter, and an expired
+ * question cannot be published before its validity is extended.
+ */
+export const availableTransitions = (
+  question: WorkflowQuestion,
+  userId?: number | null,
+  now: Date = new Date()
+): WorkflowTransition[] =>
+  TRANSITIONS[effectiveQuestionStatus(question, now)]
+    .filter(transition => !transition.reviewerOnly || userId == null || question.submitted_by_id !== userId)
+    .map(transition =>
+      transition.action === 'publish' && isPastValidUntil(question, now)
+        ? { ...transition, disabledReason: 'Valid until date has passed; extend it before publishing' }
+        : transition
+    );
+
+/**
+ * Whether the question is waiting for a review by the given user: it is in
+ * review, was submitted by someone else, and is assigned to the user or to
+ * no one yet
+ */
+export const isAwaitingReviewBy = (question: WorkflowQuestion, userId: number): boolean =>
+  effectiveQuestionStatus(question) === 'in_review' &&
+  question.submitted_by_id !== userId &&
+  (question.reviewer_id == null || question.reviewer_id === userId);
+
+/**
+ * Reviewer comments from an API response, oldest first
+ */
+export const normalizeReviewComments = (data: any): QuestionReviewComment[] => {
+  const items: any[] = Array.isArray(data) ? data : data?.items || data?.comments || [];
+  return items
+    .filter(item => item && typeof item === 'object')
+    .map((item, index) => {
+      const author = item.author && typeof item.author === 'object' ? item.author : null;
+      const authorName = author
+        ? [author.first_name, author.last_name].filter(Boolean).join(' ') || author.email
+        : item.author_name || item.author;
+      return {
+        comment_id: Number(item.comment_id ?? item.id ?? index + 1),
+        question_id: Number(item.question_id),
+        author_name: authorName || 'Unknown',
+        author_id: item.author_id ?? author?.user_id,
+        comment: item.comment || item.text || '',
+        status_change: item.from_status && item.to_status
+          ? { from: normalizeQuestionStatus(item.from_status), to: normalizeQuestionStatus(item.to_status) }
+          : item.status_change || null,
+        created_at: item.created_at || '',
+      };
+    })
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
@@ -0,0 +1,124 @@
+/**
+ * Retry Practice
+ *
+ * Practice tests made of questions from a finished attempt: the ones
+ * answered wrongly or skipped, or the ones marked for review. The questions
+ * go into a practice template, one section per paper listing the exact
+ * question ids, and a test is started on it right away. The template is
+ * marked as a retry of the attempt, so template lists can hide it and
+ * retrying the same attempt again reuses it.
+ */
+import { testsAPI } from '../services/api';
+import { AttemptResult, AttemptResultQuestion, CreateTestTemplateRequest, TestTemplate } from '../types';
+import { scoredQuestions } from './attemptResults';
+
+export type RetryKind = 'incorrect' | 'marked';
+
+export const RETRY_LABELS: Record<RetryKind, string> = {
+  incorrect: 'Retry incorrect',
+  marked: 'Retry marked-for-review',
+};
+
+const RETRY_EMPTY_MESSAGES: Record<RetryKind, string> = {
+  incorrect: 'There are no incorrect or skipped questions to retry.',
+  marked: 'No questions were marked for review in this attempt.',
+};
+
+export const RETRY_MINUTES_PER_QUESTION = 2;
+const MIN_RETRY_MINUTES = 10;
+
+/**
+ * Questions of an attempt to retry; for adaptive attempts only the questions
+ * that were served count
+ */
+export const retryQuestions = (result: AttemptResult, kind: RetryKind): AttemptResultQuestion[] =>
+  scoredQuestions(result).filter(question =>
+    kind === 'incorrect' ? !question.is_correct : question.is_marked_for_review
+  );
+
+/**
+ * Name of the retry template of an attempt
+ */
+export const retryTemplateName = (attemptId: number, kind: RetryKind): string =>
+  `${RETRY_LABELS[kind]} - attempt ${attemptId}`;
+
+/**
+ * Practice template with exactly the given questions, grouped by paper.
+ * Questions of unknown paper cannot be placed in a template and are left out.
+ */
+export const buildRetryTemplate = (
+  attemptId: number,
+  questions: Array<Pick<AttemptResultQuestion, 'question_id' | 'paper_id'>>,
+  kind: RetryKind
+): CreateTestTemplateRequest => {
+  const idsByPaper: Record<string, number[]> = {};
+  const paperOrder: number[] = [];
+  questions.forEach(({ question_id: questionId, paper_id: paperId }) => {
+    if (paperId == null) return;
+    if (!idsByPaper[paperId]) {
+      idsByPaper[paperId] = [];
+      paperOrder.push(paperId);
+    }
+    if (idsByPaper[paperId].indexOf(questionId) === -1) idsByPaper[paperId].push(questionId);
+  });
+
+  return {
+    template_name: retryTemplateName(attemptId, kind),
+    test_type: 'Practice',
+    is_retry: true,
+    source_attempt_id: attemptId,
+    sections: paperOrder.map(paperId => ({
+      paper_id: paperId,
+      question_count: idsByPaper[paperId].length,
+      question_ids: idsByPaper[paperId],
+    })),
+  };
+};
+
+/**
+ * Time allowed for a retry, in minutes
+ */
+export const retryDuration = (questionCount: number): number =>
+  Math.max(MIN_RETRY_MINUTES, questionCount * RETRY_MINUTES_PER_QUESTION);
+
+/**
+ * Retry template made earlier for the same attempt and kind, if any. The
+ * attempt is finished, so its questions to retry have not changed since.
+ * A failed lookup only means a new template is made.
+ */
+const findRetryTemplate = async (template: CreateTestTemplateRequest): Promise<TestTemplate | null> => {
+  try {
+    const response = await testsAPI.getTemplates();
+    const data = response.data;
+    const templates: TestTemplate[] = Array.isArray(data) ? data : data?.templates || [];
+    return templates.find(existing =>
+      existing.is_retry === true &&
+      existing.is_active !== false &&
+      existing.source_attempt_id === template.source_attempt_id &&
+      existing.template_name === template.template_name
+    ) || null;
+  } catch (error) {
+    console.warn('[RetryPractice] Could not look up earlier retry templates:', error);
+    return null;
+  }
+};
+
+/**
+ * Start a test on the retry template of the attempt, creating the template
+ * the first time; resolves to the id of the new attempt
+ */
+export const startRetryPractice = async (
+  attemptId: number,
+  questions: Array<Pick<AttemptResultQuestion, 'question_id' | 'paper_id'>>,
+  kind: RetryKind
+): Promise<number> => {
+  const template = buildRetryTemplate(attemptId, questions, kind);
+  const questionCount = template.sections.reduce((total, section) => total + section.question_count, 0);
+  if (questions.length === 0) throw new Error(RETRY_EMPTY_MESSAGES[kind]);
+  if (questionCount === 0) throw new Error('The papers of these questions are unknown, so they cannot be retried.');
+
+  const existing = await findRetryTemplate(template);
+  const templateId = existing ? existing.template_id : (await testsAPI.createTemplate(template)).data.template_id;
+  const testResponse = await testsAPI.startTest(templateId, retryDuration(questionCount));
+  return testResponse.data.attempt_id;
+};
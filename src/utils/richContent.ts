@@ -0,0 +1,105 @@
+/**
+ * Rich Question Content
+ *
+ * Question text, options and explanations may use Markdown (code blocks,
+ * tables, lists, images) with LaTeX math between $...$ (inline) or $$...$$
+ * (display). Content is converted to HTML with marked and KaTeX and always
+ * sanitized with DOMPurify before it is rendered.
+ */
+import { marked } from 'marked';
+import katex from 'katex';
+import DOMPurify from 'dompurify';
+
+const renderMath = (tex: string, displayMode: boolean): string =>
+  katex.renderToString(tex, {
+    displayMode,
+    // Show invalid formulas as red source text instead of failing the whole question
+    throwOnError: false,
+    strict: 'ignore',
+    output: 'htmlAndMathml',
+  });
+
+// $$...$$ on its own lines
+const blockMath: marked.TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start(src) {
+    const index = src.indexOf('$$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^\$\$([\s\S]+?)\$\$(?:\n+|$)/.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    }
+  },
+  renderer(token) {
+    return `<div class="rich-math-block">${renderMath(token.text, true)}</div>`;
+  },
+};
+
+// $...$ within text; "$5 and $10" is not math since the content may not
+// start or end with a space and the closing $ may not be followed by a digit
+const inlineMath: marked.TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('$');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^\$\$([^$]+?)\$\$/.exec(src) || /^\$([^\s$](?:[^$\n]*?[^\s$])?)\$(?!\d)/.exec(src);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1].trim(), displayMode: match[0].startsWith('$$') };
+    }
+  },
+  renderer(token) {
+    return renderMath(token.text, !!token.displayMode);
+  },
+};
+
+marked.use({ gfm: true, breaks: true, extensions: [blockMath, inlineMath] });
+
+// Characters that can start Markdown, math or HTML; anything else is plain text
+const RICH_CONTENT_PATTERN = /[*_`#$|<>~]|!\[|\]\(|^\s*(?:[-+]|\d+\.)\s/m;
+
+/**
+ * Whether the content needs the rich renderer or can be shown as plain text
+ */
+export const hasRichFormatting = (source?: string | null): boolean =>
+  !!source && RICH_CONTENT_PATTERN.test(source);
+
+/**
+ * Render rich content to sanitized HTML. Inline rendering skips the wrapping
+ * paragraph, for option labels and other single-line content.
+ */
+export const renderRichContent = (source: string, options: { inline?: boolean } = {}): string => {
+  try {
+    const html = options.inline ? marked.parseInline(source) : marked.parse(source);
+    return DOMPurify.sanitize(html);
+  } catch (error) {
+    console.error('[RichContent] Error rendering content:', error);
+    return DOMPurify.sanitize(source);
+  }
+};
+
+/**
+ * Readable plain-text version of rich content, for table previews and as a
+ * fallback where HTML cannot be rendered. Math keeps its LaTeX source.
+ */
+export const richContentToPlainText = (source?: string | null): string => {
+  if (!source) return '';
+
+  return source
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+    .replace(/\$\$([\s\S]+?)\$\$/g, '$1')
+    .replace(/\$([^\s$](?:[^$\n]*?[^\s$])?)\$(?!\d)/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_match, alt: string) => `[Image${alt ? `: ${alt}` : ''}]`)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*\|?(?:\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
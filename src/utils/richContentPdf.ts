@@ -0,0 +1,95 @@
+/**
+ * Rich Content in PDF Exports
+ *
+ * jsPDF only draws plain text, so rich question content (math, tables, code
+ * blocks, images) is rendered offscreen from the same sanitized HTML used on
+ * screen and rasterized with html2canvas, to be placed in the PDF as an image.
+ */
+import html2canvas from 'html2canvas';
+import { hasRichFormatting, renderRichContent } from './richContent';
+
+export interface RasterizedContent {
+  dataUrl: string;
+  width: number;  // mm
+  height: number; // mm
+}
+
+const PX_PER_MM = 96 / 25.4;
+
+// Keep a single piece of content well within one A4 page
+const MAX_HEIGHT_MM = 200;
+
+// Minimal print styles; the on-screen styles live in the RichContent component
+const PDF_CONTENT_STYLES = `
+  .pdf-rich-content p { margin: 0 0 6px; }
+  .pdf-rich-content p:last-child { margin-bottom: 0; }
+  .pdf-rich-content img { max-width: 100%; height: auto; }
+  .pdf-rich-content table { border-collapse: collapse; margin: 4px 0; }
+  .pdf-rich-content th, .pdf-rich-content td { border: 1px solid #999; padding: 2px 6px; }
+  .pdf-rich-content pre { background: #f4f4f4; padding: 6px; margin: 4px 0; white-space: pre-wrap; }
+`;
+
+const waitForImages = (element: HTMLElement): Promise<void[]> =>
+  Promise.all(
+    Array.from(element.querySelectorAll('img')).map(img =>
+      img.complete
+        ? Promise.resolve()
+        : new Promise<void>(resolve => {
+            img.onload = () => resolve();
+            // A broken image should not block the export
+            img.onerror = () => resolve();
+          })
+    )
+  );
+
+/**
+ * Rasterize rich content at the given width, or null for plain text or when
+ * rendering fails (callers then fall back to plain text)
+ */
+export const rasterizeRichContent = async (
+  source: string | null | undefined,
+  widthMm: number,
+  fontSizePt: number = 9
+): Promise<RasterizedContent | null> => {
+  if (!source || !hasRichFormatting(source)) return null;
+
+  const container = document.createElement('div');
+  container.className = 'pdf-rich-content';
+  Object.assign(container.style, {
+    position: 'fixed',
+    left: '-10000px',
+    top: '0',
+    width: `${Math.round(widthMm * PX_PER_MM)}px`,
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    fontSize: `${fontSizePt}pt`,
+    lineHeight: '1.4',
+    color: '#000000',
+  });
+  container.innerHTML = `<style>${PDF_CONTENT_STYLES}</style>${renderRichContent(source)}`;
+  document.body.appendChild(container);
+
+  try {
+    await waitForImages(container);
+    const canvas = await html2canvas(container, {
+      scale: 2,
+      backgroundColor: null, // Transparent, so the cell fill shows through
+      useCORS: true,
+      logging: false,
+    });
+    if (canvas.width === 0 || canvas.height === 0) return null;
+
+    let width = widthMm;
+    let height = (canvas.height / canvas.width) * widthMm;
+    if (height > MAX_HEIGHT_MM) {
+      width = (width * MAX_HEIGHT_MM) / height;
+      height = MAX_HEIGHT_MM;
+    }
+
+    return { dataUrl: canvas.toDataURL('image/png'), width, height };
+  } catch (error) {
+    console.error('[RichContentPdf] Error rasterizing content:', error);
+    return null;
+  } finally {
+    container.remove();
+  }
+};
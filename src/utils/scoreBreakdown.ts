@@ -0,0 +1,166 @@
+/**
+ * Score Breakdown
+ *
+ * Splits the result of an attempt by paper, section and subsection so a
+ * candidate can see where marks were gained and lost. Groups follow the
+ * order of the test template's sections and are scored with the test's
+ * scoring scheme, like the overall score.
+ */
+import { AttemptResult, AttemptResultQuestion, TestTemplateSection } from '../types';
+import { formatTimeDisplay } from './adaptiveTestUtils';
+import { scoredQuestions } from './attemptResults';
+import { computeScoreSummary } from './scoring';
+
+export type BreakdownLevel = 'paper' | 'section' | 'subsection';
+
+export interface BreakdownRow {
+  key: string;
+  level: BreakdownLevel;
+  label: string;
+  total: number;
+  attempted: number;
+  correct: number;
+  wrong: number;
+  skipped: number;
+  accuracy: number;            // Correct share of the attempted questions, in percent
+  timeSeconds: number | null;  // Null when no question of the group has a recorded time
+  marksObtained: number;
+  maxMarks: number;
+}
+
+export const BREAKDOWN_COLUMNS = ['Section', 'Attempted', 'Correct', 'Wrong', 'Skipped', 'Accuracy', 'Time', 'Marks'];
+
+// Indentation of a row below its parent
+export const BREAKDOWN_DEPTH: Record<BreakdownLevel, number> = { paper: 0, section: 1, subsection: 2 };
+
+interface BreakdownGroup {
+  key: string;
+  level: BreakdownLevel;
+  label: string;
+  rank: number;
+  questions: AttemptResultQuestion[];
+  children: BreakdownGroup[];
+}
+
+const sameId = (a: number | string | null | undefined, b: number | string | null | undefined) =>
+  a != null && b != null && String(a) === String(b);
+
+// Position of the first template section the group belongs to, after them when none does
+const templateRank = (
+  sections: TestTemplateSection[],
+  matches: (section: TestTemplateSection) => boolean
+): number => {
+  const index = sections.findIndex(matches);
+  return index < 0 ? sections.length : index;
+};
+
+const labelFor = (level: BreakdownLevel, question: AttemptResultQuestion): string => {
+  if (level === 'paper') {
+    if (question.paper_id == null) return 'Other questions';
+    return question.paper_name || `Paper ${question.paper_id}`;
+  }
+  if (level === 'section') return question.section_name || `Section ${question.section_id}`;
+  return question.subsection_name || `Subsection ${question.subsection_id}`;
+};
+
+const addToGroup = (
+  groups: BreakdownGroup[],
+  key: string,
+  level: BreakdownLevel,
+  rank: number,
+  question: AttemptResultQuestion
+): BreakdownGroup => {
+  let group = groups.find(g => g.key === key);
+  if (!group) {
+    group = { key, level, label: labelFor(level, question), rank, questions: [], children: [] };
+    groups.push(group);
+  }
+  group.questions.push(question);
+  return group;
+};
+
+// Stable sort by template order; groups outside the template keep the order they were met in
+const byRank = (groups: BreakdownGroup[]): BreakdownGroup[] =>
+  groups
+    .map((group, index) => ({ group, index }))
+    .sort((a, b) => a.group.rank - b.group.rank || a.index - b.index)
+    .map(({ group }) => group);
+
+const toRow = (group: BreakdownGroup, result: AttemptResult): BreakdownRow => {
+  const summary = computeScoreSummary(group.questions, result.scoring_scheme);
+  const attempted = summary.correct + summary.wrong;
+  const times = group.questions
+    .map(q => q.time_taken_seconds)
+    .filter((seconds): seconds is number => seconds !== null);
+
+  return {
+    key: group.key,
+    level: group.level,
+    label: group.label,
+    total: summary.total,
+    attempted,
+    correct: summary.correct,
+    wrong: summary.wrong,
+    skipped: summary.unattempted,
+    accuracy: attempted > 0 ? Math.round((summary.correct / attempted) * 10000) / 100 : 0,
+    timeSeconds: times.length > 0 ? times.reduce((sum, seconds) => sum + seconds, 0) : null,
+    marksObtained: summary.marksObtained,
+    maxMarks: summary.maxMarks,
+  };
+};
+
+/**
+ * Rows of the breakdown, each paper followed by its sections and each
+ * section by its subsections. Questions without a section only count towards
+ * their paper; only the attempted questions of an adaptive test are counted.
+ */
+export const computeScoreBreakdown = (result: AttemptResult): BreakdownRow[] => {
+  const template = result.template_sections;
+  const papers: BreakdownGroup[] = [];
+
+  scoredQuestions(result).forEach(question => {
+    const paperKey = `paper-${question.paper_id ?? 'none'}`;
+    const paper = addToGroup(papers, paperKey, 'paper',
+      templateRank(template, s => sameId(s.paper_id, question.paper_id)), question);
+    if (question.paper_id == null || question.section_id == null) return;
+
+    const sectionKey = `${paperKey}/section-${question.section_id}`;
+    const section = addToGroup(paper.children, sectionKey, 'section',
+      templateRank(template, s => sameId(s.paper_id, question.paper_id) && sameId(s.section_id, question.section_id)),
+      question);
+    if (question.subsection_id == null) return;
+
+    addToGroup(section.children, `${sectionKey}/subsection-${question.subsection_id}`, 'subsection',
+      templateRank(template, s => sameId(s.section_id, question.section_id) && sameId(s.subsection_id, question.subsection_id)),
+      question);
+  });
+
+  const rows: BreakdownRow[] = [];
+  const visit = (groups: BreakdownGroup[]) => byRank(groups).forEach(group => {
+    rows.push(toRow(group, result));
+    visit(group.children);
+  });
+  visit(papers);
+  return rows;
+};
+
+/**
+ * Time spent on a group, or a dash when it was not recorded
+ */
+export const formatBreakdownTime = (seconds: number | null): string =>
+  seconds === null ? '-' : formatTimeDisplay(Math.round(seconds));
+
+/**
+ * Cells of a row in the order of BREAKDOWN_COLUMNS, shared by the results
+ * screen and the PDF export
+ */
+export const breakdownTableCells = (row: BreakdownRow): string[] => [
+  row.label,
+  `${row.attempted}/${row.total}`,
+  String(row.correct),
+  String(row.wrong),
+  String(row.skipped),
+  `${row.accuracy}%`,
+  formatBreakdownTime(row.timeSeconds),
+  `${row.marksObtained} / ${row.maxMarks}`,
+];
@@ -0,0 +1,196 @@
+/**
+ * Scoring Utilities
+ *
+ * Applies a test's scoring scheme (marks per correct answer, negative marking
+ * for wrong answers and optional section or difficulty weights) so every
+ * screen that shows a score computes it the same way.
+ */
+import { DifficultyLevel, ScoringScheme } from '../types';
+import { hasResponse, normalizeQuestionType } from './questionTypes';
+
+// One mark per correct answer and no negative marking
+export const DEFAULT_SCORING_SCHEME: ScoringScheme = {
+  marks_per_correct: 1,
+  penalty_per_wrong: 0,
+  marks_per_unattempted: 0,
+};
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['Easy', 'Medium', 'Hard'];
+
+export type AnswerOutcome = 'correct' | 'wrong' | 'unattempted';
+
+export interface ScorableQuestion {
+  is_correct: boolean;
+  question_type?: string;
+  selected_option_index?: number | string | null;
+  selected_option_indices?: Array<number | string> | null;
+  answer_text?: string | null;
+  paper_id?: number | string;
+  difficulty_level?: string | number;
+}
+
+export interface ScoreSummary {
+  total: number;
+  correct: number;
+  wrong: number;
+  unattempted: number;
+  marksObtained: number;
+  maxMarks: number;
+  negativeMarks: number;  // Total deducted for wrong answers, as a positive number
+  percentage: number;     // marksObtained / maxMarks, may be negative with negative marking
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && isFinite(parsed) ? parsed : fallback;
+};
+
+// Round away floating point noise from fractional marks such as 0.25
+const roundMarks = (marks: number): number => Math.round(marks * 100) / 100;
+
+/**
+ * Normalize a scoring scheme from the API, falling back to the default scheme
+ */
+export const resolveScoringScheme = (raw: any): ScoringScheme => {
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_SCORING_SCHEME;
+  }
+
+  return {
+    marks_per_correct: toNumber(raw.marks_per_correct, DEFAULT_SCORING_SCHEME.marks_per_correct),
+    // Accept penalties given as negative numbers too
+    penalty_per_wrong: Math.abs(toNumber(raw.penalty_per_wrong, DEFAULT_SCORING_SCHEME.penalty_per_wrong)),
+    marks_per_unattempted: toNumber(raw.marks_per_unattempted, DEFAULT_SCORING_SCHEME.marks_per_unattempted),
+    ...(raw.section_weights && typeof raw.section_weights === 'object'
+      ? { section_weights: raw.section_weights }
+      : {}),
+    ...(raw.difficulty_weights && typeof raw.difficulty_weights === 'object'
+      ? { difficulty_weights: raw.difficulty_weights }
+      : {}),
+  };
+};
+
+const normalizeDifficulty = (level?: string | number): DifficultyLevel | null => {
+  if (level === undefined || level === null) return null;
+  const text = String(level).toLowerCase();
+  return DIFFICULTY_LEVELS.find(d => d.toLowerCase() === text) || null;
+};
+
+/**
+ * Combined section and difficulty multiplier for a question
+ */
+export const getQuestionWeight = (question: ScorableQuestion, scheme: ScoringScheme): number => {
+  let weight = 1;
+
+  if (scheme.section_weights && question.paper_id !== undefined) {
+    weight *= toNumber(scheme.section_weights[String(question.paper_id)], 1);
+  }
+
+  const difficulty = normalizeDifficulty(question.difficulty_level);
+  if (scheme.difficulty_weights && difficulty) {
+    weight *= toNumber(scheme.difficulty_weights[difficulty], 1);
+  }
+
+  return weight;
+};
+
+export const getAnswerOutcome = (question: ScorableQuestion): AnswerOutcome => {
+  if (!hasResponse(normalizeQuestionType(question.question_type), question)) {
+    return 'unattempted';
+  }
+  return question.is_correct ? 'correct' : 'wrong';
+};
+
+/**
+ * Marks awarded for a single question, negative for a penalized wrong answer
+ */
+export const getQuestionMarks = (question: ScorableQuestion, scheme: ScoringScheme): number => {
+  const weight = getQuestionWeight(question, scheme);
+  switch (getAnswerOutcome(question)) {
+    case 'correct':
+      return scheme.marks_per_correct * weight;
+    case 'wrong':
+      return -scheme.penalty_per_wrong * weight;
+    default:
+      return scheme.marks_per_unattempted * weight;
+  }
+};
+
+/**
+ * Score a set of questions under a scoring scheme
+ */
+export const computeScoreSummary = (
+  questions: ScorableQuestion[],
+  scheme: ScoringScheme = DEFAULT_SCORING_SCHEME
+): ScoreSummary => {
+  const summary: ScoreSummary = {
+    total: questions.length,
+    correct: 0,
+    wrong: 0,
+    unattempted: 0,
+    marksObtained: 0,
+    maxMarks: 0,
+    negativeMarks: 0,
+    percentage: 0,
+  };
+
+  questions.forEach(question => {
+    const outcome = getAnswerOutcome(question);
+    const marks = getQuestionMarks(question, scheme);
+
+    summary[outcome] += 1;
+    summary.marksObtained += marks;
+    summary.maxMarks += scheme.marks_per_correct * getQuestionWeight(question, scheme);
+    if (marks < 0) {
+      summary.negativeMarks -= marks;
+    }
+  });
+
+  summary.marksObtained = roundMarks(summary.marksObtained);
+  summary.maxMarks = roundMarks(summary.maxMarks);
+  summary.negativeMarks = roundMarks(summary.negativeMarks);
+  summary.percentage = summary.maxMarks > 0
+    ? Math.round((summary.marksObtained / summary.maxMarks) * 10000) / 100
+    : 0;
+
+  return summary;
+};
+
+/**
+ * Human-readable rules of a scoring scheme, for instructions and reports
+ */
+export const describeScoringScheme = (
+  scheme: ScoringScheme,
+  sectionNames: Record<string, string> = {}
+): string[] => {
+  const plural = (value: number) => `${value} mark${value === 1 ? '' : 's'}`;
+  const lines = [`Correct answer: +${plural(scheme.marks_per_correct)}`];
+
+  lines.push(scheme.penalty_per_wrong > 0
+    ? `Wrong answer: -${plural(scheme.penalty_per_wrong)}`
+    : 'Wrong answer: no negative marking');
+
+  lines.push(scheme.marks_per_unattempted !== 0
+    ? `Unattempted: ${plural(scheme.marks_per_unattempted)}`
+    : 'Unattempted: 0 marks');
+
+  if (scheme.difficulty_weights) {
+    const weights = DIFFICULTY_LEVELS
+      .filter(level => scheme.difficulty_weights?.[level] !== undefined && scheme.difficulty_weights?.[level] !== 1)
+      .map(level => `${level} x${scheme.difficulty_weights?.[level]}`);
+    if (weights.length > 0) {
+      lines.push(`Difficulty weights: ${weights.join(', ')}`);
+    }
+  }
+
+  if (scheme.section_weights) {
+    const weights = Object.entries(scheme.section_weights)
+      .filter(([, weight]) => weight !== 1)
+      .map(([id, weight]) => `${sectionNames[id] || `Section ${id}`} x${weight}`);
+    if (weights.length > 0) {
+      lines.push(`Section weights: ${weights.join(', ')}`);
+    }
+  }
+
+  return lines;
+};
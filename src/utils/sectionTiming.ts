@@ -0,0 +1,111 @@
+/**
+ * Section Timing Utilities
+ *
+ * Helpers for mock tests with section-wise time limits. Questions are grouped
+ * into contiguous blocks in section order, each block gets its own countdown
+ * and a section is locked once the candidate moves past it or its time ends.
+ */
+import { TimedSection } from '../types';
+
+// Storage key prefix
+const SECTIONS_KEY_PREFIX = 'section_timing_';
+
+export interface SectionRange {
+  paperId: number;
+  name: string;
+  durationSeconds: number;
+  startIndex: number; // Inclusive
+  endIndex: number;   // Exclusive
+}
+
+interface SectionedQuestion {
+  paper_id?: number;
+}
+
+/**
+ * Sort sections by their configured order
+ */
+export const sortSections = (sections: TimedSection[]): TimedSection[] =>
+  [...sections].sort((a, b) => a.section_order - b.section_order);
+
+/**
+ * Reorder questions so each section forms a contiguous block, in section order.
+ * Questions whose paper is not part of any section are kept in the last section.
+ */
+export const groupQuestionsBySection = <T extends SectionedQuestion>(
+  questions: T[],
+  sections: TimedSection[]
+): { questions: T[]; ranges: SectionRange[] } => {
+  const ordered = sortSections(sections);
+  if (ordered.length === 0) {
+    return { questions, ranges: [] };
+  }
+
+  const buckets: T[][] = ordered.map(() => []);
+  questions.forEach(question => {
+    const bucketIndex = ordered.findIndex(section => section.paper_id === question.paper_id);
+    buckets[bucketIndex >= 0 ? bucketIndex : buckets.length - 1].push(question);
+  });
+
+  const ranges: SectionRange[] = [];
+  let startIndex = 0;
+  ordered.forEach((section, index) => {
+    ranges.push({
+      paperId: section.paper_id,
+      name: section.section_name,
+      durationSeconds: section.duration_minutes * 60,
+      startIndex,
+      endIndex: startIndex + buckets[index].length
+    });
+    startIndex += buckets[index].length;
+  });
+
+  return { questions: buckets.flat(), ranges };
+};
+
+/**
+ * Index of the section containing a question, or -1 if none does
+ */
+export const getSectionIndexForQuestion = (ranges: SectionRange[], questionIndex: number): number =>
+  ranges.findIndex(range => questionIndex >= range.startIndex && questionIndex < range.endIndex);
+
+/**
+ * First section at or after fromIndex that actually has questions
+ */
+export const getNextNonEmptySection = (ranges: SectionRange[], fromIndex: number): number => {
+  for (let i = fromIndex; i < ranges.length; i++) {
+    if (ranges[i].endIndex > ranges[i].startIndex) return i;
+  }
+  return -1;
+};
+
+/**
+ * Seconds left in a section that started at startedAt (epoch ms)
+ */
+export const getSectionRemainingSeconds = (
+  startedAt: number,
+  durationSeconds: number,
+  now: number = Date.now()
+): number => Math.max(0, Math.ceil((startedAt + durationSeconds * 1000 - now) / 1000));
+
+/**
+ * Persist the timed sections of an attempt so they survive a resume
+ */
+export const saveTimedSections = (attemptId: number, sections: TimedSection[]) => {
+  localStorage.setItem(`${SECTIONS_KEY_PREFIX}${attemptId}`, JSON.stringify(sections));
+};
+
+export const loadTimedSections = (attemptId: number): TimedSection[] | null => {
+  try {
+    const raw = localStorage.getItem(`${SECTIONS_KEY_PREFIX}${attemptId}`);
+    const sections = raw ? JSON.parse(raw) : null;
+    return Array.isArray(sections) && sections.length > 0 ? sections : null;
+  } catch (error) {
+    console.error('[SectionTiming] Error reading timed sections:', error);
+    return null;
+  }
+};
+
+export const clearTimedSections = (attemptId: number) => {
+  localStorage.removeItem(`${SECTIONS_KEY_PREFIX}${attemptId}`);
+};